@@ -0,0 +1,21 @@
+-- Patient reminders, planned when an appointment is booked or moved and sent by a background
+-- dispatcher. Rows survive restarts; a reminder is claimed before it is sent, so it goes out at most once.
+create table if not exists appointment_reminders (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references appointments (id) on delete cascade,
+  offset_minutes integer not null, -- how long before the appointment the reminder goes out
+  appointment_start_at timestamptz not null, -- the start time the reminder was planned for
+  due_at timestamptz not null,
+  status text not null default 'pending', -- pending, sending, sent, skipped, failed, cancelled
+  sent_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint appointment_reminders_offset check (offset_minutes > 0),
+  constraint appointment_reminders_status check (status in ('pending', 'sending', 'sent', 'skipped', 'failed', 'cancelled')),
+  -- Moving an appointment back to a time it was already reminded about doesn't remind again
+  constraint appointment_reminders_once unique (appointment_id, offset_minutes, appointment_start_at)
+);
+
+create index if not exists idx_appointment_reminders_due
+  on appointment_reminders (due_at) where status = 'pending';
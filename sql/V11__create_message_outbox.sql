@@ -0,0 +1,29 @@
+-- Outbound patient messages (email and SMS). A message about an appointment change is written in the
+-- same transaction as the change, so it is neither queued for a change that was rolled back nor lost
+-- when the process stops after the change is saved. A background worker delivers it, retrying with
+-- exponential backoff, at least once: a send whose outcome can't be recorded is sent again. A message
+-- that keeps failing is parked as dead until staff re-drive it.
+create table if not exists message_outbox (
+  id uuid primary key default gen_random_uuid(),
+  channel text not null, -- email, sms
+  recipient text not null,
+  subject text not null,
+  body text not null,
+  event_type text not null, -- confirmation, reschedule, cancellation, reminder, ...
+  appointment_id uuid references appointments (id) on delete set null,
+  waitlist_entry_id uuid references waitlist_entries (id) on delete set null,
+  status text not null default 'pending', -- pending, sent, dead
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint message_outbox_channel check (channel in ('email', 'sms')),
+  constraint message_outbox_status check (status in ('pending', 'sent', 'dead'))
+);
+
+create index if not exists idx_message_outbox_due
+  on message_outbox (next_attempt_at) where status = 'pending';
+create index if not exists idx_message_outbox_appointment on message_outbox (appointment_id);
+create index if not exists idx_message_outbox_status on message_outbox (status, created_at);
@@ -0,0 +1,24 @@
+-- One row per attempt to hand a patient message to a transport. The transport's answer is kept
+-- as is, and delivery receipts from the provider later move the status on to delivered or undelivered.
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  outbox_message_id uuid references message_outbox (id) on delete set null,
+  appointment_id uuid references appointments (id) on delete set null,
+  waitlist_entry_id uuid references waitlist_entries (id) on delete set null,
+  channel text not null, -- email, sms
+  recipient text not null,
+  template text not null, -- confirmation, reschedule, cancellation, reminder, ...
+  transport text not null, -- smtp, http-sms, zapier, file, console
+  status text not null, -- sent, failed, delivered, undelivered
+  provider_message_id text,
+  provider_response jsonb,
+  error text,
+  status_updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now(), -- when the attempt was made
+  constraint messages_channel check (channel in ('email', 'sms')),
+  constraint messages_status check (status in ('sent', 'failed', 'delivered', 'undelivered'))
+);
+
+create index if not exists idx_messages_appointment on messages (appointment_id, created_at);
+create index if not exists idx_messages_provider_message on messages (channel, provider_message_id)
+  where provider_message_id is not null;
@@ -0,0 +1,12 @@
+-- Language each patient wants to be contacted in. Patients without one get the clinic default (DEFAULT_LANGUAGE).
+alter table patients add column if not exists preferred_language text;
+alter table patients drop constraint if exists patients_preferred_language;
+alter table patients add constraint patients_preferred_language check (preferred_language in ('en', 'fr', 'es'));
+
+-- Which template resource a message was rendered from, e.g. language 'fr', version 1.
+-- Rows written before templates were versioned leave both empty.
+alter table message_outbox add column if not exists language text;
+alter table message_outbox add column if not exists template_version integer;
+
+alter table messages add column if not exists language text;
+alter table messages add column if not exists template_version integer;
@@ -0,0 +1,4 @@
+-- Emails now carry an HTML body and, for single appointments, an iCalendar invite
+-- ({ "method": "REQUEST" | "CANCEL", "filename": ..., "content": ... }). body stays the plain-text version.
+alter table message_outbox add column if not exists html text;
+alter table message_outbox add column if not exists calendar_invite jsonb;
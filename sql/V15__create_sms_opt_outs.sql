@@ -0,0 +1,6 @@
+-- Phone numbers that replied STOP to a text. Nothing more is texted to them until they reply START.
+create table if not exists sms_opt_outs (
+  phone_number text primary key, -- E.164, as texts are addressed
+  keyword text not null, -- the reply that opted out, e.g. STOP or UNSUBSCRIBE
+  opted_out_at timestamptz not null default now()
+);
@@ -0,0 +1,28 @@
+-- How each patient wants to be contacted. Patients without a row get every message on every channel they have.
+create table if not exists communication_preferences (
+  patient_id uuid primary key references patients (id) on delete cascade,
+  preferred_channel text, -- used alone while the patient accepts it
+  quiet_hours_start time, -- clinic-local window in which nothing is sent; may cross midnight
+  quiet_hours_end time,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint communication_preferences_channel check (preferred_channel in ('email', 'sms')),
+  constraint communication_preferences_quiet_hours check ((quiet_hours_start is null) = (quiet_hours_end is null))
+);
+
+-- Every opt-in and opt-out, kept as a history. The latest row for a channel and category
+-- (or for the whole channel, when category is null) is the one in force.
+create table if not exists communication_consents (
+  id uuid primary key default gen_random_uuid(),
+  patient_id uuid not null references patients (id) on delete cascade,
+  channel text not null,
+  category text, -- appointment_updates, reminders or waitlist_offers; null for every category
+  granted boolean not null,
+  source text not null, -- voice_agent or staff
+  source_reference text, -- e.g. the Retell call ID
+  recorded_at timestamptz not null default now(),
+  constraint communication_consents_channel check (channel in ('email', 'sms')),
+  constraint communication_consents_category check (category in ('appointment_updates', 'reminders', 'waitlist_offers'))
+);
+
+create index if not exists idx_communication_consents_patient on communication_consents (patient_id, recorded_at);
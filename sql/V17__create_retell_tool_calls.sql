@@ -0,0 +1,17 @@
+-- Retell tool calls already handled, so retried calls get the original response instead of running twice.
+-- A row is claimed before the function runs and completed with the response it sent.
+create table if not exists retell_tool_calls (
+  call_id text not null,
+  function_name text not null,
+  args_hash text not null, -- SHA-256 of the arguments, with object keys sorted
+  status text not null default 'in_progress',
+  response_status integer,
+  response_body jsonb,
+  claimed_at timestamptz not null default now(),
+  completed_at timestamptz,
+  primary key (call_id, function_name, args_hash),
+  constraint retell_tool_calls_status check (status in ('in_progress', 'completed')),
+  constraint retell_tool_calls_response check (status = 'in_progress' or response_status is not null)
+);
+
+create index if not exists idx_retell_tool_calls_claimed_at on retell_tool_calls (claimed_at);
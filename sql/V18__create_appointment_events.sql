@@ -0,0 +1,29 @@
+-- Every change made to an appointment, so staff can see who moved, changed or cancelled it and when.
+-- Rows are only ever added; before and after hold the changed fields' old and new values.
+create table if not exists appointment_events (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references appointments (id) on delete cascade,
+  event_type text not null,
+  before jsonb, -- null for created
+  after jsonb not null,
+  channel text not null, -- voice_agent, admin_api, self_service, sms_reply, waitlist_claim or system
+  actor_type text not null,
+  actor_id text, -- e.g. the Retell call ID or the API key's ID
+  created_at timestamptz not null default now(),
+  constraint appointment_events_type check (event_type in ('created', 'rescheduled', 'type_changed', 'status_changed', 'cancelled')),
+  constraint appointment_events_actor_type check (actor_type in ('retell_call', 'api_user', 'patient', 'system'))
+);
+
+create index if not exists idx_appointment_events_appointment on appointment_events (appointment_id, created_at);
+
+-- History is not rewritten. Rows only go away with their appointment, e.g. when a failed booking is rolled back.
+create or replace function reject_appointment_event_update() returns trigger as $$
+begin
+  raise exception 'appointment_events rows cannot be changed';
+end;
+$$ language plpgsql;
+
+drop trigger if exists appointment_events_append_only on appointment_events;
+create trigger appointment_events_append_only
+  before update on appointment_events
+  for each row execute function reject_appointment_event_update();
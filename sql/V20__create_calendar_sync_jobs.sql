@@ -0,0 +1,31 @@
+-- Google Calendar changes for saved appointment changes. The app saves the appointment, then records
+-- a job that brings its calendar event in line; jobs that fail are retried with exponential backoff
+-- by a background worker, so the database and the calendar can't stay apart after a failed call.
+-- A change made while an earlier one is still waiting folds into the same job (and bumps its revision).
+create table if not exists calendar_sync_jobs (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references appointments (id) on delete cascade,
+  action text not null, -- create, update or delete: what the latest change called for
+  status text not null default 'pending', -- pending, done, failed
+  revision integer not null default 1,
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint calendar_sync_jobs_action check (action in ('create', 'update', 'delete')),
+  constraint calendar_sync_jobs_status check (status in ('pending', 'done', 'failed'))
+);
+
+create unique index if not exists calendar_sync_jobs_one_pending
+  on calendar_sync_jobs (appointment_id) where status = 'pending';
+create index if not exists idx_calendar_sync_jobs_due
+  on calendar_sync_jobs (next_attempt_at) where status = 'pending';
+
+-- Whether the appointment's calendar event reflects its latest change. Appointments from before
+-- calendar sync jobs count as synced.
+alter table appointments add column if not exists calendar_sync_state text not null default 'synced';
+alter table appointments drop constraint if exists appointments_calendar_sync_state;
+alter table appointments add constraint appointments_calendar_sync_state
+  check (calendar_sync_state in ('pending', 'synced', 'failed'));
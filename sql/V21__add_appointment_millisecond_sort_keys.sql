@@ -0,0 +1,11 @@
+-- Copies of the columns search pages on, truncated to the millisecond precision of its cursors.
+-- Cursors carry JavaScript dates, so comparing them with the stored microseconds puts rows between
+-- a cursor and the row it was taken from. Clients that can only filter on plain columns, like the
+-- Supabase REST API, sort and compare on these instead. Truncated in UTC so the expression is immutable.
+alter table appointments add column if not exists start_at_ms timestamptz
+  generated always as (date_trunc('milliseconds', start_at at time zone 'UTC') at time zone 'UTC') stored;
+alter table appointments add column if not exists created_at_ms timestamptz
+  generated always as (date_trunc('milliseconds', created_at at time zone 'UTC') at time zone 'UTC') stored;
+
+create index if not exists idx_appointments_start_at_ms on appointments (start_at_ms, id);
+create index if not exists idx_appointments_created_at_ms on appointments (created_at_ms, id);
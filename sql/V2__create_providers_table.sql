@@ -0,0 +1,22 @@
+create table if not exists providers (
+  id uuid primary key default gen_random_uuid(),
+  first_name varchar(150) not null,
+  last_name varchar(150) not null,
+  title text,
+  email text,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index if not exists idx_providers_active on providers (active);
+
+alter table appointments add column if not exists provider_id uuid references providers (id);
+
+-- Slots are now unique per provider rather than clinic-wide. Appointments without a
+-- provider (booked before providers existed) still share a single clinic-wide slot.
+alter table appointments drop constraint if exists appointments_unique_slot;
+create unique index if not exists appointments_unique_provider_slot
+  on appointments (coalesce(provider_id, '00000000-0000-0000-0000-000000000000'::uuid), start_at, end_at);
+
+create index if not exists idx_appointments_provider_time_range on appointments (provider_id, start_at, end_at);
@@ -0,0 +1,29 @@
+create table if not exists locations (
+  id uuid primary key default gen_random_uuid(),
+  name varchar(150) not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+alter table providers add column if not exists location_id uuid references locations (id);
+
+-- Weekly opening hours. Several rows for the same day describe split shifts or a lunch break.
+-- Rows with neither location_id nor provider_id are the clinic-wide defaults.
+create table if not exists business_hours (
+  id uuid primary key default gen_random_uuid(),
+  location_id uuid references locations (id) on delete cascade,
+  provider_id uuid references providers (id) on delete cascade,
+  day_of_week smallint not null, -- 0 = Sunday ... 6 = Saturday
+  opens_at time not null,
+  closes_at time not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint business_hours_day_of_week check (day_of_week between 0 and 6),
+  constraint business_hours_time_range check (closes_at > opens_at),
+  constraint business_hours_single_owner check (location_id is null or provider_id is null)
+);
+
+create index if not exists idx_business_hours_location on business_hours (location_id, day_of_week);
+create index if not exists idx_business_hours_provider on business_hours (provider_id, day_of_week);
+create index if not exists idx_providers_location on providers (location_id);
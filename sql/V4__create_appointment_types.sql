@@ -0,0 +1,43 @@
+create table if not exists appointment_types (
+  code text primary key,
+  name varchar(150) not null,
+  default_duration_minutes integer not null,
+  allowed_durations_minutes integer[] not null default '{}', -- empty means only the default duration
+  buffer_before_minutes integer not null default 0,
+  buffer_after_minutes integer not null default 0,
+  min_lead_time_minutes integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint appointment_types_duration check (default_duration_minutes > 0),
+  constraint appointment_types_buffers check (buffer_before_minutes >= 0 and buffer_after_minutes >= 0),
+  constraint appointment_types_lead_time check (min_lead_time_minutes >= 0)
+);
+
+-- Providers qualified to perform a type. A type without rows here can be booked with any provider.
+create table if not exists appointment_type_providers (
+  appointment_type_code text not null references appointment_types (code) on delete cascade,
+  provider_id uuid not null references providers (id) on delete cascade,
+  primary key (appointment_type_code, provider_id)
+);
+
+create index if not exists idx_appointment_type_providers_provider on appointment_type_providers (provider_id);
+
+insert into appointment_types (code, name, default_duration_minutes, allowed_durations_minutes, buffer_before_minutes, buffer_after_minutes, min_lead_time_minutes)
+values
+  ('consultation', 'Consultation', 30, '{30,60}', 0, 0, 60),
+  ('follow_up', 'Follow-up', 30, '{15,30}', 0, 0, 60),
+  ('check_up', 'Check-up', 30, '{30}', 0, 0, 60),
+  ('emergency', 'Emergency', 30, '{30,60}', 0, 0, 0),
+  ('vaccination', 'Vaccination', 15, '{15}', 0, 5, 60),
+  ('screening', 'Screening', 30, '{30,45}', 0, 0, 60),
+  ('therapy', 'Therapy', 60, '{45,60,90}', 0, 10, 120),
+  ('surgery', 'Surgery', 120, '{60,90,120,180,240}', 15, 30, 1440),
+  ('diagnostic', 'Diagnostic', 45, '{30,45,60}', 0, 10, 120),
+  ('preventive', 'Preventive care', 30, '{30}', 0, 0, 60),
+  ('specialist', 'Specialist visit', 45, '{30,45,60}', 0, 0, 1440),
+  ('routine', 'Routine visit', 30, '{15,30}', 0, 0, 60)
+on conflict (code) do nothing;
+
+alter table appointments drop constraint if exists appointments_type_fkey;
+alter table appointments add constraint appointments_type_fkey foreign key (type) references appointment_types (code);
@@ -0,0 +1,3 @@
+-- IANA time zone for each location, e.g. 'America/Toronto'.
+-- Locations without one use the clinic time zone from CLINIC_TIMEZONE.
+alter table locations add column if not exists time_zone text;
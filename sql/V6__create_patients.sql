@@ -0,0 +1,33 @@
+create table if not exists patients (
+  id uuid primary key default gen_random_uuid(),
+  first_name varchar(150) not null,
+  last_name varchar(150) not null,
+  email text,
+  phone_number text,
+  merged_into_id uuid references patients (id), -- set once this duplicate has been merged into another record
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint patients_contact_required check (email is not null or phone_number is not null),
+  constraint patients_not_merged_into_self check (merged_into_id is null or merged_into_id <> id)
+);
+
+create index if not exists idx_patients_email on patients (lower(email)) where merged_into_id is null;
+create index if not exists idx_patients_phone_number on patients (phone_number) where merged_into_id is null;
+
+alter table appointments add column if not exists patient_id uuid references patients (id);
+create index if not exists idx_appointments_patient on appointments (patient_id);
+
+-- Backfill: one patient per distinct email (or phone number when there is no email),
+-- named after their most recent booking
+insert into patients (first_name, last_name, email, phone_number, created_at)
+select distinct on (coalesce(lower(email), phone_number))
+  first_name, last_name, email, phone_number, created_at
+from appointments
+where patient_id is null
+order by coalesce(lower(email), phone_number), created_at desc;
+
+update appointments a
+set patient_id = p.id
+from patients p
+where a.patient_id is null
+  and coalesce(lower(a.email), a.phone_number) = coalesce(lower(p.email), p.phone_number);
@@ -0,0 +1,35 @@
+-- Canonical contact details: lowercase emails and E.164 phone numbers.
+-- The application normalizes with DEFAULT_PHONE_COUNTRY; this backfill handles the North American
+-- numbers we have on file (10 digits, or 11 starting with 1) and only strips formatting from
+-- numbers that already carry a + prefix. Anything else is left for manual review.
+create or replace function pg_temp.normalize_phone(phone text) returns text as $$
+  select case
+    when phone is null then null
+    when btrim(phone) like '+%' then '+' || regexp_replace(phone, '\D', '', 'g')
+    when length(regexp_replace(phone, '\D', '', 'g')) = 10 then '+1' || regexp_replace(phone, '\D', '', 'g')
+    when length(regexp_replace(phone, '\D', '', 'g')) = 11 and regexp_replace(phone, '\D', '', 'g') like '1%'
+      then '+' || regexp_replace(phone, '\D', '', 'g')
+    else btrim(phone)
+  end
+$$ language sql immutable;
+
+update appointments
+set email = lower(btrim(email))
+where email is distinct from lower(btrim(email));
+
+update appointments
+set phone_number = pg_temp.normalize_phone(phone_number)
+where phone_number is distinct from pg_temp.normalize_phone(phone_number);
+
+update patients
+set email = lower(btrim(email)), updated_at = now()
+where email is distinct from lower(btrim(email));
+
+update patients
+set phone_number = pg_temp.normalize_phone(phone_number), updated_at = now()
+where phone_number is distinct from pg_temp.normalize_phone(phone_number);
+
+-- Emails are stored lowercase now, so lookups compare them directly
+drop index if exists idx_patients_email;
+create index if not exists idx_patients_email on patients (email) where merged_into_id is null;
+create index if not exists idx_appointments_phone_number on appointments (phone_number);
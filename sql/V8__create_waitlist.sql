@@ -0,0 +1,32 @@
+-- Patients waiting for an earlier or specific slot. When a booking is cancelled or moved,
+-- the freed slot is offered to the longest-waiting eligible entry for a limited time.
+create table if not exists waitlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  patient_id uuid references patients (id),
+  first_name varchar(150) not null,
+  last_name varchar(150) not null,
+  email text,
+  phone_number text,
+  type text not null references appointment_types (code),
+  provider_id uuid references providers (id), -- null: any provider
+  earliest_at timestamptz not null,
+  latest_at timestamptz not null,
+  status text not null default 'waiting', -- waiting, offered, booked, cancelled
+  offer_token text unique,
+  offered_start_at timestamptz,
+  offered_end_at timestamptz,
+  offered_provider_id uuid references providers (id),
+  offer_expires_at timestamptz,
+  appointment_id uuid references appointments (id), -- set once an offer is claimed
+  call_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint waitlist_entries_window check (latest_at > earliest_at),
+  constraint waitlist_entries_contact_required check (email is not null or phone_number is not null),
+  constraint waitlist_entries_status check (status in ('waiting', 'offered', 'booked', 'cancelled'))
+);
+
+create index if not exists idx_waitlist_entries_waiting
+  on waitlist_entries (type, earliest_at, latest_at, created_at) where status = 'waiting';
+create index if not exists idx_waitlist_entries_offer_expiry
+  on waitlist_entries (offer_expires_at) where status = 'offered';
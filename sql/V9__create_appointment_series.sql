@@ -0,0 +1,32 @@
+-- Recurring appointments. Each occurrence is an ordinary appointments row linked to its series,
+-- so conflicts, reschedules and cancellations work per occurrence.
+create table if not exists appointment_series (
+  id uuid primary key default gen_random_uuid(),
+  patient_id uuid references patients (id),
+  first_name varchar(150) not null,
+  last_name varchar(150) not null,
+  email text,
+  phone_number text,
+  type text not null references appointment_types (code),
+  provider_id uuid references providers (id),
+  start_at timestamptz not null, -- first occurrence; later ones keep its local wall-clock time
+  duration_minutes integer not null,
+  time_zone text not null,
+  frequency text not null, -- daily, weekly, monthly
+  interval_count integer not null default 1, -- every n days/weeks/months
+  occurrence_count integer,
+  until_at timestamptz,
+  exceptions date[] not null default '{}', -- local dates skipped or cancelled individually
+  status text not null default 'active', -- active, cancelled
+  call_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint appointment_series_contact_required check (email is not null or phone_number is not null),
+  constraint appointment_series_frequency check (frequency in ('daily', 'weekly', 'monthly')),
+  constraint appointment_series_interval check (interval_count >= 1),
+  constraint appointment_series_bounded check (occurrence_count is not null or until_at is not null),
+  constraint appointment_series_status check (status in ('active', 'cancelled'))
+);
+
+alter table appointments add column if not exists series_id uuid references appointment_series (id);
+create index if not exists idx_appointments_series on appointments (series_id, start_at) where series_id is not null;
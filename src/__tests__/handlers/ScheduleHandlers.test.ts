@@ -1,7 +1,23 @@
 import { ScheduleHandlers } from '../../handlers/ScheduleHandlers';
 import { IAppointmentService } from '../../services/interfaces/IAppointmentService';
 import { ICalendarService } from '../../services/interfaces/ICalendarService';
-import { BusySlot } from '../../types/schedule';
+import { IAvailabilityService } from '../../services/interfaces/IAvailabilityService';
+import { IWaitlistService } from '../../services/interfaces/IWaitlistService';
+import { ICommunicationPreferencesService } from '../../services/interfaces/ICommunicationPreferencesService';
+import { IToolCallService } from '../../services/interfaces/IToolCallService';
+import { IAppointmentHistoryService } from '../../services/interfaces/IAppointmentHistoryService';
+import { AppointmentEventEntity } from '../../models/AppointmentEventEntity';
+import { ActorType, AppointmentEventType, ChangeChannel } from '../../types/appointmentEvent';
+import { CommunicationPreferencesEntity } from '../../models/CommunicationPreferencesEntity';
+import { PatientEntity } from '../../models/PatientEntity';
+import { ConsentSource, MessageCategory } from '../../types/preferences';
+import { WaitlistEntryEntity } from '../../models/WaitlistEntryEntity';
+import { WaitlistStatus } from '../../types/waitlist';
+import { BusySlot, AppointmentType, AppointmentStatus } from '../../types/schedule';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { AppointmentSeriesEntity } from '../../models/AppointmentSeriesEntity';
+import { RecurrenceFrequency, SeriesStatus } from '../../types/series';
+import { AppointmentCancellationError, NotFoundError } from '../../types/errors';
 
 // Mock FastifyReply
 const mockReply = {
@@ -14,21 +30,59 @@ const mockAppointmentService: jest.Mocked<IAppointmentService> = {
   createAppointment: jest.fn(),
   editAppointment: jest.fn(),
   cancelAppointment: jest.fn(),
-  getActiveAppointmentsByEmailOrPhone: jest.fn()
+  confirmAppointment: jest.fn(),
+  claimWaitlistOffer: jest.fn(),
+  createSeries: jest.fn(),
+  getSeries: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  getAppointment: jest.fn(),
+  searchAppointments: jest.fn(),
+  getActiveProviders: jest.fn()
 };
 
 const mockCalendarService: jest.Mocked<ICalendarService> = {
   getBookedSlotsForDate: jest.fn(),
+  getBusySlots: jest.fn(),
   createCalendarEvent: jest.fn(),
   updateCalendarEvent: jest.fn(),
+  upsertCalendarEvent: jest.fn(),
   deleteCalendarEvent: jest.fn()
 };
 
+const mockAvailabilityService: jest.Mocked<IAvailabilityService> = {
+  findAvailableSlots: jest.fn()
+};
+
+const mockWaitlistService: jest.Mocked<IWaitlistService> = {
+  joinWaitlist: jest.fn(),
+  listEntries: jest.fn(),
+  leaveWaitlist: jest.fn(),
+  offerFreedSlot: jest.fn(),
+  getClaimableOffer: jest.fn(),
+  completeClaim: jest.fn(),
+  releaseOffer: jest.fn(),
+  expireOffers: jest.fn()
+};
+
+const mockPreferencesService: jest.Mocked<ICommunicationPreferencesService> = {
+  getPreferences: jest.fn(),
+  updatePreferences: jest.fn(),
+  updatePreferencesByContact: jest.fn()
+};
+
+const mockToolCallService: jest.Mocked<IToolCallService> = {
+  execute: jest.fn()
+};
+
+const mockHistoryService: jest.Mocked<IAppointmentHistoryService> = {
+  getAppointmentEvents: jest.fn()
+};
+
 describe('ScheduleHandlers', () => {
   let scheduleHandlers: ScheduleHandlers;
 
   beforeEach(() => {
-    scheduleHandlers = new ScheduleHandlers(mockAppointmentService, mockCalendarService);
+    scheduleHandlers = new ScheduleHandlers(mockAppointmentService, mockCalendarService, mockAvailabilityService);
     jest.clearAllMocks();
     mockReply.code.mockReturnThis();
     mockReply.send.mockReturnThis();
@@ -66,10 +120,10 @@ describe('ScheduleHandlers', () => {
       };
       const call = {};
 
-      await (scheduleHandlers as any).handleCheckBookedSlots(call, args, mockReply);
+      const result = await (scheduleHandlers as any).handleCheckBookedSlots(call, args);
 
       expect(mockCalendarService.getBookedSlotsForDate).toHaveBeenCalledWith(new Date('2025-09-21T14:00:00-07:00'));
-      expect(mockReply.send).toHaveBeenCalledWith({
+      expect(result).toEqual({
         success: "true",
         bookedSlots: sampleBookedSlots,
         available: false // Should be false because it falls within 21:00-22:00 UTC slot
@@ -82,9 +136,9 @@ describe('ScheduleHandlers', () => {
       };
       const call = {};
 
-      await (scheduleHandlers as any).handleCheckBookedSlots(call, args, mockReply);
+      const result = await (scheduleHandlers as any).handleCheckBookedSlots(call, args);
 
-      expect(mockReply.send).toHaveBeenCalledWith({
+      expect(result).toEqual({
         success: "true",
         bookedSlots: sampleBookedSlots,
         available: true
@@ -97,9 +151,9 @@ describe('ScheduleHandlers', () => {
       };
       const call = {};
 
-      await (scheduleHandlers as any).handleCheckBookedSlots(call, args, mockReply);
+      const result = await (scheduleHandlers as any).handleCheckBookedSlots(call, args);
 
-      expect(mockReply.send).toHaveBeenCalledWith({
+      expect(result).toEqual({
         success: "true",
         bookedSlots: sampleBookedSlots,
         available: false
@@ -112,9 +166,9 @@ describe('ScheduleHandlers', () => {
       };
       const call = {};
 
-      await (scheduleHandlers as any).handleCheckBookedSlots(call, args, mockReply);
+      const result = await (scheduleHandlers as any).handleCheckBookedSlots(call, args);
 
-      expect(mockReply.send).toHaveBeenCalledWith({
+      expect(result).toEqual({
         success: "true",
         bookedSlots: sampleBookedSlots,
         available: true // End time is exclusive, so this should be available
@@ -127,9 +181,9 @@ describe('ScheduleHandlers', () => {
       };
       const call = {};
 
-      await (scheduleHandlers as any).handleCheckBookedSlots(call, args, mockReply);
+      const result = await (scheduleHandlers as any).handleCheckBookedSlots(call, args);
 
-      expect(mockReply.send).toHaveBeenCalledWith({
+      expect(result).toEqual({
         success: "true",
         bookedSlots: sampleBookedSlots,
         available: false
@@ -142,10 +196,8 @@ describe('ScheduleHandlers', () => {
       };
       const call = {};
 
-      await (scheduleHandlers as any).handleCheckBookedSlots(call, args, mockReply);
-
-      expect(mockReply.code).toHaveBeenCalledWith(200);
-      expect(mockReply.send).toHaveBeenCalledWith({
+      const result = await (scheduleHandlers as any).handleCheckBookedSlots(call, args);
+      expect(result).toEqual({
         success: false,
         code: 'INVALID_DATE',
         message: 'Invalid date string: invalid-date'
@@ -156,14 +208,436 @@ describe('ScheduleHandlers', () => {
       const args = {};
       const call = {};
 
-      await (scheduleHandlers as any).handleCheckBookedSlots(call, args, mockReply);
-
-      expect(mockReply.code).toHaveBeenCalledWith(200);
-      expect(mockReply.send).toHaveBeenCalledWith({
+      const result = await (scheduleHandlers as any).handleCheckBookedSlots(call, args);
+      expect(result).toEqual({
         success: false,
         code: 'INVALID_DATE',
         message: 'dateStr is required and must be a valid date string'
       });
     });
   });
+
+  describe('handleFindAvailableSlots', () => {
+    it('should return concrete slots for a whole day when given a bare date', async () => {
+      mockAvailabilityService.findAvailableSlots.mockResolvedValue([
+        { startAt: new Date('2025-09-22T13:00:00.000Z'), endAt: new Date('2025-09-22T13:30:00.000Z'), providerId: 'provider-1', providerName: 'Dr. Anna Smith' }
+      ]);
+
+      const result = await (scheduleHandlers as any).handleFindAvailableSlots({}, {
+        startDate: '2025-09-22',
+        endDate: '2025-09-22',
+        type: 'consultation'
+      });
+
+      expect(mockAvailabilityService.findAvailableSlots).toHaveBeenCalledWith({
+        from: new Date('2025-09-22T00:00:00.000Z'),
+        to: new Date('2025-09-23T00:00:00.000Z'),
+        type: 'consultation',
+        providerId: undefined
+      });
+      expect(result).toEqual({
+        success: "true",
+        slots: [{
+          startAt: '2025-09-22T13:00:00.000Z',
+          endAt: '2025-09-22T13:30:00.000Z',
+          localStartAt: '2025-09-22T13:00:00+00:00',
+          localEndAt: '2025-09-22T13:30:00+00:00',
+          providerId: 'provider-1',
+          providerName: 'Dr. Anna Smith'
+        }],
+        count: 1,
+        message: 'Found 1 available consultation slot(s)'
+      });
+    });
+
+    it('should require an appointment type', async () => {
+      const result = await (scheduleHandlers as any).handleFindAvailableSlots({}, { startDate: '2025-09-22' });
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'INVALID_TYPE' }));
+      expect(mockAvailabilityService.findAvailableSlots).not.toHaveBeenCalled();
+    });
+
+    it('should leave checking the type to the catalogue, so types the clinic added can be found', async () => {
+      mockAvailabilityService.findAvailableSlots.mockResolvedValue([]);
+
+      await (scheduleHandlers as any).handleFindAvailableSlots({}, { startDate: '2025-09-22', type: 'allergy_test' });
+
+      expect(mockAvailabilityService.findAvailableSlots).toHaveBeenCalledWith(expect.objectContaining({ type: 'allergy_test' }));
+    });
+  });
+
+  describe('clinic time zone', () => {
+    beforeEach(() => {
+      scheduleHandlers = new ScheduleHandlers(mockAppointmentService, mockCalendarService, mockAvailabilityService, 'America/Toronto');
+    });
+
+    it('should search whole local days and report local slot times', async () => {
+      mockAvailabilityService.findAvailableSlots.mockResolvedValue([
+        { startAt: new Date('2025-09-22T13:00:00.000Z'), endAt: new Date('2025-09-22T13:30:00.000Z') }
+      ]);
+
+      const result = await (scheduleHandlers as any).handleFindAvailableSlots({}, {
+        startDate: '2025-09-22',
+        endDate: '2025-09-22',
+        type: 'consultation'
+      });
+
+      expect(mockAvailabilityService.findAvailableSlots).toHaveBeenCalledWith(expect.objectContaining({
+        from: new Date('2025-09-22T04:00:00.000Z'),
+        to: new Date('2025-09-23T04:00:00.000Z')
+      }));
+      expect(result).toEqual(expect.objectContaining({
+        slots: [expect.objectContaining({ localStartAt: '2025-09-22T09:00:00-04:00', localEndAt: '2025-09-22T09:30:00-04:00' })]
+      }));
+    });
+
+    it('should read agent times without an offset as clinic-local time', async () => {
+      mockAppointmentService.createAppointment.mockImplementation(async (data) => ({ ...data, id: 'appt-1', endAt: data.endAt! }) as any);
+
+      const result = await (scheduleHandlers as any).handleScheduleAppointment({ call_id: 'call-1' }, {
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        startAt: '2025-01-15T10:00',
+        endAt: '2025-01-15T10:30:00-05:00',
+        type: 'consultation'
+      });
+
+      expect(mockAppointmentService.createAppointment).toHaveBeenCalledWith(expect.objectContaining({
+        startAt: new Date('2025-01-15T15:00:00.000Z'),
+        endAt: new Date('2025-01-15T15:30:00.000Z')
+      }), { channel: ChangeChannel.VOICE_AGENT, actorType: ActorType.RETELL_CALL, actorId: 'call-1' });
+      expect(result).toEqual(expect.objectContaining({
+        message: expect.stringContaining('from 2025-01-15T10:00:00-05:00 to 2025-01-15T10:30:00-05:00')
+      }));
+    });
+
+    it('should report the current time in the clinic time zone', async () => {
+      const result = await (scheduleHandlers as any).handleGetCurrentTime({}, {});
+
+      expect(result).toEqual(expect.objectContaining({
+        currentTime: expect.objectContaining({
+          timezone: 'America/Toronto',
+          localIso: expect.stringMatching(/-0[45]:00$/)
+        })
+      }));
+    });
+  });
+
+  describe('handleJoinWaitlist', () => {
+    beforeEach(() => {
+      scheduleHandlers = new ScheduleHandlers(mockAppointmentService, mockCalendarService, mockAvailabilityService, 'America/Toronto', mockWaitlistService);
+    });
+
+    it('should add the caller to the waitlist for whole local days', async () => {
+      mockWaitlistService.joinWaitlist.mockImplementation(async (request) => new WaitlistEntryEntity({ ...request, id: 'entry-1', status: WaitlistStatus.WAITING }));
+
+      const result = await (scheduleHandlers as any).handleJoinWaitlist({ call_id: 'call-1' }, {
+        firstName: 'Jane',
+        lastName: 'Smith',
+        phoneNumber: '416 555 1234',
+        type: 'therapy',
+        startDate: '2025-09-22',
+        endDate: '2025-09-26'
+      });
+
+      expect(mockWaitlistService.joinWaitlist).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'therapy',
+        earliestAt: new Date('2025-09-22T04:00:00.000Z'),
+        latestAt: new Date('2025-09-27T04:00:00.000Z'),
+        callId: 'call-1'
+      }));
+      expect(result).toEqual(expect.objectContaining({ success: "true", waitlistEntryId: 'entry-1' }));
+    });
+
+    it('should require contact details', async () => {
+      const result = await (scheduleHandlers as any).handleJoinWaitlist({ call_id: 'call-1' }, {
+        firstName: 'Jane',
+        lastName: 'Smith',
+        type: 'therapy',
+        endDate: '2025-09-26'
+      });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'VALIDATION_ERROR' }));
+      expect(mockWaitlistService.joinWaitlist).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleRetellWebhook - retried tool calls', () => {
+    const webhook = (name: string, args: any, callId = 'call-1') => ({
+      body: { name, call: { call_id: callId }, args },
+      headers: { 'x-retell-signature': 'signature' }
+    });
+
+    beforeEach(() => {
+      scheduleHandlers = new ScheduleHandlers(
+        mockAppointmentService,
+        mockCalendarService,
+        mockAvailabilityService,
+        'America/Toronto',
+        undefined,
+        undefined,
+        mockToolCallService
+      );
+    });
+
+    it('should send the response recorded for the call', async () => {
+      mockToolCallService.execute.mockImplementation(async (_request, handler) => ({ ...await handler(), replayed: false }));
+      mockAppointmentService.cancelAppointment.mockResolvedValue(undefined as any);
+
+      await scheduleHandlers.handleRetellWebhook(webhook('cancel_appointment', { appointmentId: 'appt-1' }) as any, mockReply as any);
+
+      expect(mockToolCallService.execute).toHaveBeenCalledWith(
+        { callId: 'call-1', functionName: 'cancel_appointment', args: { appointmentId: 'appt-1' } },
+        expect.any(Function)
+      );
+      expect(mockReply.code).toHaveBeenCalledWith(200);
+      expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ success: "true", message: 'Appointment appt-1 cancelled successfully' }));
+    });
+
+    it('should replay the original response without running the function again', async () => {
+      mockToolCallService.execute.mockResolvedValue({ statusCode: 200, body: { success: "true", appointmentId: 'appt-1' }, replayed: true });
+
+      await scheduleHandlers.handleRetellWebhook(webhook('schedule_appointment', { firstName: 'Jane' }) as any, mockReply as any);
+
+      expect(mockAppointmentService.createAppointment).not.toHaveBeenCalled();
+      expect(mockReply.send).toHaveBeenCalledWith({ success: "true", appointmentId: 'appt-1' });
+    });
+
+    it('should answer a retried read afresh instead of replaying it', async () => {
+      mockCalendarService.getBookedSlotsForDate.mockResolvedValue([]);
+
+      await scheduleHandlers.handleRetellWebhook(webhook('check_booked_slots', { dateStr: '2025-09-21T12:00:00.000Z' }) as any, mockReply as any);
+      await scheduleHandlers.handleRetellWebhook(webhook('check_booked_slots', { dateStr: '2025-09-21T12:00:00.000Z' }) as any, mockReply as any);
+
+      expect(mockToolCallService.execute).not.toHaveBeenCalled();
+      expect(mockCalendarService.getBookedSlotsForDate).toHaveBeenCalledTimes(2);
+      expect(mockReply.code).toHaveBeenCalledWith(200);
+      expect(mockReply.send).toHaveBeenCalledWith({ success: "true", bookedSlots: [], available: true });
+    });
+
+    it('should record known errors as the response', async () => {
+      let recorded: any;
+      mockToolCallService.execute.mockImplementation(async (_request, handler) => {
+        recorded = await handler();
+        return { ...recorded, replayed: false };
+      });
+      mockAppointmentService.cancelAppointment.mockRejectedValue(new AppointmentCancellationError('Cannot cancel appointments less than 2 hours before start time'));
+
+      await scheduleHandlers.handleRetellWebhook(webhook('cancel_appointment', { appointmentId: 'appt-1' }) as any, mockReply as any);
+
+      expect(recorded).toEqual({
+        statusCode: 200,
+        body: { success: false, code: 'APPOINTMENT_CANCELLATION_ERROR', message: 'Cannot cancel appointments less than 2 hours before start time' }
+      });
+    });
+  });
+
+  describe('handleRecordCommunicationConsent', () => {
+    beforeEach(() => {
+      scheduleHandlers = new ScheduleHandlers(
+        mockAppointmentService,
+        mockCalendarService,
+        mockAvailabilityService,
+        'America/Toronto',
+        undefined,
+        mockPreferencesService
+      );
+    });
+
+    it('should record the consent against the call', async () => {
+      mockPreferencesService.updatePreferencesByContact.mockResolvedValue([{
+        patient: new PatientEntity({ id: 'patient-1', firstName: 'Jane', lastName: 'Smith', phoneNumber: '+14165551234' }),
+        preferences: CommunicationPreferencesEntity.defaults('patient-1')
+      }]);
+
+      const result = await (scheduleHandlers as any).handleRecordCommunicationConsent({ call_id: 'call-1' }, {
+        emailOrPhone: '416 555 1234',
+        channel: 'all',
+        category: 'reminders',
+        granted: false,
+        quietHoursStart: '21:00',
+        quietHoursEnd: '08:00'
+      });
+
+      expect(mockPreferencesService.updatePreferencesByContact).toHaveBeenCalledWith('416 555 1234', {
+        quietHours: { start: '21:00', end: '08:00' },
+        consents: [
+          { channel: 'email', category: MessageCategory.REMINDERS, granted: false },
+          { channel: 'sms', category: MessageCategory.REMINDERS, granted: false }
+        ]
+      }, { source: ConsentSource.VOICE_AGENT, sourceReference: 'call-1' });
+      expect(result).toEqual(expect.objectContaining({
+        success: "true",
+        message: 'Communication preferences recorded for Jane Smith',
+        patientIds: ['patient-1']
+      }));
+    });
+
+    it('should say when nobody has the contact details', async () => {
+      mockPreferencesService.updatePreferencesByContact.mockResolvedValue([]);
+
+      const result = await (scheduleHandlers as any).handleRecordCommunicationConsent({ call_id: 'call-1' }, {
+        emailOrPhone: 'jane@example.com',
+        channel: 'sms',
+        granted: true
+      });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'PATIENT_NOT_FOUND' }));
+    });
+
+    it('should need something to record', async () => {
+      const result = await (scheduleHandlers as any).handleRecordCommunicationConsent({ call_id: 'call-1' }, { emailOrPhone: 'jane@example.com' });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'VALIDATION_ERROR' }));
+      expect(mockPreferencesService.updatePreferencesByContact).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleGetAppointmentHistory', () => {
+    beforeEach(() => {
+      scheduleHandlers = new ScheduleHandlers(
+        mockAppointmentService,
+        mockCalendarService,
+        mockAvailabilityService,
+        'America/Toronto',
+        undefined,
+        undefined,
+        undefined,
+        mockHistoryService
+      );
+    });
+
+    it('should read out the changes in clinic-local time', async () => {
+      mockAppointmentService.getAppointment.mockResolvedValue({} as AppointmentEntity);
+      mockHistoryService.getAppointmentEvents.mockResolvedValue([
+        new AppointmentEventEntity({
+          appointmentId: 'appt-1',
+          eventType: AppointmentEventType.RESCHEDULED,
+          before: { startAt: new Date('2025-09-22T13:00:00Z'), endAt: new Date('2025-09-22T14:00:00Z') },
+          after: { startAt: new Date('2025-09-23T15:00:00Z'), endAt: new Date('2025-09-23T16:00:00Z') },
+          channel: ChangeChannel.ADMIN_API,
+          actorType: ActorType.API_USER,
+          actorId: 'key_3f2a9c1e',
+          createdAt: new Date('2025-09-20T14:30:00Z')
+        })
+      ]);
+
+      const result = await (scheduleHandlers as any).handleGetAppointmentHistory({ call_id: 'call-1' }, { appointmentId: 'appt-1' });
+
+      expect(mockHistoryService.getAppointmentEvents).toHaveBeenCalledWith('appt-1');
+      expect(result).toEqual(expect.objectContaining({
+        success: "true",
+        count: 1,
+        events: [{
+          eventType: 'rescheduled',
+          changedAt: '2025-09-20T10:30:00-04:00',
+          channel: 'admin_api',
+          actorType: 'api_user',
+          before: { startAt: '2025-09-22T09:00:00-04:00', endAt: '2025-09-22T10:00:00-04:00' },
+          after: { startAt: '2025-09-23T11:00:00-04:00', endAt: '2025-09-23T12:00:00-04:00' }
+        }]
+      }));
+    });
+
+    it('should not look up the history of an unknown appointment', async () => {
+      mockAppointmentService.getAppointment.mockRejectedValue(new NotFoundError('Appointment with ID appt-9 not found'));
+
+      await expect((scheduleHandlers as any).handleGetAppointmentHistory({}, { appointmentId: 'appt-9' }))
+        .rejects.toThrow(NotFoundError);
+      expect(mockHistoryService.getAppointmentEvents).not.toHaveBeenCalled();
+    });
+
+    it('should require an appointment ID', async () => {
+      const result = await (scheduleHandlers as any).handleGetAppointmentHistory({}, {});
+
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'MISSING_APPOINTMENT_ID' }));
+    });
+  });
+
+  describe('recurring series', () => {
+    beforeEach(() => {
+      scheduleHandlers = new ScheduleHandlers(mockAppointmentService, mockCalendarService, mockAvailabilityService, 'America/Toronto');
+    });
+
+    it('should book a weekly series from local times', async () => {
+      const series = new AppointmentSeriesEntity({
+        id: 'series-1',
+        firstName: 'Jane',
+        lastName: 'Smith',
+        type: AppointmentType.THERAPY,
+        startAt: new Date('2025-09-22T13:00:00.000Z'),
+        durationMinutes: 60,
+        timeZone: 'America/Toronto',
+        recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1, until: new Date('2025-10-14T04:00:00.000Z'), exceptions: [] },
+        status: SeriesStatus.ACTIVE
+      });
+      const appointments = [0, 1, 2].map(week => new AppointmentEntity({
+        id: `appt-${week + 1}`,
+        firstName: 'Jane',
+        lastName: 'Smith',
+        startAt: new Date(Date.UTC(2025, 8, 22 + week * 7, 13)),
+        endAt: new Date(Date.UTC(2025, 8, 22 + week * 7, 14)),
+        type: AppointmentType.THERAPY,
+        status: AppointmentStatus.SCHEDULED,
+        notes: {},
+        createdAt: new Date()
+      }));
+      mockAppointmentService.createSeries.mockResolvedValue({ series, appointments });
+
+      const result = await (scheduleHandlers as any).handleScheduleRecurringAppointment({ call_id: 'call-1' }, {
+        firstName: 'Jane',
+        lastName: 'Smith',
+        phoneNumber: '416 555 1234',
+        type: 'therapy',
+        startAt: '2025-09-22T09:00',
+        frequency: 'weekly',
+        until: '2025-10-13',
+        exceptions: ['2025-09-29']
+      });
+
+      expect(mockAppointmentService.createSeries).toHaveBeenCalledWith(expect.objectContaining({
+        startAt: new Date('2025-09-22T13:00:00.000Z'),
+        callId: 'call-1',
+        recurrence: { frequency: 'weekly', interval: 1, until: new Date('2025-10-14T04:00:00.000Z'), exceptions: ['2025-09-29'] }
+      }), expect.objectContaining({ actorId: 'call-1' }));
+      expect(result).toEqual(expect.objectContaining({
+        success: "true",
+        seriesId: 'series-1',
+        appointmentIds: ['appt-1', 'appt-2', 'appt-3']
+      }));
+    });
+
+    it('should require count or until', async () => {
+      const result = await (scheduleHandlers as any).handleScheduleRecurringAppointment({ call_id: 'call-1' }, {
+        firstName: 'Jane',
+        lastName: 'Smith',
+        phoneNumber: '416 555 1234',
+        type: 'therapy',
+        startAt: '2025-09-22T09:00',
+        frequency: 'weekly'
+      });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'VALIDATION_ERROR' }));
+      expect(mockAppointmentService.createSeries).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the following occurrences when asked', async () => {
+      mockAppointmentService.cancelAppointment.mockResolvedValue(true);
+
+      await (scheduleHandlers as any).handleCancelAppointment({ call_id: 'call-1' }, { appointmentId: 'appt-2', scope: 'following' });
+
+      expect(mockAppointmentService.cancelAppointment).toHaveBeenCalledWith('appt-2', 'following', {
+        channel: ChangeChannel.VOICE_AGENT,
+        actorType: ActorType.RETELL_CALL,
+        actorId: 'call-1'
+      });
+    });
+
+    it('should reject an unknown scope', async () => {
+      const result = await (scheduleHandlers as any).handleCancelAppointment({}, { appointmentId: 'appt-2', scope: 'all' });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'INVALID_SCOPE' }));
+      expect(mockAppointmentService.cancelAppointment).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,155 @@
+import { GenericContainer, StartedTestContainer } from 'testcontainers';
+import { Pool } from 'pg';
+import { PostgresAppointmentRepository } from '../../repositories/postgresAppointmentRepository';
+import { PostgresMigrationRepository } from '../../repositories/postgresMigrationRepository';
+import { AppointmentService } from '../../services/appointmentService';
+import { MigrationService } from '../../services/migrationService';
+import { ICalendarService } from '../../services/interfaces/ICalendarService';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { AppointmentStatus, AppointmentType, ScheduleRequest } from '../../types/schedule';
+import { TimeSlotUnavailableError } from '../../types/errors';
+
+/**
+ * Holds every conflict check until all the bookings in a race have made theirs, so each of them
+ * sees the time as free: the race the database constraint has to settle.
+ */
+class RacingAppointmentRepository extends PostgresAppointmentRepository {
+  private waiting: (() => void)[] = [];
+
+  constructor(pool: Pool, private readonly racers: number) {
+    super(pool);
+  }
+
+  async getConflictingAppointments(startAt: Date, endAt: Date, excludeId?: string, providerId?: string): Promise<AppointmentEntity[]> {
+    const conflicts = await super.getConflictingAppointments(startAt, endAt, excludeId, providerId);
+    await new Promise<void>(resolve => {
+      this.waiting.push(resolve);
+      if (this.waiting.length === this.racers) {
+        this.waiting.forEach(release => release());
+        this.waiting = [];
+      }
+    });
+    return conflicts;
+  }
+}
+
+const calendarService: ICalendarService = {
+  getBookedSlotsForDate: async () => [],
+  getBusySlots: async () => [],
+  createCalendarEvent: async (appointment) => `event-${appointment.id}`,
+  updateCalendarEvent: async () => undefined,
+  upsertCalendarEvent: async () => undefined,
+  deleteCalendarEvent: async () => undefined
+};
+
+describe('Double-booking prevention Integration Tests', () => {
+  let container: StartedTestContainer;
+  let pool: Pool;
+  let repository: PostgresAppointmentRepository;
+
+  const booking = (name: string, startAt: string, endAt: string): ScheduleRequest => ({
+    firstName: name,
+    lastName: 'Racer',
+    email: `${name.toLowerCase()}@example.com`,
+    startAt: new Date(startAt),
+    endAt: new Date(endAt),
+    type: AppointmentType.CONSULTATION,
+    notes: {}
+  });
+
+  const entity = (request: ScheduleRequest, providerId?: string) =>
+    new AppointmentEntity({ ...request, status: AppointmentStatus.SCHEDULED, providerId });
+
+  beforeAll(async () => {
+    // Start PostgreSQL container
+    container = await new GenericContainer('postgres:14-alpine')
+      .withEnvironment({
+        POSTGRES_DB: 'test_medme',
+        POSTGRES_USER: 'test',
+        POSTGRES_PASSWORD: 'test'
+      })
+      .withExposedPorts(5432)
+      .start();
+
+    pool = new Pool({ connectionString: `postgresql://test:test@${container.getHost()}:${container.getMappedPort(5432)}/test_medme` });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // The real schema, appointments_no_overlap included
+    await new MigrationService({}, new PostgresMigrationRepository(pool)).migrate();
+
+    repository = new PostgresAppointmentRepository(pool);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await pool.end();
+    await container.stop();
+  });
+
+  beforeEach(async () => {
+    await pool.query('DELETE FROM appointments');
+    await pool.query('DELETE FROM providers');
+  });
+
+  it('should let only one of several simultaneous bookings for overlapping times through', async () => {
+    const requests = [
+      booking('Ada', '2030-03-04T10:00:00Z', '2030-03-04T11:00:00Z'),
+      booking('Ben', '2030-03-04T10:30:00Z', '2030-03-04T11:30:00Z'),
+      booking('Cy', '2030-03-04T10:15:00Z', '2030-03-04T10:45:00Z'),
+      booking('Dee', '2030-03-04T09:45:00Z', '2030-03-04T10:45:00Z')
+    ];
+    const appointmentService = new AppointmentService(new RacingAppointmentRepository(pool, requests.length), calendarService);
+
+    const results = await Promise.allSettled(requests.map(request => appointmentService.createAppointment(request)));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejections = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejections).toHaveLength(3);
+    rejections.forEach(rejection => expect(rejection.reason).toBeInstanceOf(TimeSlotUnavailableError));
+
+    const saved = await pool.query(`SELECT count(*)::int AS count FROM appointments`);
+    expect(saved.rows[0].count).toBe(1);
+  });
+
+  it('should still accept back-to-back bookings made at the same time', async () => {
+    const results = await Promise.all([
+      repository.create(entity(booking('Ada', '2030-03-04T10:00:00Z', '2030-03-04T11:00:00Z'))),
+      repository.create(entity(booking('Ben', '2030-03-04T11:00:00Z', '2030-03-04T12:00:00Z')))
+    ]);
+
+    expect(results.every(appointment => appointment.id)).toBe(true);
+  });
+
+  it('should let different providers take the same time', async () => {
+    const providers = await pool.query(`
+      INSERT INTO providers (first_name, last_name) VALUES ('Grace', 'Hopper'), ('Alan', 'Turing') RETURNING id
+    `);
+    const [first, second] = providers.rows.map(row => row.id);
+
+    await repository.create(entity(booking('Ada', '2030-03-04T10:00:00Z', '2030-03-04T11:00:00Z'), first));
+    await repository.create(entity(booking('Ben', '2030-03-04T10:00:00Z', '2030-03-04T11:00:00Z'), second));
+
+    await expect(repository.create(entity(booking('Cy', '2030-03-04T10:30:00Z', '2030-03-04T11:30:00Z'), first)))
+      .rejects.toThrow(TimeSlotUnavailableError);
+  });
+
+  it('should free the time of a cancelled appointment', async () => {
+    const cancelled = await repository.create(entity(booking('Ada', '2030-03-04T10:00:00Z', '2030-03-04T11:00:00Z')));
+    cancelled.status = AppointmentStatus.CANCELLED;
+    await repository.update(cancelled.id!, cancelled);
+
+    const rebooked = await repository.create(entity(booking('Ben', '2030-03-04T10:00:00Z', '2030-03-04T11:00:00Z')));
+
+    expect(rebooked.id).toBeDefined();
+  });
+
+  it('should reject moving an appointment onto the time of another', async () => {
+    await repository.create(entity(booking('Ada', '2030-03-04T10:00:00Z', '2030-03-04T11:00:00Z')));
+    const moving = await repository.create(entity(booking('Ben', '2030-03-04T12:00:00Z', '2030-03-04T13:00:00Z')));
+    moving.startAt = new Date('2030-03-04T10:30:00Z');
+    moving.endAt = new Date('2030-03-04T11:30:00Z');
+
+    await expect(repository.update(moving.id!, moving)).rejects.toThrow(
+      'Time slot from 2030-03-04T10:30:00.000Z to 2030-03-04T11:30:00.000Z is already booked'
+    );
+  });
+});
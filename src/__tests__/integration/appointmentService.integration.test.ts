@@ -1,10 +1,16 @@
 import { GenericContainer, StartedTestContainer } from 'testcontainers';
 import { Pool } from 'pg';
 import { PostgresAppointmentRepository } from '../../repositories/postgresAppointmentRepository';
+import { PostgresMigrationRepository } from '../../repositories/postgresMigrationRepository';
+import { PostgresCalendarSyncRepository } from '../../repositories/postgresCalendarSyncRepository';
+import { PostgresTransactionRunner } from '../../repositories/postgresTransactionRunner';
 import { AppointmentService } from '../../services/appointmentService';
+import { CalendarSyncService } from '../../services/calendarSyncService';
+import { MigrationService } from '../../services/migrationService';
 import { AppointmentEntity } from '../../models/AppointmentEntity';
 import { AppointmentType, AppointmentStatus, ScheduleRequest } from '../../types/schedule';
 import { ICalendarService } from '../../services/interfaces/ICalendarService';
+import { CalendarSyncState } from '../../types/calendarSync';
 
 // Mock Calendar Service for testing
 class MockCalendarService implements ICalendarService {
@@ -15,6 +21,10 @@ class MockCalendarService implements ICalendarService {
     return [];
   }
 
+  async getBusySlots(timeMin: Date, timeMax: Date) {
+    return [];
+  }
+
   async createCalendarEvent(appointment: any): Promise<string> {
     const eventId = `test-event-${this.eventIdCounter++}`;
     this.events.set(eventId, appointment);
@@ -28,6 +38,10 @@ class MockCalendarService implements ICalendarService {
     this.events.set(eventId, appointment);
   }
 
+  async upsertCalendarEvent(eventId: string, appointment: any): Promise<void> {
+    this.events.set(eventId, appointment);
+  }
+
   async deleteCalendarEvent(eventId: string): Promise<void> {
     if (!this.events.has(eventId)) {
       throw new Error(`Calendar event ${eventId} not found`);
@@ -73,29 +87,9 @@ describe('AppointmentService Integration Tests', () => {
     process.env.DATABASE_URL = connectionString;
 
     pool = new Pool({ connectionString });
-    
-    // Create the appointments table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS appointments (
-        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-        first_name varchar(150) NOT NULL,
-        last_name varchar(150) NOT NULL,
-        email text,
-        phone_number text,
-        start_at timestamptz NOT NULL,
-        end_at timestamptz NOT NULL,
-        type text NOT NULL,
-        status text NOT NULL DEFAULT 'scheduled',
-        notes jsonb NOT NULL DEFAULT '{}',
-        reason text,
-        calendar_event_id text,
-        created_at timestamptz NOT NULL DEFAULT now(),
-        updated_at timestamptz,
-        CONSTRAINT appointments_time_range CHECK (end_at > start_at),
-        CONSTRAINT appointments_unique_slot UNIQUE (start_at, end_at),
-        CONSTRAINT appointments_contact_required CHECK (email IS NOT NULL OR phone_number IS NOT NULL)
-      )
-    `);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // The real schema, appointments_no_overlap included
+    await new MigrationService({}, new PostgresMigrationRepository(pool)).migrate();
 
     repository = new PostgresAppointmentRepository();
     calendarService = new MockCalendarService();
@@ -103,6 +97,7 @@ describe('AppointmentService Integration Tests', () => {
   });
 
   afterAll(async () => {
+    jest.restoreAllMocks();
     await repository.close();
     await pool.end();
     await container.stop();
@@ -440,4 +435,52 @@ describe('AppointmentService Integration Tests', () => {
       expect(byPhone[0].id).toBe(created.id);
     });
   });
+
+  describe('Calendar Sync Jobs', () => {
+    const bookingData: ScheduleRequest = {
+      firstName: 'Sync',
+      lastName: 'User',
+      email: 'sync@example.com',
+      startAt: new Date('2030-02-04T15:00:00Z'),
+      endAt: new Date('2030-02-04T16:00:00Z'),
+      type: AppointmentType.CONSULTATION,
+      notes: {},
+    };
+
+    // Every repository on the test pool, so they all join the service's transactions
+    const syncingService = (syncRepository: PostgresCalendarSyncRepository) => {
+      const appointmentRepository = new PostgresAppointmentRepository(pool);
+      return new AppointmentService(appointmentRepository, calendarService, {
+        calendarSyncService: new CalendarSyncService(
+          { maxAttempts: 5, retryBaseSeconds: 30, retryMaxSeconds: 120 },
+          syncRepository,
+          appointmentRepository,
+          calendarService
+        ),
+        transactions: new PostgresTransactionRunner(pool)
+      });
+    };
+
+    it('should not save a booking whose sync job cannot be recorded', async () => {
+      const syncRepository = new PostgresCalendarSyncRepository(pool);
+      jest.spyOn(syncRepository, 'enqueue').mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await expect(syncingService(syncRepository).createAppointment(bookingData)).rejects.toThrow('Database unavailable');
+
+      const saved = await pool.query('SELECT count(*)::int AS count FROM appointments');
+      expect(saved.rows[0].count).toBe(0);
+    });
+
+    it('should leave the booking and its job pending when the first attempt fails', async () => {
+      jest.spyOn(calendarService, 'upsertCalendarEvent').mockRejectedValueOnce(new Error('Calendar event upsert failed (status 503): Backend Error'));
+
+      const booked = await syncingService(new PostgresCalendarSyncRepository(pool)).createAppointment(bookingData);
+
+      expect(booked.calendarSyncState).toBe(CalendarSyncState.PENDING);
+      const saved = await pool.query('SELECT calendar_sync_state FROM appointments WHERE id = $1', [booked.id]);
+      expect(saved.rows[0].calendar_sync_state).toBe('pending');
+      const jobs = await pool.query('SELECT status, last_error FROM calendar_sync_jobs WHERE appointment_id = $1', [booked.id]);
+      expect(jobs.rows).toEqual([{ status: 'pending', last_error: 'Calendar event upsert failed (status 503): Backend Error' }]);
+    });
+  });
 });
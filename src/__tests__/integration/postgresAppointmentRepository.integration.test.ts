@@ -1,6 +1,8 @@
 import { GenericContainer, StartedTestContainer } from 'testcontainers';
 import { Pool } from 'pg';
 import { PostgresAppointmentRepository } from '../../repositories/postgresAppointmentRepository';
+import { PostgresMigrationRepository } from '../../repositories/postgresMigrationRepository';
+import { MigrationService } from '../../services/migrationService';
 import { AppointmentEntity } from '../../models/AppointmentEntity';
 import { AppointmentType, AppointmentStatus } from '../../types/schedule';
 
@@ -25,34 +27,15 @@ describe('PostgresAppointmentRepository Integration Tests', () => {
     process.env.DATABASE_URL = connectionString;
 
     pool = new Pool({ connectionString });
-    
-    // Create the appointments table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS appointments (
-        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-        first_name varchar(150) NOT NULL,
-        last_name varchar(150) NOT NULL,
-        email text,
-        phone_number text,
-        start_at timestamptz NOT NULL,
-        end_at timestamptz NOT NULL,
-        type text NOT NULL,
-        status text NOT NULL DEFAULT 'scheduled',
-        notes jsonb NOT NULL DEFAULT '{}',
-        reason text,
-        calendar_event_id text,
-        created_at timestamptz NOT NULL DEFAULT now(),
-        updated_at timestamptz,
-        CONSTRAINT appointments_time_range CHECK (end_at > start_at),
-        CONSTRAINT appointments_unique_slot UNIQUE (start_at, end_at),
-        CONSTRAINT appointments_contact_required CHECK (email IS NOT NULL OR phone_number IS NOT NULL)
-      )
-    `);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // The real schema, appointments_no_overlap included
+    await new MigrationService({}, new PostgresMigrationRepository(pool)).migrate();
 
     repository = new PostgresAppointmentRepository();
   });
 
   afterAll(async () => {
+    jest.restoreAllMocks();
     await repository.close();
     await pool.end();
     await container.stop();
@@ -369,6 +352,94 @@ describe('PostgresAppointmentRepository Integration Tests', () => {
     });
   });
 
+  describe('search', () => {
+    const book = async (firstName: string, lastName: string, startAt: string, overrides: Partial<AppointmentEntity> = {}) =>
+      repository.create(new AppointmentEntity({
+        firstName,
+        lastName,
+        email: `${firstName.toLowerCase()}@example.com`,
+        startAt: new Date(startAt),
+        endAt: new Date(new Date(startAt).getTime() + 30 * 60 * 1000),
+        type: AppointmentType.CONSULTATION,
+        status: AppointmentStatus.SCHEDULED,
+        notes: {},
+        createdAt: new Date(),
+        ...overrides
+      }));
+
+    it('should filter by date range, status, type, name prefix and call ID', async () => {
+      await book('Olivia', 'Stone', '2024-02-01T09:00:00Z', { notes: { call_id: 'call-1' } });
+      await book('Oliver', 'Brown', '2024-02-01T10:00:00Z', { type: AppointmentType.VACCINATION });
+      const cancelled = await book('Owen', 'Stone', '2024-02-01T11:00:00Z');
+      cancelled.status = AppointmentStatus.CANCELLED;
+      await repository.update(cancelled.id!, cancelled);
+      await book('Olga', 'Stein', '2024-02-03T09:00:00Z');
+
+      const base = { sortBy: 'startAt' as const, sortOrder: 'asc' as const, limit: 10 };
+      const names = (appointments: AppointmentEntity[]) => appointments.map(apt => apt.firstName);
+
+      expect(names(await repository.search({ ...base, from: new Date('2024-02-01T00:00:00Z'), to: new Date('2024-02-02T00:00:00Z') })))
+        .toEqual(['Olivia', 'Oliver', 'Owen']);
+      expect(names(await repository.search({ ...base, statuses: [AppointmentStatus.CANCELLED] }))).toEqual(['Owen']);
+      expect(names(await repository.search({ ...base, types: [AppointmentType.VACCINATION] }))).toEqual(['Oliver']);
+      expect(names(await repository.search({ ...base, patientName: 'oliv' }))).toEqual(['Olivia', 'Oliver']);
+      expect(names(await repository.search({ ...base, patientName: 'st' }))).toEqual(['Olivia', 'Owen', 'Olga']);
+      expect(names(await repository.search({ ...base, patientName: 'o ste' }))).toEqual(['Olga']);
+      expect(names(await repository.search({ ...base, callId: 'call-1' }))).toEqual(['Olivia']);
+    });
+
+    it('should page through results with keyset pagination', async () => {
+      await book('Anna', 'One', '2024-02-05T09:00:00Z');
+      await book('Beth', 'Two', '2024-02-05T10:00:00Z');
+      await book('Cara', 'Three', '2024-02-05T11:00:00Z');
+
+      const firstPage = await repository.search({ sortBy: 'startAt', sortOrder: 'desc', limit: 2 });
+      const last = firstPage[firstPage.length - 1];
+      const secondPage = await repository.search({
+        sortBy: 'startAt',
+        sortOrder: 'desc',
+        limit: 2,
+        after: { value: last.startAt, id: last.id! }
+      });
+
+      expect(firstPage.map(apt => apt.firstName)).toEqual(['Cara', 'Beth']);
+      expect(secondPage.map(apt => apt.firstName)).toEqual(['Anna']);
+    });
+
+    it('should not skip or repeat rows whose timestamps differ below a millisecond', async () => {
+      const first = await book('Dana', 'Four', '2024-02-06T09:00:00Z');
+      const second = await book('Erin', 'Five', '2024-02-06T10:00:00Z');
+      // now() keeps microseconds, which the cursor's JavaScript date can't hold
+      await pool.query(`UPDATE appointments SET created_at = '2024-02-06 08:00:00.000900+00' WHERE id = $1`, [first.id]);
+      await pool.query(`UPDATE appointments SET created_at = '2024-02-06 08:00:00.000100+00' WHERE id = $1`, [second.id]);
+
+      for (const sortOrder of ['asc', 'desc'] as const) {
+        const seen: string[] = [];
+        let after: { value: Date; id: string } | undefined;
+        for (let page = 0; page < 3; page++) {
+          const [appointment] = await repository.search({ sortBy: 'createdAt', sortOrder, limit: 1, after });
+          if (!appointment) {
+            break;
+          }
+          seen.push(appointment.firstName);
+          after = { value: appointment.createdAt!, id: appointment.id! };
+        }
+
+        expect(seen.sort()).toEqual(['Dana', 'Erin']);
+      }
+    });
+
+    it('should keep millisecond copies of the sort columns for clients that page on them', async () => {
+      const appointment = await book('Fay', 'Six', '2024-02-06T11:00:00Z');
+      await pool.query(`UPDATE appointments SET created_at = '2024-02-06 08:00:00.000900+00' WHERE id = $1`, [appointment.id]);
+
+      const result = await pool.query('SELECT start_at_ms, created_at_ms FROM appointments WHERE id = $1', [appointment.id]);
+
+      expect(result.rows[0].start_at_ms).toEqual(new Date('2024-02-06T11:00:00.000Z'));
+      expect(result.rows[0].created_at_ms).toEqual(new Date('2024-02-06T08:00:00.000Z'));
+    });
+  });
+
   describe('Edge Cases and Constraint Violations', () => {
     it('should handle duplicate time slot constraint violation', async () => {
       const startAt = new Date('2024-01-15T10:00:00Z');
@@ -0,0 +1,73 @@
+import { GenericContainer, StartedTestContainer } from 'testcontainers';
+import { Pool } from 'pg';
+import { PostgresMigrationRepository } from '../../repositories/postgresMigrationRepository';
+import { MigrationService } from '../../services/migrationService';
+import { MigrationState } from '../../types/migration';
+import { DEFAULT_MIGRATIONS_DIR, loadMigrations } from '../../utils/migrationUtils';
+
+describe('PostgresMigrationRepository Integration Tests', () => {
+  let container: StartedTestContainer;
+  let pool: Pool;
+  let repository: PostgresMigrationRepository;
+  let migrationService: MigrationService;
+
+  beforeAll(async () => {
+    // Start PostgreSQL container
+    container = await new GenericContainer('postgres:14-alpine')
+      .withEnvironment({
+        POSTGRES_DB: 'test_medme',
+        POSTGRES_USER: 'test',
+        POSTGRES_PASSWORD: 'test'
+      })
+      .withExposedPorts(5432)
+      .start();
+
+    pool = new Pool({ connectionString: `postgresql://test:test@${container.getHost()}:${container.getMappedPort(5432)}/test_medme` });
+    repository = new PostgresMigrationRepository(pool);
+    // The repository's own sql directory
+    migrationService = new MigrationService({}, repository);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await pool.end();
+    await container.stop();
+  });
+
+  it('should apply every migration in the sql directory to an empty database', async () => {
+    const migrations = await loadMigrations(DEFAULT_MIGRATIONS_DIR);
+
+    const applied = await migrationService.migrate();
+
+    expect(applied.map(status => status.script)).toEqual(migrations.map(migration => migration.script));
+    const tables = await pool.query(`SELECT to_regclass('appointments') AS appointments, to_regclass('appointment_events') AS events`);
+    expect(tables.rows[0]).toEqual({ appointments: 'appointments', events: 'appointment_events' });
+  });
+
+  it('should have nothing left to apply on the next run, even with several runners at once', async () => {
+    const runs = await Promise.all([migrationService.migrate(), migrationService.migrate()]);
+
+    expect(runs).toEqual([[], []]);
+    const statuses = await migrationService.getStatus();
+    expect(statuses.every(status => status.state === MigrationState.APPLIED)).toBe(true);
+  });
+
+  it('should roll back a failing migration together with its history row', async () => {
+    const broken = { version: 9999, description: 'broken', script: 'V9999__broken.sql', checksum: 'x', sql: 'CREATE TABLE half_done (id int); SELECT * FROM no_such_table;' };
+
+    await expect(repository.apply(broken)).rejects.toThrow('no_such_table');
+
+    const left = await pool.query(`SELECT to_regclass('half_done') AS half_done, (SELECT count(*) FROM schema_migrations WHERE version = 9999)::int AS recorded`);
+    expect(left.rows[0]).toEqual({ half_done: null, recorded: 0 });
+  });
+
+  it('should report a migration whose recorded checksum no longer matches its file', async () => {
+    await pool.query(`UPDATE schema_migrations SET checksum = 'edited' WHERE version = 1`);
+
+    const statuses = await migrationService.getStatus();
+
+    expect(statuses[0]).toEqual(expect.objectContaining({ version: 1, state: MigrationState.DRIFTED }));
+    await expect(migrationService.migrate()).rejects.toThrow('V1__create_appointments_table.sql has changed since it was applied');
+  });
+});
@@ -2,6 +2,7 @@ import { SupabaseAppointmentRepository } from '../../repositories/supabaseAppoin
 import { AppointmentEntity } from '../../models/AppointmentEntity';
 import { AppointmentType, AppointmentStatus, ScheduleRequest } from '../../types/schedule';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { TimeSlotUnavailableError } from '../../types/errors';
 
 // Mock Supabase client
 const mockSupabaseClient = {
@@ -18,6 +19,9 @@ const createMockQueryBuilder = () => ({
   neq: jest.fn().mockReturnThis(),
   lt: jest.fn().mockReturnThis(),
   gt: jest.fn().mockReturnThis(),
+  gte: jest.fn().mockReturnThis(),
+  ilike: jest.fn().mockReturnThis(),
+  limit: jest.fn(),
   in: jest.fn().mockReturnThis(),
   or: jest.fn().mockReturnThis(),
   order: jest.fn().mockReturnThis(),
@@ -100,6 +104,13 @@ describe('SupabaseAppointmentRepository', () => {
         .rejects.toThrow('Appointment already exists for this time range');
     });
 
+    it('should throw TimeSlotUnavailableError when the slot overlaps a booking (23P01)', async () => {
+      const overlapError = { code: '23P01', message: 'conflicting key value violates exclusion constraint "appointments_no_overlap"' };
+      mockQueryBuilder.single.mockResolvedValue({ data: null, error: overlapError });
+
+      await expect(repository.create(mockAppointmentEntity)).rejects.toThrow(TimeSlotUnavailableError);
+    });
+
     it('should throw error when create fails with other error', async () => {
       const dbError = { code: '42000', message: 'syntax error' };
       mockQueryBuilder.single.mockResolvedValue({ data: null, error: dbError });
@@ -128,6 +139,13 @@ describe('SupabaseAppointmentRepository', () => {
       expect(result.notes).toEqual({ description: 'Updated notes' });
     });
 
+    it('should throw TimeSlotUnavailableError when the new time overlaps a booking (23P01)', async () => {
+      const overlapError = { code: '23P01', message: 'conflicting key value violates exclusion constraint "appointments_no_overlap"' };
+      mockQueryBuilder.single.mockResolvedValue({ data: null, error: overlapError });
+
+      await expect(repository.update('appt-123', mockAppointmentEntity)).rejects.toThrow(TimeSlotUnavailableError);
+    });
+
     it('should throw error when update fails', async () => {
       const dbError = { message: 'update failed' };
       mockQueryBuilder.single.mockResolvedValue({ data: null, error: dbError });
@@ -383,7 +401,7 @@ describe('SupabaseAppointmentRepository', () => {
 
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('appointments');
       expect(mockQueryBuilder.select).toHaveBeenCalledWith('*');
-      expect(mockQueryBuilder.or).toHaveBeenCalledWith('email.eq.john.doe@example.com,phone_number.eq.john.doe@example.com');
+      expect(mockQueryBuilder.or).toHaveBeenCalledWith('email.eq."john.doe@example.com",phone_number.eq."john.doe@example.com"');
       expect(mockQueryBuilder.in).toHaveBeenCalledWith('status', ['scheduled', 'confirmed']);
       expect(mockQueryBuilder.order).toHaveBeenCalledWith('start_at', { ascending: false });
       expect(result).toHaveLength(2);
@@ -399,13 +417,39 @@ describe('SupabaseAppointmentRepository', () => {
 
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('appointments');
       expect(mockQueryBuilder.select).toHaveBeenCalledWith('*');
-      expect(mockQueryBuilder.or).toHaveBeenCalledWith('email.eq.+1234567890,phone_number.eq.+1234567890');
+      expect(mockQueryBuilder.or).toHaveBeenCalledWith('email.eq."+1234567890",phone_number.eq."+1234567890"');
       expect(mockQueryBuilder.in).toHaveBeenCalledWith('status', ['scheduled', 'confirmed']);
       expect(mockQueryBuilder.order).toHaveBeenCalledWith('start_at', { ascending: false });
       expect(result).toHaveLength(1);
       expect(result[0]).toBeInstanceOf(AppointmentEntity);
     });
 
+    it('should search with the canonical form of a spoken phone number', async () => {
+      mockQueryBuilder.order.mockResolvedValue({ data: [mockDbRow], error: null });
+
+      await repository.getActiveAppointmentsByEmailOrPhone('416 555 1234');
+
+      expect(mockQueryBuilder.or).toHaveBeenCalledWith('email.eq."+14165551234",phone_number.eq."+14165551234"');
+    });
+
+    it('should search emails in lowercase', async () => {
+      mockQueryBuilder.order.mockResolvedValue({ data: [mockDbRow], error: null });
+
+      await repository.getActiveAppointmentsByEmailOrPhone('John.Doe@Example.com');
+
+      expect(mockQueryBuilder.or).toHaveBeenCalledWith('email.eq."john.doe@example.com",phone_number.eq."john.doe@example.com"');
+    });
+
+    it('should quote contact details so filter syntax in them is read literally', async () => {
+      mockQueryBuilder.order.mockResolvedValue({ data: [], error: null });
+
+      await repository.getActiveAppointmentsByEmailOrPhone('a,status.eq.cancelled)@example.com');
+
+      expect(mockQueryBuilder.or).toHaveBeenCalledWith(
+        'email.eq."a,status.eq.cancelled)@example.com",phone_number.eq."a,status.eq.cancelled)@example.com"'
+      );
+    });
+
     it('should return empty array when no active appointments found', async () => {
       mockQueryBuilder.order.mockResolvedValue({ data: [], error: null });
 
@@ -431,6 +475,115 @@ describe('SupabaseAppointmentRepository', () => {
     });
   });
 
+  describe('search', () => {
+    beforeEach(() => {
+      mockQueryBuilder.limit.mockResolvedValue({ data: [mockDbRow], error: null });
+    });
+
+    it('should apply every filter, the sort and the limit', async () => {
+      const result = await repository.search({
+        from: new Date('2025-01-15T00:00:00Z'),
+        to: new Date('2025-01-16T00:00:00Z'),
+        statuses: [AppointmentStatus.SCHEDULED],
+        types: [AppointmentType.CONSULTATION],
+        providerId: 'provider-1',
+        callId: 'call-123',
+        sortBy: 'startAt',
+        sortOrder: 'asc',
+        limit: 26
+      });
+
+      expect(mockQueryBuilder.gte).toHaveBeenCalledWith('start_at', '2025-01-15T00:00:00.000Z');
+      expect(mockQueryBuilder.lt).toHaveBeenCalledWith('start_at', '2025-01-16T00:00:00.000Z');
+      expect(mockQueryBuilder.in).toHaveBeenCalledWith('status', ['scheduled']);
+      expect(mockQueryBuilder.in).toHaveBeenCalledWith('type', ['consultation']);
+      expect(mockQueryBuilder.eq).toHaveBeenCalledWith('provider_id', 'provider-1');
+      expect(mockQueryBuilder.eq).toHaveBeenCalledWith('notes->>call_id', 'call-123');
+      expect(mockQueryBuilder.order).toHaveBeenNthCalledWith(1, 'start_at_ms', { ascending: true });
+      expect(mockQueryBuilder.order).toHaveBeenNthCalledWith(2, 'id', { ascending: true });
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(26);
+      expect(result[0]).toBeInstanceOf(AppointmentEntity);
+    });
+
+    it('should match a single name against first or last name, escaping wildcards', async () => {
+      await repository.search({ patientName: 'o_b', sortBy: 'startAt', sortOrder: 'asc', limit: 10 });
+
+      expect(mockQueryBuilder.or).toHaveBeenCalledWith('first_name.ilike."o\\\\_b%",last_name.ilike."o\\\\_b%"');
+    });
+
+    it('should match "first last" prefixes against both names', async () => {
+      await repository.search({ patientName: ' John  Do ', sortBy: 'startAt', sortOrder: 'asc', limit: 10 });
+
+      expect(mockQueryBuilder.ilike).toHaveBeenCalledWith('first_name', 'John%');
+      expect(mockQueryBuilder.ilike).toHaveBeenCalledWith('last_name', 'Do%');
+    });
+
+    it('should continue after the cursor position in descending order', async () => {
+      await repository.search({
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        limit: 5,
+        after: { value: new Date('2025-01-10T09:00:00Z'), id: 'appt-9' }
+      });
+
+      expect(mockQueryBuilder.or).toHaveBeenCalledWith(
+        'created_at_ms.lt."2025-01-10T09:00:00.000Z",and(created_at_ms.eq."2025-01-10T09:00:00.000Z",id.lt.appt-9)'
+      );
+      expect(mockQueryBuilder.order).toHaveBeenNthCalledWith(1, 'created_at_ms', { ascending: false });
+    });
+
+    it('should not skip or repeat rows whose timestamps differ below a millisecond', async () => {
+      // Stored with microseconds, which the cursor's JavaScript date can't hold
+      const rows = [
+        { ...mockDbRow, id: 'appt-1', first_name: 'Dana', created_at: '2024-02-06T08:00:00.000900+00:00', created_at_ms: '2024-02-06T08:00:00.000+00:00' },
+        { ...mockDbRow, id: 'appt-2', first_name: 'Erin', created_at: '2024-02-06T08:00:00.000100+00:00', created_at_ms: '2024-02-06T08:00:00.000+00:00' }
+      ];
+      // Applies the keyset filter and sort the way Postgres does, at microsecond precision, on the columns the query names
+      const micros = (value: string) => new Date(value).getTime() * 1000 + Number((value.match(/\.\d{3}(\d*)/)?.[1] ?? '').padEnd(3, '0'));
+      let filter: string | undefined;
+      mockQueryBuilder.or.mockImplementation((value: string) => {
+        filter = value;
+        return mockQueryBuilder;
+      });
+      mockQueryBuilder.limit.mockImplementation(async () => {
+        const [column, { ascending }] = mockQueryBuilder.order.mock.calls[0];
+        const sign = ascending ? 1 : -1;
+        // "<column>.<gt|lt>.<value>,and(<column>.eq.<value>,id.<gt|lt>.<id>)"
+        const [, comparison, value, id] = filter?.match(/^\w+\.(gt|lt)\."([^"]+)",and\(.*,id\.\w+\.([\w-]+)\)$/) ?? [];
+        const page = rows
+          .filter(row => !filter || sign * (micros(row[column]) - micros(value)) > 0 || (micros(row[column]) === micros(value) && sign * row.id.localeCompare(id) > 0))
+          .sort((x, y) => sign * (micros(x[column]) - micros(y[column])) || sign * x.id.localeCompare(y.id))
+          .slice(0, 1);
+        expect(comparison).toBe(filter ? (ascending ? 'gt' : 'lt') : undefined);
+        return { data: page, error: null };
+      });
+
+      for (const sortOrder of ['asc', 'desc'] as const) {
+        const seen: string[] = [];
+        let after: { value: Date; id: string } | undefined;
+        filter = undefined;
+        for (let page = 0; page < 3; page++) {
+          mockQueryBuilder.order.mockClear();
+          const [appointment] = await repository.search({ sortBy: 'createdAt', sortOrder, limit: 1, after });
+          if (!appointment) {
+            break;
+          }
+          seen.push(appointment.firstName);
+          after = { value: appointment.createdAt!, id: appointment.id! };
+        }
+
+        expect(seen.sort()).toEqual(['Dana', 'Erin']);
+      }
+    });
+
+    it('should throw error when search fails', async () => {
+      mockQueryBuilder.limit.mockResolvedValue({ data: null, error: { message: 'search failed' } });
+
+      await expect(repository.search({ sortBy: 'startAt', sortOrder: 'asc', limit: 10 }))
+        .rejects.toThrow('Search failed: search failed');
+    });
+  });
+
   describe('mapRowToEntity', () => {
     it('should properly map database row to AppointmentEntity', async () => {
       // Test the private method indirectly through findById
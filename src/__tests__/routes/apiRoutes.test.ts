@@ -0,0 +1,866 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { apiRoutes } from '../../routes/apiRoutes';
+import { AppointmentApiHandlers } from '../../handlers/AppointmentApiHandlers';
+import { PatientApiHandlers } from '../../handlers/PatientApiHandlers';
+import { SeriesApiHandlers } from '../../handlers/SeriesApiHandlers';
+import { WaitlistApiHandlers } from '../../handlers/WaitlistApiHandlers';
+import { OutboxApiHandlers } from '../../handlers/OutboxApiHandlers';
+import { MessageApiHandlers } from '../../handlers/MessageApiHandlers';
+import { AppointmentHistoryApiHandlers } from '../../handlers/AppointmentHistoryApiHandlers';
+import { CalendarSyncApiHandlers } from '../../handlers/CalendarSyncApiHandlers';
+import { IAppointmentService } from '../../services/interfaces/IAppointmentService';
+import { IPatientService } from '../../services/interfaces/IPatientService';
+import { ICommunicationPreferencesService } from '../../services/interfaces/ICommunicationPreferencesService';
+import { IWaitlistService } from '../../services/interfaces/IWaitlistService';
+import { IOutboxService } from '../../services/interfaces/IOutboxService';
+import { IMessageHistoryService } from '../../services/interfaces/IMessageHistoryService';
+import { IAppointmentHistoryService } from '../../services/interfaces/IAppointmentHistoryService';
+import { ICalendarSyncService } from '../../services/interfaces/ICalendarSyncService';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { PatientEntity } from '../../models/PatientEntity';
+import { CommunicationPreferencesEntity } from '../../models/CommunicationPreferencesEntity';
+import { WaitlistEntryEntity } from '../../models/WaitlistEntryEntity';
+import { OutboxMessageEntity } from '../../models/OutboxMessageEntity';
+import { MessageEntity } from '../../models/MessageEntity';
+import { AppointmentEventEntity } from '../../models/AppointmentEventEntity';
+import { AppointmentSeriesEntity } from '../../models/AppointmentSeriesEntity';
+import { RecurrenceFrequency, SeriesStatus } from '../../types/series';
+import { WaitlistStatus } from '../../types/waitlist';
+import { OutboxStatus } from '../../types/outbox';
+import { MessageStatus } from '../../types/message';
+import { ConsentSource, MessageCategory } from '../../types/preferences';
+import { ActorType, AppointmentEventType, ChangeChannel } from '../../types/appointmentEvent';
+import { AppointmentType, AppointmentStatus } from '../../types/schedule';
+import { CalendarSyncState } from '../../types/calendarSync';
+import {
+  AppointmentCancellationError,
+  NotFoundError,
+  OutsideBusinessHoursError,
+  TimeSlotUnavailableError,
+  ValidationError
+} from '../../types/errors';
+
+const mockAppointmentService: jest.Mocked<IAppointmentService> = {
+  createAppointment: jest.fn(),
+  editAppointment: jest.fn(),
+  cancelAppointment: jest.fn(),
+  confirmAppointment: jest.fn(),
+  claimWaitlistOffer: jest.fn(),
+  createSeries: jest.fn(),
+  getSeries: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  getAppointment: jest.fn(),
+  searchAppointments: jest.fn(),
+  getActiveProviders: jest.fn()
+};
+
+const mockPatientService: jest.Mocked<IPatientService> = {
+  findOrCreatePatient: jest.fn(),
+  getPatient: jest.fn(),
+  findPatientsByContact: jest.fn(),
+  mergePatients: jest.fn()
+};
+
+const mockPreferencesService: jest.Mocked<ICommunicationPreferencesService> = {
+  getPreferences: jest.fn(),
+  updatePreferences: jest.fn(),
+  updatePreferencesByContact: jest.fn()
+};
+
+const mockWaitlistService: jest.Mocked<IWaitlistService> = {
+  joinWaitlist: jest.fn(),
+  listEntries: jest.fn(),
+  leaveWaitlist: jest.fn(),
+  offerFreedSlot: jest.fn(),
+  getClaimableOffer: jest.fn(),
+  completeClaim: jest.fn(),
+  releaseOffer: jest.fn(),
+  expireOffers: jest.fn()
+};
+
+const mockOutboxService: jest.Mocked<IOutboxService> = {
+  deliverDueMessages: jest.fn(),
+  listMessages: jest.fn(),
+  getMessage: jest.fn(),
+  retryMessage: jest.fn(),
+  retryDeadMessages: jest.fn()
+};
+
+const mockMessageHistoryService: jest.Mocked<IMessageHistoryService> = {
+  getAppointmentMessages: jest.fn(),
+  recordReceipt: jest.fn()
+};
+
+const mockHistoryService: jest.Mocked<IAppointmentHistoryService> = {
+  getAppointmentEvents: jest.fn()
+};
+
+const mockCalendarSyncService: jest.Mocked<ICalendarSyncService> = {
+  enqueueSync: jest.fn(),
+  runSync: jest.fn(),
+  syncDueJobs: jest.fn(),
+  resyncAppointment: jest.fn()
+};
+
+const API_KEY = 'test-api-key';
+const APPOINTMENT_ID = '5f0c2a8e-9a43-4d2b-8f7e-0a1b2c3d4e5f';
+const PATIENT_ID = '7d3b1f4e-2c5a-4e6b-9d8c-1a2b3c4d5e6f';
+// Changes are put down to the API key, identified without revealing it
+const STAFF_CHANGE = { channel: ChangeChannel.ADMIN_API, actorType: ActorType.API_USER, actorId: expect.stringMatching(/^key_[0-9a-f]{8}$/) };
+
+describe('Admin API routes', () => {
+  let app: FastifyInstance;
+
+  const appointment = new AppointmentEntity({
+    id: APPOINTMENT_ID,
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    startAt: new Date('2030-01-15T15:00:00Z'),
+    endAt: new Date('2030-01-15T16:00:00Z'),
+    type: AppointmentType.CONSULTATION,
+    status: AppointmentStatus.SCHEDULED,
+    notes: { call_id: 'call-123' },
+    createdAt: new Date('2030-01-01T00:00:00Z')
+  });
+
+  const authorized = { 'x-api-key': API_KEY };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    app = Fastify();
+    await app.register(apiRoutes, {
+      prefix: '/api/v1',
+      appointmentApiHandlers: new AppointmentApiHandlers(mockAppointmentService, 'America/Toronto'),
+      patientApiHandlers: new PatientApiHandlers(mockPatientService, mockPreferencesService),
+      seriesApiHandlers: new SeriesApiHandlers(mockAppointmentService, 'America/Toronto'),
+      waitlistApiHandlers: new WaitlistApiHandlers(mockWaitlistService, 'America/Toronto'),
+      outboxApiHandlers: new OutboxApiHandlers(mockOutboxService),
+      messageApiHandlers: new MessageApiHandlers(mockAppointmentService, mockMessageHistoryService),
+      appointmentHistoryApiHandlers: new AppointmentHistoryApiHandlers(mockAppointmentService, mockHistoryService),
+      calendarSyncApiHandlers: new CalendarSyncApiHandlers(mockCalendarSyncService),
+      apiKeys: ['other-key', API_KEY]
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('authentication', () => {
+    it('should reject requests without credentials', async () => {
+      const response = await app.inject({ method: 'GET', url: `/api/v1/appointments/${APPOINTMENT_ID}` });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.headers['www-authenticate']).toBe('Bearer');
+      expect(response.json()).toEqual({ code: 'UNAUTHORIZED', message: 'A valid API key or bearer token is required' });
+      expect(mockAppointmentService.getAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown key', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}`,
+        headers: { 'x-api-key': 'wrong-key' }
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should accept the key as a bearer token', async () => {
+      mockAppointmentService.getAppointment.mockResolvedValue(appointment);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}`,
+        headers: { authorization: `Bearer ${API_KEY}` }
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
+
+  describe('appointments', () => {
+    it('should return an appointment without its call notes', async () => {
+      mockAppointmentService.getAppointment.mockResolvedValue(appointment);
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/appointments/${APPOINTMENT_ID}`, headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data.id).toBe(APPOINTMENT_ID);
+      expect(body.data.startAt).toBe('2030-01-15T15:00:00.000Z');
+      expect(body.data.notes).toBeUndefined();
+    });
+
+    it('should return 404 for an unknown appointment', async () => {
+      mockAppointmentService.getAppointment.mockRejectedValue(new NotFoundError(`Appointment with ID ${APPOINTMENT_ID} not found`));
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/appointments/${APPOINTMENT_ID}`, headers: authorized });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toEqual({ code: 'NOT_FOUND', message: `Appointment with ID ${APPOINTMENT_ID} not found` });
+    });
+
+    it('should return 400 for a malformed appointment id without looking it up', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/v1/appointments/not-a-uuid', headers: authorized });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(mockAppointmentService.getAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should search appointments with filters, reading local dates in the clinic time zone', async () => {
+      mockAppointmentService.searchAppointments.mockResolvedValue({ appointments: [appointment], nextCursor: 'next-page' });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/appointments?from=2030-01-15&to=2030-01-16&status=scheduled,confirmed&type=consultation'
+          + '&patientName=jo&callId=call-123&sortBy=createdAt&sortOrder=desc&limit=10',
+        headers: authorized
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockAppointmentService.searchAppointments).toHaveBeenCalledWith({
+        from: new Date('2030-01-15T05:00:00Z'),
+        to: new Date('2030-01-16T05:00:00Z'),
+        statuses: ['scheduled', 'confirmed'],
+        types: ['consultation'],
+        patientName: 'jo',
+        callId: 'call-123',
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        limit: 10
+      });
+      expect(response.json()).toEqual(expect.objectContaining({ count: 1, nextCursor: 'next-page' }));
+    });
+
+    it('should find a patient\'s appointments by contact', async () => {
+      mockAppointmentService.searchAppointments.mockResolvedValue({ appointments: [] });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/appointments?contact=john.doe%40example.com',
+        headers: authorized
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockAppointmentService.searchAppointments).toHaveBeenCalledWith(expect.objectContaining({ contact: 'john.doe@example.com' }));
+      expect(response.json().nextCursor).toBeNull();
+    });
+
+    it('should reject unknown statuses and oversized pages', async () => {
+      const badStatus = await app.inject({ method: 'GET', url: '/api/v1/appointments?status=pending', headers: authorized });
+      const badLimit = await app.inject({ method: 'GET', url: '/api/v1/appointments?limit=500', headers: authorized });
+
+      expect(badStatus.statusCode).toBe(400);
+      expect(badLimit.statusCode).toBe(400);
+      expect(mockAppointmentService.searchAppointments).not.toHaveBeenCalled();
+    });
+
+    it('should create an appointment, reading local times in the clinic time zone', async () => {
+      mockAppointmentService.createAppointment.mockResolvedValue(appointment);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/appointments',
+        headers: authorized,
+        payload: {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john.doe@example.com',
+          startAt: '2030-01-15T10:00',
+          type: 'consultation'
+        }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(mockAppointmentService.createAppointment).toHaveBeenCalledWith(expect.objectContaining({
+        startAt: new Date('2030-01-15T15:00:00Z'),
+        notes: { source: 'api' }
+      }), STAFF_CHANGE);
+    });
+
+    it('should book a type the clinic added to the catalogue', async () => {
+      mockAppointmentService.createAppointment.mockResolvedValue(appointment);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/appointments',
+        headers: authorized,
+        payload: { firstName: 'John', lastName: 'Doe', phoneNumber: '4165551234', startAt: '2030-01-15T10:00', type: 'allergy_test' }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(mockAppointmentService.createAppointment).toHaveBeenCalledWith(expect.objectContaining({ type: 'allergy_test' }), STAFF_CHANGE);
+    });
+
+    it('should return 400 for a type the catalogue does not offer', async () => {
+      mockAppointmentService.createAppointment.mockRejectedValue(new ValidationError("We don't currently offer massage appointments"));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/appointments',
+        headers: authorized,
+        payload: { firstName: 'John', lastName: 'Doe', phoneNumber: '4165551234', startAt: '2030-01-15T10:00', type: 'massage' }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 400 for an invalid booking', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/appointments',
+        headers: authorized,
+        payload: { firstName: 'John', lastName: 'Doe', startAt: '2030-01-15T10:00', type: 'consultation' }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockAppointmentService.createAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the slot is taken', async () => {
+      mockAppointmentService.createAppointment.mockRejectedValue(new TimeSlotUnavailableError('Time slot is already booked'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/appointments',
+        headers: authorized,
+        payload: { firstName: 'John', lastName: 'Doe', phoneNumber: '4165551234', startAt: '2030-01-15T10:00', type: 'consultation' }
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().code).toBe('TIME_SLOT_UNAVAILABLE');
+    });
+
+    it('should reschedule an appointment', async () => {
+      mockAppointmentService.editAppointment.mockResolvedValue(appointment);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}`,
+        headers: authorized,
+        payload: { startAt: '2030-01-16T09:30:00-05:00' }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockAppointmentService.editAppointment).toHaveBeenCalledWith(APPOINTMENT_ID, expect.objectContaining({
+        startAt: new Date('2030-01-16T14:30:00Z')
+      }), 'this', STAFF_CHANGE);
+    });
+
+    it('should return 422 when the new time is outside business hours', async () => {
+      mockAppointmentService.editAppointment.mockRejectedValue(new OutsideBusinessHoursError('We are closed on Sundays'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}`,
+        headers: authorized,
+        payload: { startAt: '2030-01-20T10:00' }
+      });
+
+      expect(response.statusCode).toBe(422);
+    });
+
+    it('should not allow patient details to be changed', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}`,
+        headers: authorized,
+        payload: { firstName: 'Jane' }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockAppointmentService.editAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should cancel an appointment and return it', async () => {
+      mockAppointmentService.cancelAppointment.mockResolvedValue(true);
+      mockAppointmentService.getAppointment.mockResolvedValue(new AppointmentEntity({ ...appointment, status: AppointmentStatus.CANCELLED } as any));
+
+      const response = await app.inject({ method: 'POST', url: `/api/v1/appointments/${APPOINTMENT_ID}/cancel`, headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.status).toBe('cancelled');
+    });
+
+    it('should return 422 when the cancellation notice period has passed', async () => {
+      mockAppointmentService.cancelAppointment.mockRejectedValue(
+        new AppointmentCancellationError('Appointments must be cancelled at least 2 hours in advance')
+      );
+
+      const response = await app.inject({ method: 'POST', url: `/api/v1/appointments/${APPOINTMENT_ID}/cancel`, headers: authorized });
+
+      expect(response.statusCode).toBe(422);
+      expect(response.json().code).toBe('APPOINTMENT_CANCELLATION_ERROR');
+    });
+  });
+
+  describe('series', () => {
+    const SERIES_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+    const series = new AppointmentSeriesEntity({
+      id: SERIES_ID,
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john.doe@example.com',
+      type: AppointmentType.THERAPY,
+      startAt: new Date('2030-01-15T15:00:00Z'),
+      durationMinutes: 60,
+      timeZone: 'America/Toronto',
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1, count: 2, exceptions: [] },
+      status: SeriesStatus.ACTIVE
+    });
+
+    it('should book a series, reading local times in the clinic time zone', async () => {
+      mockAppointmentService.createSeries.mockResolvedValue({ series, appointments: [appointment] });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/series',
+        headers: authorized,
+        payload: {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john.doe@example.com',
+          startAt: '2030-01-15T10:00',
+          type: 'therapy',
+          recurrence: { frequency: 'weekly', until: '2030-03-01T00:00', exceptions: ['2030-01-29'] }
+        }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(mockAppointmentService.createSeries).toHaveBeenCalledWith(expect.objectContaining({
+        startAt: new Date('2030-01-15T15:00:00Z'),
+        recurrence: { frequency: 'weekly', interval: 1, until: new Date('2030-03-01T05:00:00Z'), exceptions: ['2030-01-29'] }
+      }), STAFF_CHANGE);
+      expect(response.json().data.id).toBe(SERIES_ID);
+      expect(response.json().data.appointments[0].notes).toBeUndefined();
+    });
+
+    it('should return 400 for a series without an end', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/series',
+        headers: authorized,
+        payload: { firstName: 'John', lastName: 'Doe', phoneNumber: '4165551234', startAt: '2030-01-15T10:00', type: 'therapy', recurrence: { frequency: 'weekly' } }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockAppointmentService.createSeries).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 listing the dates that are taken', async () => {
+      mockAppointmentService.createSeries.mockRejectedValue(new TimeSlotUnavailableError('The recurring time is not available on 2030-01-22'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/series',
+        headers: authorized,
+        payload: { firstName: 'John', lastName: 'Doe', phoneNumber: '4165551234', startAt: '2030-01-15T10:00', type: 'therapy', recurrence: { frequency: 'weekly', count: 4 } }
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().message).toContain('2030-01-22');
+    });
+
+    it('should return 404 for an unknown series', async () => {
+      mockAppointmentService.getSeries.mockRejectedValue(new NotFoundError(`Appointment series with ID ${SERIES_ID} not found`));
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/series/${SERIES_ID}`, headers: authorized });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should reschedule the rest of the series', async () => {
+      mockAppointmentService.editAppointment.mockResolvedValue(appointment);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}`,
+        headers: authorized,
+        payload: { startAt: '2030-01-16T11:00', scope: 'following' }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockAppointmentService.editAppointment).toHaveBeenCalledWith(APPOINTMENT_ID, {
+        startAt: new Date('2030-01-16T16:00:00Z'),
+        endAt: undefined
+      }, 'following', STAFF_CHANGE);
+    });
+
+    it('should require a change besides the scope', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}`,
+        headers: authorized,
+        payload: { scope: 'following' }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockAppointmentService.editAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the rest of the series', async () => {
+      mockAppointmentService.cancelAppointment.mockResolvedValue(true);
+      mockAppointmentService.getAppointment.mockResolvedValue(appointment);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/appointments/${APPOINTMENT_ID}/cancel`,
+        headers: authorized,
+        payload: { scope: 'following' }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockAppointmentService.cancelAppointment).toHaveBeenCalledWith(APPOINTMENT_ID, 'following', STAFF_CHANGE);
+    });
+  });
+
+  describe('patients', () => {
+    const patient = new PatientEntity({ id: PATIENT_ID, firstName: 'John', lastName: 'Doe', email: 'john.doe@example.com' });
+
+    it('should find patients by contact details', async () => {
+      mockPatientService.findPatientsByContact.mockResolvedValue([patient]);
+
+      const response = await app.inject({ method: 'GET', url: '/api/v1/patients?phoneNumber=4165551234', headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockPatientService.findPatientsByContact).toHaveBeenCalledWith(undefined, '4165551234');
+      expect(response.json().data[0].id).toBe(PATIENT_ID);
+    });
+
+    it('should merge a duplicate into the surviving record', async () => {
+      mockPatientService.mergePatients.mockResolvedValue(patient);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/patients/${APPOINTMENT_ID}/merge`,
+        headers: authorized,
+        payload: { targetPatientId: PATIENT_ID }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockPatientService.mergePatients).toHaveBeenCalledWith(APPOINTMENT_ID, PATIENT_ID);
+    });
+
+    it('should return 400 when the merge is not allowed', async () => {
+      mockPatientService.mergePatients.mockRejectedValue(new ValidationError('Cannot merge a patient into itself'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/patients/${PATIENT_ID}/merge`,
+        headers: authorized,
+        payload: { targetPatientId: PATIENT_ID }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({ code: 'VALIDATION_ERROR', message: 'Cannot merge a patient into itself' });
+    });
+
+    it('should show communication preferences with the consent history', async () => {
+      mockPreferencesService.getPreferences.mockResolvedValue(new CommunicationPreferencesEntity({
+        patientId: PATIENT_ID,
+        preferredChannel: 'sms',
+        consents: [{
+          channel: 'email',
+          category: MessageCategory.REMINDERS,
+          granted: false,
+          source: ConsentSource.VOICE_AGENT,
+          sourceReference: 'call-123',
+          recordedAt: new Date('2030-01-02T00:00:00Z')
+        }]
+      }));
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/patients/${PATIENT_ID}/preferences`, headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual(expect.objectContaining({
+        preferredChannel: 'sms',
+        consents: [expect.objectContaining({ channel: 'email', granted: false, sourceReference: 'call-123', recordedAt: '2030-01-02T00:00:00.000Z' })]
+      }));
+    });
+
+    it('should record preference changes as made by staff', async () => {
+      mockPreferencesService.updatePreferences.mockResolvedValue(CommunicationPreferencesEntity.defaults(PATIENT_ID));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/patients/${PATIENT_ID}/preferences`,
+        headers: authorized,
+        payload: { quietHours: { start: '21:00', end: '08:00' }, consents: [{ channel: 'sms', granted: true }] }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockPreferencesService.updatePreferences).toHaveBeenCalledWith(
+        PATIENT_ID,
+        { quietHours: { start: '21:00', end: '08:00' }, consents: [{ channel: 'sms', granted: true }] },
+        { source: ConsentSource.STAFF }
+      );
+    });
+
+    it('should reject quiet hours that are not times of day', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/patients/${PATIENT_ID}/preferences`,
+        headers: authorized,
+        payload: { quietHours: { start: '9pm', end: '08:00' } }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockPreferencesService.updatePreferences).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waitlist', () => {
+    const entry = new WaitlistEntryEntity({
+      id: PATIENT_ID,
+      firstName: 'Jane',
+      lastName: 'Smith',
+      phoneNumber: '+14165551234',
+      type: AppointmentType.THERAPY,
+      earliestAt: new Date('2030-01-15T05:00:00Z'),
+      latestAt: new Date('2030-01-20T05:00:00Z'),
+      status: WaitlistStatus.WAITING
+    });
+
+    it('should add a patient to the waitlist, reading local dates in the clinic time zone', async () => {
+      mockWaitlistService.joinWaitlist.mockResolvedValue(entry);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/waitlist',
+        headers: authorized,
+        payload: {
+          firstName: 'Jane',
+          lastName: 'Smith',
+          phoneNumber: '416 555 1234',
+          type: 'therapy',
+          earliestAt: '2030-01-15T00:00:00',
+          latestAt: '2030-01-20T00:00:00'
+        }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(mockWaitlistService.joinWaitlist).toHaveBeenCalledWith(expect.objectContaining({
+        type: AppointmentType.THERAPY,
+        earliestAt: new Date('2030-01-15T05:00:00Z'),
+        latestAt: new Date('2030-01-20T05:00:00Z')
+      }));
+    });
+
+    it('should return 400 for a window that ends before it starts', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/waitlist',
+        headers: authorized,
+        payload: {
+          firstName: 'Jane',
+          lastName: 'Smith',
+          phoneNumber: '416 555 1234',
+          type: 'therapy',
+          earliestAt: '2030-01-20T00:00:00',
+          latestAt: '2030-01-15T00:00:00'
+        }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockWaitlistService.joinWaitlist).not.toHaveBeenCalled();
+    });
+
+    it('should list entries by status', async () => {
+      mockWaitlistService.listEntries.mockResolvedValue([entry]);
+
+      const response = await app.inject({ method: 'GET', url: '/api/v1/waitlist?status=waiting', headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockWaitlistService.listEntries).toHaveBeenCalledWith(WaitlistStatus.WAITING);
+      expect(response.json().count).toBe(1);
+    });
+
+    it('should return 404 when cancelling an unknown entry', async () => {
+      mockWaitlistService.leaveWaitlist.mockRejectedValue(new NotFoundError(`Waitlist entry with ID ${PATIENT_ID} not found`));
+
+      const response = await app.inject({ method: 'POST', url: `/api/v1/waitlist/${PATIENT_ID}/cancel`, headers: authorized });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('outbox', () => {
+    const MESSAGE_ID = '9c8b7a6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+    const deadMessage = () => new OutboxMessageEntity({
+      id: MESSAGE_ID,
+      to: 'john.doe@example.com',
+      subject: 'Appointment Confirmation',
+      body: 'Your appointment is confirmed',
+      type: 'email',
+      appointmentId: APPOINTMENT_ID,
+      eventType: 'confirmation',
+      status: OutboxStatus.DEAD,
+      attempts: 8,
+      nextAttemptAt: new Date('2030-01-01T00:00:00Z'),
+      lastError: 'Request failed with status code 500'
+    });
+
+    it('should list messages filtered by status and appointment', async () => {
+      mockOutboxService.listMessages.mockResolvedValue([deadMessage()]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/outbox?status=dead&appointmentId=${APPOINTMENT_ID}`,
+        headers: authorized
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockOutboxService.listMessages).toHaveBeenCalledWith({ status: OutboxStatus.DEAD, appointmentId: APPOINTMENT_ID });
+      expect(response.json().data[0]).toEqual(expect.objectContaining({ id: MESSAGE_ID, lastError: 'Request failed with status code 500' }));
+    });
+
+    it('should return 400 for an unknown status', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/v1/outbox?status=lost', headers: authorized });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockOutboxService.listMessages).not.toHaveBeenCalled();
+    });
+
+    it('should re-drive a dead message', async () => {
+      mockOutboxService.retryMessage.mockResolvedValue(new OutboxMessageEntity({ ...deadMessage(), status: OutboxStatus.PENDING, attempts: 0 }));
+
+      const response = await app.inject({ method: 'POST', url: `/api/v1/outbox/${MESSAGE_ID}/retry`, headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockOutboxService.retryMessage).toHaveBeenCalledWith(MESSAGE_ID);
+      expect(response.json().data.status).toBe('pending');
+    });
+
+    it('should return 400 for a malformed message id', async () => {
+      const response = await app.inject({ method: 'POST', url: '/api/v1/outbox/123/retry', headers: authorized });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockOutboxService.retryMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when retrying a message that was delivered', async () => {
+      mockOutboxService.retryMessage.mockRejectedValue(new ValidationError('Only dead messages can be retried, this message is sent'));
+
+      const response = await app.inject({ method: 'POST', url: `/api/v1/outbox/${MESSAGE_ID}/retry`, headers: authorized });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should re-drive every dead message', async () => {
+      mockOutboxService.retryDeadMessages.mockResolvedValue(3);
+
+      const response = await app.inject({ method: 'POST', url: '/api/v1/outbox/retry-dead', headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: { requeued: 3 } });
+    });
+  });
+
+  describe('message history', () => {
+    it('should list every attempt to message the patient about an appointment', async () => {
+      mockAppointmentService.getAppointment.mockResolvedValue(appointment);
+      mockMessageHistoryService.getAppointmentMessages.mockResolvedValue([
+        new MessageEntity({
+          appointmentId: APPOINTMENT_ID,
+          channel: 'sms',
+          recipient: '+14165551234',
+          template: 'confirmation',
+          transport: 'http-sms',
+          status: MessageStatus.DELIVERED,
+          providerMessageId: 'SM123'
+        })
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/appointments/${APPOINTMENT_ID}/messages`, headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockMessageHistoryService.getAppointmentMessages).toHaveBeenCalledWith(APPOINTMENT_ID);
+      expect(response.json().data[0]).toEqual(expect.objectContaining({ template: 'confirmation', status: 'delivered', providerMessageId: 'SM123' }));
+    });
+
+    it('should return 404 for an unknown appointment', async () => {
+      mockAppointmentService.getAppointment.mockRejectedValue(new NotFoundError(`Appointment with ID ${APPOINTMENT_ID} not found`));
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/appointments/${APPOINTMENT_ID}/messages`, headers: authorized });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockMessageHistoryService.getAppointmentMessages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('appointment history', () => {
+    it('should list the changes made to an appointment', async () => {
+      mockAppointmentService.getAppointment.mockResolvedValue(appointment);
+      mockHistoryService.getAppointmentEvents.mockResolvedValue([
+        new AppointmentEventEntity({
+          appointmentId: APPOINTMENT_ID,
+          eventType: AppointmentEventType.RESCHEDULED,
+          before: { startAt: new Date('2030-01-15T15:00:00Z') },
+          after: { startAt: new Date('2030-01-16T15:00:00Z') },
+          channel: ChangeChannel.VOICE_AGENT,
+          actorType: ActorType.RETELL_CALL,
+          actorId: 'call-456'
+        })
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/appointments/${APPOINTMENT_ID}/events`, headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockHistoryService.getAppointmentEvents).toHaveBeenCalledWith(APPOINTMENT_ID);
+      expect(response.json().count).toBe(1);
+      expect(response.json().data[0]).toEqual(expect.objectContaining({
+        eventType: 'rescheduled',
+        before: { startAt: '2030-01-15T15:00:00.000Z' },
+        after: { startAt: '2030-01-16T15:00:00.000Z' },
+        channel: 'voice_agent',
+        actorType: 'retell_call',
+        actorId: 'call-456'
+      }));
+    });
+
+    it('should return 404 for an unknown appointment', async () => {
+      mockAppointmentService.getAppointment.mockRejectedValue(new NotFoundError(`Appointment with ID ${APPOINTMENT_ID} not found`));
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/appointments/${APPOINTMENT_ID}/events`, headers: authorized });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockHistoryService.getAppointmentEvents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calendar sync', () => {
+    it('should sync the appointment again and return its sync state', async () => {
+      mockCalendarSyncService.resyncAppointment.mockResolvedValue(new AppointmentEntity({
+        ...appointment,
+        id: APPOINTMENT_ID,
+        createdAt: appointment.createdAt!,
+        calendarEventId: 'appt5f0c2a8e9a434d2b8f7e0a1b2c3d4e5f',
+        calendarSyncState: CalendarSyncState.SYNCED
+      }));
+
+      const response = await app.inject({ method: 'POST', url: `/api/v1/appointments/${APPOINTMENT_ID}/calendar-sync`, headers: authorized });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockCalendarSyncService.resyncAppointment).toHaveBeenCalledWith(APPOINTMENT_ID);
+      expect(response.json().data).toEqual({
+        appointmentId: APPOINTMENT_ID,
+        calendarEventId: 'appt5f0c2a8e9a434d2b8f7e0a1b2c3d4e5f',
+        calendarSyncState: 'synced'
+      });
+    });
+
+    it('should return 404 for an unknown appointment', async () => {
+      mockCalendarSyncService.resyncAppointment.mockRejectedValue(new NotFoundError(`Appointment with ID ${APPOINTMENT_ID} not found`));
+
+      const response = await app.inject({ method: 'POST', url: `/api/v1/appointments/${APPOINTMENT_ID}/calendar-sync`, headers: authorized });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { deliveryReceiptRoutes } from '../../routes/deliveryReceiptRoutes';
+import { DeliveryReceiptHandlers } from '../../handlers/DeliveryReceiptHandlers';
+import { IMessageHistoryService } from '../../services/interfaces/IMessageHistoryService';
+import { MessageStatus } from '../../types/message';
+
+const mockMessageHistoryService: jest.Mocked<IMessageHistoryService> = {
+  getAppointmentMessages: jest.fn(),
+  recordReceipt: jest.fn()
+};
+
+const TOKEN = 'receipt-token';
+
+describe('Delivery receipt routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockMessageHistoryService.recordReceipt.mockResolvedValue(null);
+    app = Fastify();
+    await app.register(deliveryReceiptRoutes, {
+      deliveryReceiptHandlers: new DeliveryReceiptHandlers(mockMessageHistoryService),
+      token: TOKEN
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const smsReceipt = (form: Record<string, string>, token = TOKEN) => app.inject({
+    method: 'POST',
+    url: `/messages/receipts/sms?token=${token}`,
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    payload: new URLSearchParams(form).toString()
+  });
+
+  it('should reject receipts without the token', async () => {
+    const response = await smsReceipt({ MessageSid: 'SM123', MessageStatus: 'delivered' }, 'wrong');
+
+    expect(response.statusCode).toBe(401);
+    expect(mockMessageHistoryService.recordReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should record a delivered Twilio status callback', async () => {
+    const response = await smsReceipt({ MessageSid: 'SM123', MessageStatus: 'delivered', To: '+14165551234' });
+
+    expect(response.statusCode).toBe(204);
+    expect(mockMessageHistoryService.recordReceipt).toHaveBeenCalledWith({
+      channel: 'sms',
+      providerMessageId: 'SM123',
+      status: MessageStatus.DELIVERED,
+      detail: { MessageSid: 'SM123', MessageStatus: 'delivered', To: '+14165551234' }
+    });
+  });
+
+  it('should treat a carrier failure as undelivered', async () => {
+    await smsReceipt({ MessageSid: 'SM123', MessageStatus: 'undelivered', ErrorCode: '30003' });
+
+    expect(mockMessageHistoryService.recordReceipt).toHaveBeenCalledWith(expect.objectContaining({ status: MessageStatus.UNDELIVERED }));
+  });
+
+  it('should acknowledge progress updates without recording them', async () => {
+    const response = await smsReceipt({ MessageSid: 'SM123', MessageStatus: 'sent' });
+
+    expect(response.statusCode).toBe(204);
+    expect(mockMessageHistoryService.recordReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should record an email bounce by Message-ID', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/messages/receipts/email?token=${TOKEN}`,
+      payload: { messageId: '<abc123@mail.example.com>', status: 'bounced', reason: 'mailbox full' }
+    });
+
+    expect(response.statusCode).toBe(204);
+    expect(mockMessageHistoryService.recordReceipt).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'email',
+      providerMessageId: 'abc123@mail.example.com',
+      status: MessageStatus.UNDELIVERED
+    }));
+  });
+});
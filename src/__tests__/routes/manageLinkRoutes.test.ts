@@ -0,0 +1,175 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { manageLinkRoutes } from '../../routes/manageLinkRoutes';
+import { ManageLinkHandlers } from '../../handlers/ManageLinkHandlers';
+import { ManageLinkService } from '../../services/manageLinkService';
+import { IAppointmentService } from '../../services/interfaces/IAppointmentService';
+import { IAvailabilityService } from '../../services/interfaces/IAvailabilityService';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { AppointmentType, AppointmentStatus } from '../../types/schedule';
+import { AppointmentCancellationError } from '../../types/errors';
+import { createManageToken } from '../../utils/manageLinkUtils';
+import { ActorType, ChangeChannel } from '../../types/appointmentEvent';
+
+const mockAppointmentService: jest.Mocked<IAppointmentService> = {
+  createAppointment: jest.fn(),
+  editAppointment: jest.fn(),
+  cancelAppointment: jest.fn(),
+  confirmAppointment: jest.fn(),
+  claimWaitlistOffer: jest.fn(),
+  createSeries: jest.fn(),
+  getSeries: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  getAppointment: jest.fn(),
+  searchAppointments: jest.fn(),
+  getActiveProviders: jest.fn()
+};
+
+const mockAvailabilityService: jest.Mocked<IAvailabilityService> = {
+  findAvailableSlots: jest.fn()
+};
+
+const SECRET = 'link-secret';
+const SELF_SERVICE_CHANGE = { channel: ChangeChannel.SELF_SERVICE, actorType: ActorType.PATIENT };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Self-service appointment routes', () => {
+  let app: FastifyInstance;
+  let appointment: AppointmentEntity;
+  let token: string;
+
+  const formPost = (url: string, payload = '') => app.inject({
+    method: 'POST',
+    url,
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    payload
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    appointment = new AppointmentEntity({
+      id: 'appt-1',
+      firstName: '<Jane>',
+      lastName: 'Smith',
+      phoneNumber: '+14165551234',
+      startAt: new Date(Date.now() + 3 * DAY_MS),
+      endAt: new Date(Date.now() + 3 * DAY_MS + 60 * 60 * 1000),
+      type: AppointmentType.THERAPY,
+      status: AppointmentStatus.SCHEDULED,
+      providerId: 'provider-1',
+      notes: {},
+      createdAt: new Date()
+    });
+    token = createManageToken('appt-1', new Date(Date.now() + 30 * DAY_MS), SECRET);
+    mockAppointmentService.getAppointment.mockResolvedValue(appointment);
+
+    app = Fastify();
+    await app.register(manageLinkRoutes, {
+      manageLinkHandlers: new ManageLinkHandlers(
+        new ManageLinkService({ secret: SECRET }, mockAppointmentService, mockAvailabilityService),
+        'America/Toronto'
+      )
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should show the appointment without changing it', async () => {
+    const response = await app.inject({ method: 'GET', url: `/appointments/manage/${token}` });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.body).toContain('&lt;Jane&gt;');
+    expect(response.body).toContain(`action="/appointments/manage/${token}/confirm"`);
+    expect(response.body).toContain(`action="/appointments/manage/${token}/cancel"`);
+    expect(mockAppointmentService.getAppointment).toHaveBeenCalledWith('appt-1');
+    expect(mockAppointmentService.confirmAppointment).not.toHaveBeenCalled();
+    expect(mockAppointmentService.cancelAppointment).not.toHaveBeenCalled();
+  });
+
+  it('should refuse tampered and expired links', async () => {
+    const expired = createManageToken('appt-1', new Date(Date.now() - 1000), SECRET);
+
+    const tampered = await app.inject({ method: 'GET', url: `/appointments/manage/${token.slice(0, -2)}xx` });
+    const lapsed = await app.inject({ method: 'GET', url: `/appointments/manage/${expired}` });
+
+    expect(tampered.statusCode).toBe(400);
+    expect(tampered.body).toContain('This link is not valid');
+    expect(lapsed.statusCode).toBe(400);
+    expect(lapsed.body).toContain('This link has expired');
+    expect(mockAppointmentService.getAppointment).not.toHaveBeenCalled();
+  });
+
+  it('should confirm attendance when the form is submitted', async () => {
+    mockAppointmentService.confirmAppointment.mockResolvedValue(new AppointmentEntity({
+      ...appointment,
+      id: 'appt-1',
+      createdAt: appointment.createdAt!,
+      status: AppointmentStatus.CONFIRMED
+    }));
+
+    const response = await formPost(`/appointments/manage/${token}/confirm`);
+
+    expect(response.statusCode).toBe(200);
+    expect(mockAppointmentService.confirmAppointment).toHaveBeenCalledWith('appt-1', SELF_SERVICE_CHANGE);
+    expect(response.body).toContain('Appointment confirmed');
+  });
+
+  it('should cancel under the usual cancellation rules', async () => {
+    mockAppointmentService.cancelAppointment.mockRejectedValue(
+      new AppointmentCancellationError('Cannot cancel appointments less than 2 hours before start time')
+    );
+
+    const response = await formPost(`/appointments/manage/${token}/cancel`);
+
+    expect(response.statusCode).toBe(422);
+    expect(mockAppointmentService.cancelAppointment).toHaveBeenCalledWith('appt-1', 'this', SELF_SERVICE_CHANGE);
+    expect(response.body).toContain('less than 2 hours before start time');
+  });
+
+  it('should list open slots with the same type and provider', async () => {
+    const startAt = new Date('2030-01-16T15:00:00Z');
+    mockAvailabilityService.findAvailableSlots.mockResolvedValue([
+      { startAt, endAt: new Date('2030-01-16T16:00:00Z'), providerId: 'provider-1' }
+    ]);
+
+    const response = await app.inject({ method: 'GET', url: `/appointments/manage/${token}/reschedule` });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockAvailabilityService.findAvailableSlots).toHaveBeenCalledWith(expect.objectContaining({
+      type: AppointmentType.THERAPY,
+      providerId: 'provider-1'
+    }));
+    expect(response.body).toContain('Wednesday, January 16, 2030 at 10:00 AM EST');
+    expect(response.body).toContain(`value="${startAt.toISOString()}"`);
+    expect(response.body).toContain(`reschedule?from=${encodeURIComponent('2030-01-16T16:00:00.000Z')}`);
+  });
+
+  it('should move the appointment to the chosen slot', async () => {
+    const startAt = new Date(Date.now() + 5 * DAY_MS);
+    mockAppointmentService.editAppointment.mockResolvedValue(new AppointmentEntity({
+      ...appointment,
+      id: 'appt-1',
+      createdAt: appointment.createdAt!,
+      startAt
+    }));
+
+    const response = await formPost(`/appointments/manage/${token}/reschedule`, `startAt=${encodeURIComponent(startAt.toISOString())}`);
+
+    expect(response.statusCode).toBe(200);
+    expect(mockAppointmentService.editAppointment).toHaveBeenCalledWith('appt-1', { startAt }, 'this', SELF_SERVICE_CHANGE);
+    expect(response.body).toContain('Appointment moved');
+  });
+
+  it('should not reschedule cancelled appointments', async () => {
+    appointment.status = AppointmentStatus.CANCELLED;
+
+    const response = await formPost(`/appointments/manage/${token}/reschedule`, `startAt=${encodeURIComponent(new Date(Date.now() + 5 * DAY_MS).toISOString())}`);
+
+    expect(response.statusCode).toBe(422);
+    expect(response.body).toContain('Cannot reschedule cancelled appointments');
+    expect(mockAppointmentService.editAppointment).not.toHaveBeenCalled();
+  });
+});
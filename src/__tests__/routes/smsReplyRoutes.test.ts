@@ -0,0 +1,67 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { smsReplyRoutes } from '../../routes/smsReplyRoutes';
+import { SmsReplyHandlers } from '../../handlers/SmsReplyHandlers';
+import { ISmsReplyService } from '../../services/interfaces/ISmsReplyService';
+
+const mockSmsReplyService: jest.Mocked<ISmsReplyService> = {
+  handleReply: jest.fn()
+};
+
+const TOKEN = 'inbound-token';
+
+describe('SMS reply routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    app = Fastify();
+    await app.register(smsReplyRoutes, {
+      smsReplyHandlers: new SmsReplyHandlers(mockSmsReplyService),
+      token: TOKEN
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const inboundSms = (form: Record<string, string>, token = TOKEN) => app.inject({
+    method: 'POST',
+    url: `/messages/inbound/sms?token=${token}`,
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    payload: new URLSearchParams(form).toString()
+  });
+
+  it('should reject messages without the token', async () => {
+    const response = await inboundSms({ From: '+14165551234', Body: 'C' }, 'wrong');
+
+    expect(response.statusCode).toBe(401);
+    expect(mockSmsReplyService.handleReply).not.toHaveBeenCalled();
+  });
+
+  it('should answer with TwiML', async () => {
+    mockSmsReplyService.handleReply.mockResolvedValue({
+      action: 'confirmed',
+      appointmentId: 'appt-1',
+      reply: 'Clinic <East>: thank you, your appointment is confirmed.'
+    });
+
+    const response = await inboundSms({ MessageSid: 'SM123', From: '+14165551234', Body: 'C' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/xml');
+    expect(mockSmsReplyService.handleReply).toHaveBeenCalledWith('+14165551234', 'C');
+    expect(response.body).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Clinic &lt;East&gt;: thank you, your appointment is confirmed.</Message></Response>'
+    );
+  });
+
+  it('should send an empty response when there is no sender', async () => {
+    const response = await inboundSms({ Body: 'C' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('<Response></Response>');
+    expect(mockSmsReplyService.handleReply).not.toHaveBeenCalled();
+  });
+});
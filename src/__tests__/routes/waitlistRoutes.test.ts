@@ -0,0 +1,124 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { waitlistRoutes } from '../../routes/waitlistRoutes';
+import { WaitlistClaimHandlers } from '../../handlers/WaitlistClaimHandlers';
+import { IAppointmentService } from '../../services/interfaces/IAppointmentService';
+import { IWaitlistService } from '../../services/interfaces/IWaitlistService';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { WaitlistEntryEntity } from '../../models/WaitlistEntryEntity';
+import { AppointmentType, AppointmentStatus } from '../../types/schedule';
+import { WaitlistStatus } from '../../types/waitlist';
+import { ConflictError, NotFoundError } from '../../types/errors';
+
+const mockAppointmentService: jest.Mocked<IAppointmentService> = {
+  createAppointment: jest.fn(),
+  editAppointment: jest.fn(),
+  cancelAppointment: jest.fn(),
+  confirmAppointment: jest.fn(),
+  claimWaitlistOffer: jest.fn(),
+  createSeries: jest.fn(),
+  getSeries: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  getAppointment: jest.fn(),
+  searchAppointments: jest.fn(),
+  getActiveProviders: jest.fn()
+};
+
+const mockWaitlistService: jest.Mocked<IWaitlistService> = {
+  joinWaitlist: jest.fn(),
+  listEntries: jest.fn(),
+  leaveWaitlist: jest.fn(),
+  offerFreedSlot: jest.fn(),
+  getClaimableOffer: jest.fn(),
+  completeClaim: jest.fn(),
+  releaseOffer: jest.fn(),
+  expireOffers: jest.fn()
+};
+
+describe('Waitlist claim routes', () => {
+  let app: FastifyInstance;
+
+  const entry = new WaitlistEntryEntity({
+    id: 'entry-1',
+    firstName: '<Jane>',
+    lastName: 'Smith',
+    phoneNumber: '+14165551234',
+    type: AppointmentType.THERAPY,
+    earliestAt: new Date('2030-01-15T05:00:00Z'),
+    latestAt: new Date('2030-01-20T05:00:00Z'),
+    status: WaitlistStatus.OFFERED,
+    offer: {
+      token: 'token-1',
+      startAt: new Date('2030-01-16T15:00:00Z'),
+      endAt: new Date('2030-01-16T16:00:00Z'),
+      expiresAt: new Date('2030-01-16T14:00:00Z')
+    }
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    app = Fastify();
+    await app.register(waitlistRoutes, {
+      waitlistClaimHandlers: new WaitlistClaimHandlers(mockAppointmentService, mockWaitlistService, 'America/Toronto')
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should show the offer without booking it', async () => {
+    mockWaitlistService.getClaimableOffer.mockResolvedValue(entry);
+
+    const response = await app.inject({ method: 'GET', url: '/waitlist/claim/token-1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.body).toContain('Wednesday, January 16, 2030 at 10:00 AM EST');
+    expect(response.body).toContain('&lt;Jane&gt;');
+    expect(mockAppointmentService.claimWaitlistOffer).not.toHaveBeenCalled();
+  });
+
+  it('should show why an offer can no longer be claimed', async () => {
+    mockWaitlistService.getClaimableOffer.mockRejectedValue(new ConflictError('This offer has expired'));
+
+    const response = await app.inject({ method: 'GET', url: '/waitlist/claim/token-1' });
+
+    expect(response.statusCode).toBe(409);
+    expect(response.body).toContain('This offer has expired');
+  });
+
+  it('should book the slot when the form is submitted', async () => {
+    mockAppointmentService.claimWaitlistOffer.mockResolvedValue(new AppointmentEntity({
+      id: 'apt-1',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      phoneNumber: '+14165551234',
+      startAt: entry.offer!.startAt,
+      endAt: entry.offer!.endAt,
+      type: AppointmentType.THERAPY,
+      status: AppointmentStatus.SCHEDULED,
+      notes: {}
+    }));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/waitlist/claim/token-1',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      payload: ''
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockAppointmentService.claimWaitlistOffer).toHaveBeenCalledWith('token-1');
+    expect(response.body).toContain('Appointment booked');
+  });
+
+  it('should return 404 for an unknown token', async () => {
+    mockAppointmentService.claimWaitlistOffer.mockRejectedValue(new NotFoundError('This offer is no longer available'));
+
+    const response = await app.inject({ method: 'POST', url: '/waitlist/claim/unknown' });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.body).toContain('This offer is no longer available');
+  });
+});
@@ -3,11 +3,36 @@ import { AppointmentEntity } from '../../models/AppointmentEntity';
 import { AppointmentType, AppointmentStatus, ScheduleRequest } from '../../types/schedule';
 import { IAppointmentRepository } from '../../repositories/interfaces/IAppointmentRepository';
 import { ICalendarService } from '../../services/interfaces/ICalendarService';
+import { IProviderRepository } from '../../repositories/interfaces/IProviderRepository';
+import { ProviderEntity } from '../../models/ProviderEntity';
+import { IBusinessHoursService } from '../../services/interfaces/IBusinessHoursService';
+import { AppointmentTypeService } from '../../services/appointmentTypeService';
+import { IAppointmentTypeRepository } from '../../repositories/interfaces/IAppointmentTypeRepository';
+import { AppointmentTypeEntity } from '../../models/AppointmentTypeEntity';
+import { IPatientService } from '../../services/interfaces/IPatientService';
+import { PatientEntity } from '../../models/PatientEntity';
+import { IWaitlistService } from '../../services/interfaces/IWaitlistService';
+import { WaitlistEntryEntity } from '../../models/WaitlistEntryEntity';
+import { WaitlistStatus } from '../../types/waitlist';
+import { IAppointmentSeriesRepository } from '../../repositories/interfaces/IAppointmentSeriesRepository';
+import { AppointmentSeriesEntity } from '../../models/AppointmentSeriesEntity';
+import { RecurrenceFrequency, SeriesStatus } from '../../types/series';
+import { IReminderService } from '../../services/interfaces/IReminderService';
+import { IMessageService } from '../../services/interfaces/IMessageService';
+import { IAppointmentEventRepository } from '../../repositories/interfaces/IAppointmentEventRepository';
+import { ITransactionRunner } from '../../repositories/interfaces/ITransactionRunner';
+import { ICalendarSyncService } from '../../services/interfaces/ICalendarSyncService';
+import { CalendarSyncJobEntity } from '../../models/CalendarSyncJobEntity';
+import { CalendarSyncAction, CalendarSyncJobStatus, CalendarSyncState } from '../../types/calendarSync';
+import { ActorType, AppointmentEventType, ChangeChannel } from '../../types/appointmentEvent';
 import { 
   TimeSlotUnavailableError, 
   NotFoundError, 
+  ValidationError,
   ConflictError, 
-  AppointmentCancellationError 
+  AppointmentCancellationError,
+  AppointmentConfirmationError,
+  OutsideBusinessHoursError
 } from '../../types/errors';
 
 // Mock dependencies
@@ -18,16 +43,105 @@ const mockAppointmentRepository: jest.Mocked<IAppointmentRepository> = {
   findById: jest.fn(),
   isAvailable: jest.fn(),
   getConflictingAppointments: jest.fn(),
-  getActiveAppointmentsByEmailOrPhone: jest.fn()
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  search: jest.fn()
+};
+
+const mockProviderRepository: jest.Mocked<IProviderRepository> = {
+  findById: jest.fn(),
+  findActive: jest.fn()
+};
+
+const mockBusinessHoursService: jest.Mocked<IBusinessHoursService> = {
+  getRules: jest.fn(),
+  isWithinBusinessHours: jest.fn(),
+  assertWithinBusinessHours: jest.fn(),
+  getOpeningIntervals: jest.fn()
+};
+
+const mockAppointmentTypeRepository: jest.Mocked<IAppointmentTypeRepository> = {
+  findByCode: jest.fn(),
+  findAll: jest.fn()
+};
+
+const mockPatientService: jest.Mocked<IPatientService> = {
+  findOrCreatePatient: jest.fn(),
+  getPatient: jest.fn(),
+  findPatientsByContact: jest.fn(),
+  mergePatients: jest.fn()
+};
+
+const mockWaitlistService: jest.Mocked<IWaitlistService> = {
+  joinWaitlist: jest.fn(),
+  listEntries: jest.fn(),
+  leaveWaitlist: jest.fn(),
+  offerFreedSlot: jest.fn(),
+  getClaimableOffer: jest.fn(),
+  completeClaim: jest.fn(),
+  releaseOffer: jest.fn(),
+  expireOffers: jest.fn()
+};
+
+const mockSeriesRepository: jest.Mocked<IAppointmentSeriesRepository> = {
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  findById: jest.fn()
+};
+
+const mockReminderService: jest.Mocked<IReminderService> = {
+  scheduleReminders: jest.fn(),
+  cancelReminders: jest.fn(),
+  dispatchDueReminders: jest.fn()
+};
+
+const mockMessageService: jest.Mocked<IMessageService> = {
+  sendConfirmationMessage: jest.fn(),
+  sendRescheduleMessage: jest.fn(),
+  sendCancellationMessage: jest.fn(),
+  sendReminderMessage: jest.fn(),
+  sendSeriesMessage: jest.fn(),
+  sendWaitlistOfferMessage: jest.fn(),
+  deliver: jest.fn()
+};
+
+const mockEventRepository: jest.Mocked<IAppointmentEventRepository> = {
+  append: jest.fn(),
+  findByAppointment: jest.fn()
+};
+
+const mockCalendarSyncService: jest.Mocked<ICalendarSyncService> = {
+  enqueueSync: jest.fn(),
+  runSync: jest.fn(),
+  syncDueJobs: jest.fn(),
+  resyncAppointment: jest.fn()
 };
 
 const mockCalendarService: jest.Mocked<ICalendarService> = {
   getBookedSlotsForDate: jest.fn(),
+  getBusySlots: jest.fn(),
   createCalendarEvent: jest.fn(),
   updateCalendarEvent: jest.fn(),
+  upsertCalendarEvent: jest.fn(),
   deleteCalendarEvent: jest.fn()
 };
 
+// Runs work straight away, keeping track of whether it is inside a transaction
+const trackingTransactions = () => {
+  let depth = 0;
+  const runner: ITransactionRunner = {
+    async run(work) {
+      depth++;
+      try {
+        return await work();
+      } finally {
+        depth--;
+      }
+    }
+  };
+  return { runner, inTransaction: () => depth > 0 };
+};
+
 describe('AppointmentService', () => {
   let appointmentService: AppointmentService;
   let mockScheduleRequest: ScheduleRequest;
@@ -240,7 +354,9 @@ describe('AppointmentService', () => {
       };
 
       mockAppointmentRepository.findById.mockResolvedValue(mockAppointmentEntity);
-      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([mockAppointmentEntity]);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([
+        new AppointmentEntity({ ...mockAppointmentEntity, id: 'appt-other', ...updateData })
+      ]);
 
       await expect(appointmentService.editAppointment('appt-123', updateData))
         .rejects.toThrow(TimeSlotUnavailableError);
@@ -391,6 +507,55 @@ describe('AppointmentService', () => {
     });
   });
 
+  describe('confirmAppointment', () => {
+    it('should move a scheduled appointment to confirmed', async () => {
+      const futureAppointment = new AppointmentEntity({
+        ...mockAppointmentEntity,
+        startAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        status: AppointmentStatus.SCHEDULED
+      });
+      mockAppointmentRepository.findById.mockResolvedValue(futureAppointment);
+      mockAppointmentRepository.update.mockImplementationOnce(async (id, appointment) => appointment as AppointmentEntity);
+
+      const result = await appointmentService.confirmAppointment('appt-123');
+
+      expect(mockAppointmentRepository.update).toHaveBeenCalledWith('appt-123', expect.objectContaining({ status: AppointmentStatus.CONFIRMED }));
+      expect(result.status).toBe(AppointmentStatus.CONFIRMED);
+    });
+
+    it('should leave an already confirmed appointment as it is', async () => {
+      const confirmedAppointment = new AppointmentEntity({
+        ...mockAppointmentEntity,
+        startAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        status: AppointmentStatus.CONFIRMED
+      });
+      mockAppointmentRepository.findById.mockResolvedValue(confirmedAppointment);
+
+      const result = await appointmentService.confirmAppointment('appt-123');
+
+      expect(result).toBe(confirmedAppointment);
+      expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not confirm cancelled or past appointments', async () => {
+      mockAppointmentRepository.findById.mockResolvedValueOnce(new AppointmentEntity({
+        ...mockAppointmentEntity,
+        startAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        status: AppointmentStatus.CANCELLED
+      }));
+      await expect(appointmentService.confirmAppointment('appt-123')).rejects.toThrow(AppointmentConfirmationError);
+
+      mockAppointmentRepository.findById.mockResolvedValueOnce(new AppointmentEntity({
+        ...mockAppointmentEntity,
+        startAt: new Date(Date.now() - 60 * 60 * 1000),
+        status: AppointmentStatus.SCHEDULED
+      }));
+      await expect(appointmentService.confirmAppointment('appt-123')).rejects.toThrow('already started');
+
+      expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getActiveAppointmentsByEmailOrPhone', () => {
     it('should return active appointments for email', async () => {
       const activeAppointments = [mockAppointmentEntity];
@@ -422,4 +587,1229 @@ describe('AppointmentService', () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe('searchAppointments', () => {
+    const appointmentAt = (id: string, startAt: string) =>
+      new AppointmentEntity({ ...mockAppointmentEntity, id, startAt: new Date(startAt), endAt: new Date(startAt) } as any);
+
+    it('should apply default sorting and page size', async () => {
+      mockAppointmentRepository.search.mockResolvedValue([mockAppointmentEntity]);
+
+      const result = await appointmentService.searchAppointments({ statuses: [AppointmentStatus.SCHEDULED] });
+
+      expect(mockAppointmentRepository.search).toHaveBeenCalledWith({
+        statuses: [AppointmentStatus.SCHEDULED],
+        sortBy: 'startAt',
+        sortOrder: 'asc',
+        limit: 26,
+        after: undefined
+      });
+      expect(result).toEqual({ appointments: [mockAppointmentEntity] });
+    });
+
+    it('should return a cursor that continues after the last appointment on the page', async () => {
+      mockAppointmentRepository.search.mockResolvedValueOnce([
+        appointmentAt('a1', '2025-01-15T10:00:00Z'),
+        appointmentAt('a2', '2025-01-15T11:00:00Z'),
+        appointmentAt('a3', '2025-01-15T12:00:00Z')
+      ]);
+
+      const firstPage = await appointmentService.searchAppointments({ limit: 2 });
+
+      expect(firstPage.appointments.map(apt => apt.id)).toEqual(['a1', 'a2']);
+      expect(firstPage.nextCursor).toBeDefined();
+
+      mockAppointmentRepository.search.mockResolvedValueOnce([appointmentAt('a3', '2025-01-15T12:00:00Z')]);
+      const secondPage = await appointmentService.searchAppointments({ limit: 2, cursor: firstPage.nextCursor });
+
+      expect(mockAppointmentRepository.search).toHaveBeenLastCalledWith(expect.objectContaining({
+        after: { value: new Date('2025-01-15T11:00:00Z'), id: 'a2' }
+      }));
+      expect(secondPage.nextCursor).toBeUndefined();
+    });
+
+    it('should reject a cursor issued for a different sort', async () => {
+      mockAppointmentRepository.search.mockResolvedValue([
+        appointmentAt('a1', '2025-01-15T10:00:00Z'),
+        appointmentAt('a2', '2025-01-15T11:00:00Z')
+      ]);
+      const { nextCursor } = await appointmentService.searchAppointments({ limit: 1 });
+
+      await expect(appointmentService.searchAppointments({ limit: 1, sortOrder: 'desc', cursor: nextCursor }))
+        .rejects.toThrow('The cursor was issued for a different sort order');
+    });
+
+    it('should reject malformed cursors and invalid ranges', async () => {
+      await expect(appointmentService.searchAppointments({ cursor: 'not-a-cursor' })).rejects.toThrow(ValidationError);
+      await expect(appointmentService.searchAppointments({ limit: 0 })).rejects.toThrow(ValidationError);
+      await expect(appointmentService.searchAppointments({
+        from: new Date('2025-01-16T00:00:00Z'),
+        to: new Date('2025-01-15T00:00:00Z')
+      })).rejects.toThrow('The end of the search range must be after its start');
+      expect(mockAppointmentRepository.search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multi-provider scheduling', () => {
+    const drSmith = new ProviderEntity({
+      id: '11111111-1111-4111-8111-111111111111',
+      firstName: 'Anna',
+      lastName: 'Smith',
+      title: 'Dr.',
+      active: true,
+      createdAt: new Date('2025-01-01T00:00:00Z')
+    });
+    const drJones = new ProviderEntity({
+      id: '22222222-2222-4222-8222-222222222222',
+      firstName: 'Ben',
+      lastName: 'Jones',
+      title: 'Dr.',
+      active: true,
+      createdAt: new Date('2025-01-01T00:00:00Z')
+    });
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        providerRepository: mockProviderRepository
+      });
+      mockAppointmentRepository.create.mockImplementation(async (entity) => new AppointmentEntity({ ...entity, id: 'appt-123', createdAt: new Date() } as any));
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-456');
+    });
+
+    it('should book the preferred provider when they are free, even if another provider is busy', async () => {
+      const otherPatientWithJones = new AppointmentEntity({
+        ...mockAppointmentEntity,
+        email: 'someone.else@example.com',
+        phoneNumber: '+1999999999',
+        providerId: drJones.id
+      });
+
+      mockProviderRepository.findById.mockResolvedValue(drSmith);
+      mockAppointmentRepository.getConflictingAppointments.mockImplementation(async (_start, _end, _exclude, providerId) =>
+        providerId === undefined || providerId === drJones.id ? [otherPatientWithJones] : []
+      );
+
+      const result = await appointmentService.createAppointment({ ...mockScheduleRequest, providerId: drSmith.id });
+
+      expect(mockAppointmentRepository.getConflictingAppointments).toHaveBeenCalledWith(
+        mockScheduleRequest.startAt,
+        mockScheduleRequest.endAt,
+        undefined,
+        drSmith.id
+      );
+      expect(result.providerId).toBe(drSmith.id);
+    });
+
+    it('should assign the first free provider when no preference is given', async () => {
+      const otherPatientWithSmith = new AppointmentEntity({
+        ...mockAppointmentEntity,
+        email: 'someone.else@example.com',
+        phoneNumber: '+1999999999',
+        providerId: drSmith.id
+      });
+
+      mockProviderRepository.findActive.mockResolvedValue([drSmith, drJones]);
+      mockAppointmentRepository.getConflictingAppointments.mockImplementation(async (_start, _end, _exclude, providerId) =>
+        providerId === undefined || providerId === drSmith.id ? [otherPatientWithSmith] : []
+      );
+
+      const result = await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(result.providerId).toBe(drJones.id);
+    });
+
+    it('should throw TimeSlotUnavailableError naming the preferred provider when they are busy', async () => {
+      const otherPatientWithSmith = new AppointmentEntity({
+        ...mockAppointmentEntity,
+        email: 'someone.else@example.com',
+        phoneNumber: '+1999999999',
+        providerId: drSmith.id
+      });
+
+      mockProviderRepository.findById.mockResolvedValue(drSmith);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([otherPatientWithSmith]);
+
+      await expect(appointmentService.createAppointment({ ...mockScheduleRequest, providerId: drSmith.id }))
+        .rejects.toThrow('Dr. Anna Smith is not available');
+      expect(mockAppointmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a booking that overlaps the same patient with a different provider', async () => {
+      const samePatientWithJones = new AppointmentEntity({ ...mockAppointmentEntity, providerId: drJones.id });
+
+      mockProviderRepository.findById.mockResolvedValue(drSmith);
+      mockAppointmentRepository.getConflictingAppointments.mockImplementation(async (_start, _end, _exclude, providerId) =>
+        providerId === drSmith.id ? [] : [samePatientWithJones]
+      );
+
+      await expect(appointmentService.createAppointment({ ...mockScheduleRequest, providerId: drSmith.id }))
+        .rejects.toThrow('You already have an appointment scheduled during this time slot');
+    });
+
+    it('should throw NotFoundError for an unknown preferred provider', async () => {
+      mockProviderRepository.findById.mockResolvedValue(null);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+
+      await expect(appointmentService.createAppointment({ ...mockScheduleRequest, providerId: drSmith.id }))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should keep the current provider when rescheduling without a preference', async () => {
+      const appointmentWithSmith = new AppointmentEntity({ ...mockAppointmentEntity, providerId: drSmith.id });
+
+      mockAppointmentRepository.findById.mockResolvedValue(appointmentWithSmith);
+      mockProviderRepository.findById.mockResolvedValue(drSmith);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+
+      const result = await appointmentService.editAppointment('appt-123', {
+        startAt: new Date('2025-01-15T14:00:00Z'),
+        endAt: new Date('2025-01-15T15:00:00Z')
+      });
+
+      expect(mockProviderRepository.findById).toHaveBeenCalledWith(drSmith.id);
+      expect(result?.providerId).toBe(drSmith.id);
+    });
+  });
+
+  describe('business hours', () => {
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        businessHoursService: mockBusinessHoursService
+      });
+    });
+
+    it('should reject bookings outside business hours with OutsideBusinessHoursError', async () => {
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockBusinessHoursService.assertWithinBusinessHours.mockRejectedValue(
+        new OutsideBusinessHoursError('The clinic is not open on Sundays')
+      );
+
+      await expect(appointmentService.createAppointment(mockScheduleRequest))
+        .rejects.toThrow(OutsideBusinessHoursError);
+      expect(mockAppointmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should validate the new time when rescheduling', async () => {
+      const updateData = {
+        startAt: new Date('2025-01-19T03:00:00Z'),
+        endAt: new Date('2025-01-19T03:30:00Z')
+      };
+
+      mockAppointmentRepository.findById.mockResolvedValue(mockAppointmentEntity);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockBusinessHoursService.assertWithinBusinessHours.mockRejectedValue(
+        new OutsideBusinessHoursError('The clinic is not open on Sundays')
+      );
+
+      await expect(appointmentService.editAppointment('appt-123', updateData))
+        .rejects.toThrow('The clinic is not open on Sundays');
+      expect(mockBusinessHoursService.assertWithinBusinessHours).toHaveBeenCalledWith(updateData.startAt, updateData.endAt);
+      expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip providers who are not working and book one who is', async () => {
+      const offDuty = new ProviderEntity({ id: 'provider-off', firstName: 'Off', lastName: 'Duty', active: true, createdAt: new Date() });
+      const onDuty = new ProviderEntity({ id: 'provider-on', firstName: 'On', lastName: 'Duty', active: true, createdAt: new Date() });
+
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        providerRepository: mockProviderRepository,
+        businessHoursService: mockBusinessHoursService
+      });
+      mockProviderRepository.findActive.mockResolvedValue([offDuty, onDuty]);
+      mockBusinessHoursService.isWithinBusinessHours.mockImplementation(async (_start, _end, provider) => provider?.id === 'provider-on');
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.create.mockImplementation(async (entity) => new AppointmentEntity({ ...entity, id: 'appt-123', createdAt: new Date() } as any));
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-456');
+
+      const result = await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(result.providerId).toBe('provider-on');
+    });
+  });
+
+  describe('appointment type catalogue', () => {
+    const vaccination = new AppointmentTypeEntity({
+      code: AppointmentType.VACCINATION,
+      name: 'Vaccination',
+      defaultDurationMinutes: 15,
+      allowedDurationsMinutes: [15],
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 5,
+      minLeadTimeMinutes: 60,
+      providerIds: ['provider-b'],
+      active: true
+    });
+
+    const drSmith = new ProviderEntity({ id: 'provider-a', firstName: 'Anna', lastName: 'Smith', title: 'Dr.', active: true, createdAt: new Date() });
+    const drJones = new ProviderEntity({ id: 'provider-b', firstName: 'Ben', lastName: 'Jones', title: 'Dr.', active: true, createdAt: new Date() });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2025-01-10T00:00:00Z') });
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        providerRepository: mockProviderRepository,
+        appointmentTypeService: new AppointmentTypeService(mockAppointmentTypeRepository)
+      });
+      mockAppointmentTypeRepository.findByCode.mockResolvedValue(vaccination);
+      mockProviderRepository.findActive.mockResolvedValue([drSmith, drJones]);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.create.mockImplementation(async (entity) => new AppointmentEntity({ ...entity, id: 'appt-123', createdAt: new Date() } as any));
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-456');
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should derive endAt from the type when only startAt is given', async () => {
+      const { endAt, ...request } = mockScheduleRequest;
+
+      const result = await appointmentService.createAppointment({ ...request, type: AppointmentType.VACCINATION });
+
+      expect(result.endAt).toEqual(new Date('2025-01-15T10:15:00Z'));
+    });
+
+    it('should reject durations the type does not allow', async () => {
+      await expect(appointmentService.createAppointment({ ...mockScheduleRequest, type: AppointmentType.VACCINATION }))
+        .rejects.toThrow('Vaccination appointments can last 15 minutes, not 60');
+      expect(mockAppointmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject bookings inside the type\'s lead time', async () => {
+      jest.setSystemTime(new Date('2025-01-15T09:30:00Z'));
+      const { endAt, ...request } = mockScheduleRequest;
+
+      await expect(appointmentService.createAppointment({ ...request, type: AppointmentType.VACCINATION }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should widen the conflict check by the type\'s buffers', async () => {
+      const { endAt, ...request } = mockScheduleRequest;
+
+      await appointmentService.createAppointment({ ...request, type: AppointmentType.VACCINATION });
+
+      expect(mockAppointmentRepository.getConflictingAppointments).toHaveBeenCalledWith(
+        new Date('2025-01-15T10:00:00Z'),
+        new Date('2025-01-15T10:20:00Z'),
+        undefined,
+        drJones.id
+      );
+    });
+
+    it('should keep the clean-up time after a booked appointment free', async () => {
+      const dressing = new AppointmentTypeEntity({ ...vaccination, code: 'wound_dressing', name: 'Wound dressing', bufferAfterMinutes: 15 });
+      mockAppointmentTypeRepository.findAll.mockResolvedValueOnce([vaccination, dressing]);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([
+        new AppointmentEntity({
+          ...mockAppointmentEntity,
+          id: 'appt-dressing',
+          email: 'jane@example.com',
+          phoneNumber: '+14165551234',
+          type: 'wound_dressing',
+          startAt: new Date('2025-01-15T09:35:00Z'),
+          endAt: new Date('2025-01-15T09:50:00Z'),
+          providerId: drJones.id
+        })
+      ]);
+      const { endAt, ...request } = mockScheduleRequest;
+
+      // The dressing ends at 09:50 but keeps Dr. Jones busy until 10:05
+      await expect(appointmentService.createAppointment({ ...request, type: AppointmentType.VACCINATION }))
+        .rejects.toThrow(TimeSlotUnavailableError);
+      expect(mockAppointmentRepository.getConflictingAppointments).toHaveBeenCalledWith(
+        new Date('2025-01-15T09:45:00Z'),
+        new Date('2025-01-15T10:20:00Z'),
+        undefined,
+        drJones.id
+      );
+      expect(mockAppointmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should only assign providers who perform the type', async () => {
+      const { endAt, ...request } = mockScheduleRequest;
+
+      const result = await appointmentService.createAppointment({ ...request, type: AppointmentType.VACCINATION });
+
+      expect(result.providerId).toBe(drJones.id);
+    });
+
+    it('should reject a preferred provider who does not perform the type', async () => {
+      mockProviderRepository.findById.mockResolvedValue(drSmith);
+      const { endAt, ...request } = mockScheduleRequest;
+
+      await expect(appointmentService.createAppointment({ ...request, type: AppointmentType.VACCINATION, providerId: drSmith.id }))
+        .rejects.toThrow('Dr. Anna Smith does not offer Vaccination appointments');
+    });
+
+    it('should book a type the clinic added to the catalogue', async () => {
+      mockAppointmentTypeRepository.findByCode.mockResolvedValue(new AppointmentTypeEntity({
+        code: 'allergy_test',
+        name: 'Allergy test',
+        defaultDurationMinutes: 45,
+        allowedDurationsMinutes: [],
+        bufferBeforeMinutes: 0,
+        bufferAfterMinutes: 0,
+        minLeadTimeMinutes: 0,
+        providerIds: [],
+        active: true
+      }));
+      const { endAt, ...request } = mockScheduleRequest;
+
+      const result = await appointmentService.createAppointment({ ...request, type: 'allergy_test' });
+
+      expect(mockAppointmentTypeRepository.findByCode).toHaveBeenCalledWith('allergy_test');
+      expect(mockAppointmentRepository.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'allergy_test' }));
+      expect(result.endAt).toEqual(new Date('2025-01-15T10:45:00Z'));
+    });
+
+    it('should reject a type the catalogue does not offer', async () => {
+      mockAppointmentTypeRepository.findByCode.mockResolvedValue(null);
+
+      await expect(appointmentService.createAppointment({ ...mockScheduleRequest, type: 'massage' }))
+        .rejects.toThrow(new ValidationError("We don't currently offer massage appointments"));
+      expect(mockAppointmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a search for a type the catalogue does not offer', async () => {
+      mockAppointmentTypeRepository.findByCode.mockResolvedValue(null);
+
+      await expect(appointmentService.searchAppointments({ types: ['massage'] })).rejects.toThrow(ValidationError);
+      expect(mockAppointmentRepository.search).not.toHaveBeenCalled();
+    });
+
+    it('should give a rescheduled appointment the type\'s default length when endAt is omitted', async () => {
+      const vaccinationAppointment = new AppointmentEntity({
+        ...mockAppointmentEntity,
+        type: AppointmentType.VACCINATION,
+        endAt: new Date('2025-01-15T10:15:00Z'),
+        providerId: drJones.id
+      });
+      mockAppointmentRepository.findById.mockResolvedValue(vaccinationAppointment);
+      mockProviderRepository.findById.mockResolvedValue(drJones);
+
+      const result = await appointmentService.editAppointment('appt-123', { startAt: new Date('2025-01-16T14:00:00Z') });
+
+      expect(result?.startAt).toEqual(new Date('2025-01-16T14:00:00Z'));
+      expect(result?.endAt).toEqual(new Date('2025-01-16T14:15:00Z'));
+    });
+  });
+
+  describe('patient records', () => {
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        patientService: mockPatientService
+      });
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.create.mockImplementation(async (entity) => new AppointmentEntity({ ...entity, id: 'appt-123', createdAt: new Date() } as any));
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-456');
+    });
+
+    it('should link the booking to the matched or newly created patient', async () => {
+      mockPatientService.findOrCreatePatient.mockResolvedValue(new PatientEntity({
+        id: 'patient-1',
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com'
+      }));
+
+      const result = await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(mockPatientService.findOrCreatePatient).toHaveBeenCalledWith(expect.objectContaining({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        phoneNumber: '+1234567890'
+      }));
+      expect(mockAppointmentRepository.create).toHaveBeenCalledWith(expect.objectContaining({ patientId: 'patient-1' }));
+      expect(result.patientId).toBe('patient-1');
+    });
+
+    it('should store and match patients by canonical contact details', async () => {
+      mockPatientService.findOrCreatePatient.mockResolvedValue(new PatientEntity({
+        id: 'patient-1',
+        firstName: 'John',
+        lastName: 'Doe',
+        phoneNumber: '+14165551234'
+      }));
+
+      await appointmentService.createAppointment({ ...mockScheduleRequest, email: 'John.Doe@Example.com', phoneNumber: '416 555 1234' });
+
+      expect(mockPatientService.findOrCreatePatient).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'john.doe@example.com',
+        phoneNumber: '+14165551234'
+      }));
+      expect(mockAppointmentRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'john.doe@example.com',
+        phoneNumber: '+14165551234'
+      }));
+    });
+
+    it('should create the patient in the same transaction as the appointment', async () => {
+      const transactions = trackingTransactions();
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        patientService: mockPatientService,
+        transactions: transactions.runner
+      });
+      const written: string[] = [];
+      mockPatientService.findOrCreatePatient.mockImplementation(async () => {
+        written.push(`patient${transactions.inTransaction() ? ' in transaction' : ''}`);
+        return new PatientEntity({ id: 'patient-1', firstName: 'John', lastName: 'Doe', email: 'john.doe@example.com' });
+      });
+      mockAppointmentRepository.create.mockImplementation(async () => {
+        written.push(`appointment${transactions.inTransaction() ? ' in transaction' : ''}`);
+        throw new TimeSlotUnavailableError('Time slot is already booked');
+      });
+
+      await expect(appointmentService.createAppointment(mockScheduleRequest)).rejects.toThrow(TimeSlotUnavailableError);
+      expect(written).toEqual(['patient in transaction', 'appointment in transaction']);
+    });
+
+    it('should not create a patient when the slot is unavailable', async () => {
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([mockAppointmentEntity]);
+
+      await expect(appointmentService.createAppointment({ ...mockScheduleRequest, email: 'someone.else@example.com', phoneNumber: undefined }))
+        .rejects.toThrow(TimeSlotUnavailableError);
+      expect(mockPatientService.findOrCreatePatient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waitlist', () => {
+    const inOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const inOneDayAndAnHour = new Date(inOneDay.getTime() + 60 * 60 * 1000);
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        waitlistService: mockWaitlistService
+      });
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockWaitlistService.offerFreedSlot.mockResolvedValue(null);
+    });
+
+    it('should offer the slot of a cancelled appointment to the waitlist', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({
+        ...mockAppointmentEntity,
+        startAt: inOneDay,
+        endAt: inOneDayAndAnHour,
+        providerId: 'provider-1'
+      }));
+
+      await appointmentService.cancelAppointment('appt-123');
+
+      expect(mockWaitlistService.offerFreedSlot).toHaveBeenCalledWith({
+        startAt: inOneDay,
+        endAt: inOneDayAndAnHour,
+        type: AppointmentType.CONSULTATION,
+        providerId: 'provider-1'
+      });
+    });
+
+    it('should still cancel when the waitlist offer fails', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      mockWaitlistService.offerFreedSlot.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(appointmentService.cancelAppointment('appt-123')).resolves.toBe(true);
+    });
+
+    it('should offer the old slot after a reschedule', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      const newStart = new Date(inOneDay.getTime() + 2 * 60 * 60 * 1000);
+
+      await appointmentService.editAppointment('appt-123', { startAt: newStart, endAt: new Date(newStart.getTime() + 60 * 60 * 1000) });
+
+      expect(mockWaitlistService.offerFreedSlot).toHaveBeenCalledWith(expect.objectContaining({ startAt: inOneDay, endAt: inOneDayAndAnHour }));
+    });
+
+    it('should not offer anything when only the type changes', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+
+      await appointmentService.editAppointment('appt-123', { type: AppointmentType.FOLLOW_UP });
+
+      expect(mockWaitlistService.offerFreedSlot).not.toHaveBeenCalled();
+    });
+
+    describe('claimWaitlistOffer', () => {
+      const offeredEntry = () => new WaitlistEntryEntity({
+        id: 'entry-1',
+        firstName: 'Jane',
+        lastName: 'Smith',
+        phoneNumber: '+14165551234',
+        type: AppointmentType.THERAPY,
+        earliestAt: new Date(),
+        latestAt: new Date(inOneDay.getTime() + 7 * 24 * 60 * 60 * 1000),
+        status: WaitlistStatus.OFFERED,
+        callId: 'call-456',
+        offer: { token: 'token-1', startAt: inOneDay, endAt: inOneDayAndAnHour, expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+      });
+
+      beforeEach(() => {
+        mockAppointmentRepository.create.mockImplementation(async (entity) => new AppointmentEntity({ ...entity, id: 'appt-789', createdAt: new Date() } as any));
+        mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-789');
+      });
+
+      it('should book the offered slot and mark the entry as booked', async () => {
+        const entry = offeredEntry();
+        mockWaitlistService.getClaimableOffer.mockResolvedValue(entry);
+
+        const appointment = await appointmentService.claimWaitlistOffer('token-1');
+
+        expect(mockAppointmentRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+          firstName: 'Jane',
+          phoneNumber: '+14165551234',
+          startAt: inOneDay,
+          endAt: inOneDayAndAnHour,
+          type: AppointmentType.THERAPY,
+          notes: { source: 'waitlist', waitlistEntryId: 'entry-1' }
+        }));
+        expect(mockWaitlistService.completeClaim).toHaveBeenCalledWith(entry, 'appt-789');
+        expect(appointment.id).toBe('appt-789');
+      });
+
+      it('should return the offer to the queue when the slot has been taken', async () => {
+        const entry = offeredEntry();
+        mockWaitlistService.getClaimableOffer.mockResolvedValue(entry);
+        mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([
+          new AppointmentEntity({ ...mockAppointmentEntity, id: 'appt-other', startAt: inOneDay, endAt: inOneDayAndAnHour })
+        ]);
+
+        await expect(appointmentService.claimWaitlistOffer('token-1')).rejects.toThrow(TimeSlotUnavailableError);
+
+        expect(mockWaitlistService.releaseOffer).toHaveBeenCalledWith(entry);
+        expect(mockWaitlistService.completeClaim).not.toHaveBeenCalled();
+      });
+
+      it('should reject claims when the waitlist is not configured', async () => {
+        appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService);
+
+        await expect(appointmentService.claimWaitlistOffer('token-1')).rejects.toThrow(NotFoundError);
+      });
+    });
+  });
+
+  describe('recurring series', () => {
+    // Mondays at 9am in Toronto
+    const firstStart = new Date('2030-01-07T14:00:00Z');
+    const HOUR_MS = 60 * 60 * 1000;
+    const WEEK_MS = 7 * 24 * HOUR_MS;
+
+    const seriesEntity = () => new AppointmentSeriesEntity({
+      id: 'series-1',
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john.doe@example.com',
+      type: AppointmentType.THERAPY,
+      startAt: firstStart,
+      durationMinutes: 60,
+      timeZone: 'America/Toronto',
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1, count: 3, exceptions: [] },
+      status: SeriesStatus.ACTIVE
+    });
+
+    const occurrence = (index: number) => new AppointmentEntity({
+      ...mockAppointmentEntity,
+      id: `appt-${index + 1}`,
+      type: AppointmentType.THERAPY,
+      startAt: new Date(firstStart.getTime() + index * WEEK_MS),
+      endAt: new Date(firstStart.getTime() + index * WEEK_MS + HOUR_MS),
+      calendarEventId: `cal-event-${index + 1}`,
+      seriesId: 'series-1'
+    });
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        seriesRepository: mockSeriesRepository,
+        timeZone: 'America/Toronto'
+      });
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      let created = 0;
+      mockAppointmentRepository.create.mockImplementation(async (entity) => new AppointmentEntity({ ...entity, id: `appt-${++created}`, createdAt: new Date() } as any));
+      mockSeriesRepository.create.mockImplementation(async (entity) => new AppointmentSeriesEntity({ ...entity, id: 'series-1' }));
+      mockSeriesRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockCalendarService.createCalendarEvent.mockImplementation(async (appointment) => `cal-${appointment.id}`);
+    });
+
+    const seriesRequest = {
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'John.Doe@Example.com',
+      startAt: firstStart,
+      endAt: new Date(firstStart.getTime() + HOUR_MS),
+      type: AppointmentType.THERAPY,
+      notes: {},
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1, count: 3, exceptions: [] }
+    };
+
+    describe('createSeries', () => {
+      it('should book every occurrence linked to the series', async () => {
+        const { series, appointments } = await appointmentService.createSeries(seriesRequest);
+
+        expect(mockSeriesRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+          email: 'john.doe@example.com',
+          startAt: firstStart,
+          durationMinutes: 60,
+          timeZone: 'America/Toronto',
+          status: SeriesStatus.ACTIVE
+        }));
+        expect(series.id).toBe('series-1');
+        expect(appointments.map(apt => apt.startAt)).toEqual([
+          firstStart,
+          new Date(firstStart.getTime() + WEEK_MS),
+          new Date(firstStart.getTime() + 2 * WEEK_MS)
+        ]);
+        expect(appointments.every(apt => apt.seriesId === 'series-1')).toBe(true);
+        expect(appointments.map(apt => apt.calendarEventId)).toEqual(['cal-appt-1', 'cal-appt-2', 'cal-appt-3']);
+      });
+
+      it('should list the dates that are taken and book nothing', async () => {
+        const taken = new Date(firstStart.getTime() + WEEK_MS);
+        mockAppointmentRepository.getConflictingAppointments.mockImplementation(async (start) =>
+          start.getTime() === taken.getTime()
+            ? [new AppointmentEntity({ ...mockAppointmentEntity, startAt: taken, endAt: new Date(taken.getTime() + HOUR_MS) })]
+            : []
+        );
+
+        const booking = appointmentService.createSeries(seriesRequest);
+
+        await expect(booking).rejects.toThrow(TimeSlotUnavailableError);
+        await expect(booking).rejects.toThrow('2030-01-14');
+        expect(mockSeriesRepository.create).not.toHaveBeenCalled();
+        expect(mockAppointmentRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('should roll back the whole series when a calendar event cannot be created', async () => {
+        mockCalendarService.createCalendarEvent
+          .mockResolvedValueOnce('cal-appt-1')
+          .mockRejectedValueOnce(new Error('Calendar API error'));
+
+        await expect(appointmentService.createSeries(seriesRequest)).rejects.toThrow('Failed to book recurring appointments: Calendar API error');
+
+        expect(mockCalendarService.deleteCalendarEvent).toHaveBeenCalledWith('cal-appt-1');
+        expect(mockAppointmentRepository.delete).toHaveBeenCalledWith('appt-1');
+        expect(mockAppointmentRepository.delete).toHaveBeenCalledWith('appt-2');
+        expect(mockSeriesRepository.delete).toHaveBeenCalledWith('series-1');
+      });
+
+      it('should roll back and keep the reason when an occurrence was booked in the meantime', async () => {
+        const book = mockAppointmentRepository.create.getMockImplementation()!;
+        mockAppointmentRepository.create
+          .mockImplementationOnce(book)
+          .mockRejectedValueOnce(new TimeSlotUnavailableError('Time slot from 2030-01-14T14:00:00.000Z to 2030-01-14T15:00:00.000Z is already booked'));
+
+        await expect(appointmentService.createSeries(seriesRequest)).rejects.toThrow(TimeSlotUnavailableError);
+
+        expect(mockAppointmentRepository.delete).toHaveBeenCalledWith('appt-1');
+        expect(mockSeriesRepository.delete).toHaveBeenCalledWith('series-1');
+      });
+
+      it('should reject series when they are not configured', async () => {
+        appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService);
+
+        await expect(appointmentService.createSeries(seriesRequest)).rejects.toThrow(ValidationError);
+      });
+    });
+
+    describe('cancelAppointment', () => {
+      it('should cancel only this occurrence and record it as an exception', async () => {
+        const series = seriesEntity();
+        mockAppointmentRepository.findById.mockResolvedValue(occurrence(1));
+        mockSeriesRepository.findById.mockResolvedValue(series);
+
+        await appointmentService.cancelAppointment('appt-2');
+
+        expect(mockAppointmentRepository.update).toHaveBeenCalledTimes(1);
+        expect(mockSeriesRepository.update).toHaveBeenCalledWith('series-1', expect.objectContaining({
+          recurrence: expect.objectContaining({ exceptions: ['2030-01-14'] })
+        }));
+      });
+
+      it('should cancel this and the following occurrences and end the series', async () => {
+        const series = seriesEntity();
+        mockAppointmentRepository.findById.mockResolvedValue(occurrence(1));
+        mockAppointmentRepository.search.mockResolvedValue([occurrence(1), occurrence(2)]);
+        mockSeriesRepository.findById.mockResolvedValue(series);
+
+        await appointmentService.cancelAppointment('appt-2', 'following');
+
+        expect(mockAppointmentRepository.search).toHaveBeenCalledWith(expect.objectContaining({
+          seriesId: 'series-1',
+          from: occurrence(1).startAt,
+          statuses: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED]
+        }));
+        expect(mockAppointmentRepository.update).toHaveBeenCalledWith('appt-2', expect.objectContaining({ status: AppointmentStatus.CANCELLED }));
+        expect(mockAppointmentRepository.update).toHaveBeenCalledWith('appt-3', expect.objectContaining({ status: AppointmentStatus.CANCELLED }));
+        expect(mockCalendarService.deleteCalendarEvent).toHaveBeenCalledWith('cal-event-3');
+        expect(series.recurrence.until).toEqual(new Date(occurrence(1).startAt.getTime() - 1000));
+        expect(series.recurrence.count).toBeUndefined();
+      });
+    });
+
+    describe('editAppointment', () => {
+      it('should move this and the following occurrences and split the series', async () => {
+        const series = seriesEntity();
+        mockAppointmentRepository.findById.mockResolvedValue(occurrence(1));
+        mockAppointmentRepository.search.mockResolvedValue([occurrence(1), occurrence(2)]);
+        // The occurrence being moved along doesn't count as a clash with itself
+        mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([occurrence(2)]);
+        mockSeriesRepository.findById.mockResolvedValue(series);
+        mockSeriesRepository.create.mockImplementation(async (entity) => new AppointmentSeriesEntity({ ...entity, id: 'series-2' }));
+
+        // Monday 9am -> Tuesday 10am
+        const updated = await appointmentService.editAppointment('appt-2', { startAt: new Date('2030-01-15T15:00:00Z') }, 'following');
+
+        expect(updated!.startAt).toEqual(new Date('2030-01-15T15:00:00Z'));
+        expect(mockAppointmentRepository.update).toHaveBeenCalledWith('appt-3', expect.objectContaining({
+          startAt: new Date('2030-01-22T15:00:00Z'),
+          endAt: new Date('2030-01-22T16:00:00Z')
+        }));
+        expect(mockCalendarService.updateCalendarEvent).toHaveBeenCalledWith('cal-event-3', expect.objectContaining({
+          startAt: new Date('2030-01-22T15:00:00Z')
+        }));
+        expect(series.recurrence.until).toEqual(new Date(occurrence(1).startAt.getTime() - 1000));
+        expect(mockSeriesRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+          startAt: new Date('2030-01-15T15:00:00Z'),
+          recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1, until: new Date('2030-01-22T15:00:00Z'), exceptions: [] }
+        }));
+        expect(mockAppointmentRepository.update).toHaveBeenLastCalledWith('appt-3', expect.objectContaining({ seriesId: 'series-2' }));
+      });
+
+      it('should save the last occurrence first when moving them later, so none lands on one not yet moved', async () => {
+        mockAppointmentRepository.findById.mockResolvedValue(occurrence(0));
+        mockAppointmentRepository.search.mockResolvedValue([occurrence(0), occurrence(1), occurrence(2)]);
+        mockSeriesRepository.findById.mockResolvedValue(seriesEntity());
+
+        // A week later: each occurrence takes the time of the one after it
+        const updated = await appointmentService.editAppointment('appt-1', { startAt: new Date(occurrence(1).startAt) }, 'following');
+
+        expect(mockAppointmentRepository.update.mock.calls.slice(0, 3).map(([id]) => id)).toEqual(['appt-3', 'appt-2', 'appt-1']);
+        expect(updated!.id).toBe('appt-1');
+        expect(updated!.startAt).toEqual(occurrence(1).startAt);
+      });
+
+      it('should put back the occurrences already moved when one of them cannot be moved', async () => {
+        mockAppointmentRepository.findById.mockResolvedValue(occurrence(0));
+        mockAppointmentRepository.search.mockResolvedValue([occurrence(0), occurrence(1), occurrence(2)]);
+        mockSeriesRepository.findById.mockResolvedValue(seriesEntity());
+        mockAppointmentRepository.update
+          .mockImplementationOnce(async (_id, entity) => entity)
+          .mockImplementationOnce(async (_id, entity) => entity)
+          .mockRejectedValueOnce(new TimeSlotUnavailableError('Time slot is already booked'));
+
+        await expect(appointmentService.editAppointment('appt-1', { startAt: new Date(occurrence(1).startAt) }, 'following'))
+          .rejects.toThrow(TimeSlotUnavailableError);
+
+        // appt-3 and appt-2 had moved when appt-1 couldn't; they go back in the opposite order
+        expect(mockAppointmentRepository.update.mock.calls.slice(3).map(([id, entity]) => [id, entity.startAt])).toEqual([
+          ['appt-2', occurrence(1).startAt],
+          ['appt-3', occurrence(2).startAt]
+        ]);
+        expect(mockSeriesRepository.update).not.toHaveBeenCalled();
+        expect(mockCalendarService.updateCalendarEvent).not.toHaveBeenCalled();
+      });
+
+      it('should update the series itself when moving from its first occurrence', async () => {
+        const series = seriesEntity();
+        mockAppointmentRepository.findById.mockResolvedValue(occurrence(0));
+        mockAppointmentRepository.search.mockResolvedValue([occurrence(0), occurrence(1), occurrence(2)]);
+        mockSeriesRepository.findById.mockResolvedValue(series);
+
+        await appointmentService.editAppointment('appt-1', { startAt: new Date('2030-01-07T16:00:00Z') }, 'following');
+
+        expect(mockSeriesRepository.create).not.toHaveBeenCalled();
+        expect(series.startAt).toEqual(new Date('2030-01-07T16:00:00Z'));
+        expect(series.status).toBe(SeriesStatus.ACTIVE);
+      });
+
+      it('should only move this occurrence by default', async () => {
+        mockAppointmentRepository.findById.mockResolvedValue(occurrence(1));
+
+        await appointmentService.editAppointment('appt-2', { startAt: new Date('2030-01-15T15:00:00Z') });
+
+        expect(mockAppointmentRepository.search).not.toHaveBeenCalled();
+        expect(mockAppointmentRepository.update).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('reminders', () => {
+    const inOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const inOneDayAndAnHour = new Date(inOneDay.getTime() + 60 * 60 * 1000);
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        reminderService: mockReminderService
+      });
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockReminderService.scheduleReminders.mockResolvedValue();
+      mockReminderService.cancelReminders.mockResolvedValue();
+    });
+
+    it('should plan reminders for a new appointment', async () => {
+      mockAppointmentRepository.create.mockResolvedValue(mockAppointmentEntity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-123');
+
+      await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(mockReminderService.scheduleReminders).toHaveBeenCalledWith(expect.objectContaining({ id: 'appt-123' }));
+    });
+
+    it('should still book when planning reminders fails', async () => {
+      mockAppointmentRepository.create.mockResolvedValue(mockAppointmentEntity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-123');
+      mockReminderService.scheduleReminders.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(appointmentService.createAppointment(mockScheduleRequest)).resolves.toEqual(expect.objectContaining({ id: 'appt-123' }));
+    });
+
+    it('should replan reminders when an appointment moves', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      const newStart = new Date(inOneDay.getTime() + 2 * 60 * 60 * 1000);
+
+      await appointmentService.editAppointment('appt-123', { startAt: newStart, endAt: new Date(newStart.getTime() + 60 * 60 * 1000) });
+
+      expect(mockReminderService.scheduleReminders).toHaveBeenCalledWith(expect.objectContaining({ startAt: newStart }));
+    });
+
+    it('should leave reminders alone when only the type changes', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+
+      await appointmentService.editAppointment('appt-123', { type: AppointmentType.FOLLOW_UP });
+
+      expect(mockReminderService.scheduleReminders).not.toHaveBeenCalled();
+    });
+
+    it('should cancel pending reminders when an appointment is cancelled', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+
+      await appointmentService.cancelAppointment('appt-123');
+
+      expect(mockReminderService.cancelReminders).toHaveBeenCalledWith('appt-123');
+    });
+  });
+
+  describe('patient messages', () => {
+    const inOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const inOneDayAndAnHour = new Date(inOneDay.getTime() + 60 * 60 * 1000);
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        messageService: mockMessageService
+      });
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+    });
+
+    it('should send a confirmation through the injected message service', async () => {
+      mockAppointmentRepository.create.mockResolvedValue(mockAppointmentEntity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-123');
+
+      await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(mockMessageService.sendConfirmationMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'appt-123' }), undefined);
+    });
+
+    it('should tell the patient the old and new time after a reschedule', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      const newStart = new Date(inOneDay.getTime() + 2 * 60 * 60 * 1000);
+
+      await appointmentService.editAppointment('appt-123', { startAt: newStart, endAt: new Date(newStart.getTime() + 60 * 60 * 1000) });
+
+      expect(mockMessageService.sendRescheduleMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ startAt: newStart }),
+        { start: inOneDay, end: inOneDayAndAnHour },
+        undefined
+      );
+    });
+
+    it('should queue the cancellation message in the transaction that saves the cancellation', async () => {
+      const transactions = trackingTransactions();
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        messageService: mockMessageService,
+        transactions: transactions.runner
+      });
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      const steps: string[] = [];
+      const step = (name: string) => steps.push(`${name}${transactions.inTransaction() ? ' in transaction' : ''}`);
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => {
+        step('cancellation');
+        return entity;
+      });
+      mockMessageService.sendCancellationMessage.mockImplementation(async () => {
+        step('message');
+      });
+      mockCalendarService.deleteCalendarEvent.mockImplementation(async () => {
+        step('calendar event');
+      });
+
+      await appointmentService.cancelAppointment('appt-123');
+
+      expect(steps).toEqual(['cancellation in transaction', 'message in transaction', 'calendar event']);
+    });
+
+    it('should still cancel when the cancellation message fails', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      mockMessageService.sendCancellationMessage.mockRejectedValue(new Error('Template error'));
+
+      await expect(appointmentService.cancelAppointment('appt-123')).resolves.toBe(true);
+    });
+  });
+
+  describe('change history', () => {
+    const inOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const inOneDayAndAnHour = new Date(inOneDay.getTime() + 60 * 60 * 1000);
+    const voiceAgent = { channel: ChangeChannel.VOICE_AGENT, actorType: ActorType.RETELL_CALL, actorId: 'call-456' };
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        eventRepository: mockEventRepository
+      });
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockEventRepository.append.mockImplementation(async event => event);
+    });
+
+    it('should record a new appointment with who booked it', async () => {
+      mockAppointmentRepository.create.mockResolvedValue(mockAppointmentEntity);
+      mockCalendarService.createCalendarEvent.mockResolvedValue('cal-event-123');
+
+      await appointmentService.createAppointment(mockScheduleRequest, voiceAgent);
+
+      expect(mockEventRepository.append).toHaveBeenCalledWith(expect.objectContaining({
+        appointmentId: 'appt-123',
+        eventType: AppointmentEventType.CREATED,
+        before: undefined,
+        after: expect.objectContaining({ startAt: mockScheduleRequest.startAt, status: AppointmentStatus.SCHEDULED }),
+        ...voiceAgent
+      }));
+    });
+
+    it('should record only the fields a reschedule changed', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      const newStart = new Date(inOneDay.getTime() + 2 * 60 * 60 * 1000);
+      const newEnd = new Date(newStart.getTime() + 60 * 60 * 1000);
+
+      await appointmentService.editAppointment('appt-123', { startAt: newStart, endAt: newEnd }, 'this', voiceAgent);
+
+      expect(mockEventRepository.append).toHaveBeenCalledTimes(1);
+      expect(mockEventRepository.append).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: AppointmentEventType.RESCHEDULED,
+        before: { startAt: inOneDay, endAt: inOneDayAndAnHour },
+        after: { startAt: newStart, endAt: newEnd }
+      }));
+    });
+
+    it('should record a type change', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+
+      await appointmentService.editAppointment('appt-123', { type: AppointmentType.FOLLOW_UP });
+
+      expect(mockEventRepository.append).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: AppointmentEventType.TYPE_CHANGED,
+        before: { type: AppointmentType.CONSULTATION },
+        after: { type: AppointmentType.FOLLOW_UP },
+        channel: ChangeChannel.SYSTEM,
+        actorType: ActorType.SYSTEM
+      }));
+    });
+
+    it('should put a patient\'s cancellation down to their patient record', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({
+        ...mockAppointmentEntity,
+        patientId: 'patient-1',
+        startAt: inOneDay,
+        endAt: inOneDayAndAnHour
+      }));
+
+      await appointmentService.cancelAppointment('appt-123', 'this', { channel: ChangeChannel.SMS_REPLY, actorType: ActorType.PATIENT });
+
+      expect(mockEventRepository.append).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: AppointmentEventType.CANCELLED,
+        before: { status: AppointmentStatus.SCHEDULED },
+        after: { status: AppointmentStatus.CANCELLED },
+        channel: ChangeChannel.SMS_REPLY,
+        actorType: ActorType.PATIENT,
+        actorId: 'patient-1'
+      }));
+    });
+
+    it('should record a confirmation as a status change', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+
+      await appointmentService.confirmAppointment('appt-123');
+
+      expect(mockEventRepository.append).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: AppointmentEventType.STATUS_CHANGED,
+        before: { status: AppointmentStatus.SCHEDULED },
+        after: { status: AppointmentStatus.CONFIRMED }
+      }));
+    });
+
+    it('should not record an edit that changed nothing', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+
+      await appointmentService.editAppointment('appt-123', { type: AppointmentType.CONSULTATION });
+
+      expect(mockEventRepository.append).not.toHaveBeenCalled();
+    });
+
+    it('should still make the change when it cannot be recorded', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      mockEventRepository.append.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await expect(appointmentService.cancelAppointment('appt-123')).resolves.toBe(true);
+      expect(mockAppointmentRepository.update).toHaveBeenCalledWith('appt-123', expect.objectContaining({ status: AppointmentStatus.CANCELLED }));
+    });
+  });
+
+  describe('calendar sync', () => {
+    const inOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const inOneDayAndAnHour = new Date(inOneDay.getTime() + 60 * 60 * 1000);
+
+    const syncJob = (appointment: AppointmentEntity) => new CalendarSyncJobEntity({
+      id: `job-${appointment.id}`,
+      appointmentId: appointment.id!,
+      action: CalendarSyncAction.CREATE,
+      status: CalendarSyncJobStatus.PENDING,
+      revision: 1,
+      attempts: 1,
+      nextAttemptAt: new Date()
+    });
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        seriesRepository: mockSeriesRepository,
+        calendarSyncService: mockCalendarSyncService
+      });
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+      mockAppointmentRepository.update.mockImplementation(async (_id, entity) => entity);
+      mockCalendarSyncService.enqueueSync.mockImplementation(async (appointment) => {
+        appointment.calendarSyncState = CalendarSyncState.PENDING;
+        return syncJob(appointment);
+      });
+      mockCalendarSyncService.runSync.mockImplementation(async (_job, appointment) => appointment);
+    });
+
+    it('should keep a new booking when its calendar event cannot be created yet', async () => {
+      mockAppointmentRepository.create.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, calendarEventId: undefined }));
+
+      const result = await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(mockCalendarSyncService.enqueueSync).toHaveBeenCalledWith(expect.objectContaining({ id: 'appt-123' }));
+      expect(mockCalendarSyncService.runSync).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-appt-123' }), expect.objectContaining({ id: 'appt-123' }));
+      expect(mockCalendarService.createCalendarEvent).not.toHaveBeenCalled();
+      expect(mockAppointmentRepository.delete).not.toHaveBeenCalled();
+      expect(result.calendarSyncState).toBe(CalendarSyncState.PENDING);
+    });
+
+    it('should record the sync job in the transaction that saves the booking and sync only after it', async () => {
+      const transactions = trackingTransactions();
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        calendarSyncService: mockCalendarSyncService,
+        transactions: transactions.runner
+      });
+      const steps: string[] = [];
+      const step = (name: string) => steps.push(`${name}${transactions.inTransaction() ? ' in transaction' : ''}`);
+      mockAppointmentRepository.create.mockImplementation(async () => {
+        step('appointment');
+        return new AppointmentEntity({ ...mockAppointmentEntity, calendarEventId: undefined });
+      });
+      mockCalendarSyncService.enqueueSync.mockImplementation(async (appointment) => {
+        step('sync job');
+        return syncJob(appointment);
+      });
+      mockCalendarSyncService.runSync.mockImplementation(async (_job, appointment) => {
+        step('calendar');
+        return appointment;
+      });
+
+      await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(steps).toEqual(['appointment in transaction', 'sync job in transaction', 'calendar']);
+    });
+
+    it('should not save the booking when its sync job cannot be recorded', async () => {
+      const transactions = trackingTransactions();
+      appointmentService = new AppointmentService(mockAppointmentRepository, mockCalendarService, {
+        calendarSyncService: mockCalendarSyncService,
+        transactions: transactions.runner
+      });
+      mockAppointmentRepository.create.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, calendarEventId: undefined }));
+      let enqueuedInTransaction = false;
+      mockCalendarSyncService.enqueueSync.mockImplementation(async () => {
+        enqueuedInTransaction = transactions.inTransaction();
+        throw new Error('Database unavailable');
+      });
+
+      // Thrown out of the transaction, so the booking is rolled back with it
+      await expect(appointmentService.createAppointment(mockScheduleRequest)).rejects.toThrow('Database unavailable');
+      expect(enqueuedInTransaction).toBe(true);
+      expect(mockCalendarSyncService.runSync).not.toHaveBeenCalled();
+    });
+
+    it('should keep the booking with its job pending when the first attempt cannot finish', async () => {
+      mockAppointmentRepository.create.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, calendarEventId: undefined }));
+      mockCalendarSyncService.runSync.mockRejectedValue(new Error('Database unavailable'));
+
+      const result = await appointmentService.createAppointment(mockScheduleRequest);
+
+      expect(result.id).toBe('appt-123');
+      expect(result.calendarSyncState).toBe(CalendarSyncState.PENDING);
+      expect(mockAppointmentRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not save a cancellation when its sync job cannot be recorded', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      mockCalendarSyncService.enqueueSync.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(appointmentService.cancelAppointment('appt-123')).rejects.toThrow('Database unavailable');
+      expect(mockCalendarSyncService.runSync).not.toHaveBeenCalled();
+    });
+
+    it('should sync a rescheduled appointment instead of updating its event inline', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+      const newStart = new Date(inOneDay.getTime() + 2 * 60 * 60 * 1000);
+
+      await appointmentService.editAppointment('appt-123', { startAt: newStart, endAt: new Date(newStart.getTime() + 60 * 60 * 1000) });
+
+      expect(mockCalendarSyncService.runSync).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 'appt-123', startAt: newStart }));
+      expect(mockCalendarService.updateCalendarEvent).not.toHaveBeenCalled();
+    });
+
+    it('should sync a cancelled appointment instead of deleting its event inline', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(new AppointmentEntity({ ...mockAppointmentEntity, startAt: inOneDay, endAt: inOneDayAndAnHour }));
+
+      await appointmentService.cancelAppointment('appt-123');
+
+      expect(mockCalendarSyncService.runSync).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: AppointmentStatus.CANCELLED }));
+      expect(mockCalendarService.deleteCalendarEvent).not.toHaveBeenCalled();
+    });
+
+    it('should sync the occurrences of a series once all of them are booked', async () => {
+      let created = 0;
+      mockAppointmentRepository.create.mockImplementation(async (entity) => new AppointmentEntity({ ...entity, id: `appt-${++created}`, createdAt: new Date() } as any));
+      mockSeriesRepository.create.mockImplementation(async (entity) => new AppointmentSeriesEntity({ ...entity, id: 'series-1' }));
+      mockCalendarSyncService.enqueueSync.mockImplementation(async (appointment) => {
+        expect(created).toBe(3);
+        return syncJob(appointment);
+      });
+
+      await appointmentService.createSeries({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        startAt: new Date('2030-01-07T14:00:00Z'),
+        endAt: new Date('2030-01-07T15:00:00Z'),
+        type: AppointmentType.THERAPY,
+        notes: {},
+        recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1, count: 3, exceptions: [] }
+      });
+
+      expect(mockCalendarSyncService.runSync).toHaveBeenCalledTimes(3);
+      expect(mockCalendarService.createCalendarEvent).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { AppointmentTypeService } from '../../services/appointmentTypeService';
+import { IAppointmentTypeRepository } from '../../repositories/interfaces/IAppointmentTypeRepository';
+import { AppointmentTypeEntity } from '../../models/AppointmentTypeEntity';
+import { AppointmentType } from '../../types/schedule';
+import { ValidationError } from '../../types/errors';
+
+const mockAppointmentTypeRepository: jest.Mocked<IAppointmentTypeRepository> = {
+  findByCode: jest.fn(),
+  findAll: jest.fn()
+};
+
+describe('AppointmentTypeService', () => {
+  let appointmentTypeService: AppointmentTypeService;
+
+  const vaccination = new AppointmentTypeEntity({
+    code: AppointmentType.VACCINATION,
+    name: 'Vaccination',
+    defaultDurationMinutes: 15,
+    allowedDurationsMinutes: [15],
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 5,
+    minLeadTimeMinutes: 60,
+    providerIds: [],
+    active: true
+  });
+
+  const surgery = new AppointmentTypeEntity({
+    code: AppointmentType.SURGERY,
+    name: 'Surgery',
+    defaultDurationMinutes: 120,
+    allowedDurationsMinutes: [60, 90, 120, 180, 240],
+    bufferBeforeMinutes: 15,
+    bufferAfterMinutes: 30,
+    minLeadTimeMinutes: 24 * 60,
+    providerIds: ['provider-1'],
+    active: false
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    appointmentTypeService = new AppointmentTypeService(mockAppointmentTypeRepository);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getType', () => {
+    it('should return an active type from the catalogue', async () => {
+      mockAppointmentTypeRepository.findByCode.mockResolvedValue(vaccination);
+
+      await expect(appointmentTypeService.getType('vaccination')).resolves.toBe(vaccination);
+      expect(mockAppointmentTypeRepository.findByCode).toHaveBeenCalledWith('vaccination');
+    });
+
+    it('should reject unknown and retired types', async () => {
+      mockAppointmentTypeRepository.findByCode.mockResolvedValueOnce(null);
+      await expect(appointmentTypeService.getType('massage')).rejects.toThrow(ValidationError);
+
+      mockAppointmentTypeRepository.findByCode.mockResolvedValueOnce(surgery);
+      await expect(appointmentTypeService.getType('surgery')).rejects.toThrow("We don't currently offer surgery appointments");
+    });
+  });
+
+  describe('listTypes', () => {
+    it('should only list active types', async () => {
+      mockAppointmentTypeRepository.findAll.mockResolvedValue([surgery, vaccination]);
+
+      await expect(appointmentTypeService.listTypes()).resolves.toEqual([vaccination]);
+    });
+
+    it('should include retired types when asked', async () => {
+      mockAppointmentTypeRepository.findAll.mockResolvedValue([surgery, vaccination]);
+
+      await expect(appointmentTypeService.listTypes({ includeRetired: true })).resolves.toEqual([surgery, vaccination]);
+    });
+  });
+
+  describe('resolveEndAt', () => {
+    const startAt = new Date('2025-01-15T10:00:00Z');
+
+    it('should derive the end time from the default duration', () => {
+      expect(appointmentTypeService.resolveEndAt(vaccination, startAt)).toEqual(new Date('2025-01-15T10:15:00Z'));
+    });
+
+    it('should accept an allowed duration', () => {
+      const endAt = new Date('2025-01-15T13:00:00Z');
+      expect(appointmentTypeService.resolveEndAt(surgery, startAt, endAt)).toEqual(endAt);
+    });
+
+    it('should reject durations the type does not allow', () => {
+      expect(() => appointmentTypeService.resolveEndAt(vaccination, startAt, new Date('2025-01-15T16:00:00Z')))
+        .toThrow('Vaccination appointments can last 15 minutes, not 360');
+    });
+  });
+
+  describe('assertLeadTime', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2025-01-15T09:00:00Z') });
+    });
+
+    it('should allow bookings made far enough ahead', () => {
+      expect(() => appointmentTypeService.assertLeadTime(vaccination, new Date('2025-01-15T10:00:00Z'))).not.toThrow();
+    });
+
+    it('should reject bookings made too close to the start', () => {
+      expect(() => appointmentTypeService.assertLeadTime(vaccination, new Date('2025-01-15T09:30:00Z')))
+        .toThrow('Vaccination appointments must be booked at least 1 hour in advance');
+      expect(() => appointmentTypeService.assertLeadTime(surgery, new Date('2025-01-15T18:00:00Z')))
+        .toThrow('Surgery appointments must be booked at least 1 day in advance');
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { AvailabilityService } from '../../services/availabilityService';
+import { IAppointmentRepository } from '../../repositories/interfaces/IAppointmentRepository';
+import { IProviderRepository } from '../../repositories/interfaces/IProviderRepository';
+import { ICalendarService } from '../../services/interfaces/ICalendarService';
+import { IBusinessHoursService } from '../../services/interfaces/IBusinessHoursService';
+import { IAppointmentTypeService } from '../../services/interfaces/IAppointmentTypeService';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { ProviderEntity } from '../../models/ProviderEntity';
+import { AppointmentTypeEntity } from '../../models/AppointmentTypeEntity';
+import { AppointmentType, AppointmentStatus } from '../../types/schedule';
+import { ValidationError } from '../../types/errors';
+
+const mockAppointmentRepository: jest.Mocked<IAppointmentRepository> = {
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  findById: jest.fn(),
+  isAvailable: jest.fn(),
+  getConflictingAppointments: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  search: jest.fn()
+};
+
+const mockCalendarService: jest.Mocked<ICalendarService> = {
+  getBookedSlotsForDate: jest.fn(),
+  getBusySlots: jest.fn(),
+  createCalendarEvent: jest.fn(),
+  updateCalendarEvent: jest.fn(),
+  upsertCalendarEvent: jest.fn(),
+  deleteCalendarEvent: jest.fn()
+};
+
+const mockProviderRepository: jest.Mocked<IProviderRepository> = {
+  findById: jest.fn(),
+  findActive: jest.fn()
+};
+
+const mockBusinessHoursService: jest.Mocked<IBusinessHoursService> = {
+  getRules: jest.fn(),
+  isWithinBusinessHours: jest.fn(),
+  assertWithinBusinessHours: jest.fn(),
+  getOpeningIntervals: jest.fn()
+};
+
+const mockAppointmentTypeService: jest.Mocked<IAppointmentTypeService> = {
+  getType: jest.fn(),
+  listTypes: jest.fn(),
+  resolveEndAt: jest.fn(),
+  assertLeadTime: jest.fn()
+};
+
+const appointmentType = (code: AppointmentType, overrides: Partial<AppointmentTypeEntity> = {}) => new AppointmentTypeEntity({
+  code,
+  name: code,
+  defaultDurationMinutes: 30,
+  allowedDurationsMinutes: [],
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+  minLeadTimeMinutes: 0,
+  providerIds: [],
+  active: true,
+  ...overrides
+});
+
+const catalogue: Partial<Record<AppointmentType, AppointmentTypeEntity>> = {
+  [AppointmentType.CONSULTATION]: appointmentType(AppointmentType.CONSULTATION),
+  [AppointmentType.THERAPY]: appointmentType(AppointmentType.THERAPY, { defaultDurationMinutes: 60 }),
+  [AppointmentType.SURGERY]: appointmentType(AppointmentType.SURGERY, {
+    defaultDurationMinutes: 120,
+    bufferBeforeMinutes: 15,
+    bufferAfterMinutes: 30,
+    minLeadTimeMinutes: 24 * 60
+  }),
+  [AppointmentType.SPECIALIST]: appointmentType(AppointmentType.SPECIALIST, { providerIds: ['provider-b'] })
+};
+
+const bookedAppointment = (startAt: string, endAt: string, providerId?: string) => new AppointmentEntity({
+  id: `appt-${startAt}`,
+  firstName: 'Jane',
+  lastName: 'Doe',
+  email: 'jane@example.com',
+  startAt: new Date(startAt),
+  endAt: new Date(endAt),
+  type: AppointmentType.CONSULTATION,
+  status: AppointmentStatus.SCHEDULED,
+  notes: {},
+  providerId,
+  createdAt: new Date('2025-01-01T00:00:00Z')
+});
+
+const startTimes = (slots: { startAt: Date }[]) => slots.map(slot => slot.startAt.toISOString().slice(11, 16));
+
+describe('AvailabilityService', () => {
+  const from = new Date('2025-01-15T00:00:00Z');
+  const to = new Date('2025-01-16T00:00:00Z');
+
+  const drSmith = new ProviderEntity({ id: 'provider-a', firstName: 'Anna', lastName: 'Smith', title: 'Dr.', active: true, createdAt: new Date() });
+  const drJones = new ProviderEntity({ id: 'provider-b', firstName: 'Ben', lastName: 'Jones', title: 'Dr.', active: true, createdAt: new Date() });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-01-10T00:00:00Z') });
+
+    mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([]);
+    mockCalendarService.getBusySlots.mockResolvedValue([]);
+    mockAppointmentTypeService.getType.mockImplementation(async (code) => catalogue[code as AppointmentType]!);
+    mockAppointmentTypeService.listTypes.mockResolvedValue(Object.values(catalogue));
+    mockBusinessHoursService.getOpeningIntervals.mockResolvedValue([
+      { start: new Date('2025-01-15T09:00:00Z'), end: new Date('2025-01-15T12:00:00Z') },
+      { start: new Date('2025-01-15T13:00:00Z'), end: new Date('2025-01-15T15:00:00Z') }
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('clinic-wide availability', () => {
+    let availabilityService: AvailabilityService;
+
+    beforeEach(() => {
+      availabilityService = new AvailabilityService(
+        { slotIntervalMinutes: 30, maxRangeDays: 14 },
+        mockAppointmentRepository,
+        mockCalendarService,
+        mockAppointmentTypeService,
+        { businessHoursService: mockBusinessHoursService }
+      );
+    });
+
+    it('should generate slots inside opening hours, skipping the lunch break', async () => {
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.CONSULTATION });
+
+      expect(startTimes(slots)).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00', '11:30', '13:00', '13:30', '14:00', '14:30']);
+      expect(slots[0].endAt).toEqual(new Date('2025-01-15T09:30:00Z'));
+    });
+
+    it('should remove booked appointments and external calendar busy time', async () => {
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([
+        bookedAppointment('2025-01-15T10:00:00Z', '2025-01-15T10:30:00Z')
+      ]);
+      mockCalendarService.getBusySlots.mockResolvedValue([
+        // Our own appointment, as reported by FreeBusy
+        { start: new Date('2025-01-15T10:00:00Z'), end: new Date('2025-01-15T10:30:00Z'), isAvailable: false },
+        // A staff meeting that only exists in the calendar
+        { start: new Date('2025-01-15T13:00:00Z'), end: new Date('2025-01-15T14:00:00Z'), isAvailable: false }
+      ]);
+
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.CONSULTATION });
+
+      expect(startTimes(slots)).toEqual(['09:00', '09:30', '10:30', '11:00', '11:30', '14:00', '14:30']);
+    });
+
+    it('should use the appointment type duration', async () => {
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.THERAPY });
+
+      expect(startTimes(slots)).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00', '13:00', '13:30', '14:00']);
+      expect(slots[0].endAt).toEqual(new Date('2025-01-15T10:00:00Z'));
+    });
+
+    it('should keep buffers clear of other appointments', async () => {
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([
+        bookedAppointment('2025-01-15T11:10:00Z', '2025-01-15T11:40:00Z')
+      ]);
+
+      // Surgery is 120 minutes with 15 minutes of setup before and 30 minutes of clean-up after
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.SURGERY });
+
+      expect(startTimes(slots)).toEqual(['13:00']);
+    });
+
+    it('should keep the buffers of booked appointments clear', async () => {
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([
+        new AppointmentEntity({ ...bookedAppointment('2025-01-15T09:30:00Z', '2025-01-15T10:00:00Z'), type: AppointmentType.SURGERY })
+      ]);
+
+      // The booked surgery blocks 09:15 to 10:30, so a consultation can't take its setup or clean-up time
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.CONSULTATION });
+
+      expect(startTimes(slots)).toEqual(['10:30', '11:00', '11:30', '13:00', '13:30', '14:00', '14:30']);
+      expect(mockAppointmentRepository.getConflictingAppointments).toHaveBeenCalledWith(
+        new Date('2025-01-14T23:30:00Z'),
+        new Date('2025-01-16T00:15:00Z')
+      );
+    });
+
+    it('should not offer slots in the past', async () => {
+      jest.setSystemTime(new Date('2025-01-15T13:40:00Z'));
+
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.CONSULTATION });
+
+      expect(startTimes(slots)).toEqual(['14:00', '14:30']);
+    });
+
+    it('should not offer slots inside the type\'s booking lead time', async () => {
+      jest.setSystemTime(new Date('2025-01-14T10:00:00Z'));
+
+      // Surgery must be booked a day ahead
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.SURGERY });
+
+      expect(startTimes(slots)).toEqual(['10:00', '13:00']);
+    });
+
+    it('should reject ranges longer than the configured maximum', async () => {
+      await expect(availabilityService.findAvailableSlots({
+        from,
+        to: new Date('2025-02-15T00:00:00Z'),
+        type: AppointmentType.CONSULTATION
+      })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('per-provider availability', () => {
+    let availabilityService: AvailabilityService;
+
+    beforeEach(() => {
+      availabilityService = new AvailabilityService(
+        { slotIntervalMinutes: 30, maxRangeDays: 14 },
+        mockAppointmentRepository,
+        mockCalendarService,
+        mockAppointmentTypeService,
+        { providerRepository: mockProviderRepository, businessHoursService: mockBusinessHoursService }
+      );
+      mockProviderRepository.findActive.mockResolvedValue([drSmith, drJones]);
+      mockProviderRepository.findById.mockResolvedValue(drSmith);
+      mockAppointmentRepository.getConflictingAppointments.mockResolvedValue([
+        bookedAppointment('2025-01-15T09:00:00Z', '2025-01-15T09:30:00Z', drSmith.id)
+      ]);
+    });
+
+    it('should offer a time once when any provider is free', async () => {
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.CONSULTATION, limit: 2 });
+
+      expect(slots).toEqual([
+        expect.objectContaining({ startAt: new Date('2025-01-15T09:00:00Z'), providerId: drJones.id, providerName: 'Dr. Ben Jones' }),
+        expect.objectContaining({ startAt: new Date('2025-01-15T09:30:00Z'), providerId: drSmith.id })
+      ]);
+    });
+
+    it('should only use the preferred provider\'s free time', async () => {
+      const slots = await availabilityService.findAvailableSlots({
+        from,
+        to,
+        type: AppointmentType.CONSULTATION,
+        providerId: drSmith.id,
+        limit: 2
+      });
+
+      expect(startTimes(slots)).toEqual(['09:30', '10:00']);
+      expect(mockBusinessHoursService.getOpeningIntervals).toHaveBeenCalledWith(expect.any(Date), to, drSmith);
+    });
+
+    it('should only offer providers who perform the appointment type', async () => {
+      const slots = await availabilityService.findAvailableSlots({ from, to, type: AppointmentType.SPECIALIST, limit: 2 });
+
+      expect(slots.map(slot => slot.providerId)).toEqual([drJones.id, drJones.id]);
+    });
+
+    it('should reject a preferred provider who does not perform the appointment type', async () => {
+      await expect(availabilityService.findAvailableSlots({
+        from,
+        to,
+        type: AppointmentType.SPECIALIST,
+        providerId: drSmith.id
+      })).rejects.toThrow('Dr. Anna Smith does not offer specialist appointments');
+    });
+  });
+});
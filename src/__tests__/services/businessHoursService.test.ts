@@ -0,0 +1,202 @@
+import { BusinessHoursService } from '../../services/businessHoursService';
+import { IBusinessHoursRepository } from '../../repositories/interfaces/IBusinessHoursRepository';
+import { ProviderEntity } from '../../models/ProviderEntity';
+import { BusinessHoursRule } from '../../types/availability';
+import { OutsideBusinessHoursError } from '../../types/errors';
+
+const mockBusinessHoursRepository: jest.Mocked<IBusinessHoursRepository> = {
+  findByProvider: jest.fn(),
+  findByLocation: jest.fn(),
+  findClinicWide: jest.fn()
+};
+
+// Monday to Friday with a lunch break, plus a Saturday morning shift
+const clinicRules: BusinessHoursRule[] = [
+  ...[1, 2, 3, 4, 5].flatMap(dayOfWeek => [
+    { dayOfWeek, opensAt: '09:00', closesAt: '12:00' },
+    { dayOfWeek, opensAt: '13:00', closesAt: '17:00' }
+  ]),
+  { dayOfWeek: 6, opensAt: '10:00', closesAt: '14:00' }
+];
+
+describe('BusinessHoursService', () => {
+  let businessHoursService: BusinessHoursService;
+
+  const provider = new ProviderEntity({
+    id: 'provider-1',
+    firstName: 'Anna',
+    lastName: 'Smith',
+    title: 'Dr.',
+    locationId: 'location-1',
+    active: true,
+    createdAt: new Date('2025-01-01T00:00:00Z')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    businessHoursService = new BusinessHoursService({ timeZone: 'UTC' }, mockBusinessHoursRepository);
+    mockBusinessHoursRepository.findByProvider.mockResolvedValue([]);
+    mockBusinessHoursRepository.findByLocation.mockResolvedValue([]);
+    mockBusinessHoursRepository.findClinicWide.mockResolvedValue(clinicRules);
+  });
+
+  describe('isWithinBusinessHours', () => {
+    it('should accept an appointment inside a morning shift', async () => {
+      // Wednesday 2025-01-15
+      const result = await businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-15T10:00:00Z'),
+        new Date('2025-01-15T11:00:00Z')
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it('should accept an appointment ending exactly at closing time', async () => {
+      const result = await businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-15T16:30:00Z'),
+        new Date('2025-01-15T17:00:00Z')
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it('should reject an appointment overlapping the lunch break', async () => {
+      const result = await businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-15T11:30:00Z'),
+        new Date('2025-01-15T12:30:00Z')
+      );
+
+      expect(result).toBe(false);
+    });
+
+    it('should reject an appointment at 3am on a Sunday', async () => {
+      const result = await businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-19T03:00:00Z'),
+        new Date('2025-01-19T03:30:00Z')
+      );
+
+      expect(result).toBe(false);
+    });
+
+    it('should allow any time when no hours are configured', async () => {
+      mockBusinessHoursRepository.findClinicWide.mockResolvedValue([]);
+
+      const result = await businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-19T03:00:00Z'),
+        new Date('2025-01-19T03:30:00Z')
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it('should evaluate hours in the configured time zone', async () => {
+      businessHoursService = new BusinessHoursService({ timeZone: 'America/Toronto' }, mockBusinessHoursRepository);
+
+      // 14:00 UTC is 09:00 in Toronto (EST) and 03:00 UTC is 22:00 the previous evening
+      await expect(businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-15T14:00:00Z'),
+        new Date('2025-01-15T14:30:00Z')
+      )).resolves.toBe(true);
+      await expect(businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-15T03:00:00Z'),
+        new Date('2025-01-15T03:30:00Z')
+      )).resolves.toBe(false);
+    });
+  });
+
+  describe('getRules', () => {
+    it('should prefer the provider\'s own hours', async () => {
+      const providerRules = [{ dayOfWeek: 0, opensAt: '08:00', closesAt: '12:00', providerId: 'provider-1' }];
+      mockBusinessHoursRepository.findByProvider.mockResolvedValue(providerRules);
+
+      const rules = await businessHoursService.getRules(provider);
+
+      expect(rules).toEqual(providerRules);
+      expect(mockBusinessHoursRepository.findByLocation).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the provider\'s location hours', async () => {
+      const locationRules = [{ dayOfWeek: 1, opensAt: '07:00', closesAt: '19:00', locationId: 'location-1' }];
+      mockBusinessHoursRepository.findByLocation.mockResolvedValue(locationRules);
+
+      const rules = await businessHoursService.getRules(provider);
+
+      expect(mockBusinessHoursRepository.findByLocation).toHaveBeenCalledWith('location-1');
+      expect(rules).toEqual(locationRules);
+    });
+
+    it('should fall back to clinic-wide hours', async () => {
+      const rules = await businessHoursService.getRules(provider);
+
+      expect(rules).toEqual(clinicRules);
+    });
+  });
+
+  describe('assertWithinBusinessHours', () => {
+    it('should explain that the clinic is closed on that day', async () => {
+      await expect(businessHoursService.assertWithinBusinessHours(
+        new Date('2025-01-19T03:00:00Z'),
+        new Date('2025-01-19T03:30:00Z')
+      )).rejects.toThrow('The clinic is not open on Sundays');
+    });
+
+    it('should list the opening intervals for that day', async () => {
+      await expect(businessHoursService.assertWithinBusinessHours(
+        new Date('2025-01-15T11:30:00Z'),
+        new Date('2025-01-15T12:30:00Z')
+      )).rejects.toThrow('The clinic is open 09:00-12:00, 13:00-17:00 (UTC) on Wednesday');
+    });
+
+    it('should name the provider whose hours apply', async () => {
+      mockBusinessHoursRepository.findByProvider.mockResolvedValue([
+        { dayOfWeek: 3, opensAt: '13:00', closesAt: '17:00', providerId: 'provider-1' }
+      ]);
+
+      await expect(businessHoursService.assertWithinBusinessHours(
+        new Date('2025-01-15T10:00:00Z'),
+        new Date('2025-01-15T10:30:00Z'),
+        provider
+      )).rejects.toThrow(OutsideBusinessHoursError);
+      await expect(businessHoursService.assertWithinBusinessHours(
+        new Date('2025-01-15T10:00:00Z'),
+        new Date('2025-01-15T10:30:00Z'),
+        provider
+      )).rejects.toThrow('Dr. Anna Smith is open 13:00-17:00');
+    });
+  });
+
+  describe('location time zones', () => {
+    const torontoProvider = new ProviderEntity({
+      id: 'provider-2',
+      firstName: 'Ben',
+      lastName: 'Jones',
+      title: 'Dr.',
+      locationId: 'location-2',
+      timeZone: 'America/Toronto',
+      active: true,
+      createdAt: new Date('2025-01-01T00:00:00Z')
+    });
+
+    it('should read opening hours in the provider\'s location time zone', async () => {
+      // 09:00-09:30 in Toronto on Wednesday 15 January is 14:00-14:30 UTC
+      await expect(businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-15T14:00:00Z'),
+        new Date('2025-01-15T14:30:00Z'),
+        torontoProvider
+      )).resolves.toBe(true);
+      await expect(businessHoursService.isWithinBusinessHours(
+        new Date('2025-01-15T09:00:00Z'),
+        new Date('2025-01-15T09:30:00Z'),
+        torontoProvider
+      )).resolves.toBe(false);
+    });
+
+    it('should name the location time zone when rejecting a booking', async () => {
+      await expect(businessHoursService.assertWithinBusinessHours(
+        new Date('2025-01-15T12:00:00Z'),
+        new Date('2025-01-15T12:30:00Z'),
+        torontoProvider
+      )).rejects.toThrow('Dr. Ben Jones is open 09:00-12:00, 13:00-17:00 (America/Toronto) on Wednesday');
+    });
+  });
+});
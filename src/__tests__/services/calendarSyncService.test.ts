@@ -0,0 +1,224 @@
+import { CalendarSyncService } from '../../services/calendarSyncService';
+import { ICalendarService } from '../../services/interfaces/ICalendarService';
+import { ICalendarSyncRepository } from '../../repositories/interfaces/ICalendarSyncRepository';
+import { IAppointmentRepository } from '../../repositories/interfaces/IAppointmentRepository';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { CalendarSyncJobEntity } from '../../models/CalendarSyncJobEntity';
+import { Appointment, AppointmentStatus, AppointmentType } from '../../types/schedule';
+import { CalendarSyncAction, CalendarSyncJobStatus, CalendarSyncState } from '../../types/calendarSync';
+import { NotFoundError } from '../../types/errors';
+
+const mockSyncRepository: jest.Mocked<ICalendarSyncRepository> = {
+  enqueue: jest.fn(),
+  claimDue: jest.fn(),
+  markSynced: jest.fn(),
+  scheduleRetry: jest.fn(),
+  markFailed: jest.fn()
+};
+
+const mockAppointmentRepository: jest.Mocked<IAppointmentRepository> = {
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  findById: jest.fn(),
+  isAvailable: jest.fn(),
+  getConflictingAppointments: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  search: jest.fn()
+};
+
+const mockCalendarService: jest.Mocked<ICalendarService> = {
+  getBookedSlotsForDate: jest.fn(),
+  getBusySlots: jest.fn(),
+  createCalendarEvent: jest.fn(),
+  updateCalendarEvent: jest.fn(),
+  upsertCalendarEvent: jest.fn(),
+  deleteCalendarEvent: jest.fn()
+};
+
+const APPOINTMENT_ID = '5f0c2a8e-9a43-4d2b-8f7e-0a1b2c3d4e5f';
+const EVENT_ID = 'appt5f0c2a8e9a434d2b8f7e0a1b2c3d4e5f';
+
+describe('CalendarSyncService', () => {
+  let calendarSyncService: CalendarSyncService;
+
+  const now = new Date('2030-01-15T15:00:00Z');
+
+  const appointment = (overrides: Partial<Appointment> = {}) => new AppointmentEntity({
+    id: APPOINTMENT_ID,
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    startAt: new Date('2030-01-20T15:00:00Z'),
+    endAt: new Date('2030-01-20T16:00:00Z'),
+    type: AppointmentType.CONSULTATION,
+    status: AppointmentStatus.SCHEDULED,
+    notes: {},
+    createdAt: new Date('2030-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  const job = (attempts: number, action: CalendarSyncAction = CalendarSyncAction.CREATE) => new CalendarSyncJobEntity({
+    id: `job-${attempts}`,
+    appointmentId: APPOINTMENT_ID,
+    action,
+    status: CalendarSyncJobStatus.PENDING,
+    revision: 1,
+    attempts,
+    nextAttemptAt: new Date(now.getTime() + 60 * 1000)
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    calendarSyncService = new CalendarSyncService(
+      { maxAttempts: 5, retryBaseSeconds: 30, retryMaxSeconds: 120 },
+      mockSyncRepository,
+      mockAppointmentRepository,
+      mockCalendarService
+    );
+    mockSyncRepository.enqueue.mockImplementation(async (_id, action) => job(1, action));
+    mockSyncRepository.markSynced.mockResolvedValue(true);
+    mockSyncRepository.scheduleRetry.mockResolvedValue(true);
+    mockSyncRepository.markFailed.mockResolvedValue(true);
+    mockCalendarService.upsertCalendarEvent.mockResolvedValue();
+    mockCalendarService.deleteCalendarEvent.mockResolvedValue();
+  });
+
+  describe('enqueueSync and runSync', () => {
+    // What saving a change and then committing it does
+    const sync = async (apt: AppointmentEntity) => calendarSyncService.runSync(await calendarSyncService.enqueueSync(apt), apt);
+
+    it('should only record the job and mark the appointment pending until it is run', async () => {
+      const pending = appointment();
+
+      const queued = await calendarSyncService.enqueueSync(pending);
+
+      expect(queued.id).toBe('job-1');
+      expect(mockSyncRepository.enqueue).toHaveBeenCalledWith(APPOINTMENT_ID, CalendarSyncAction.CREATE, 60);
+      expect(mockCalendarService.upsertCalendarEvent).not.toHaveBeenCalled();
+      expect(pending.calendarSyncState).toBe(CalendarSyncState.PENDING);
+    });
+
+    it('should create the event under an ID derived from the appointment', async () => {
+      const synced = await sync(appointment());
+
+      expect(mockSyncRepository.enqueue).toHaveBeenCalledWith(APPOINTMENT_ID, CalendarSyncAction.CREATE, 60);
+      expect(mockCalendarService.upsertCalendarEvent).toHaveBeenCalledWith(EVENT_ID, expect.objectContaining({ id: APPOINTMENT_ID }));
+      expect(mockSyncRepository.markSynced).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }), EVENT_ID);
+      expect(synced.calendarEventId).toBe(EVENT_ID);
+      expect(synced.calendarSyncState).toBe(CalendarSyncState.SYNCED);
+    });
+
+    it('should keep the ID of an event created before sync jobs', async () => {
+      await sync(appointment({ calendarEventId: 'google-event-1' }));
+
+      expect(mockSyncRepository.enqueue).toHaveBeenCalledWith(APPOINTMENT_ID, CalendarSyncAction.UPDATE, 60);
+      expect(mockCalendarService.upsertCalendarEvent).toHaveBeenCalledWith('google-event-1', expect.anything());
+    });
+
+    it('should delete the event of a cancelled appointment', async () => {
+      const synced = await sync(appointment({ status: AppointmentStatus.CANCELLED }));
+
+      expect(mockSyncRepository.enqueue).toHaveBeenCalledWith(APPOINTMENT_ID, CalendarSyncAction.DELETE, 60);
+      expect(mockCalendarService.deleteCalendarEvent).toHaveBeenCalledWith(EVENT_ID);
+      expect(mockCalendarService.upsertCalendarEvent).not.toHaveBeenCalled();
+      expect(mockSyncRepository.markSynced).toHaveBeenCalledWith(expect.anything(), undefined);
+      expect(synced.calendarSyncState).toBe(CalendarSyncState.SYNCED);
+    });
+
+    it('should leave the appointment pending and schedule a retry when the calendar call fails', async () => {
+      mockCalendarService.upsertCalendarEvent.mockRejectedValue(new Error('Calendar event upsert failed (status 503): Backend Error'));
+
+      const synced = await sync(appointment());
+
+      expect(mockSyncRepository.scheduleRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-1' }),
+        'Calendar event upsert failed (status 503): Backend Error',
+        expect.any(Date)
+      );
+      expect(mockSyncRepository.markSynced).not.toHaveBeenCalled();
+      expect(synced.calendarEventId).toBeUndefined();
+      expect(synced.calendarSyncState).toBe(CalendarSyncState.PENDING);
+    });
+
+    it('should stay pending when a newer change was folded into the job meanwhile', async () => {
+      mockSyncRepository.markSynced.mockResolvedValue(false);
+
+      const synced = await sync(appointment());
+
+      expect(synced.calendarSyncState).toBe(CalendarSyncState.PENDING);
+    });
+  });
+
+  describe('syncDueJobs', () => {
+    it('should sync the appointment as it is now', async () => {
+      mockSyncRepository.claimDue.mockResolvedValue([job(2)]);
+      mockAppointmentRepository.findById.mockResolvedValue(appointment({ startAt: new Date('2030-01-21T15:00:00Z') }));
+
+      const synced = await calendarSyncService.syncDueJobs(now);
+
+      expect(synced).toBe(1);
+      expect(mockSyncRepository.claimDue).toHaveBeenCalledWith(now, 20, 60);
+      expect(mockCalendarService.upsertCalendarEvent).toHaveBeenCalledWith(EVENT_ID, expect.objectContaining({
+        startAt: new Date('2030-01-21T15:00:00Z')
+      }));
+      expect(mockSyncRepository.markSynced).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-2' }), EVENT_ID);
+    });
+
+    it('should back off exponentially after a failure', async () => {
+      mockSyncRepository.claimDue.mockResolvedValue([job(1), job(3)]);
+      mockAppointmentRepository.findById.mockResolvedValue(appointment());
+      mockCalendarService.upsertCalendarEvent.mockRejectedValue(new Error('Network Error'));
+
+      const synced = await calendarSyncService.syncDueJobs(now);
+
+      expect(synced).toBe(0);
+      expect(mockSyncRepository.scheduleRetry).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }), 'Network Error', new Date('2030-01-15T15:00:30Z'));
+      expect(mockSyncRepository.scheduleRetry).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-3' }), 'Network Error', new Date('2030-01-15T15:02:00Z'));
+    });
+
+    it('should mark the appointment failed after its last attempt', async () => {
+      mockSyncRepository.claimDue.mockResolvedValue([job(5)]);
+      mockAppointmentRepository.findById.mockResolvedValue(appointment());
+      mockCalendarService.upsertCalendarEvent.mockRejectedValue(new Error('Calendar event upsert failed (status 403): Forbidden'));
+
+      await calendarSyncService.syncDueJobs(now);
+
+      expect(mockSyncRepository.markFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-5' }),
+        'Calendar event upsert failed (status 403): Forbidden'
+      );
+      expect(mockSyncRepository.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when recording a failure fails', async () => {
+      mockSyncRepository.claimDue.mockResolvedValue([job(1), job(2)]);
+      mockAppointmentRepository.findById.mockResolvedValue(appointment());
+      mockCalendarService.upsertCalendarEvent
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValueOnce();
+      mockSyncRepository.scheduleRetry.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(calendarSyncService.syncDueJobs(now)).resolves.toBe(1);
+      expect(mockSyncRepository.markSynced).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-2' }), EVENT_ID);
+    });
+  });
+
+  describe('resyncAppointment', () => {
+    it('should sync a failed appointment again', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(appointment({ calendarSyncState: CalendarSyncState.FAILED }));
+
+      const synced = await calendarSyncService.resyncAppointment(APPOINTMENT_ID);
+
+      expect(mockSyncRepository.enqueue).toHaveBeenCalledWith(APPOINTMENT_ID, CalendarSyncAction.CREATE, 60);
+      expect(synced.calendarSyncState).toBe(CalendarSyncState.SYNCED);
+    });
+
+    it('should throw NotFoundError for an unknown appointment', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(null);
+
+      await expect(calendarSyncService.resyncAppointment(APPOINTMENT_ID)).rejects.toThrow(NotFoundError);
+      expect(mockSyncRepository.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
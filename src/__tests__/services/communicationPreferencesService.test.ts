@@ -0,0 +1,92 @@
+import { CommunicationPreferencesService } from '../../services/communicationPreferencesService';
+import { ICommunicationPreferencesRepository } from '../../repositories/interfaces/ICommunicationPreferencesRepository';
+import { IPatientService } from '../../services/interfaces/IPatientService';
+import { CommunicationPreferencesEntity } from '../../models/CommunicationPreferencesEntity';
+import { PatientEntity } from '../../models/PatientEntity';
+import { ConsentSource, MessageCategory } from '../../types/preferences';
+import { NotFoundError } from '../../types/errors';
+
+const mockPreferencesRepository: jest.Mocked<ICommunicationPreferencesRepository> = {
+  findByPatient: jest.fn(),
+  save: jest.fn(),
+  addConsent: jest.fn()
+};
+
+const mockPatientService: jest.Mocked<IPatientService> = {
+  findOrCreatePatient: jest.fn(),
+  getPatient: jest.fn(),
+  findPatientsByContact: jest.fn(),
+  mergePatients: jest.fn()
+};
+
+describe('CommunicationPreferencesService', () => {
+  let preferencesService: CommunicationPreferencesService;
+
+  const jane = new PatientEntity({ id: 'patient-1', firstName: 'Jane', lastName: 'Smith', phoneNumber: '+14165551234' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    preferencesService = new CommunicationPreferencesService(mockPreferencesRepository, mockPatientService);
+    mockPatientService.getPatient.mockResolvedValue(jane);
+    mockPreferencesRepository.findByPatient.mockResolvedValue(null);
+  });
+
+  it('should allow everything for patients without preferences', async () => {
+    const preferences = await preferencesService.getPreferences('patient-1');
+
+    expect(preferences.consents).toEqual([]);
+    expect(preferences.allows('sms', MessageCategory.REMINDERS)).toBe(true);
+  });
+
+  it('should not look up preferences of unknown patients', async () => {
+    mockPatientService.getPatient.mockRejectedValue(new NotFoundError('Patient with ID patient-9 not found'));
+
+    await expect(preferencesService.getPreferences('patient-9')).rejects.toThrow(NotFoundError);
+    expect(mockPreferencesRepository.findByPatient).not.toHaveBeenCalled();
+  });
+
+  it('should save preference changes and add each consent with its source', async () => {
+    const preferences = await preferencesService.updatePreferences('patient-1', {
+      preferredChannel: 'sms',
+      consents: [{ channel: 'email', category: MessageCategory.REMINDERS, granted: false }]
+    }, { source: ConsentSource.VOICE_AGENT, sourceReference: 'call-123' });
+
+    expect(mockPreferencesRepository.save).toHaveBeenCalledWith(expect.objectContaining({ patientId: 'patient-1', preferredChannel: 'sms' }));
+    expect(mockPreferencesRepository.addConsent).toHaveBeenCalledWith('patient-1', expect.objectContaining({
+      channel: 'email',
+      category: MessageCategory.REMINDERS,
+      granted: false,
+      source: ConsentSource.VOICE_AGENT,
+      sourceReference: 'call-123',
+      recordedAt: expect.any(Date)
+    }));
+    expect(preferences.allows('email', MessageCategory.REMINDERS)).toBe(false);
+  });
+
+  it('should only add consents when the preferences themselves are unchanged', async () => {
+    mockPreferencesRepository.findByPatient.mockResolvedValue(
+      new CommunicationPreferencesEntity({ patientId: 'patient-1', preferredChannel: 'sms', consents: [] })
+    );
+
+    await preferencesService.updatePreferences('patient-1', {
+      preferredChannel: 'sms',
+      consents: [{ channel: 'sms', granted: true }]
+    }, { source: ConsentSource.STAFF });
+
+    expect(mockPreferencesRepository.save).not.toHaveBeenCalled();
+    expect(mockPreferencesRepository.addConsent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should update every patient sharing the phone number', async () => {
+    const john = new PatientEntity({ id: 'patient-2', firstName: 'John', lastName: 'Smith', phoneNumber: '+14165551234' });
+    mockPatientService.findPatientsByContact.mockResolvedValue([jane, john]);
+
+    const updated = await preferencesService.updatePreferencesByContact('416-555-1234', {
+      consents: [{ channel: 'sms', granted: false }]
+    }, { source: ConsentSource.VOICE_AGENT, sourceReference: 'call-123' });
+
+    expect(mockPatientService.findPatientsByContact).toHaveBeenCalledWith(undefined, '416-555-1234');
+    expect(updated.map(({ patient }) => patient.id)).toEqual(['patient-1', 'patient-2']);
+    expect(mockPreferencesRepository.addConsent).toHaveBeenCalledWith('patient-2', expect.objectContaining({ channel: 'sms', granted: false }));
+  });
+});
@@ -0,0 +1,435 @@
+import axios from 'axios';
+import { MessageService } from '../../services/emailService';
+import { IMessageTransport } from '../../services/interfaces/IMessageTransport';
+import { IOutboxRepository } from '../../repositories/interfaces/IOutboxRepository';
+import { IMessageRepository } from '../../repositories/interfaces/IMessageRepository';
+import { ISmsOptOutRepository } from '../../repositories/interfaces/ISmsOptOutRepository';
+import { IPatientService } from '../../services/interfaces/IPatientService';
+import { ICommunicationPreferencesService } from '../../services/interfaces/ICommunicationPreferencesService';
+import { CommunicationPreferencesEntity } from '../../models/CommunicationPreferencesEntity';
+import { PatientEntity } from '../../models/PatientEntity';
+import { OutboxMessageEntity } from '../../models/OutboxMessageEntity';
+import {
+  createMessageTransports,
+  ConsoleTransport,
+  HttpSmsTransport,
+  SmtpTransport,
+  ZapierTransport
+} from '../../services/transports';
+import { OutboxStatus } from '../../types/outbox';
+import { MessageStatus } from '../../types/message';
+import { RecipientOptedOutError } from '../../types/errors';
+import { ConsentSource, MessageCategory } from '../../types/preferences';
+import { Appointment, AppointmentStatus, AppointmentType, Language } from '../../types/schedule';
+import { readManageToken } from '../../utils/manageLinkUtils';
+
+jest.mock('axios');
+
+const mockOutboxRepository: jest.Mocked<IOutboxRepository> = {
+  enqueue: jest.fn(),
+  findById: jest.fn(),
+  find: jest.fn(),
+  claimDue: jest.fn(),
+  markSent: jest.fn(),
+  scheduleRetry: jest.fn(),
+  markDead: jest.fn(),
+  requeue: jest.fn(),
+  requeueDead: jest.fn()
+};
+
+const mockMessageRepository: jest.Mocked<IMessageRepository> = {
+  create: jest.fn(),
+  findByAppointment: jest.fn(),
+  applyReceipt: jest.fn()
+};
+
+const mockSmsOptOutRepository: jest.Mocked<ISmsOptOutRepository> = {
+  optOut: jest.fn(),
+  optIn: jest.fn(),
+  isOptedOut: jest.fn()
+};
+
+const mockPatientService: jest.Mocked<IPatientService> = {
+  findOrCreatePatient: jest.fn(),
+  getPatient: jest.fn(),
+  findPatientsByContact: jest.fn(),
+  mergePatients: jest.fn()
+};
+
+const mockPreferencesService: jest.Mocked<ICommunicationPreferencesService> = {
+  getPreferences: jest.fn(),
+  updatePreferences: jest.fn(),
+  updatePreferencesByContact: jest.fn()
+};
+
+const transport = (name: string): jest.Mocked<IMessageTransport> => ({
+  name,
+  send: jest.fn().mockResolvedValue({ providerMessageId: `${name}-1` })
+});
+
+describe('MessageService', () => {
+  let emailTransport: jest.Mocked<IMessageTransport>;
+  let smsTransport: jest.Mocked<IMessageTransport>;
+
+  const appointment: Appointment = {
+    id: 'appt-1',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    email: 'jane@example.com',
+    phoneNumber: '+14165551234',
+    startAt: new Date('2030-01-15T15:00:00Z'),
+    endAt: new Date('2030-01-15T16:00:00Z'),
+    type: AppointmentType.CONSULTATION,
+    status: AppointmentStatus.SCHEDULED,
+    notes: {},
+    createdAt: new Date('2030-01-01T00:00:00Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    emailTransport = transport('smtp');
+    smsTransport = transport('http-sms');
+  });
+
+  it('should send each channel through its own transport', async () => {
+    const messageService = new MessageService({ timeZone: 'America/Toronto' }, { email: emailTransport, sms: smsTransport });
+
+    await messageService.sendConfirmationMessage(appointment);
+
+    expect(emailTransport.send).toHaveBeenCalledWith(expect.objectContaining({ type: 'email', to: 'jane@example.com', eventType: 'confirmation' }));
+    expect(smsTransport.send).toHaveBeenCalledWith(expect.objectContaining({ type: 'sms', to: '+14165551234', eventType: 'confirmation' }));
+  });
+
+  it('should send HTML email with a calendar invite and a short text message', async () => {
+    const messageService = new MessageService({ timeZone: 'America/Toronto' }, { email: emailTransport, sms: smsTransport });
+
+    await messageService.sendConfirmationMessage(appointment);
+
+    const [email] = emailTransport.send.mock.calls[0];
+    expect(email.html).toContain('<p>Hi Jane,</p>');
+    expect(email.calendarInvite).toEqual(expect.objectContaining({ method: 'REQUEST', filename: 'invite.ics' }));
+    expect(email.calendarInvite!.content).toContain('UID:appointment-appt-1@medme-schedule');
+    const [sms] = smsTransport.send.mock.calls[0];
+    expect(sms.body).toBe('MedMe Medical Center: your consultation appointment is confirmed for Tue, Jan 15 at 10:00 AM EST. Questions? Call (555) 123-4567.');
+    expect(sms.html).toBeUndefined();
+    expect(sms.calendarInvite).toBeUndefined();
+  });
+
+  it('should link confirmations and reminders to the self-service page when configured', async () => {
+    const messageService = new MessageService(
+      { timeZone: 'America/Toronto', manageLinks: { baseUrl: 'https://scheduling.example.com', secret: 'link-secret', validDays: 30 } },
+      { email: emailTransport, sms: smsTransport }
+    );
+
+    await messageService.sendConfirmationMessage(appointment);
+    await messageService.sendReminderMessage(appointment, 120);
+    await messageService.sendCancellationMessage(appointment);
+
+    const [confirmation, reminder, cancellation] = emailTransport.send.mock.calls.map(([message]) => message.body);
+    const url = confirmation.match(/https:\/\/scheduling\.example\.com\/appointments\/manage\/(\S+)/);
+    expect(url).not.toBeNull();
+    expect(readManageToken(url![1], 'link-secret')).toBe('appt-1');
+    expect(reminder).toContain('Confirm, cancel or reschedule online: https://scheduling.example.com/appointments/manage/');
+    expect(cancellation).not.toContain('/appointments/manage/');
+    expect(smsTransport.send.mock.calls[0][0].body).toMatch(/Questions\? Call \(555\) 123-4567\. Confirm or change: https:\/\/\S+$/);
+  });
+
+  it('should attach a cancelling invite to cancellation emails', async () => {
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport });
+
+    await messageService.sendCancellationMessage({ ...appointment, phoneNumber: undefined });
+
+    const [email] = emailTransport.send.mock.calls[0];
+    expect(email.calendarInvite).toEqual(expect.objectContaining({ method: 'CANCEL', filename: 'cancel.ics' }));
+    expect(email.calendarInvite!.content).toContain('STATUS:CANCELLED');
+  });
+
+  it('should not throw when a transport fails', async () => {
+    emailTransport.send.mockRejectedValue(new Error('Connection refused'));
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport });
+
+    await expect(messageService.sendCancellationMessage(appointment)).resolves.toBeUndefined();
+    expect(smsTransport.send).toHaveBeenCalled();
+  });
+
+  it('should queue messages in the outbox instead of sending them', async () => {
+    mockOutboxRepository.enqueue.mockImplementation(async (message) => message);
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { outboxRepository: mockOutboxRepository });
+
+    await messageService.sendConfirmationMessage(appointment);
+
+    expect(mockOutboxRepository.enqueue).toHaveBeenCalledTimes(2);
+    expect(mockOutboxRepository.enqueue).toHaveBeenCalledWith(expect.objectContaining({ type: 'email', status: OutboxStatus.PENDING, attempts: 0 }));
+    expect(emailTransport.send).not.toHaveBeenCalled();
+    expect(smsTransport.send).not.toHaveBeenCalled();
+  });
+
+  it('should fail rather than send directly when the outbox is unavailable', async () => {
+    mockOutboxRepository.enqueue.mockRejectedValue(new Error('Database unavailable'));
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { outboxRepository: mockOutboxRepository });
+
+    await expect(messageService.sendConfirmationMessage({ ...appointment, phoneNumber: undefined })).rejects.toThrow('Database unavailable');
+    expect(emailTransport.send).not.toHaveBeenCalled();
+  });
+
+  it('should write to each patient in their preferred language', async () => {
+    mockPatientService.getPatient.mockResolvedValue(new PatientEntity({
+      id: 'patient-1',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      email: 'jane@example.com',
+      preferredLanguage: Language.FRENCH
+    }));
+    const messageService = new MessageService(
+      { clinic: { name: 'Clinique Santé', phone: '(514) 555-0100' } },
+      { email: emailTransport, sms: smsTransport },
+      { patientService: mockPatientService }
+    );
+
+    await messageService.sendConfirmationMessage({ ...appointment, patientId: 'patient-1', phoneNumber: undefined });
+
+    expect(mockPatientService.getPatient).toHaveBeenCalledWith('patient-1');
+    expect(emailTransport.send).toHaveBeenCalledWith(expect.objectContaining({ language: 'fr', templateVersion: 4 }));
+    const [message] = emailTransport.send.mock.calls[0];
+    expect(message.subject).toMatch(/^Rendez-vous confirmé - mardi 15 janvier 2030/);
+    expect(message.body).toMatch(/^Bonjour Jane,\n\nVotre rendez-vous \(consultation\) est confirmé/);
+    expect(message.body).toContain('Clinique Santé');
+    expect(message.body).toContain('(514) 555-0100');
+  });
+
+  it('should fall back to the default language when the patient cannot be looked up', async () => {
+    mockPatientService.getPatient.mockRejectedValue(new Error('Database unavailable'));
+    const messageService = new MessageService(
+      { defaultLanguage: Language.SPANISH },
+      { email: emailTransport, sms: smsTransport },
+      { patientService: mockPatientService }
+    );
+
+    await messageService.sendCancellationMessage({ ...appointment, patientId: 'patient-1', phoneNumber: undefined });
+
+    expect(emailTransport.send).toHaveBeenCalledWith(expect.objectContaining({ language: 'es', subject: expect.stringMatching(/^Cita cancelada/) }));
+  });
+
+  it('should rethrow delivery failures from deliver', async () => {
+    smsTransport.send.mockRejectedValue(new Error('Request failed with status code 503'));
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport });
+    const message = OutboxMessageEntity.enqueue({ to: '+14165551234', subject: 'Hi', body: 'Hi', type: 'sms', eventType: 'reminder' });
+
+    await expect(messageService.deliver(message.toOutboundMessage())).rejects.toThrow('status code 503');
+  });
+
+  it('should not text numbers that opted out', async () => {
+    mockSmsOptOutRepository.isOptedOut.mockResolvedValue(true);
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { smsOptOutRepository: mockSmsOptOutRepository });
+
+    await messageService.sendConfirmationMessage(appointment);
+
+    expect(mockSmsOptOutRepository.isOptedOut).toHaveBeenCalledWith('+14165551234');
+    expect(emailTransport.send).toHaveBeenCalledTimes(1);
+    expect(smsTransport.send).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to deliver queued texts after the patient opted out', async () => {
+    mockSmsOptOutRepository.isOptedOut.mockResolvedValue(true);
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { smsOptOutRepository: mockSmsOptOutRepository });
+    const message = OutboxMessageEntity.enqueue({ to: '+14165551234', subject: 'Hi', body: 'Hi', type: 'sms', eventType: 'reminder' });
+
+    await expect(messageService.deliver(message.toOutboundMessage(), 'outbox-1')).rejects.toBeInstanceOf(RecipientOptedOutError);
+    expect(smsTransport.send).not.toHaveBeenCalled();
+  });
+
+  describe('communication preferences', () => {
+    const withPatient = { ...appointment, patientId: 'patient-1' };
+
+    const preferences = (data: Partial<CommunicationPreferencesEntity>) => new CommunicationPreferencesEntity({
+      patientId: 'patient-1',
+      consents: [],
+      ...data
+    });
+
+    it('should only use the preferred channel', async () => {
+      mockPreferencesService.getPreferences.mockResolvedValue(preferences({ preferredChannel: 'sms' }));
+      const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { preferencesService: mockPreferencesService });
+
+      await messageService.sendConfirmationMessage(withPatient);
+
+      expect(mockPreferencesService.getPreferences).toHaveBeenCalledWith('patient-1');
+      expect(emailTransport.send).not.toHaveBeenCalled();
+      expect(smsTransport.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip channels the patient opted out of for the category', async () => {
+      mockPreferencesService.getPreferences.mockResolvedValue(preferences({
+        consents: [{
+          channel: 'sms',
+          category: MessageCategory.REMINDERS,
+          granted: false,
+          source: ConsentSource.VOICE_AGENT,
+          sourceReference: 'call-123',
+          recordedAt: new Date('2030-01-01T00:00:00Z')
+        }]
+      }));
+      const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { preferencesService: mockPreferencesService });
+
+      await messageService.sendReminderMessage(withPatient, 120);
+      await messageService.sendCancellationMessage(withPatient);
+
+      expect(emailTransport.send).toHaveBeenCalledTimes(2);
+      expect(smsTransport.send).toHaveBeenCalledTimes(1);
+      expect(smsTransport.send).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'cancellation' }));
+    });
+
+    it('should hold messages in the outbox until quiet hours end', async () => {
+      jest.useFakeTimers({ now: new Date('2030-01-15T03:30:00Z') }); // 22:30 in Toronto
+      try {
+        mockOutboxRepository.enqueue.mockImplementation(async (message) => message);
+        mockPreferencesService.getPreferences.mockResolvedValue(preferences({ quietHours: { start: '21:00', end: '08:00' } }));
+        const messageService = new MessageService(
+          { timeZone: 'America/Toronto' },
+          { email: emailTransport, sms: smsTransport },
+          { outboxRepository: mockOutboxRepository, preferencesService: mockPreferencesService }
+        );
+
+        await messageService.sendConfirmationMessage(withPatient);
+
+        expect(mockOutboxRepository.enqueue).toHaveBeenCalledTimes(2);
+        expect(mockOutboxRepository.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+          type: 'sms',
+          nextAttemptAt: new Date('2030-01-15T13:00:00Z')
+        }));
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should message every channel when preferences cannot be read', async () => {
+      mockPreferencesService.getPreferences.mockRejectedValue(new Error('Database unavailable'));
+      const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { preferencesService: mockPreferencesService });
+
+      await messageService.sendConfirmationMessage(withPatient);
+
+      expect(emailTransport.send).toHaveBeenCalledTimes(1);
+      expect(smsTransport.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should record each delivery attempt with the provider\'s answer', async () => {
+    mockMessageRepository.create.mockImplementation(async (message) => message);
+    smsTransport.send.mockRejectedValueOnce(new Error('Request failed with status code 503'));
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { messageRepository: mockMessageRepository });
+
+    await messageService.sendConfirmationMessage(appointment);
+
+    expect(mockMessageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      appointmentId: 'appt-1',
+      channel: 'email',
+      template: 'confirmation',
+      language: 'en',
+      templateVersion: 4,
+      transport: 'smtp',
+      status: MessageStatus.SENT,
+      providerMessageId: 'smtp-1'
+    }));
+    expect(mockMessageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'sms',
+      transport: 'http-sms',
+      status: MessageStatus.FAILED,
+      error: 'Request failed with status code 503'
+    }));
+  });
+
+  it('should not resend a message when recording it fails', async () => {
+    mockMessageRepository.create.mockRejectedValue(new Error('Database unavailable'));
+    const messageService = new MessageService({}, { email: emailTransport, sms: smsTransport }, { messageRepository: mockMessageRepository });
+    const message = OutboxMessageEntity.enqueue({ to: 'jane@example.com', subject: 'Hi', body: 'Hi', type: 'email', eventType: 'reminder' });
+
+    await expect(messageService.deliver(message.toOutboundMessage(), 'outbox-1')).resolves.toEqual({ providerMessageId: 'smtp-1' });
+  });
+});
+
+describe('createMessageTransports', () => {
+  it('should print messages when nothing is configured', () => {
+    const transports = createMessageTransports({});
+
+    expect(transports.email).toBeInstanceOf(ConsoleTransport);
+    expect(transports.sms).toBeInstanceOf(ConsoleTransport);
+  });
+
+  it('should use the Zapier hook for both channels when only its URL is set', () => {
+    const transports = createMessageTransports({ ZAPIER_WEBHOOK_URL: 'https://hooks.zapier.com/hooks/catch/1/abc/' });
+
+    expect(transports.email).toBeInstanceOf(ZapierTransport);
+    expect(transports.sms).toBeInstanceOf(ZapierTransport);
+  });
+
+  it('should pick a transport per channel', () => {
+    const transports = createMessageTransports({
+      EMAIL_TRANSPORT: 'smtp',
+      SMTP_HOST: 'smtp.example.com',
+      SMTP_FROM: 'MedMe Clinic <appointments@example.com>',
+      SMS_TRANSPORT: 'http',
+      SMS_GATEWAY_URL: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json',
+      SMS_FROM_NUMBER: '+14165550000'
+    });
+
+    expect(transports.email).toBeInstanceOf(SmtpTransport);
+    expect(transports.sms).toBeInstanceOf(HttpSmsTransport);
+  });
+
+  it('should reject a transport that cannot carry the channel', () => {
+    expect(() => createMessageTransports({ SMS_TRANSPORT: 'smtp' })).toThrow('SMS_TRANSPORT must be one of http, zapier, file, console');
+  });
+
+  it('should reject a transport missing its settings', () => {
+    expect(() => createMessageTransports({ EMAIL_TRANSPORT: 'smtp', SMTP_FROM: 'appointments@example.com' }))
+      .toThrow('SMTP_HOST must be set to use the smtp transport');
+  });
+});
+
+describe('SmtpTransport', () => {
+  it('should send the text and HTML bodies with the invite as a calendar event', async () => {
+    const sendMail = jest.fn().mockResolvedValue({ messageId: '<abc@example.com>', response: '250 OK' });
+    const smtpTransport = new SmtpTransport(
+      { host: 'smtp.example.com', port: 587, secure: false, from: 'MedMe Clinic <appointments@example.com>' },
+      { sendMail } as any
+    );
+
+    const result = await smtpTransport.send({
+      to: 'jane@example.com',
+      subject: 'Appointment Confirmed',
+      body: 'Hi Jane',
+      html: '<p>Hi Jane</p>',
+      calendarInvite: { method: 'REQUEST', filename: 'invite.ics', content: 'BEGIN:VCALENDAR' },
+      type: 'email',
+      eventType: 'confirmation'
+    });
+
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      text: 'Hi Jane',
+      html: '<p>Hi Jane</p>',
+      icalEvent: { method: 'REQUEST', filename: 'invite.ics', content: 'BEGIN:VCALENDAR' }
+    }));
+    expect(result.providerMessageId).toBe('abc@example.com');
+  });
+});
+
+describe('HttpSmsTransport', () => {
+  it('should post a Twilio-style form with basic auth', async () => {
+    (axios.post as jest.Mock).mockResolvedValue({ status: 201, data: { sid: 'SM123', status: 'queued' } });
+    const smsTransport = new HttpSmsTransport({
+      url: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json',
+      from: '+14165550000',
+      username: 'AC123',
+      password: 'secret'
+    });
+
+    const result = await smsTransport.send({ to: '+14165551234', subject: 'Reminder', body: 'See you tomorrow', type: 'sms', eventType: 'reminder' });
+
+    expect(axios.post).toHaveBeenCalledWith(
+      'https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json',
+      'To=%2B14165551234&From=%2B14165550000&Body=See+you+tomorrow',
+      expect.objectContaining({ auth: { username: 'AC123', password: 'secret' } })
+    );
+    expect(result.providerMessageId).toBe('SM123');
+  });
+});
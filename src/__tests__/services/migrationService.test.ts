@@ -0,0 +1,171 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MigrationService } from '../../services/migrationService';
+import { IMigrationRepository } from '../../repositories/interfaces/IMigrationRepository';
+import { AppliedMigration, Migration, MigrationState } from '../../types/migration';
+import { MigrationError } from '../../types/errors';
+
+/**
+ * Keeps the history in memory; a migration whose SQL mentions "fail" fails like a broken script
+ */
+class InMemoryMigrationRepository implements IMigrationRepository {
+  readonly applied: AppliedMigration[] = [];
+  flywayVersions: number[] = [];
+  historyTableCreated = false;
+
+  async withLock<T>(work: () => Promise<T>): Promise<T> {
+    return work();
+  }
+
+  async ensureHistoryTable(): Promise<void> {
+    this.historyTableCreated = true;
+  }
+
+  async findApplied(): Promise<AppliedMigration[]> {
+    return [...this.applied].sort((a, b) => a.version - b.version);
+  }
+
+  async findFlywayVersions(): Promise<number[]> {
+    return this.flywayVersions;
+  }
+
+  async recordAdopted(migrations: Migration[]): Promise<void> {
+    migrations.forEach(migration => this.record(migration));
+  }
+
+  async apply(migration: Migration): Promise<AppliedMigration> {
+    if (migration.sql.includes('fail')) {
+      throw new Error('syntax error at or near "fail"');
+    }
+    return this.record(migration, 3);
+  }
+
+  private record(migration: Migration, executionMs?: number): AppliedMigration {
+    const record = {
+      version: migration.version,
+      description: migration.description,
+      script: migration.script,
+      checksum: migration.checksum,
+      appliedAt: new Date(),
+      executionMs
+    };
+    this.applied.push(record);
+    return record;
+  }
+}
+
+describe('MigrationService', () => {
+  let directory: string;
+  let repository: InMemoryMigrationRepository;
+  let migrationService: MigrationService;
+
+  const write = (filename: string, sql: string) => writeFileSync(path.join(directory, filename), sql);
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'migrations-'));
+    write('V1__create_patients.sql', 'create table patients (id uuid);');
+    write('V2__create_appointments.sql', 'create table appointments (id uuid);');
+
+    repository = new InMemoryMigrationRepository();
+    migrationService = new MigrationService({ directory }, repository);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('migrate', () => {
+    it('should apply every migration of a new database in order', async () => {
+      const applied = await migrationService.migrate();
+
+      expect(repository.historyTableCreated).toBe(true);
+      expect(applied.map(status => status.script)).toEqual(['V1__create_patients.sql', 'V2__create_appointments.sql']);
+      expect(applied.every(status => status.state === MigrationState.APPLIED)).toBe(true);
+    });
+
+    it('should only apply migrations added since the last run', async () => {
+      await migrationService.migrate();
+      write('V3__create_waitlist.sql', 'create table waitlist (id uuid);');
+
+      const applied = await migrationService.migrate();
+
+      expect(applied.map(status => status.version)).toEqual([3]);
+      expect(await migrationService.migrate()).toEqual([]);
+    });
+
+    it('should refuse to run when an applied migration has changed', async () => {
+      await migrationService.migrate();
+      write('V1__create_patients.sql', 'create table patients (id uuid, name text);');
+      write('V3__create_waitlist.sql', 'create table waitlist (id uuid);');
+
+      await expect(migrationService.migrate()).rejects.toThrow('V1__create_patients.sql has changed since it was applied');
+      expect(repository.applied.map(record => record.version)).toEqual([1, 2]);
+    });
+
+    it('should refuse to run when an applied migration is gone', async () => {
+      await migrationService.migrate();
+      rmSync(path.join(directory, 'V2__create_appointments.sql'));
+
+      await expect(migrationService.migrate()).rejects.toThrow('V2__create_appointments.sql was applied but is no longer in the sql directory');
+    });
+
+    it('should refuse a new migration that sorts before applied ones', async () => {
+      rmSync(path.join(directory, 'V1__create_patients.sql'));
+      await migrationService.migrate();
+      write('V1__create_patients.sql', 'create table patients (id uuid);');
+
+      await expect(migrationService.migrate()).rejects.toThrow(MigrationError);
+      expect(repository.applied.map(record => record.version)).toEqual([2]);
+    });
+
+    it('should stop at a failing migration and keep those before it', async () => {
+      write('V3__broken.sql', 'fail;');
+      write('V4__create_waitlist.sql', 'create table waitlist (id uuid);');
+
+      await expect(migrationService.migrate()).rejects.toThrow('V3__broken.sql failed and was rolled back: syntax error at or near "fail"');
+      expect(repository.applied.map(record => record.version)).toEqual([1, 2]);
+    });
+
+    it("should take over the versions in Flyway's history without running them", async () => {
+      repository.flywayVersions = [1];
+      const apply = jest.spyOn(repository, 'apply');
+
+      const applied = await migrationService.migrate();
+
+      expect(applied.map(status => status.version)).toEqual([2]);
+      expect(apply).toHaveBeenCalledTimes(1);
+      expect(repository.applied.map(record => record.version)).toEqual([1, 2]);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should list each migration without changing anything', async () => {
+      await migrationService.migrate();
+      write('V1__create_patients.sql', 'create table patients (id uuid, name text);');
+      write('V3__create_waitlist.sql', 'create table waitlist (id uuid);');
+      const apply = jest.spyOn(repository, 'apply');
+
+      const statuses = await migrationService.getStatus();
+
+      expect(statuses.map(status => [status.version, status.state])).toEqual([
+        [1, MigrationState.DRIFTED],
+        [2, MigrationState.APPLIED],
+        [3, MigrationState.PENDING]
+      ]);
+      expect(statuses[1].appliedAt).toBeInstanceOf(Date);
+      expect(apply).not.toHaveBeenCalled();
+    });
+
+    it("should show what a database migrated by Flyway would be taken over with", async () => {
+      repository.flywayVersions = [1, 2];
+
+      const statuses = await migrationService.getStatus();
+
+      expect(statuses.map(status => status.state)).toEqual([MigrationState.APPLIED, MigrationState.APPLIED]);
+      expect(repository.applied).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { OutboxService } from '../../services/outboxService';
+import { IMessageService } from '../../services/interfaces/IMessageService';
+import { IOutboxRepository } from '../../repositories/interfaces/IOutboxRepository';
+import { OutboxMessageEntity } from '../../models/OutboxMessageEntity';
+import { OutboxStatus } from '../../types/outbox';
+import { NotFoundError, RecipientOptedOutError, ValidationError } from '../../types/errors';
+
+const mockOutboxRepository: jest.Mocked<IOutboxRepository> = {
+  enqueue: jest.fn(),
+  findById: jest.fn(),
+  find: jest.fn(),
+  claimDue: jest.fn(),
+  markSent: jest.fn(),
+  scheduleRetry: jest.fn(),
+  markDead: jest.fn(),
+  requeue: jest.fn(),
+  requeueDead: jest.fn()
+};
+
+const mockMessageService: jest.Mocked<IMessageService> = {
+  sendConfirmationMessage: jest.fn(),
+  sendRescheduleMessage: jest.fn(),
+  sendCancellationMessage: jest.fn(),
+  sendReminderMessage: jest.fn(),
+  sendSeriesMessage: jest.fn(),
+  sendWaitlistOfferMessage: jest.fn(),
+  deliver: jest.fn()
+};
+
+describe('OutboxService', () => {
+  let outboxService: OutboxService;
+
+  const now = new Date('2030-01-15T15:00:00Z');
+
+  const claimed = (attempts: number) => new OutboxMessageEntity({
+    id: `message-${attempts}`,
+    to: '+14165551234',
+    subject: 'Appointment Confirmation',
+    body: 'Your appointment is confirmed',
+    type: 'sms',
+    appointmentId: 'appt-1',
+    eventType: 'confirmation',
+    status: OutboxStatus.PENDING,
+    attempts,
+    nextAttemptAt: new Date(now.getTime() + 60 * 1000)
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    outboxService = new OutboxService(
+      { maxAttempts: 5, retryBaseSeconds: 30, retryMaxSeconds: 120 },
+      mockOutboxRepository,
+      mockMessageService
+    );
+    mockMessageService.deliver.mockResolvedValue({});
+    mockOutboxRepository.markSent.mockResolvedValue();
+    mockOutboxRepository.scheduleRetry.mockResolvedValue();
+    mockOutboxRepository.markDead.mockResolvedValue();
+  });
+
+  describe('deliverDueMessages', () => {
+    it('should deliver claimed messages and mark them sent', async () => {
+      mockOutboxRepository.claimDue.mockResolvedValue([claimed(1)]);
+
+      const delivered = await outboxService.deliverDueMessages(now);
+
+      expect(delivered).toBe(1);
+      expect(mockMessageService.deliver).toHaveBeenCalledWith({
+        to: '+14165551234',
+        subject: 'Appointment Confirmation',
+        body: 'Your appointment is confirmed',
+        type: 'sms',
+        appointmentId: 'appt-1',
+        waitlistEntryId: undefined,
+        eventType: 'confirmation'
+      }, 'message-1');
+      expect(mockOutboxRepository.markSent).toHaveBeenCalledWith('message-1');
+    });
+
+    it('should back off exponentially after a failure', async () => {
+      mockOutboxRepository.claimDue.mockResolvedValue([claimed(1), claimed(3)]);
+      mockMessageService.deliver.mockRejectedValue(new Error('timeout of 10000ms exceeded'));
+
+      const delivered = await outboxService.deliverDueMessages(now);
+
+      expect(delivered).toBe(0);
+      expect(mockOutboxRepository.scheduleRetry).toHaveBeenCalledWith('message-1', 'timeout of 10000ms exceeded', new Date('2030-01-15T15:00:30Z'));
+      expect(mockOutboxRepository.scheduleRetry).toHaveBeenCalledWith('message-3', 'timeout of 10000ms exceeded', new Date('2030-01-15T15:02:00Z'));
+      expect(mockOutboxRepository.markSent).not.toHaveBeenCalled();
+    });
+
+    it('should cap the delay between attempts', async () => {
+      mockOutboxRepository.claimDue.mockResolvedValue([claimed(4)]);
+      mockMessageService.deliver.mockRejectedValue(new Error('Network Error'));
+
+      await outboxService.deliverDueMessages(now);
+
+      expect(mockOutboxRepository.scheduleRetry).toHaveBeenCalledWith('message-4', 'Network Error', new Date('2030-01-15T15:02:00Z'));
+    });
+
+    it('should mark a message dead after its last attempt', async () => {
+      mockOutboxRepository.claimDue.mockResolvedValue([claimed(5)]);
+      mockMessageService.deliver.mockRejectedValue(Object.assign(new Error('Request failed with status code 410'), {
+        response: { data: { status: 'gone' } }
+      }));
+
+      await outboxService.deliverDueMessages(now);
+
+      expect(mockOutboxRepository.markDead).toHaveBeenCalledWith('message-5', 'Request failed with status code 410: {"status":"gone"}');
+      expect(mockOutboxRepository.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it('should not retry texts to numbers that opted out', async () => {
+      mockOutboxRepository.claimDue.mockResolvedValue([claimed(1)]);
+      mockMessageService.deliver.mockRejectedValue(new RecipientOptedOutError('+14165551234 has opted out of text messages'));
+
+      await outboxService.deliverDueMessages(now);
+
+      expect(mockOutboxRepository.markDead).toHaveBeenCalledWith('message-1', '+14165551234 has opted out of text messages');
+      expect(mockOutboxRepository.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when recording a failure fails', async () => {
+      mockOutboxRepository.claimDue.mockResolvedValue([claimed(1), claimed(2)]);
+      mockMessageService.deliver
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValueOnce({});
+      mockOutboxRepository.scheduleRetry.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(outboxService.deliverDueMessages(now)).resolves.toBe(1);
+      expect(mockOutboxRepository.markSent).toHaveBeenCalledWith('message-2');
+    });
+  });
+
+  describe('retryMessage', () => {
+    it('should requeue a dead message', async () => {
+      const requeued = new OutboxMessageEntity({ ...claimed(0), status: OutboxStatus.PENDING });
+      mockOutboxRepository.requeue.mockResolvedValue(requeued);
+
+      await expect(outboxService.retryMessage('message-0')).resolves.toBe(requeued);
+    });
+
+    it('should refuse to retry a message that was delivered', async () => {
+      mockOutboxRepository.requeue.mockResolvedValue(null);
+      mockOutboxRepository.findById.mockResolvedValue(new OutboxMessageEntity({ ...claimed(1), status: OutboxStatus.SENT }));
+
+      await expect(outboxService.retryMessage('message-1')).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw NotFoundError for an unknown message', async () => {
+      mockOutboxRepository.requeue.mockResolvedValue(null);
+      mockOutboxRepository.findById.mockResolvedValue(null);
+
+      await expect(outboxService.retryMessage('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
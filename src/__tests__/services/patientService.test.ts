@@ -0,0 +1,150 @@
+import { PatientService } from '../../services/patientService';
+import { IPatientRepository } from '../../repositories/interfaces/IPatientRepository';
+import { PatientEntity } from '../../models/PatientEntity';
+import { NotFoundError, ValidationError } from '../../types/errors';
+import { Language } from '../../types/schedule';
+
+const mockPatientRepository: jest.Mocked<IPatientRepository> = {
+  create: jest.fn(),
+  update: jest.fn(),
+  findById: jest.fn(),
+  findByContact: jest.fn(),
+  merge: jest.fn()
+};
+
+describe('PatientService', () => {
+  let patientService: PatientService;
+
+  const john = new PatientEntity({
+    id: 'patient-1',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    createdAt: new Date('2025-01-01T00:00:00Z')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    patientService = new PatientService(mockPatientRepository);
+    mockPatientRepository.create.mockImplementation(async (patient) => new PatientEntity({ ...patient, id: 'patient-new' }));
+    mockPatientRepository.update.mockImplementation(async (_id, patient) => patient);
+  });
+
+  describe('findOrCreatePatient', () => {
+    it('should create a patient for a first-time caller', async () => {
+      mockPatientRepository.findByContact.mockResolvedValue([]);
+
+      const patient = await patientService.findOrCreatePatient({ firstName: 'Jane', lastName: 'Roe', phoneNumber: '+14165551234' });
+
+      expect(mockPatientRepository.findByContact).toHaveBeenCalledWith(undefined, '+14165551234');
+      expect(patient.id).toBe('patient-new');
+      expect(patient.phoneNumber).toBe('+14165551234');
+    });
+
+    it('should match a returning patient by name and email regardless of case', async () => {
+      mockPatientRepository.findByContact.mockResolvedValue([new PatientEntity({ ...john })]);
+
+      const patient = await patientService.findOrCreatePatient({ firstName: 'john', lastName: 'DOE ', email: 'John.Doe@example.com' });
+
+      expect(patient.id).toBe('patient-1');
+      expect(mockPatientRepository.create).not.toHaveBeenCalled();
+      expect(mockPatientRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should add contact details the patient record is missing', async () => {
+      mockPatientRepository.findByContact.mockResolvedValue([new PatientEntity({ ...john })]);
+
+      const patient = await patientService.findOrCreatePatient({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        phoneNumber: '+14165551234'
+      });
+
+      expect(mockPatientRepository.update).toHaveBeenCalledWith('patient-1', expect.objectContaining({
+        email: 'john.doe@example.com',
+        phoneNumber: '+14165551234'
+      }));
+      expect(patient.phoneNumber).toBe('+14165551234');
+    });
+
+    it('should remember the language a returning patient asks for', async () => {
+      mockPatientRepository.findByContact.mockResolvedValue([new PatientEntity({ ...john })]);
+
+      const patient = await patientService.findOrCreatePatient({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        preferredLanguage: Language.FRENCH
+      });
+
+      expect(mockPatientRepository.update).toHaveBeenCalledWith('patient-1', expect.objectContaining({ preferredLanguage: Language.FRENCH }));
+      expect(patient.preferredLanguage).toBe(Language.FRENCH);
+    });
+
+    it('should keep the saved language when none is given', async () => {
+      mockPatientRepository.findByContact.mockResolvedValue([new PatientEntity({ ...john, preferredLanguage: Language.SPANISH })]);
+
+      const patient = await patientService.findOrCreatePatient({ firstName: 'John', lastName: 'Doe', email: 'john.doe@example.com' });
+
+      expect(mockPatientRepository.update).not.toHaveBeenCalled();
+      expect(patient.preferredLanguage).toBe(Language.SPANISH);
+    });
+
+    it('should not match a family member who shares a contact detail', async () => {
+      mockPatientRepository.findByContact.mockResolvedValue([new PatientEntity({ ...john })]);
+
+      const patient = await patientService.findOrCreatePatient({ firstName: 'Mary', lastName: 'Doe', email: 'john.doe@example.com' });
+
+      expect(patient.id).toBe('patient-new');
+      expect(mockPatientRepository.create).toHaveBeenCalled();
+    });
+
+    it('should match on email and phone together even if the name was spelled differently', async () => {
+      const johnWithPhone = new PatientEntity({ ...john, phoneNumber: '+14165551234' });
+      mockPatientRepository.findByContact.mockResolvedValue([johnWithPhone]);
+
+      const patient = await patientService.findOrCreatePatient({
+        firstName: 'Jon',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        phoneNumber: '+14165551234'
+      });
+
+      expect(patient).toBe(johnWithPhone);
+    });
+  });
+
+  describe('mergePatients', () => {
+    const duplicate = new PatientEntity({ id: 'patient-2', firstName: 'John', lastName: 'Doe', phoneNumber: '+14165551234' });
+
+    it('should merge the duplicate into the surviving record', async () => {
+      mockPatientRepository.findById.mockImplementation(async (id) => (id === 'patient-1' ? john : duplicate));
+      mockPatientRepository.merge.mockResolvedValue(new PatientEntity({ ...john, phoneNumber: '+14165551234' }));
+
+      const result = await patientService.mergePatients('patient-2', 'patient-1');
+
+      expect(mockPatientRepository.merge).toHaveBeenCalledWith('patient-2', 'patient-1');
+      expect(result.phoneNumber).toBe('+14165551234');
+    });
+
+    it('should reject merging a patient into itself', async () => {
+      await expect(patientService.mergePatients('patient-1', 'patient-1')).rejects.toThrow(ValidationError);
+      expect(mockPatientRepository.merge).not.toHaveBeenCalled();
+    });
+
+    it('should reject records that were already merged', async () => {
+      const merged = new PatientEntity({ ...duplicate, mergedIntoId: 'patient-3' });
+      mockPatientRepository.findById.mockImplementation(async (id) => (id === 'patient-1' ? john : merged));
+
+      await expect(patientService.mergePatients('patient-2', 'patient-1'))
+        .rejects.toThrow('Patient patient-2 has already been merged into patient-3');
+    });
+
+    it('should throw NotFoundError for an unknown patient', async () => {
+      mockPatientRepository.findById.mockResolvedValue(null);
+
+      await expect(patientService.mergePatients('patient-2', 'patient-1')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
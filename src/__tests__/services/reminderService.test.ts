@@ -0,0 +1,159 @@
+import { ReminderService } from '../../services/reminderService';
+import { IMessageService } from '../../services/interfaces/IMessageService';
+import { IReminderRepository } from '../../repositories/interfaces/IReminderRepository';
+import { IAppointmentRepository } from '../../repositories/interfaces/IAppointmentRepository';
+import { IProviderRepository } from '../../repositories/interfaces/IProviderRepository';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { AppointmentReminderEntity } from '../../models/AppointmentReminderEntity';
+import { ProviderEntity } from '../../models/ProviderEntity';
+import { AppointmentStatus, AppointmentType } from '../../types/schedule';
+import { ReminderStatus } from '../../types/reminder';
+
+const mockReminderRepository: jest.Mocked<IReminderRepository> = {
+  replacePending: jest.fn(),
+  cancelPending: jest.fn(),
+  claimDue: jest.fn(),
+  complete: jest.fn()
+};
+
+const mockAppointmentRepository: jest.Mocked<IAppointmentRepository> = {
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  findById: jest.fn(),
+  isAvailable: jest.fn(),
+  getConflictingAppointments: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  search: jest.fn()
+};
+
+const mockProviderRepository: jest.Mocked<IProviderRepository> = {
+  findById: jest.fn(),
+  findActive: jest.fn()
+};
+
+const mockMessageService: jest.Mocked<IMessageService> = {
+  sendConfirmationMessage: jest.fn(),
+  sendRescheduleMessage: jest.fn(),
+  sendCancellationMessage: jest.fn(),
+  sendReminderMessage: jest.fn(),
+  sendSeriesMessage: jest.fn(),
+  sendWaitlistOfferMessage: jest.fn(),
+  deliver: jest.fn()
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ReminderService', () => {
+  let reminderService: ReminderService;
+
+  const startAt = new Date(Date.now() + 72 * HOUR_MS);
+
+  const appointment = (overrides: Partial<AppointmentEntity> = {}) => new AppointmentEntity({
+    id: 'appt-1',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    phoneNumber: '+14165551234',
+    startAt,
+    endAt: new Date(startAt.getTime() + HOUR_MS),
+    type: AppointmentType.CONSULTATION,
+    status: AppointmentStatus.SCHEDULED,
+    notes: {},
+    createdAt: new Date(),
+    ...overrides
+  } as any);
+
+  const claimed = (offsetMinutes: number, appointmentStartAt: Date = startAt) => new AppointmentReminderEntity({
+    ...AppointmentReminderEntity.plan('appt-1', appointmentStartAt, offsetMinutes),
+    id: `reminder-${offsetMinutes}`,
+    status: ReminderStatus.SENDING
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockReminderRepository.replacePending.mockResolvedValue();
+    mockReminderRepository.complete.mockResolvedValue();
+    reminderService = new ReminderService(
+      { offsetsMinutes: [2880, 120] },
+      mockReminderRepository,
+      mockAppointmentRepository,
+      mockMessageService,
+      { providerRepository: mockProviderRepository }
+    );
+  });
+
+  describe('scheduleReminders', () => {
+    it('should plan one reminder per configured offset', async () => {
+      await reminderService.scheduleReminders(appointment());
+
+      expect(mockReminderRepository.replacePending).toHaveBeenCalledWith('appt-1', [
+        expect.objectContaining({ offsetMinutes: 2880, dueAt: new Date(startAt.getTime() - 48 * HOUR_MS), status: ReminderStatus.PENDING }),
+        expect.objectContaining({ offsetMinutes: 120, dueAt: new Date(startAt.getTime() - 2 * HOUR_MS), status: ReminderStatus.PENDING })
+      ]);
+    });
+
+    it('should not plan reminders whose time has already passed', async () => {
+      const soon = new Date(Date.now() + 24 * HOUR_MS);
+
+      await reminderService.scheduleReminders(appointment({ startAt: soon }));
+
+      expect(mockReminderRepository.replacePending).toHaveBeenCalledWith('appt-1', [
+        expect.objectContaining({ offsetMinutes: 120 })
+      ]);
+    });
+  });
+
+  describe('dispatchDueReminders', () => {
+    it('should send claimed reminders in the provider\'s time zone and mark them sent', async () => {
+      mockReminderRepository.claimDue.mockResolvedValue([claimed(120)]);
+      mockAppointmentRepository.findById.mockResolvedValue(appointment({ providerId: 'provider-1' }));
+      mockProviderRepository.findById.mockResolvedValue(new ProviderEntity({
+        id: 'provider-1',
+        firstName: 'Amy',
+        lastName: 'Chen',
+        timeZone: 'America/Vancouver',
+        active: true
+      } as any));
+
+      const sent = await reminderService.dispatchDueReminders();
+
+      expect(sent).toBe(1);
+      expect(mockMessageService.sendReminderMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'appt-1' }), 120, 'America/Vancouver');
+      expect(mockReminderRepository.complete).toHaveBeenCalledWith('reminder-120', ReminderStatus.SENT);
+    });
+
+    it('should skip reminders for cancelled appointments', async () => {
+      mockReminderRepository.claimDue.mockResolvedValue([claimed(120)]);
+      mockAppointmentRepository.findById.mockResolvedValue(appointment({ status: AppointmentStatus.CANCELLED }));
+
+      const sent = await reminderService.dispatchDueReminders();
+
+      expect(sent).toBe(0);
+      expect(mockMessageService.sendReminderMessage).not.toHaveBeenCalled();
+      expect(mockReminderRepository.complete).toHaveBeenCalledWith('reminder-120', ReminderStatus.SKIPPED);
+    });
+
+    it('should skip reminders planned for a time the appointment has moved from', async () => {
+      mockReminderRepository.claimDue.mockResolvedValue([claimed(120, new Date(startAt.getTime() - 24 * HOUR_MS))]);
+      mockAppointmentRepository.findById.mockResolvedValue(appointment());
+
+      await reminderService.dispatchDueReminders();
+
+      expect(mockMessageService.sendReminderMessage).not.toHaveBeenCalled();
+      expect(mockReminderRepository.complete).toHaveBeenCalledWith('reminder-120', ReminderStatus.SKIPPED);
+    });
+
+    it('should mark a reminder failed without retrying it and carry on with the rest', async () => {
+      mockReminderRepository.claimDue.mockResolvedValue([claimed(2880), claimed(120)]);
+      mockAppointmentRepository.findById
+        .mockRejectedValueOnce(new Error('Database unavailable'))
+        .mockResolvedValueOnce(appointment());
+
+      const sent = await reminderService.dispatchDueReminders();
+
+      expect(sent).toBe(1);
+      expect(mockReminderRepository.complete).toHaveBeenCalledWith('reminder-2880', ReminderStatus.FAILED, 'Database unavailable');
+      expect(mockReminderRepository.complete).toHaveBeenCalledWith('reminder-120', ReminderStatus.SENT);
+    });
+  });
+});
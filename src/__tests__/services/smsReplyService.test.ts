@@ -0,0 +1,146 @@
+import { SmsReplyService } from '../../services/smsReplyService';
+import { IAppointmentService } from '../../services/interfaces/IAppointmentService';
+import { IPatientService } from '../../services/interfaces/IPatientService';
+import { ISmsOptOutRepository } from '../../repositories/interfaces/ISmsOptOutRepository';
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { PatientEntity } from '../../models/PatientEntity';
+import { AppointmentStatus, AppointmentType, Language } from '../../types/schedule';
+import { AppointmentCancellationError } from '../../types/errors';
+import { ActorType, ChangeChannel } from '../../types/appointmentEvent';
+
+const mockAppointmentService: jest.Mocked<IAppointmentService> = {
+  createAppointment: jest.fn(),
+  editAppointment: jest.fn(),
+  cancelAppointment: jest.fn(),
+  confirmAppointment: jest.fn(),
+  claimWaitlistOffer: jest.fn(),
+  createSeries: jest.fn(),
+  getSeries: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  getAppointment: jest.fn(),
+  searchAppointments: jest.fn(),
+  getActiveProviders: jest.fn()
+};
+
+const mockSmsOptOutRepository: jest.Mocked<ISmsOptOutRepository> = {
+  optOut: jest.fn(),
+  optIn: jest.fn(),
+  isOptedOut: jest.fn()
+};
+
+const mockPatientService: jest.Mocked<IPatientService> = {
+  findOrCreatePatient: jest.fn(),
+  getPatient: jest.fn(),
+  findPatientsByContact: jest.fn(),
+  mergePatients: jest.fn()
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('SmsReplyService', () => {
+  let smsReplyService: SmsReplyService;
+
+  const appointmentAt = (id: string, startAt: Date) => new AppointmentEntity({
+    id,
+    firstName: 'Jane',
+    lastName: 'Smith',
+    phoneNumber: '+14165551234',
+    startAt,
+    endAt: new Date(startAt.getTime() + HOUR_MS),
+    type: AppointmentType.CONSULTATION,
+    status: AppointmentStatus.SCHEDULED,
+    patientId: 'patient-1',
+    notes: {},
+    createdAt: new Date()
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPatientService.getPatient.mockResolvedValue(new PatientEntity({ id: 'patient-1', firstName: 'Jane', lastName: 'Smith' }));
+    mockPatientService.findPatientsByContact.mockResolvedValue([]);
+    smsReplyService = new SmsReplyService(
+      { timeZone: 'America/Toronto', defaultPhoneCountry: 'CA' },
+      mockAppointmentService,
+      mockSmsOptOutRepository,
+      { patientService: mockPatientService }
+    );
+  });
+
+  it('should confirm the next upcoming appointment, skipping ones already past', async () => {
+    mockAppointmentService.getActiveAppointmentsByEmailOrPhone.mockResolvedValue([
+      appointmentAt('past', new Date(Date.now() - HOUR_MS)),
+      appointmentAt('next', new Date(Date.now() + 24 * HOUR_MS)),
+      appointmentAt('later', new Date(Date.now() + 48 * HOUR_MS))
+    ]);
+
+    const result = await smsReplyService.handleReply('(416) 555-1234', ' yes! ');
+
+    expect(mockAppointmentService.getActiveAppointmentsByEmailOrPhone).toHaveBeenCalledWith('+14165551234');
+    expect(mockAppointmentService.confirmAppointment).toHaveBeenCalledWith('next', { channel: ChangeChannel.SMS_REPLY, actorType: ActorType.PATIENT });
+    expect(result).toEqual(expect.objectContaining({ action: 'confirmed', appointmentId: 'next' }));
+    expect(result.reply).toMatch(/^MedMe Medical Center: thank you, your consultation appointment on .+ is confirmed\.$/);
+  });
+
+  it('should cancel with C for confirm and CANCEL for cancel', async () => {
+    mockAppointmentService.getActiveAppointmentsByEmailOrPhone.mockResolvedValue([appointmentAt('next', new Date(Date.now() + 24 * HOUR_MS))]);
+
+    await smsReplyService.handleReply('+14165551234', 'C');
+    const result = await smsReplyService.handleReply('+14165551234', 'Cancel please');
+
+    expect(mockAppointmentService.confirmAppointment).toHaveBeenCalledTimes(1);
+    expect(mockAppointmentService.cancelAppointment).toHaveBeenCalledWith('next', 'this', { channel: ChangeChannel.SMS_REPLY, actorType: ActorType.PATIENT });
+    expect(result.action).toBe('cancelled');
+    expect(result.reply).toContain('To rebook, call (555) 123-4567');
+  });
+
+  it('should explain when the appointment cannot be changed by text', async () => {
+    mockAppointmentService.getActiveAppointmentsByEmailOrPhone.mockResolvedValue([appointmentAt('next', new Date(Date.now() + HOUR_MS))]);
+    mockAppointmentService.cancelAppointment.mockRejectedValue(
+      new AppointmentCancellationError('Cannot cancel appointments less than 2 hours before start time')
+    );
+
+    const result = await smsReplyService.handleReply('+14165551234', 'CANCEL');
+
+    expect(result.action).toBe('not_changed');
+    expect(result.reply).toContain('Please call (555) 123-4567');
+  });
+
+  it('should say so when there is no upcoming appointment', async () => {
+    mockAppointmentService.getActiveAppointmentsByEmailOrPhone.mockResolvedValue([]);
+
+    const result = await smsReplyService.handleReply('+14165551234', 'YES');
+
+    expect(result.action).toBe('no_appointment');
+    expect(mockAppointmentService.confirmAppointment).not.toHaveBeenCalled();
+  });
+
+  it('should record opt-outs and opt-ins without touching appointments', async () => {
+    const stopped = await smsReplyService.handleReply('+14165551234', 'STOP');
+    const started = await smsReplyService.handleReply('+14165551234', 'start');
+
+    expect(mockSmsOptOutRepository.optOut).toHaveBeenCalledWith('+14165551234', 'STOP');
+    expect(mockSmsOptOutRepository.optIn).toHaveBeenCalledWith('+14165551234');
+    expect(stopped.action).toBe('opted_out');
+    expect(started.action).toBe('opted_in');
+    expect(mockAppointmentService.getActiveAppointmentsByEmailOrPhone).not.toHaveBeenCalled();
+  });
+
+  it('should answer other texts with the keywords it understands', async () => {
+    const result = await smsReplyService.handleReply('+14165551234', 'What time is my appointment?');
+
+    expect(result.action).toBe('help');
+    expect(result.reply).toContain('reply C to confirm or CANCEL to cancel');
+  });
+
+  it('should understand and answer in the patient\'s language', async () => {
+    mockPatientService.findPatientsByContact.mockResolvedValue([
+      new PatientEntity({ id: 'patient-1', firstName: 'Jeanne', lastName: 'Tremblay', preferredLanguage: Language.FRENCH })
+    ]);
+
+    const result = await smsReplyService.handleReply('+14165551234', 'Arrêt');
+
+    expect(mockSmsOptOutRepository.optOut).toHaveBeenCalledWith('+14165551234', 'ARRET');
+    expect(mockPatientService.findPatientsByContact).toHaveBeenCalledWith(undefined, '+14165551234');
+    expect(result.reply).toContain('vous ne recevrez plus de textos');
+  });
+});
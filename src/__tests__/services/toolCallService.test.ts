@@ -0,0 +1,112 @@
+import { ToolCallService } from '../../services/toolCallService';
+import { IToolCallRepository } from '../../repositories/interfaces/IToolCallRepository';
+import { ToolCallEntity } from '../../models/ToolCallEntity';
+import { ToolCallKey, ToolCallStatus } from '../../types/toolCall';
+import { RequestInProgressError } from '../../types/errors';
+
+/**
+ * Keeps claims in memory with the same semantics as the Postgres table
+ */
+class InMemoryToolCallRepository implements IToolCallRepository {
+  readonly calls = new Map<string, ToolCallEntity>();
+
+  async claim(key: ToolCallKey): Promise<boolean> {
+    if (this.calls.has(this.id(key))) {
+      return false;
+    }
+    this.calls.set(this.id(key), new ToolCallEntity({ ...key, status: ToolCallStatus.IN_PROGRESS }));
+    return true;
+  }
+
+  async find(key: ToolCallKey): Promise<ToolCallEntity | null> {
+    return this.calls.get(this.id(key)) ?? null;
+  }
+
+  async complete(key: ToolCallKey, response: { statusCode: number; body: unknown }): Promise<void> {
+    this.calls.set(this.id(key), new ToolCallEntity({ ...key, status: ToolCallStatus.COMPLETED, response }));
+  }
+
+  async release(key: ToolCallKey): Promise<void> {
+    this.calls.delete(this.id(key));
+  }
+
+  private id(key: ToolCallKey): string {
+    return `${key.callId}/${key.functionName}/${key.argsHash}`;
+  }
+}
+
+describe('ToolCallService', () => {
+  let repository: InMemoryToolCallRepository;
+  let toolCallService: ToolCallService;
+
+  const request = { callId: 'call-1', functionName: 'schedule_appointment', args: { firstName: 'Jane', startAt: '2030-01-15T10:00' } };
+  const booked = { statusCode: 200, body: { success: 'true', appointmentId: 'appt-1' } };
+
+  beforeEach(() => {
+    repository = new InMemoryToolCallRepository();
+    toolCallService = new ToolCallService({ waitTimeoutMs: 200, pollIntervalMs: 5 }, repository);
+  });
+
+  it('should run a call once and replay its response for retries', async () => {
+    const handler = jest.fn().mockResolvedValue(booked);
+
+    const first = await toolCallService.execute(request, handler);
+    const retry = await toolCallService.execute({ ...request, args: { startAt: '2030-01-15T10:00', firstName: 'Jane' } }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first).toEqual({ ...booked, replayed: false });
+    expect(retry).toEqual({ ...booked, replayed: true });
+  });
+
+  it('should treat other arguments or functions as new calls', async () => {
+    const handler = jest.fn().mockResolvedValue(booked);
+
+    await toolCallService.execute(request, handler);
+    await toolCallService.execute({ ...request, args: { ...request.args, startAt: '2030-01-15T11:00' } }, handler);
+    await toolCallService.execute({ ...request, functionName: 'join_waitlist' }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should make concurrent duplicates wait for the first to finish', async () => {
+    let finish!: () => void;
+    const handler = jest.fn(() => new Promise<typeof booked>(resolve => {
+      finish = () => resolve(booked);
+    }));
+
+    const first = toolCallService.execute(request, handler);
+    const duplicate = toolCallService.execute(request, handler);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    finish();
+
+    await expect(first).resolves.toEqual({ ...booked, replayed: false });
+    await expect(duplicate).resolves.toEqual({ ...booked, replayed: true });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up waiting on a call that does not finish', async () => {
+    const stuck = jest.fn(() => new Promise<typeof booked>(() => {}));
+    void toolCallService.execute(request, stuck);
+
+    await expect(toolCallService.execute(request, jest.fn())).rejects.toBeInstanceOf(RequestInProgressError);
+  });
+
+  it('should let a retry run again after the first attempt failed', async () => {
+    const handler = jest.fn()
+      .mockRejectedValueOnce(new Error('Connection lost'))
+      .mockResolvedValueOnce(booked);
+
+    await expect(toolCallService.execute(request, handler)).rejects.toThrow('Connection lost');
+    await expect(toolCallService.execute(request, handler)).resolves.toEqual({ ...booked, replayed: false });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pass the stale claim timeout to the repository', async () => {
+    const claim = jest.spyOn(repository, 'claim');
+    toolCallService = new ToolCallService({ staleAfterSeconds: 90 }, repository);
+
+    await toolCallService.execute(request, jest.fn().mockResolvedValue(booked));
+
+    expect(claim).toHaveBeenCalledWith(expect.objectContaining({ callId: 'call-1', argsHash: expect.stringMatching(/^[0-9a-f]{64}$/) }), 90);
+  });
+});
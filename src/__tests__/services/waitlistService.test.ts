@@ -0,0 +1,235 @@
+import { WaitlistService } from '../../services/waitlistService';
+import { IMessageService } from '../../services/interfaces/IMessageService';
+import { IWaitlistRepository } from '../../repositories/interfaces/IWaitlistRepository';
+import { IAppointmentRepository } from '../../repositories/interfaces/IAppointmentRepository';
+import { IPatientService } from '../../services/interfaces/IPatientService';
+import { WaitlistEntryEntity } from '../../models/WaitlistEntryEntity';
+import { PatientEntity } from '../../models/PatientEntity';
+import { AppointmentType } from '../../types/schedule';
+import { FreedSlot, WaitlistOffer, WaitlistStatus } from '../../types/waitlist';
+import { ConflictError, NotFoundError, ValidationError } from '../../types/errors';
+
+const mockWaitlistRepository: jest.Mocked<IWaitlistRepository> = {
+  create: jest.fn(),
+  update: jest.fn(),
+  findById: jest.fn(),
+  findByOfferToken: jest.fn(),
+  findByStatus: jest.fn(),
+  findWaitingFor: jest.fn(),
+  findExpiredOffers: jest.fn(),
+  makeOffer: jest.fn()
+};
+
+const mockAppointmentRepository: jest.Mocked<IAppointmentRepository> = {
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  findById: jest.fn(),
+  isAvailable: jest.fn(),
+  getConflictingAppointments: jest.fn(),
+  getActiveAppointmentsByEmailOrPhone: jest.fn(),
+  search: jest.fn()
+};
+
+const mockPatientService: jest.Mocked<IPatientService> = {
+  findOrCreatePatient: jest.fn(),
+  getPatient: jest.fn(),
+  findPatientsByContact: jest.fn(),
+  mergePatients: jest.fn()
+};
+
+const mockMessageService: jest.Mocked<IMessageService> = {
+  sendConfirmationMessage: jest.fn(),
+  sendRescheduleMessage: jest.fn(),
+  sendCancellationMessage: jest.fn(),
+  sendReminderMessage: jest.fn(),
+  sendSeriesMessage: jest.fn(),
+  sendWaitlistOfferMessage: jest.fn(),
+  deliver: jest.fn()
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('WaitlistService', () => {
+  let waitlistService: WaitlistService;
+
+  const slotStart = new Date(Date.now() + 24 * HOUR_MS);
+  const slot: FreedSlot = {
+    startAt: slotStart,
+    endAt: new Date(slotStart.getTime() + HOUR_MS),
+    type: AppointmentType.THERAPY,
+    providerId: 'provider-1'
+  };
+
+  const waitingEntry = (id: string, createdAt: Date) => new WaitlistEntryEntity({
+    id,
+    firstName: 'Jane',
+    lastName: 'Smith',
+    phoneNumber: '+14165551234',
+    type: AppointmentType.THERAPY,
+    earliestAt: new Date(),
+    latestAt: new Date(Date.now() + 7 * 24 * HOUR_MS),
+    status: WaitlistStatus.WAITING,
+    createdAt
+  });
+
+  const offeredEntry = (id: string, createdAt: Date, expiresAt: Date) => new WaitlistEntryEntity({
+    ...waitingEntry(id, createdAt),
+    status: WaitlistStatus.OFFERED,
+    offer: { token: `token-${id}`, startAt: slot.startAt, endAt: slot.endAt, providerId: slot.providerId, expiresAt }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    waitlistService = new WaitlistService(
+      { claimWindowMinutes: 60, claimBaseUrl: 'https://clinic.example.com' },
+      mockWaitlistRepository,
+      mockAppointmentRepository,
+      mockMessageService,
+      { patientService: mockPatientService }
+    );
+
+    mockWaitlistRepository.create.mockImplementation(async (entry) => new WaitlistEntryEntity({ ...entry, id: 'entry-new' }));
+    mockWaitlistRepository.update.mockImplementation(async (_id, entry) => entry);
+    mockWaitlistRepository.makeOffer.mockImplementation(async (id, offer: WaitlistOffer) =>
+      new WaitlistEntryEntity({ ...waitingEntry(id, new Date()), status: WaitlistStatus.OFFERED, offer }));
+    mockAppointmentRepository.isAvailable.mockResolvedValue(true);
+  });
+
+  describe('joinWaitlist', () => {
+    it('should add the patient to the queue linked to their patient record', async () => {
+      mockPatientService.findOrCreatePatient.mockResolvedValue(new PatientEntity({ id: 'patient-1', firstName: 'Jane', lastName: 'Smith' }));
+
+      const entry = await waitlistService.joinWaitlist({
+        firstName: 'Jane',
+        lastName: 'Smith',
+        phoneNumber: '+14165551234',
+        type: AppointmentType.THERAPY,
+        earliestAt: new Date(),
+        latestAt: new Date(Date.now() + 7 * 24 * HOUR_MS)
+      });
+
+      expect(entry.status).toBe(WaitlistStatus.WAITING);
+      expect(mockWaitlistRepository.create).toHaveBeenCalledWith(expect.objectContaining({ patientId: 'patient-1' }));
+    });
+
+    it('should reject a window that has already passed', async () => {
+      await expect(waitlistService.joinWaitlist({
+        firstName: 'Jane',
+        lastName: 'Smith',
+        phoneNumber: '+14165551234',
+        type: AppointmentType.THERAPY,
+        earliestAt: new Date(Date.now() - 2 * HOUR_MS),
+        latestAt: new Date(Date.now() - HOUR_MS)
+      })).rejects.toThrow(ValidationError);
+      expect(mockWaitlistRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offerFreedSlot', () => {
+    it('should offer the slot to the longest-waiting patient and send them a claim link', async () => {
+      mockWaitlistRepository.findWaitingFor.mockResolvedValue([waitingEntry('entry-1', new Date('2030-01-01T00:00:00Z'))]);
+
+      const offered = await waitlistService.offerFreedSlot(slot);
+
+      expect(mockWaitlistRepository.findWaitingFor).toHaveBeenCalledWith(slot, undefined);
+      expect(offered?.id).toBe('entry-1');
+      expect(offered?.offer?.expiresAt.getTime()).toBeCloseTo(Date.now() + HOUR_MS, -3);
+      expect(mockMessageService.sendWaitlistOfferMessage).toHaveBeenCalledWith(
+        offered,
+        `https://clinic.example.com/waitlist/claim/${offered!.offer!.token}`
+      );
+    });
+
+    it('should not hold an offer past the start of the slot', async () => {
+      const soon: FreedSlot = { ...slot, startAt: new Date(Date.now() + 30 * 60 * 1000), endAt: new Date(Date.now() + 90 * 60 * 1000) };
+      mockWaitlistRepository.findWaitingFor.mockResolvedValue([waitingEntry('entry-1', new Date())]);
+
+      const offered = await waitlistService.offerFreedSlot(soon);
+
+      expect(offered?.offer?.expiresAt).toEqual(soon.startAt);
+    });
+
+    it('should skip patients who were just offered another slot', async () => {
+      mockWaitlistRepository.findWaitingFor.mockResolvedValue([
+        waitingEntry('entry-1', new Date('2030-01-01T00:00:00Z')),
+        waitingEntry('entry-2', new Date('2030-01-02T00:00:00Z'))
+      ]);
+      mockWaitlistRepository.makeOffer.mockResolvedValueOnce(null);
+
+      const offered = await waitlistService.offerFreedSlot(slot);
+
+      expect(mockWaitlistRepository.makeOffer).toHaveBeenCalledTimes(2);
+      expect(offered?.id).toBe('entry-2');
+    });
+
+    it('should not offer a slot that has been booked again or is in the past', async () => {
+      mockAppointmentRepository.isAvailable.mockResolvedValueOnce(false);
+
+      expect(await waitlistService.offerFreedSlot(slot)).toBeNull();
+      expect(await waitlistService.offerFreedSlot({ ...slot, startAt: new Date(Date.now() - HOUR_MS) })).toBeNull();
+      expect(mockAppointmentRepository.isAvailable).toHaveBeenCalledWith(slot.startAt, slot.endAt, undefined, 'provider-1');
+      expect(mockWaitlistRepository.findWaitingFor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getClaimableOffer', () => {
+    it('should return an open offer', async () => {
+      const entry = offeredEntry('entry-1', new Date(), new Date(Date.now() + HOUR_MS));
+      mockWaitlistRepository.findByOfferToken.mockResolvedValue(entry);
+
+      await expect(waitlistService.getClaimableOffer('token-entry-1')).resolves.toBe(entry);
+    });
+
+    it('should reject unknown tokens and lapsed offers', async () => {
+      mockWaitlistRepository.findByOfferToken.mockResolvedValueOnce(null);
+      await expect(waitlistService.getClaimableOffer('unknown')).rejects.toThrow(NotFoundError);
+
+      mockWaitlistRepository.findByOfferToken.mockResolvedValueOnce(offeredEntry('entry-1', new Date(), new Date(Date.now() - 1000)));
+      await expect(waitlistService.getClaimableOffer('token-entry-1')).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('expireOffers', () => {
+    it('should return lapsed offers to the queue and pass the slot to the next patient', async () => {
+      const lapsed = offeredEntry('entry-1', new Date('2030-01-01T00:00:00Z'), new Date(Date.now() - 1000));
+      mockWaitlistRepository.findExpiredOffers.mockResolvedValue([lapsed]);
+      mockWaitlistRepository.findWaitingFor.mockResolvedValue([waitingEntry('entry-2', new Date('2030-01-02T00:00:00Z'))]);
+
+      const expired = await waitlistService.expireOffers();
+
+      expect(expired).toBe(1);
+      expect(mockWaitlistRepository.update).toHaveBeenCalledWith('entry-1', expect.objectContaining({
+        status: WaitlistStatus.WAITING,
+        offer: undefined
+      }));
+      expect(mockWaitlistRepository.findWaitingFor).toHaveBeenCalledWith(
+        { startAt: slot.startAt, endAt: slot.endAt, type: AppointmentType.THERAPY, providerId: 'provider-1' },
+        { createdAt: new Date('2030-01-01T00:00:00Z'), id: 'entry-1' }
+      );
+      expect(mockWaitlistRepository.makeOffer).toHaveBeenCalledWith('entry-2', expect.anything());
+    });
+  });
+
+  describe('leaveWaitlist', () => {
+    it('should cancel the entry and pass on a slot it was holding', async () => {
+      mockWaitlistRepository.findById.mockResolvedValue(offeredEntry('entry-1', new Date(), new Date(Date.now() + HOUR_MS)));
+      mockWaitlistRepository.findWaitingFor.mockResolvedValue([]);
+
+      const entry = await waitlistService.leaveWaitlist('entry-1');
+
+      expect(entry.status).toBe(WaitlistStatus.CANCELLED);
+      expect(entry.offer).toBeUndefined();
+      expect(mockWaitlistRepository.findWaitingFor).toHaveBeenCalled();
+    });
+
+    it('should not cancel a booked entry', async () => {
+      mockWaitlistRepository.findById.mockResolvedValue(new WaitlistEntryEntity({
+        ...waitingEntry('entry-1', new Date()),
+        status: WaitlistStatus.BOOKED
+      }));
+
+      await expect(waitlistService.leaveWaitlist('entry-1')).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { AppointmentEventEntity } from '../../models/AppointmentEventEntity';
+import { ActorType, AppointmentEventType, AppointmentSnapshot, ChangeChannel, SYSTEM_CHANGE } from '../../types/appointmentEvent';
+import { AppointmentStatus, AppointmentType } from '../../types/schedule';
+
+const original: AppointmentSnapshot = {
+  startAt: new Date('2030-01-15T15:00:00Z'),
+  endAt: new Date('2030-01-15T16:00:00Z'),
+  type: AppointmentType.CONSULTATION,
+  status: AppointmentStatus.SCHEDULED,
+  providerId: 'provider-1'
+};
+
+describe('AppointmentEventEntity', () => {
+  describe('fromChange', () => {
+    it('should record every tracked field of a new appointment', () => {
+      const event = AppointmentEventEntity.fromChange('appt-1', null, original, {
+        channel: ChangeChannel.ADMIN_API,
+        actorType: ActorType.API_USER,
+        actorId: 'key_3f2a9c1e'
+      });
+
+      expect(event).toEqual(expect.objectContaining({
+        appointmentId: 'appt-1',
+        eventType: AppointmentEventType.CREATED,
+        before: undefined,
+        after: original,
+        actorId: 'key_3f2a9c1e'
+      }));
+    });
+
+    it('should file a move with a new type under rescheduled, keeping both changes', () => {
+      const moved = { ...original, startAt: new Date('2030-01-16T15:00:00Z'), endAt: new Date('2030-01-16T15:30:00Z'), type: AppointmentType.FOLLOW_UP };
+
+      const event = AppointmentEventEntity.fromChange('appt-1', original, moved, SYSTEM_CHANGE);
+
+      expect(event?.eventType).toBe(AppointmentEventType.RESCHEDULED);
+      expect(event?.before).toEqual({ startAt: original.startAt, endAt: original.endAt, type: AppointmentType.CONSULTATION });
+      expect(event?.after).toEqual({ startAt: moved.startAt, endAt: moved.endAt, type: AppointmentType.FOLLOW_UP });
+    });
+
+    it('should treat another provider at the same time as a reschedule', () => {
+      const event = AppointmentEventEntity.fromChange('appt-1', original, { ...original, providerId: undefined }, SYSTEM_CHANGE);
+
+      expect(event?.eventType).toBe(AppointmentEventType.RESCHEDULED);
+      expect(event?.before).toEqual({ providerId: 'provider-1' });
+      expect(event?.after).toEqual({ providerId: null });
+    });
+
+    it('should compare times by value', () => {
+      const copy = AppointmentEventEntity.snapshot(original);
+
+      expect(AppointmentEventEntity.fromChange('appt-1', original, copy, SYSTEM_CHANGE)).toBeNull();
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should not follow later changes to the appointment', () => {
+      const appointment = { ...original, startAt: new Date(original.startAt) };
+      const snapshot = AppointmentEventEntity.snapshot(appointment);
+
+      appointment.startAt.setUTCHours(18);
+      appointment.status = AppointmentStatus.CANCELLED;
+
+      expect(snapshot.startAt).toEqual(original.startAt);
+      expect(snapshot.status).toBe(AppointmentStatus.SCHEDULED);
+    });
+  });
+});
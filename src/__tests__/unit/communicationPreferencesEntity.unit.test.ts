@@ -0,0 +1,105 @@
+import { CommunicationPreferencesEntity } from '../../models/CommunicationPreferencesEntity';
+import { ConsentRecord, ConsentSource, MessageCategory } from '../../types/preferences';
+
+const TORONTO = 'America/Toronto';
+
+const consent = (overrides: Partial<ConsentRecord>): ConsentRecord => ({
+  channel: 'sms',
+  granted: false,
+  source: ConsentSource.VOICE_AGENT,
+  recordedAt: new Date('2030-01-01T00:00:00Z'),
+  ...overrides
+});
+
+describe('CommunicationPreferencesEntity', () => {
+  describe('allows', () => {
+    it('should allow everything until the patient says otherwise', () => {
+      const preferences = CommunicationPreferencesEntity.defaults('patient-1');
+
+      expect(preferences.allows('sms', MessageCategory.REMINDERS)).toBe(true);
+      expect(preferences.allows('email', MessageCategory.WAITLIST_OFFERS)).toBe(true);
+    });
+
+    it('should let the latest applicable record decide', () => {
+      const preferences = new CommunicationPreferencesEntity({
+        patientId: 'patient-1',
+        consents: [
+          consent({ granted: false, recordedAt: new Date('2030-01-01T00:00:00Z') }),
+          consent({ category: MessageCategory.APPOINTMENT_UPDATES, granted: true, recordedAt: new Date('2030-01-02T00:00:00Z') }),
+          consent({ channel: 'email', category: MessageCategory.REMINDERS, granted: false, recordedAt: new Date('2030-01-03T00:00:00Z') })
+        ]
+      });
+
+      expect(preferences.allows('sms', MessageCategory.APPOINTMENT_UPDATES)).toBe(true);
+      expect(preferences.allows('sms', MessageCategory.REMINDERS)).toBe(false);
+      expect(preferences.allows('email', MessageCategory.REMINDERS)).toBe(false);
+      expect(preferences.allows('email', MessageCategory.APPOINTMENT_UPDATES)).toBe(true);
+    });
+  });
+
+  describe('channelsFor', () => {
+    it('should use only the preferred channel while it is allowed', () => {
+      const preferences = new CommunicationPreferencesEntity({ patientId: 'patient-1', preferredChannel: 'sms', consents: [] });
+
+      expect(preferences.channelsFor(MessageCategory.REMINDERS, ['email', 'sms'])).toEqual(['sms']);
+      expect(preferences.channelsFor(MessageCategory.REMINDERS, ['email'])).toEqual(['email']);
+    });
+
+    it('should fall back to the other channels when the preferred one is opted out', () => {
+      const preferences = new CommunicationPreferencesEntity({
+        patientId: 'patient-1',
+        preferredChannel: 'sms',
+        consents: [consent({ category: MessageCategory.REMINDERS })]
+      });
+
+      expect(preferences.channelsFor(MessageCategory.REMINDERS, ['email', 'sms'])).toEqual(['email']);
+    });
+  });
+
+  describe('quietHoursEnd', () => {
+    const overnight = new CommunicationPreferencesEntity({
+      patientId: 'patient-1',
+      quietHours: { start: '21:00', end: '08:00' },
+      consents: []
+    });
+
+    it('should hold evening messages until the next morning, local time', () => {
+      // 22:30 EST
+      expect(overnight.quietHoursEnd(new Date('2030-01-15T03:30:00Z'), TORONTO)).toEqual(new Date('2030-01-15T13:00:00Z'));
+    });
+
+    it('should hold early-morning messages until the window ends that day', () => {
+      // 06:00 EST
+      expect(overnight.quietHoursEnd(new Date('2030-01-15T11:00:00Z'), TORONTO)).toEqual(new Date('2030-01-15T13:00:00Z'));
+    });
+
+    it('should not hold messages outside quiet hours', () => {
+      // 12:00 EST
+      expect(overnight.quietHoursEnd(new Date('2030-01-15T17:00:00Z'), TORONTO)).toBeUndefined();
+      expect(CommunicationPreferencesEntity.defaults('patient-1').quietHoursEnd(new Date('2030-01-15T03:30:00Z'), TORONTO)).toBeUndefined();
+    });
+
+    it('should handle windows within a day', () => {
+      const afternoon = new CommunicationPreferencesEntity({ patientId: 'patient-1', quietHours: { start: '12:00', end: '14:00' }, consents: [] });
+
+      expect(afternoon.quietHoursEnd(new Date('2030-01-15T17:30:00Z'), TORONTO)).toEqual(new Date('2030-01-15T19:00:00Z'));
+      expect(afternoon.quietHoursEnd(new Date('2030-01-15T19:00:00Z'), TORONTO)).toBeUndefined();
+    });
+  });
+
+  describe('update', () => {
+    it('should clear values set to null and keep omitted ones', () => {
+      const preferences = new CommunicationPreferencesEntity({
+        patientId: 'patient-1',
+        preferredChannel: 'email',
+        quietHours: { start: '21:00', end: '08:00' },
+        consents: []
+      });
+
+      expect(preferences.update({ preferredChannel: null })).toBe(true);
+      expect(preferences.preferredChannel).toBeUndefined();
+      expect(preferences.quietHours).toEqual({ start: '21:00', end: '08:00' });
+      expect(preferences.update({ quietHours: { start: '21:00', end: '08:00' } })).toBe(false);
+    });
+  });
+});
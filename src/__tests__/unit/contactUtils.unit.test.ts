@@ -0,0 +1,52 @@
+import { normalizeEmail, normalizeEmailOrPhone, normalizePhoneNumber, isSupportedPhoneCountry } from '../../utils/contactUtils';
+
+describe('contactUtils', () => {
+  describe('normalizePhoneNumber', () => {
+    it.each([
+      '416 555 1234',
+      '(416) 555-1234',
+      '416.555.1234',
+      '1-416-555-1234',
+      '+1 416 555 1234',
+      '+14165551234'
+    ])('should convert %s to E.164', (input) => {
+      expect(normalizePhoneNumber(input)).toBe('+14165551234');
+    });
+
+    it('should read national numbers in the given default country', () => {
+      expect(normalizePhoneNumber('020 7946 0958', 'GB')).toBe('+442079460958');
+    });
+
+    it('should keep international numbers in their own country', () => {
+      expect(normalizePhoneNumber('+44 20 7946 0958', 'CA')).toBe('+442079460958');
+    });
+
+    it('should leave values that are not phone numbers unchanged apart from whitespace', () => {
+      expect(normalizePhoneNumber(' ext 12 ')).toBe('ext 12');
+    });
+  });
+
+  describe('normalizeEmail', () => {
+    it('should trim and lowercase the address', () => {
+      expect(normalizeEmail('  John.Doe@Example.COM ')).toBe('john.doe@example.com');
+    });
+  });
+
+  describe('normalizeEmailOrPhone', () => {
+    it('should treat values containing @ as emails', () => {
+      expect(normalizeEmailOrPhone('John@Example.com')).toBe('john@example.com');
+    });
+
+    it('should treat everything else as a phone number', () => {
+      expect(normalizeEmailOrPhone('416-555-1234')).toBe('+14165551234');
+    });
+  });
+
+  describe('isSupportedPhoneCountry', () => {
+    it('should accept ISO country codes and reject anything else', () => {
+      expect(isSupportedPhoneCountry('CA')).toBe(true);
+      expect(isSupportedPhoneCountry('XX')).toBe(false);
+      expect(isSupportedPhoneCountry('Canada')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { buildIcsCalendar, escapeIcsText, foldIcsLine, formatIcsDate } from '../../utils/icsUtils';
+
+describe('icsUtils', () => {
+  const event = {
+    method: 'REQUEST' as const,
+    uid: 'appointment-appt-1@medme-schedule',
+    sequence: 3,
+    startAt: new Date('2030-01-15T19:30:00Z'),
+    endAt: new Date('2030-01-15T20:00:00Z'),
+    summary: 'MedMe Medical Center - follow-up appointment',
+    stamp: new Date('2030-01-01T12:00:00.123Z')
+  };
+
+  it('should write UTC date-times without separators', () => {
+    expect(formatIcsDate(new Date('2030-01-15T19:30:00.500Z'))).toBe('20300115T193000Z');
+  });
+
+  it('should escape text values', () => {
+    expect(escapeIcsText('Room 4; 2nd floor, east\\west\nwing')).toBe('Room 4\\; 2nd floor\\, east\\\\west\\nwing');
+  });
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBe(2);
+    expect(lines.every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+
+  it('should build a calendar with CRLF line endings', () => {
+    const ics = buildIcsCalendar({
+      ...event,
+      location: 'MedMe Medical Center, 12 Queen St W',
+      organizer: { name: 'MedMe Medical Center', email: 'desk@example.com' },
+      attendee: { name: 'Jane "JJ" Smith', email: 'jane@example.com' }
+    });
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual(expect.arrayContaining([
+      'METHOD:REQUEST',
+      'UID:appointment-appt-1@medme-schedule',
+      'SEQUENCE:3',
+      'DTSTAMP:20300101T120000Z',
+      'DTSTART:20300115T193000Z',
+      'DTEND:20300115T200000Z',
+      'LOCATION:MedMe Medical Center\\, 12 Queen St W',
+      'ORGANIZER;CN="MedMe Medical Center":mailto:desk@example.com',
+      'STATUS:CONFIRMED'
+    ]));
+    expect(ics).toContain('ATTENDEE;CN="Jane JJ Smith";ROLE=REQ-PARTICIPANT');
+  });
+
+  it('should mark cancellations as cancelled', () => {
+    const ics = buildIcsCalendar({ ...event, method: 'CANCEL' });
+
+    expect(ics).toContain('METHOD:CANCEL\r\n');
+    expect(ics).toContain('STATUS:CANCELLED\r\n');
+  });
+});
@@ -0,0 +1,38 @@
+import { createManageToken, createManageUrl, readManageToken } from '../../utils/manageLinkUtils';
+import { ValidationError } from '../../types/errors';
+
+describe('manageLinkUtils', () => {
+  const now = new Date('2030-01-01T12:00:00Z');
+  const expiresAt = new Date('2030-01-31T12:00:00Z');
+
+  it('should read back the appointment a token was issued for', () => {
+    const token = createManageToken('appt-1', expiresAt, 'secret');
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(readManageToken(token, 'secret', now)).toBe('appt-1');
+  });
+
+  it('should reject tokens signed with another secret or edited', () => {
+    const token = createManageToken('appt-1', expiresAt, 'secret');
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ a: 'appt-2', x: expiresAt.getTime() / 1000 })).toString('base64url')}.${signature}`;
+
+    expect(() => readManageToken(token, 'other-secret', now)).toThrow(ValidationError);
+    expect(() => readManageToken(forged, 'secret', now)).toThrow('This link is not valid');
+    expect(() => readManageToken('not-a-token', 'secret', now)).toThrow('This link is not valid');
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createManageToken('appt-1', expiresAt, 'secret');
+
+    expect(() => readManageToken(token, 'secret', expiresAt)).toThrow('This link has expired');
+  });
+
+  it('should build links that stay valid for the configured number of days', () => {
+    const url = createManageUrl('appt-1', { baseUrl: 'https://scheduling.example.com', secret: 'secret', validDays: 30 }, now);
+    const token = url.replace('https://scheduling.example.com/appointments/manage/', '');
+
+    expect(readManageToken(token, 'secret', new Date('2030-01-31T11:59:59Z'))).toBe('appt-1');
+    expect(() => readManageToken(token, 'secret', new Date('2030-01-31T12:00:00Z'))).toThrow(ValidationError);
+  });
+});
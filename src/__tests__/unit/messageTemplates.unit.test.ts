@@ -0,0 +1,156 @@
+import { MessageTemplates } from '../../services/emailTemplates';
+import { getTemplateResource, MessageTemplateResource, PluralText } from '../../services/templates';
+import { Appointment, AppointmentStatus, AppointmentType, Language } from '../../types/schedule';
+import { RecurrenceFrequency } from '../../types/series';
+import { WaitlistStatus } from '../../types/waitlist';
+
+const TORONTO = 'America/Toronto';
+
+const appointment: Appointment = {
+  id: 'appt-1',
+  firstName: 'Jane',
+  lastName: 'Smith',
+  email: 'jane@example.com',
+  startAt: new Date('2030-01-15T19:30:00Z'), // 2:30pm in Toronto
+  endAt: new Date('2030-01-15T20:00:00Z'),
+  type: AppointmentType.FOLLOW_UP,
+  status: AppointmentStatus.SCHEDULED,
+  notes: {},
+  createdAt: new Date('2030-01-01T00:00:00Z')
+};
+
+function placeholders(text: string): string[] {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort();
+}
+
+function texts(resource: MessageTemplateResource): Record<string, string> {
+  const plural = (prefix: string, text: PluralText) => ({ [`${prefix}.one`]: text.one, [`${prefix}.other`]: text.other });
+  return {
+    'contact.phone': resource.contact.phone,
+    'contact.phoneAndEmail': resource.contact.phoneAndEmail,
+    ...plural('seriesVisits', resource.seriesVisits),
+    'calendarEvent.summary': resource.calendarEvent.summary,
+    'selfService.body': resource.selfService.body,
+    'selfService.sms': resource.selfService.sms,
+    ...Object.fromEntries(Object.entries(resource.smsReplies).map(([name, text]) => [`smsReplies.${name}`, text])),
+    ...Object.fromEntries(Object.entries(resource.messages).flatMap(([name, text]) => [
+      [`${name}.subject`, text.subject],
+      [`${name}.body`, text.body],
+      [`${name}.sms`, text.sms]
+    ]))
+  };
+}
+
+describe('MessageTemplates', () => {
+  it('should quote the default clinic details in English', () => {
+    const { subject, body, language, templateVersion } = MessageTemplates.generateConfirmationMessage(appointment, { timeZone: TORONTO });
+
+    expect(subject).toBe('Appointment Confirmed - Tuesday, January 15, 2030 at 2:30 PM EST');
+    expect(body).toBe([
+      'Hi Jane,',
+      'Your follow-up appointment is confirmed for Tuesday, January 15, 2030 at 2:30 PM EST.',
+      'Please arrive 15 minutes early. The attached invite adds the visit to your calendar.',
+      'Questions? Call (555) 123-4567.',
+      'MedMe Medical Center'
+    ].join('\n\n'));
+    expect(language).toBe('en');
+    expect(templateVersion).toBe(4);
+  });
+
+  it('should use the configured clinic branding', () => {
+    const { body } = MessageTemplates.generateCancellationMessage(appointment, {
+      clinic: { name: 'Lakeshore Clinic', phone: '(416) 555-0100', address: '12 Queen St W, Toronto', email: 'desk@lakeshore.example' }
+    });
+
+    expect(body).toContain('Call (416) 555-0100 or email desk@lakeshore.example');
+    expect(body).toContain('\n\nLakeshore Clinic, 12 Queen St W, Toronto');
+    expect(body).not.toContain('MedMe');
+  });
+
+  it('should render a short SMS variant', () => {
+    const { sms } = MessageTemplates.generateReminderMessage(appointment, 120, { timeZone: TORONTO });
+
+    expect(sms).toBe('MedMe Medical Center reminder: your follow-up appointment is in 2 hours, Tue, Jan 15 at 2:30 PM EST. Can\'t make it? Call (555) 123-4567.');
+  });
+
+  it('should add the self-service link in its own paragraph', () => {
+    const url = 'https://scheduling.example.com/appointments/manage/abc.def';
+    const { body, html, sms } = MessageTemplates.generateConfirmationMessage(appointment, { timeZone: TORONTO, language: Language.SPANISH }, url);
+
+    expect(body).toContain(`antes. La invitación adjunta agrega la visita a su calendario.\n\nConfirme, cancele o reprograme su cita en línea: ${url}\n\n¿Preguntas?`);
+    expect(html).toContain(`<a href="${url}">${url}</a>`);
+    expect(sms).toMatch(/Llame al \(555\) 123-4567\. Confirmar o cambiar: https:\/\/scheduling\.example\.com\/appointments\/manage\/abc\.def$/);
+  });
+
+  it('should render an HTML body with escaped values and clickable links', () => {
+    const { html } = MessageTemplates.generateWaitlistOfferMessage(
+      {
+        ...appointment,
+        firstName: '<Jane>',
+        earliestAt: appointment.startAt,
+        latestAt: appointment.endAt,
+        status: WaitlistStatus.OFFERED,
+        offer: { token: 'abc', startAt: appointment.startAt, endAt: appointment.endAt, expiresAt: appointment.startAt }
+      },
+      'https://scheduling.example.com/waitlist/claim/abc'
+    );
+
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('<p>Hi &lt;Jane&gt;,</p>');
+    expect(html).toContain('<a href="https://scheduling.example.com/waitlist/claim/abc">https://scheduling.example.com/waitlist/claim/abc</a>');
+  });
+
+  it('should format dates and times for the patient\'s language', () => {
+    const { subject } = MessageTemplates.generateConfirmationMessage(appointment, { timeZone: TORONTO, language: Language.FRENCH });
+
+    expect(subject).toMatch(/^Rendez-vous confirmé - mardi 15 janvier 2030 à 14 h 30/);
+  });
+
+  it('should word reminder lead times with the language\'s plural forms', () => {
+    expect(MessageTemplates.generateReminderMessage(appointment, 2880, { language: Language.SPANISH }).body).toContain('es en 2 días');
+    expect(MessageTemplates.generateReminderMessage(appointment, 60, { language: Language.FRENCH }).body).toContain('a lieu dans 1 heure');
+    expect(MessageTemplates.generateReminderMessage(appointment, 90).body).toContain('is in 90 minutes');
+  });
+
+  it('should describe a series\' recurrence in the patient\'s language', () => {
+    const second = { ...appointment, id: 'appt-2', startAt: new Date('2030-01-29T19:30:00Z') };
+
+    const { subject, body } = MessageTemplates.generateSeriesMessage(
+      'confirmation',
+      [appointment, second],
+      { frequency: RecurrenceFrequency.WEEKLY, interval: 2 },
+      { timeZone: TORONTO, language: Language.FRENCH }
+    );
+
+    expect(subject).toBe('2 rendez-vous confirmés - toutes les 2 semaines à partir du mardi 15 janvier 2030');
+    expect(body).toContain('Vos 2 rendez-vous (suivi) toutes les 2 semaines à partir du mardi 15 janvier 2030');
+  });
+
+  it('should keep the calendar invite UID for an appointment and raise its sequence', () => {
+    const booked = MessageTemplates.generateCalendarInvite(appointment, 'REQUEST', {}, new Date('2030-01-01T00:00:00Z'));
+    const moved = MessageTemplates.generateCalendarInvite(appointment, 'REQUEST', {}, new Date('2030-01-02T00:00:00Z'));
+    const cancelled = MessageTemplates.generateCalendarInvite(appointment, 'CANCEL', {}, new Date('2030-01-03T00:00:00Z'));
+
+    for (const invite of [booked, moved, cancelled]) {
+      expect(invite.content).toContain('UID:appointment-appt-1@medme-schedule\r\n');
+    }
+    expect(booked.content).toContain('SEQUENCE:0\r\n');
+    expect(moved.content).toContain('SEQUENCE:86400\r\n');
+    expect(cancelled).toEqual(expect.objectContaining({ method: 'CANCEL', filename: 'cancel.ics' }));
+    expect(cancelled.content).toContain('METHOD:CANCEL\r\n');
+    expect(booked.content).toContain('SUMMARY:MedMe Medical Center - follow-up appointment\r\n');
+    expect(booked.content).toContain('ATTENDEE;CN="Jane Smith"');
+  });
+
+  it('should give every language the same templates and placeholders as English', () => {
+    const english = texts(getTemplateResource(Language.ENGLISH));
+
+    for (const language of [Language.FRENCH, Language.SPANISH]) {
+      const translated = texts(getTemplateResource(language));
+      expect(Object.keys(translated).sort()).toEqual(Object.keys(english).sort());
+      for (const [name, text] of Object.entries(english)) {
+        expect({ language, name, placeholders: placeholders(translated[name]) }).toEqual({ language, name, placeholders: placeholders(text) });
+      }
+    }
+  });
+});
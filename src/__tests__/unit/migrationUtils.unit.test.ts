@@ -0,0 +1,72 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DEFAULT_MIGRATIONS_DIR, loadMigrations, migrationChecksum, parseMigrationFilename } from '../../utils/migrationUtils';
+import { MigrationError } from '../../types/errors';
+
+describe('migrationUtils', () => {
+  describe('parseMigrationFilename', () => {
+    it('should read the version and description', () => {
+      expect(parseMigrationFilename('V12__create_messages.sql')).toEqual({ version: 12, description: 'create messages' });
+    });
+
+    it.each(['V12_create_messages.sql', 'v12__create_messages.sql', 'R__refresh_views.sql', 'V12__.sql'])('should reject %s', filename => {
+      expect(parseMigrationFilename(filename)).toBeNull();
+    });
+  });
+
+  describe('migrationChecksum', () => {
+    it('should not count Windows line endings as a change', () => {
+      expect(migrationChecksum('select 1;\r\nselect 2;\r\n')).toBe(migrationChecksum('select 1;\nselect 2;\n'));
+      expect(migrationChecksum('select 1;\n')).not.toBe(migrationChecksum('select 2;\n'));
+    });
+  });
+
+  describe('loadMigrations', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), 'migrations-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should sort by version as a number and skip files that are not SQL', async () => {
+      writeFileSync(path.join(directory, 'V10__add_index.sql'), 'create index i on t (c);');
+      writeFileSync(path.join(directory, 'V2__create_table.sql'), 'create table t (c int);');
+      writeFileSync(path.join(directory, 'README.md'), 'notes');
+
+      const migrations = await loadMigrations(directory);
+
+      expect(migrations.map(migration => migration.script)).toEqual(['V2__create_table.sql', 'V10__add_index.sql']);
+      expect(migrations[0]).toEqual(expect.objectContaining({
+        version: 2,
+        description: 'create table',
+        sql: 'create table t (c int);',
+        checksum: migrationChecksum('create table t (c int);')
+      }));
+    });
+
+    it('should reject a SQL file that would never be applied', async () => {
+      writeFileSync(path.join(directory, 'V3_create_table.sql'), 'create table t (c int);');
+
+      await expect(loadMigrations(directory)).rejects.toThrow(MigrationError);
+    });
+
+    it('should reject two files with the same version', async () => {
+      writeFileSync(path.join(directory, 'V3__create_table.sql'), 'create table t (c int);');
+      writeFileSync(path.join(directory, 'V3__create_other_table.sql'), 'create table u (c int);');
+
+      await expect(loadMigrations(directory)).rejects.toThrow('have the same version');
+    });
+
+    it('should load the repository sql directory by default', async () => {
+      const migrations = await loadMigrations(DEFAULT_MIGRATIONS_DIR);
+
+      expect(migrations[0].script).toBe('V1__create_appointments_table.sql');
+      expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, index) => index + 1));
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Pool } from 'pg';
+import { PostgresPatientRepository } from '../../repositories/postgresPatientRepository';
+import { PatientEntity } from '../../models/PatientEntity';
+
+const mockClientQuery = jest.fn();
+const mockRelease = jest.fn();
+const mockPool = {
+  query: jest.fn(),
+  connect: jest.fn(async () => ({ query: mockClientQuery, release: mockRelease })),
+  end: jest.fn()
+} as unknown as jest.Mocked<Pool>;
+
+const patientRow = {
+  id: 'patient-1',
+  first_name: 'John',
+  last_name: 'Doe',
+  email: 'john.doe@example.com',
+  phone_number: '+14165551234',
+  merged_into_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-02T00:00:00Z'
+};
+
+describe('PostgresPatientRepository Unit Tests', () => {
+  let repository: PostgresPatientRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = new PostgresPatientRepository(mockPool);
+  });
+
+  describe('findByContact', () => {
+    it('should look up canonical contact details and skip merged records', async () => {
+      (mockPool.query as jest.Mock).mockResolvedValue({ rows: [patientRow] });
+
+      const result = await repository.findByContact(' John.Doe@Example.com', '(416) 555-1234');
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringMatching(/merged_into_id IS NULL[\s\S]*email = \$1 OR phone_number = \$2/),
+        ['john.doe@example.com', '+14165551234']
+      );
+      expect(result[0].phoneNumber).toBe('+14165551234');
+    });
+
+    it('should not query without any contact details', async () => {
+      await expect(repository.findByContact()).resolves.toEqual([]);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('should store the email in lowercase and the phone number in E.164', async () => {
+      (mockPool.query as jest.Mock).mockResolvedValue({ rows: [patientRow] });
+
+      await repository.create(new PatientEntity({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'John.Doe@Example.com',
+        phoneNumber: '416 555 1234'
+      }));
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO patients'),
+        ['John', 'Doe', 'john.doe@example.com', '+14165551234', null]
+      );
+    });
+
+    it('should use the configured default country for national numbers', async () => {
+      (mockPool.query as jest.Mock).mockResolvedValue({ rows: [patientRow] });
+      repository = new PostgresPatientRepository(mockPool, 'GB');
+
+      await repository.create(new PatientEntity({ firstName: 'John', lastName: 'Doe', phoneNumber: '020 7946 0958' }));
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO patients'),
+        ['John', 'Doe', null, '+442079460958', null]
+      );
+    });
+  });
+
+  describe('merge', () => {
+    it('should move appointments and mark the source as merged in one transaction', async () => {
+      mockClientQuery.mockResolvedValue({ rows: [patientRow] });
+
+      const result = await repository.merge('patient-2', 'patient-1');
+
+      const statements = mockClientQuery.mock.calls.map(call => call[0].trim());
+      expect(statements[0]).toBe('BEGIN');
+      expect(mockClientQuery).toHaveBeenCalledWith('UPDATE appointments SET patient_id = $1 WHERE patient_id = $2', ['patient-1', 'patient-2']);
+      expect(mockClientQuery).toHaveBeenCalledWith(expect.stringContaining('SET merged_into_id = $1, updated_at = now() WHERE id = $2'), ['patient-1', 'patient-2']);
+      expect(mockClientQuery).toHaveBeenCalledWith('UPDATE communication_consents SET patient_id = $1 WHERE patient_id = $2', ['patient-1', 'patient-2']);
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+      expect(result.id).toBe('patient-1');
+    });
+
+    it('should roll back when any step fails', async () => {
+      mockClientQuery.mockImplementation(async (sql: string) => {
+        if (sql.startsWith('UPDATE appointments')) {
+          throw new Error('Connection lost');
+        }
+        return { rows: [] };
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(repository.merge('patient-2', 'patient-1')).rejects.toThrow('Connection lost');
+
+      expect(mockClientQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClientQuery).not.toHaveBeenCalledWith('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { Pool } from 'pg';
 import { PostgresAppointmentRepository } from '../../repositories/postgresAppointmentRepository';
 import { AppointmentEntity } from '../../models/AppointmentEntity';
 import { AppointmentType, AppointmentStatus } from '../../types/schedule';
+import { TimeSlotUnavailableError } from '../../types/errors';
 
 // Mock pg Pool
 const mockQuery = jest.fn();
@@ -78,7 +79,10 @@ describe('PostgresAppointmentRepository Unit Tests', () => {
           'scheduled', // Should always be 'scheduled' for new appointments
           '{"reason":"Test"}',
           'Annual checkup',
-          null // calendarEventId is not set in constructor, so it's null
+          null, // calendarEventId is not set in constructor, so it's null
+          null, // no provider assigned
+          null, // no patient linked
+          null // not part of a series
         ]
       );
     });
@@ -175,6 +179,9 @@ describe('PostgresAppointmentRepository Unit Tests', () => {
           'cal-456', // calendar_event_id should be included
           'scheduled', // status
           expect.any(Date), // updated_at
+          null, // provider_id
+          null, // patient_id
+          null, // series_id
           'test-id'
         ]
       );
@@ -219,6 +226,120 @@ describe('PostgresAppointmentRepository Unit Tests', () => {
     });
   });
 
+  describe('contact normalization', () => {
+    it('should store the email in lowercase and the phone number in E.164', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ id: 'test-id', notes: '{}', created_at: '2024-01-01T00:00:00Z' }] });
+
+      await repository.create(new AppointmentEntity({
+        firstName: 'Test',
+        lastName: 'User',
+        email: ' Test.User@Example.com ',
+        phoneNumber: '(416) 555-1234',
+        startAt: new Date('2024-01-15T10:00:00Z'),
+        endAt: new Date('2024-01-15T11:00:00Z'),
+        type: AppointmentType.CONSULTATION,
+        status: AppointmentStatus.SCHEDULED,
+        notes: {},
+        createdAt: new Date(),
+      }));
+
+      const [, values] = mockQuery.mock.calls[0];
+      expect(values[2]).toBe('test.user@example.com');
+      expect(values[3]).toBe('+14165551234');
+    });
+
+    it('should find appointments stored in E.164 from a spoken phone number', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await repository.getActiveAppointmentsByEmailOrPhone('416 555 1234');
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('phone_number = $1'), ['+14165551234']);
+    });
+
+    it('should look up emails case-insensitively', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await repository.getActiveAppointmentsByEmailOrPhone('John.Doe@Example.com');
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('email = $1'), ['john.doe@example.com']);
+    });
+  });
+
+  describe('search method', () => {
+    beforeEach(() => {
+      mockQuery.mockResolvedValue({ rows: [] });
+    });
+
+    it('should combine every filter with parameters', async () => {
+      await repository.search({
+        from: new Date('2024-01-15T00:00:00Z'),
+        to: new Date('2024-01-16T00:00:00Z'),
+        statuses: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED],
+        types: [AppointmentType.CONSULTATION],
+        providerId: 'provider-1',
+        callId: 'call-123',
+        sortBy: 'startAt',
+        sortOrder: 'asc',
+        limit: 26
+      });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('start_at >= $1');
+      expect(sql).toContain('start_at < $2');
+      expect(sql).toContain('status = ANY($3)');
+      expect(sql).toContain('type = ANY($4)');
+      expect(sql).toContain('provider_id = $5');
+      expect(sql).toContain("notes->>'call_id' = $6");
+      expect(sql).toMatch(/ORDER BY date_trunc\('milliseconds', start_at\) ASC, id ASC\s+LIMIT \$7/);
+      expect(values).toEqual([
+        new Date('2024-01-15T00:00:00Z'),
+        new Date('2024-01-16T00:00:00Z'),
+        ['scheduled', 'confirmed'],
+        ['consultation'],
+        'provider-1',
+        'call-123',
+        26
+      ]);
+    });
+
+    it('should match a single name against first or last name, escaping wildcards', async () => {
+      await repository.search({ patientName: 'o_b', sortBy: 'startAt', sortOrder: 'asc', limit: 10 });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('(first_name ILIKE $1 OR last_name ILIKE $1)');
+      expect(values[0]).toBe('o\\_b%');
+    });
+
+    it('should match "first last" prefixes against both names', async () => {
+      await repository.search({ patientName: ' John  Do ', sortBy: 'startAt', sortOrder: 'asc', limit: 10 });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('first_name ILIKE $1 AND last_name ILIKE $2');
+      expect(values.slice(0, 2)).toEqual(['John%', 'Do%']);
+    });
+
+    it('should continue after the cursor position in descending order', async () => {
+      await repository.search({
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        limit: 5,
+        after: { value: new Date('2024-01-01T00:00:00Z'), id: 'appt-9' }
+      });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain("(date_trunc('milliseconds', created_at), id) < ($1::timestamptz, $2::uuid)");
+      expect(sql).toContain("ORDER BY date_trunc('milliseconds', created_at) DESC, id DESC");
+      expect(values).toEqual([new Date('2024-01-01T00:00:00Z'), 'appt-9', 5]);
+    });
+
+    it('should search all appointments when no filters are given', async () => {
+      await repository.search({ sortBy: 'startAt', sortOrder: 'asc', limit: 10 });
+
+      const [sql] = mockQuery.mock.calls[0];
+      expect(sql).not.toContain('WHERE');
+    });
+  });
+
   describe('mapRowToEntity method', () => {
     it('should correctly map database row to AppointmentEntity', async () => {
       const mockDbRow = {
@@ -343,6 +464,29 @@ describe('PostgresAppointmentRepository Unit Tests', () => {
       await expect(repository.create(appointment)).rejects.toThrow('Connection failed');
     });
 
+    it('should report a booking that overlaps another one as an unavailable time slot', async () => {
+      const overlap = Object.assign(new Error('conflicting key value violates exclusion constraint "appointments_no_overlap"'), { code: '23P01' });
+      mockQuery.mockRejectedValue(overlap);
+
+      const appointment = new AppointmentEntity({
+        id: 'test-uuid',
+        firstName: 'Test',
+        lastName: 'User',
+        email: 'test@example.com',
+        startAt: new Date('2024-01-15T10:00:00Z'),
+        endAt: new Date('2024-01-15T10:30:00Z'),
+        type: AppointmentType.CONSULTATION,
+        status: AppointmentStatus.SCHEDULED,
+        notes: {},
+        createdAt: new Date(),
+      });
+
+      await expect(repository.create(appointment)).rejects.toThrow(TimeSlotUnavailableError);
+      await expect(repository.update('test-uuid', appointment)).rejects.toThrow(
+        'Time slot from 2024-01-15T10:00:00.000Z to 2024-01-15T10:30:00.000Z is already booked'
+      );
+    });
+
     it('should handle malformed JSON in notes field', async () => {
       const mockDbRow = {
         id: 'test-uuid',
@@ -0,0 +1,72 @@
+import { Pool } from 'pg';
+import { PostgresTransactionRunner } from '../../repositories/postgresTransactionRunner';
+import { queryTarget } from '../../repositories/postgresPool';
+
+const mockClientQuery = jest.fn();
+const mockRelease = jest.fn();
+const mockClient = { query: mockClientQuery, release: mockRelease };
+const mockPool = {
+  query: jest.fn(),
+  connect: jest.fn(async () => mockClient),
+  end: jest.fn()
+} as unknown as jest.Mocked<Pool>;
+
+describe('PostgresTransactionRunner Unit Tests', () => {
+  let runner: PostgresTransactionRunner;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClientQuery.mockImplementation(async (sql: string) => ({ command: sql.split(' ')[0], rows: [] }));
+    runner = new PostgresTransactionRunner(mockPool);
+  });
+
+  it('should send queries on the pool to the transaction and commit it', async () => {
+    await runner.run(async () => {
+      await queryTarget(mockPool).query('INSERT INTO patients DEFAULT VALUES');
+    });
+
+    expect(mockClientQuery.mock.calls.map(call => call[0])).toEqual(['BEGIN', 'INSERT INTO patients DEFAULT VALUES', 'COMMIT']);
+    expect(mockPool.query).not.toHaveBeenCalled();
+    expect(mockRelease).toHaveBeenCalled();
+  });
+
+  it('should leave queries on other pools and outside the transaction alone', async () => {
+    const otherPool = { query: jest.fn() } as unknown as Pool;
+
+    await runner.run(async () => {
+      expect(queryTarget(otherPool)).toBe(otherPool);
+    });
+
+    expect(queryTarget(mockPool)).toBe(mockPool);
+  });
+
+  it('should roll back when the work throws', async () => {
+    await expect(runner.run(async () => {
+      throw new Error('Appointment insert failed');
+    })).rejects.toThrow('Appointment insert failed');
+
+    expect(mockClientQuery.mock.calls.map(call => call[0])).toEqual(['BEGIN', 'ROLLBACK']);
+    expect(mockRelease).toHaveBeenCalled();
+  });
+
+  it('should roll back only the savepoint of a nested run that throws', async () => {
+    await runner.run(async () => {
+      await runner.run(async () => {
+        throw new Error('History insert failed');
+      }).catch(() => undefined);
+    });
+
+    expect(mockClientQuery.mock.calls.map(call => call[0])).toEqual([
+      'BEGIN',
+      'SAVEPOINT savepoint_1',
+      'ROLLBACK TO SAVEPOINT savepoint_1',
+      'COMMIT'
+    ]);
+  });
+
+  it('should fail when a failed statement turned the commit into a rollback', async () => {
+    mockClientQuery.mockImplementation(async (sql: string) => ({ command: sql === 'COMMIT' ? 'ROLLBACK' : sql, rows: [] }));
+
+    await expect(runner.run(async () => 'booked')).rejects.toThrow('Transaction was rolled back because a statement in it failed');
+  });
+});
@@ -0,0 +1,75 @@
+import { describeRecurrence, expandRecurrence, toLocalDateString } from '../../utils/recurrenceUtils';
+import { RecurrenceFrequency } from '../../types/series';
+import { ValidationError } from '../../types/errors';
+
+const TORONTO = 'America/Toronto';
+
+describe('recurrenceUtils', () => {
+  describe('expandRecurrence', () => {
+    it('should keep the local time of day across a daylight saving change', () => {
+      // 9am EST, then 9am EDT after March 8, 2026
+      const occurrences = expandRecurrence(
+        new Date('2026-03-02T14:00:00Z'),
+        { frequency: RecurrenceFrequency.WEEKLY, interval: 1, count: 3, exceptions: [] },
+        TORONTO
+      );
+
+      expect(occurrences).toEqual([
+        new Date('2026-03-02T14:00:00Z'),
+        new Date('2026-03-09T13:00:00Z'),
+        new Date('2026-03-16T13:00:00Z')
+      ]);
+    });
+
+    it('should step by the interval and stop at until', () => {
+      const occurrences = expandRecurrence(
+        new Date('2026-01-05T15:00:00Z'),
+        { frequency: RecurrenceFrequency.DAILY, interval: 3, until: new Date('2026-01-12T00:00:00Z'), exceptions: [] },
+        'UTC'
+      );
+
+      expect(occurrences.map(date => toLocalDateString(date, 'UTC'))).toEqual(['2026-01-05', '2026-01-08', '2026-01-11']);
+    });
+
+    it('should skip exception dates but still count them', () => {
+      const occurrences = expandRecurrence(
+        new Date('2026-01-05T15:00:00Z'),
+        { frequency: RecurrenceFrequency.WEEKLY, interval: 1, count: 3, exceptions: ['2026-01-12'] },
+        TORONTO
+      );
+
+      expect(occurrences.map(date => toLocalDateString(date, TORONTO))).toEqual(['2026-01-05', '2026-01-19']);
+    });
+
+    it('should skip months without the start date\'s day without counting them', () => {
+      const occurrences = expandRecurrence(
+        new Date('2026-01-31T15:00:00Z'),
+        { frequency: RecurrenceFrequency.MONTHLY, interval: 1, count: 3, exceptions: [] },
+        TORONTO
+      );
+
+      expect(occurrences.map(date => toLocalDateString(date, TORONTO))).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+    });
+
+    it('should reject rules with too many occurrences', () => {
+      expect(() => expandRecurrence(
+        new Date('2026-01-05T15:00:00Z'),
+        { frequency: RecurrenceFrequency.DAILY, interval: 1, until: new Date('2027-01-05T00:00:00Z'), exceptions: [] },
+        TORONTO
+      )).toThrow(ValidationError);
+    });
+  });
+
+  describe('toLocalDateString', () => {
+    it('should use the date in the given time zone', () => {
+      expect(toLocalDateString(new Date('2026-01-06T03:00:00Z'), TORONTO)).toBe('2026-01-05');
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should describe the frequency and interval', () => {
+      expect(describeRecurrence({ frequency: RecurrenceFrequency.WEEKLY, interval: 1 })).toBe('every week');
+      expect(describeRecurrence({ frequency: RecurrenceFrequency.MONTHLY, interval: 2 })).toBe('every 2 months');
+    });
+  });
+});
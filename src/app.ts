@@ -1,12 +1,84 @@
 import Fastify from 'fastify';
 import { ScheduleHandlers } from './handlers/ScheduleHandlers';
+import { AppointmentApiHandlers } from './handlers/AppointmentApiHandlers';
+import { PatientApiHandlers } from './handlers/PatientApiHandlers';
+import { SeriesApiHandlers } from './handlers/SeriesApiHandlers';
+import { WaitlistApiHandlers } from './handlers/WaitlistApiHandlers';
+import { WaitlistClaimHandlers } from './handlers/WaitlistClaimHandlers';
+import { OutboxApiHandlers } from './handlers/OutboxApiHandlers';
+import { MessageApiHandlers } from './handlers/MessageApiHandlers';
+import { AppointmentHistoryApiHandlers } from './handlers/AppointmentHistoryApiHandlers';
+import { CalendarSyncApiHandlers } from './handlers/CalendarSyncApiHandlers';
+import { DeliveryReceiptHandlers } from './handlers/DeliveryReceiptHandlers';
+import { ManageLinkHandlers } from './handlers/ManageLinkHandlers';
+import { SmsReplyHandlers } from './handlers/SmsReplyHandlers';
 import { AppointmentService } from './services/appointmentService';
 import { CalendarService } from './services/calendarService';
 import { IAppointmentService } from './services/interfaces/IAppointmentService';
 import { ICalendarService } from './services/interfaces/ICalendarService';
 import { PostgresAppointmentRepository } from './repositories/postgresAppointmentRepository';
 import { IAppointmentRepository } from './repositories/interfaces/IAppointmentRepository';
+import { PostgresProviderRepository } from './repositories/postgresProviderRepository';
+import { IProviderRepository } from './repositories/interfaces/IProviderRepository';
+import { PostgresBusinessHoursRepository } from './repositories/postgresBusinessHoursRepository';
+import { BusinessHoursService } from './services/businessHoursService';
+import { IBusinessHoursService } from './services/interfaces/IBusinessHoursService';
+import { AvailabilityService } from './services/availabilityService';
+import { PostgresAppointmentTypeRepository } from './repositories/postgresAppointmentTypeRepository';
+import { AppointmentTypeService } from './services/appointmentTypeService';
+import { IAppointmentTypeService } from './services/interfaces/IAppointmentTypeService';
+import { PostgresPatientRepository } from './repositories/postgresPatientRepository';
+import { PatientService } from './services/patientService';
+import { IPatientService } from './services/interfaces/IPatientService';
+import { PostgresWaitlistRepository } from './repositories/postgresWaitlistRepository';
+import { PostgresAppointmentSeriesRepository } from './repositories/postgresAppointmentSeriesRepository';
+import { PostgresReminderRepository } from './repositories/postgresReminderRepository';
+import { ReminderService } from './services/reminderService';
+import { IReminderService } from './services/interfaces/IReminderService';
+import { PostgresOutboxRepository } from './repositories/postgresOutboxRepository';
+import { IOutboxRepository } from './repositories/interfaces/IOutboxRepository';
+import { OutboxService } from './services/outboxService';
+import { IOutboxService } from './services/interfaces/IOutboxService';
+import { MessageService } from './services/emailService';
+import { DEFAULT_CLINIC_BRANDING } from './services/emailTemplates';
+import { IMessageService } from './services/interfaces/IMessageService';
+import { createMessageTransports } from './services/transports';
+import { PostgresMessageRepository } from './repositories/postgresMessageRepository';
+import { PostgresSmsOptOutRepository } from './repositories/postgresSmsOptOutRepository';
+import { ISmsOptOutRepository } from './repositories/interfaces/ISmsOptOutRepository';
+import { SmsReplyService } from './services/smsReplyService';
+import { PostgresCommunicationPreferencesRepository } from './repositories/postgresCommunicationPreferencesRepository';
+import { CommunicationPreferencesService } from './services/communicationPreferencesService';
+import { ICommunicationPreferencesService } from './services/interfaces/ICommunicationPreferencesService';
+import { PostgresToolCallRepository } from './repositories/postgresToolCallRepository';
+import { ToolCallService } from './services/toolCallService';
+import { MessageHistoryService } from './services/messageHistoryService';
+import { PostgresAppointmentEventRepository } from './repositories/postgresAppointmentEventRepository';
+import { AppointmentHistoryService } from './services/appointmentHistoryService';
+import { IAppointmentHistoryService } from './services/interfaces/IAppointmentHistoryService';
+import { PostgresMigrationRepository } from './repositories/postgresMigrationRepository';
+import { PostgresTransactionRunner } from './repositories/postgresTransactionRunner';
+import { MigrationService } from './services/migrationService';
+import { PostgresCalendarSyncRepository } from './repositories/postgresCalendarSyncRepository';
+import { CalendarSyncService } from './services/calendarSyncService';
+import { ICalendarSyncService } from './services/interfaces/ICalendarSyncService';
+import { IMessageHistoryService } from './services/interfaces/IMessageHistoryService';
+import { WaitlistService } from './services/waitlistService';
+import { IWaitlistService } from './services/interfaces/IWaitlistService';
+import { IAvailabilityService } from './services/interfaces/IAvailabilityService';
+import { ManageLinkService } from './services/manageLinkService';
+import { ManageLinkConfig } from './utils/manageLinkUtils';
+import { createPostgresPool } from './repositories/postgresPool';
+import { isValidTimeZone } from './utils/dateUtils';
+import { isSupportedPhoneCountry } from './utils/contactUtils';
+import { Language } from './types/schedule';
+import { ClinicBranding } from './types/message';
 import { scheduleRoutes } from './routes/scheduleRoutes';
+import { apiRoutes } from './routes/apiRoutes';
+import { waitlistRoutes } from './routes/waitlistRoutes';
+import { deliveryReceiptRoutes } from './routes/deliveryReceiptRoutes';
+import { manageLinkRoutes } from './routes/manageLinkRoutes';
+import { smsReplyRoutes } from './routes/smsReplyRoutes';
 import { calendar_v3, auth as gauth } from '@googleapis/calendar';
 import path from 'path';
 
@@ -28,9 +100,45 @@ export async function buildApp() {
   // Check environment variables
   console.log('🔑 Checking Database environment variables...');
   console.log('DATABASE_URL:', process.env.DATABASE_URL ? '✅ Set' : '❌ Missing');
+
+  // GOOGLE_TIMEZONE is the older name for the same setting
+  const clinicTimeZone = process.env.CLINIC_TIMEZONE || process.env.GOOGLE_TIMEZONE || 'UTC';
+  if (!isValidTimeZone(clinicTimeZone)) {
+    throw new Error(`CLINIC_TIMEZONE must be an IANA time zone name, got "${clinicTimeZone}"`);
+  }
+  console.log('🕐 Clinic time zone:', clinicTimeZone);
+
+  // Phone numbers given without a country code (e.g. "416 555 1234") are read as numbers in this country
+  const defaultPhoneCountry = (process.env.DEFAULT_PHONE_COUNTRY || 'US').toUpperCase();
+  if (!isSupportedPhoneCountry(defaultPhoneCountry)) {
+    throw new Error(`DEFAULT_PHONE_COUNTRY must be a two-letter country code, got "${defaultPhoneCountry}"`);
+  }
+  
+  // Patients without a preferred language get messages in this one
+  const defaultLanguage = (process.env.DEFAULT_LANGUAGE || Language.ENGLISH).toLowerCase() as Language;
+  if (!Object.values(Language).includes(defaultLanguage)) {
+    throw new Error(`DEFAULT_LANGUAGE must be one of ${Object.values(Language).join(', ')}, got "${process.env.DEFAULT_LANGUAGE}"`);
+  }
+  // Quoted in patient messages and on the patient-facing pages
+  const clinicBranding: ClinicBranding = {
+    name: process.env.CLINIC_NAME || DEFAULT_CLINIC_BRANDING.name,
+    phone: process.env.CLINIC_PHONE || DEFAULT_CLINIC_BRANDING.phone,
+    address: process.env.CLINIC_ADDRESS || undefined,
+    email: process.env.CLINIC_EMAIL || undefined
+  };
   
   // Instantiate dependencies
-  const appointmentRepository: IAppointmentRepository = new PostgresAppointmentRepository();
+  const pool = createPostgresPool();
+
+  // Bring the schema up to date before anything uses it; fails startup if a migration has drifted or fails
+  if (process.env.MIGRATE_ON_STARTUP === 'true') {
+    const migrationService = new MigrationService({ directory: process.env.MIGRATIONS_DIR || undefined }, new PostgresMigrationRepository(pool));
+    const applied = await migrationService.migrate();
+    console.log('🗄️ Migrations:', applied.length > 0 ? `${applied.length} applied` : 'up to date');
+  }
+
+  const appointmentRepository: IAppointmentRepository = new PostgresAppointmentRepository(pool, defaultPhoneCountry);
+  const providerRepository: IProviderRepository = new PostgresProviderRepository(pool);
   
   // Service Account Authentication (without domain delegation)
   const authClient = new gauth.JWT({
@@ -51,19 +159,219 @@ export async function buildApp() {
     {
       primaryCalendarId: process.env.GOOGLE_PRIMARY_CALENDAR_ID || 'primary',
       rangeDays: Number(process.env.GOOGLE_FREEBUSY_RANGE_DAYS || 7),
+      timeZone: clinicTimeZone,
     },
     googleCalendarClient
   );
-  const appointmentService: IAppointmentService = new AppointmentService(appointmentRepository, calendarService);
+  const businessHoursService: IBusinessHoursService = new BusinessHoursService(
+    { timeZone: clinicTimeZone },
+    new PostgresBusinessHoursRepository(pool)
+  );
+  const appointmentTypeService: IAppointmentTypeService = new AppointmentTypeService(
+    new PostgresAppointmentTypeRepository(pool)
+  );
+  const patientService: IPatientService = new PatientService(
+    new PostgresPatientRepository(pool, defaultPhoneCountry),
+    defaultPhoneCountry
+  );
+  // Patient messages are queued here and delivered by the outbox worker below, through the
+  // transports picked by EMAIL_TRANSPORT and SMS_TRANSPORT
+  const outboxRepository: IOutboxRepository = new PostgresOutboxRepository(pool);
+  const messageTransports = createMessageTransports();
+  console.log(`📨 Message transports: email via ${messageTransports.email.name}, SMS via ${messageTransports.sms.name}`);
+  // Every delivery attempt is recorded for the per-appointment message history
+  const messageRepository = new PostgresMessageRepository(pool);
+  const messageHistoryService: IMessageHistoryService = new MessageHistoryService(messageRepository);
+  // Numbers that replied STOP; nothing more is texted to them
+  const smsOptOutRepository: ISmsOptOutRepository = new PostgresSmsOptOutRepository(pool);
+  // Preferred channel, consent per channel and message category, and quiet hours, applied to every message
+  const preferencesService: ICommunicationPreferencesService = new CommunicationPreferencesService(
+    new PostgresCommunicationPreferencesRepository(pool),
+    patientService
+  );
+  // Links in waitlist offers and self-service links point here, so it must be reachable by patients
+  const publicBaseUrl = (process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, '');
+  // Self-service links are signed with this secret, so they are off until one is set
+  const manageLinks: ManageLinkConfig | undefined = process.env.SELF_SERVICE_LINK_SECRET
+    ? {
+        baseUrl: publicBaseUrl,
+        secret: process.env.SELF_SERVICE_LINK_SECRET,
+        validDays: Number(process.env.SELF_SERVICE_LINK_DAYS || 30)
+      }
+    : undefined;
+  const messageService: IMessageService = new MessageService(
+    { timeZone: clinicTimeZone, defaultLanguage, clinic: clinicBranding, manageLinks },
+    messageTransports,
+    { outboxRepository, messageRepository, patientService, smsOptOutRepository, preferencesService }
+  );
+  const outboxService: IOutboxService = new OutboxService(
+    {
+      maxAttempts: Number(process.env.OUTBOX_MAX_ATTEMPTS || 8),
+      retryBaseSeconds: Number(process.env.OUTBOX_RETRY_BASE_SECONDS || 30),
+      retryMaxSeconds: Number(process.env.OUTBOX_RETRY_MAX_SECONDS || 3600),
+    },
+    outboxRepository,
+    messageService
+  );
+  const waitlistService: IWaitlistService = new WaitlistService(
+    {
+      claimWindowMinutes: Number(process.env.WAITLIST_CLAIM_MINUTES || 60),
+      claimBaseUrl: publicBaseUrl,
+    },
+    new PostgresWaitlistRepository(pool, defaultPhoneCountry),
+    appointmentRepository,
+    messageService,
+    { appointmentTypeService, patientService }
+  );
+  // Minutes before each appointment that patients are reminded, e.g. "2880,120" for 48 hours and 2 hours
+  const reminderOffsets = (process.env.REMINDER_OFFSETS_MINUTES ?? '2880,120')
+    .split(',').map(offset => offset.trim()).filter(Boolean).map(Number);
+  if (reminderOffsets.some(offset => !Number.isInteger(offset) || offset <= 0)) {
+    throw new Error(`REMINDER_OFFSETS_MINUTES must be a comma-separated list of whole minutes, got "${process.env.REMINDER_OFFSETS_MINUTES}"`);
+  }
+  const reminderService: IReminderService = new ReminderService(
+    { offsetsMinutes: reminderOffsets },
+    new PostgresReminderRepository(pool),
+    appointmentRepository,
+    messageService,
+    { providerRepository }
+  );
+  // Every create, reschedule, type change, status change and cancellation, with who made it and how
+  const appointmentEventRepository = new PostgresAppointmentEventRepository(pool);
+  const appointmentHistoryService: IAppointmentHistoryService = new AppointmentHistoryService(appointmentEventRepository);
+  // Calendar events follow each saved change through a sync job, retried by the worker below until they match
+  const calendarSyncService: ICalendarSyncService = new CalendarSyncService(
+    {
+      maxAttempts: Number(process.env.CALENDAR_SYNC_MAX_ATTEMPTS || 8),
+      retryBaseSeconds: Number(process.env.CALENDAR_SYNC_RETRY_BASE_SECONDS || 30),
+      retryMaxSeconds: Number(process.env.CALENDAR_SYNC_RETRY_MAX_SECONDS || 3600),
+    },
+    new PostgresCalendarSyncRepository(pool),
+    appointmentRepository,
+    calendarService
+  );
+  const appointmentService: IAppointmentService = new AppointmentService(appointmentRepository, calendarService, {
+    providerRepository,
+    businessHoursService,
+    appointmentTypeService,
+    patientService,
+    waitlistService,
+    seriesRepository: new PostgresAppointmentSeriesRepository(pool, defaultPhoneCountry),
+    reminderService,
+    messageService,
+    eventRepository: appointmentEventRepository,
+    calendarSyncService,
+    transactions: new PostgresTransactionRunner(pool),
+    timeZone: clinicTimeZone,
+    defaultPhoneCountry
+  });
+  const availabilityService: IAvailabilityService = new AvailabilityService(
+    {
+      slotIntervalMinutes: Number(process.env.SLOT_INTERVAL_MINUTES || 15),
+      maxRangeDays: Number(process.env.AVAILABILITY_MAX_RANGE_DAYS || 14),
+    },
+    appointmentRepository,
+    calendarService,
+    appointmentTypeService,
+    { providerRepository, businessHoursService }
+  );
 
 
   // Create handler instances
-  const scheduleHandlers = new ScheduleHandlers(appointmentService, calendarService);
+  // Retried Retell tool calls get the original response instead of booking twice
+  const toolCallService = new ToolCallService({}, new PostgresToolCallRepository(pool));
+  const scheduleHandlers = new ScheduleHandlers(
+    appointmentService,
+    calendarService,
+    availabilityService,
+    clinicTimeZone,
+    waitlistService,
+    preferencesService,
+    toolCallService,
+    appointmentHistoryService
+  );
 
   // Register all routes (including webhook)
   await fastify.register(scheduleRoutes, { 
     scheduleHandlers 
   });
+  await fastify.register(waitlistRoutes, {
+    waitlistClaimHandlers: new WaitlistClaimHandlers(appointmentService, waitlistService, clinicTimeZone, clinicBranding.name)
+  });
+
+  // Delivery receipts need a shared secret in the callback URL, so they are off until one is set
+  const deliveryReceiptToken = process.env.DELIVERY_RECEIPT_TOKEN;
+  if (deliveryReceiptToken) {
+    await fastify.register(deliveryReceiptRoutes, {
+      deliveryReceiptHandlers: new DeliveryReceiptHandlers(messageHistoryService),
+      token: deliveryReceiptToken
+    });
+  } else {
+    console.warn('⚠️ DELIVERY_RECEIPT_TOKEN is not set, delivery receipt webhooks are disabled');
+  }
+
+  // Patients reply to texts to confirm, cancel or opt out; the webhook needs its own shared secret
+  const inboundSmsToken = process.env.INBOUND_SMS_TOKEN;
+  if (inboundSmsToken) {
+    await fastify.register(smsReplyRoutes, {
+      smsReplyHandlers: new SmsReplyHandlers(new SmsReplyService(
+        { timeZone: clinicTimeZone, defaultLanguage, clinic: clinicBranding, defaultPhoneCountry },
+        appointmentService,
+        smsOptOutRepository,
+        { patientService }
+      )),
+      token: inboundSmsToken
+    });
+  } else {
+    console.warn('⚠️ INBOUND_SMS_TOKEN is not set, SMS replies are not handled');
+  }
+
+  // Lapsed offers move on to the next patient in the queue
+  const waitlistSweep = setInterval(() => {
+    waitlistService.expireOffers().catch(error => console.error('❌ Failed to expire waitlist offers:', error));
+  }, Number(process.env.WAITLIST_SWEEP_SECONDS || 60) * 1000);
+  waitlistSweep.unref();
+  fastify.addHook('onClose', async () => clearInterval(waitlistSweep));
+
+  // Sends reminders as they come due; pending reminders are kept in Postgres across restarts
+  const reminderDispatch = setInterval(() => {
+    reminderService.dispatchDueReminders().catch(error => console.error('❌ Failed to dispatch reminders:', error));
+  }, Number(process.env.REMINDER_POLL_SECONDS || 60) * 1000);
+  reminderDispatch.unref();
+  fastify.addHook('onClose', async () => clearInterval(reminderDispatch));
+
+  // Delivers queued messages, retrying failures with backoff until they are marked dead
+  const outboxDelivery = setInterval(() => {
+    outboxService.deliverDueMessages().catch(error => console.error('❌ Failed to deliver queued messages:', error));
+  }, Number(process.env.OUTBOX_POLL_SECONDS || 10) * 1000);
+  outboxDelivery.unref();
+  fastify.addHook('onClose', async () => clearInterval(outboxDelivery));
+
+  // Retries calendar syncs that failed, until the appointment is marked failed
+  const calendarSync = setInterval(() => {
+    calendarSyncService.syncDueJobs().catch(error => console.error('❌ Failed to sync calendar events:', error));
+  }, Number(process.env.CALENDAR_SYNC_POLL_SECONDS || 10) * 1000);
+  calendarSync.unref();
+  fastify.addHook('onClose', async () => clearInterval(calendarSync));
+
+  // Admin REST API for front-desk staff; disabled unless API keys are configured
+  const apiKeys = (process.env.ADMIN_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (apiKeys.length > 0) {
+    await fastify.register(apiRoutes, {
+      prefix: '/api/v1',
+      appointmentApiHandlers: new AppointmentApiHandlers(appointmentService, clinicTimeZone),
+      patientApiHandlers: new PatientApiHandlers(patientService, preferencesService),
+      seriesApiHandlers: new SeriesApiHandlers(appointmentService, clinicTimeZone),
+      waitlistApiHandlers: new WaitlistApiHandlers(waitlistService, clinicTimeZone),
+      outboxApiHandlers: new OutboxApiHandlers(outboxService),
+      messageApiHandlers: new MessageApiHandlers(appointmentService, messageHistoryService),
+      appointmentHistoryApiHandlers: new AppointmentHistoryApiHandlers(appointmentService, appointmentHistoryService),
+      calendarSyncApiHandlers: new CalendarSyncApiHandlers(calendarSyncService),
+      apiKeys
+    });
+  } else {
+    console.warn('⚠️ ADMIN_API_KEYS is not set, the /api/v1 admin API is disabled');
+  }
 
   // Health check endpoint
   fastify.get('/health', async (request, reply) => {
@@ -81,5 +389,18 @@ export async function buildApp() {
     return reply.redirect('/demo/');
   });
 
+  // Self-service pages for patients to confirm, cancel or reschedule from their messages
+  if (manageLinks) {
+    await fastify.register(manageLinkRoutes, {
+      manageLinkHandlers: new ManageLinkHandlers(
+        new ManageLinkService({ secret: manageLinks.secret }, appointmentService, availabilityService),
+        clinicTimeZone,
+        clinicBranding.name
+      )
+    });
+  } else {
+    console.warn('⚠️ SELF_SERVICE_LINK_SECRET is not set, self-service links are disabled');
+  }
+
   return fastify;
 }
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import { PostgresMigrationRepository } from '../repositories/postgresMigrationRepository';
+import { MigrationService } from '../services/migrationService';
+import { MigrationState, MigrationStatus } from '../types/migration';
+
+if (process.env.NODE_ENV !== 'production') {
+  dotenv.config({ path: '.env.local' });
+}
+
+const USAGE = `Usage: npm run migrate [-- <option>]
+
+Applies the pending migrations in MIGRATIONS_DIR (default: the sql directory), lowest version first.
+
+Options:
+  --dry-run   List every migration and what would be applied, without changing anything
+  --help      Show this message`;
+
+function formatStatus(status: MigrationStatus): string {
+  const applied = status.appliedAt ? `  (applied ${status.appliedAt.toISOString()})` : '';
+  return `${status.state.padEnd(12)}  ${status.script}${applied}`;
+}
+
+async function run(migrationService: MigrationService, [option]: string[]): Promise<void> {
+  switch (option) {
+    case undefined: {
+      const applied = await migrationService.migrate();
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+      return;
+    }
+    case '--dry-run': {
+      const statuses = await migrationService.getStatus();
+      statuses.forEach(status => console.log(formatStatus(status)));
+
+      const pending = statuses.filter(status => status.state === MigrationState.PENDING).length;
+      const problems = statuses.filter(status => ![MigrationState.APPLIED, MigrationState.PENDING].includes(status.state)).length;
+      if (problems > 0) {
+        console.log(`${problems} migration(s) need attention; nothing would be applied`);
+        process.exitCode = 1;
+      } else {
+        console.log(`${pending} migration(s) would be applied`);
+      }
+      return;
+    }
+    default:
+      console.log(USAGE);
+      process.exitCode = option === '--help' ? 0 : 1;
+  }
+}
+
+const main = async () => {
+  const migrationRepository = new PostgresMigrationRepository();
+  const migrationService = new MigrationService({ directory: process.env.MIGRATIONS_DIR || undefined }, migrationRepository);
+
+  try {
+    await run(migrationService, process.argv.slice(2));
+  } catch (err: any) {
+    console.error(`Error: ${err.message}`);
+    process.exitCode = 1;
+  } finally {
+    await migrationRepository.close();
+  }
+};
+
+main();
@@ -0,0 +1,84 @@
+import dotenv from 'dotenv';
+import { PostgresOutboxRepository } from '../repositories/postgresOutboxRepository';
+import { OutboxService } from '../services/outboxService';
+import { MessageService } from '../services/emailService';
+import { createMessageTransports } from '../services/transports';
+import { OutboxStatus } from '../types/outbox';
+import { OutboxMessageEntity } from '../models/OutboxMessageEntity';
+
+if (process.env.NODE_ENV !== 'production') {
+  dotenv.config({ path: '.env.local' });
+}
+
+const USAGE = `Usage: npm run outbox -- <command>
+
+Commands:
+  list [pending|sent|dead] [limit]   Show the newest messages, optionally only those with a status
+  show <messageId>                   Show one message with its last delivery error
+  retry <messageId>                  Queue a dead message for delivery again
+  retry-dead                         Queue every dead message for delivery again`;
+
+function formatMessage(message: OutboxMessageEntity): string {
+  const reference = message.appointmentId ? `appointment ${message.appointmentId}` : `waitlist entry ${message.waitlistEntryId}`;
+  const line = `${message.id}  ${message.status.padEnd(7)}  ${message.type.padEnd(5)}  ${message.eventType} to ${message.to} for ${reference}` +
+    `  (${message.attempts} attempts, created ${message.createdAt?.toISOString()})`;
+  return message.lastError ? `${line}\n    last error: ${message.lastError}` : line;
+}
+
+async function run(outboxService: OutboxService, [command, ...args]: string[]): Promise<void> {
+  switch (command) {
+    case 'list': {
+      const [status, limit] = args;
+      if (status && !Object.values(OutboxStatus).includes(status as OutboxStatus)) {
+        throw new Error(`Unknown status "${status}"`);
+      }
+      const messages = await outboxService.listMessages({
+        status: status as OutboxStatus | undefined,
+        limit: limit ? Number(limit) : undefined
+      });
+      messages.forEach(message => console.log(formatMessage(message)));
+      console.log(`${messages.length} message(s)`);
+      return;
+    }
+    case 'show': {
+      const message = await outboxService.getMessage(args[0]);
+      console.log(formatMessage(message));
+      console.log(`\n${message.subject}\n${message.body}`);
+      return;
+    }
+    case 'retry': {
+      const message = await outboxService.retryMessage(args[0]);
+      console.log(`Queued ${message.id} for delivery`);
+      return;
+    }
+    case 'retry-dead': {
+      const requeued = await outboxService.retryDeadMessages();
+      console.log(`Queued ${requeued} dead message(s) for delivery`);
+      return;
+    }
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+const main = async () => {
+  const outboxRepository = new PostgresOutboxRepository();
+  // Delivery itself is left to the running app; these settings only matter to its worker
+  const outboxService = new OutboxService(
+    { maxAttempts: Number(process.env.OUTBOX_MAX_ATTEMPTS || 8), retryBaseSeconds: 30, retryMaxSeconds: 3600 },
+    outboxRepository,
+    new MessageService({}, createMessageTransports())
+  );
+
+  try {
+    await run(outboxService, process.argv.slice(2));
+  } catch (err: any) {
+    console.error(`Error: ${err.message}`);
+    process.exitCode = 1;
+  } finally {
+    await outboxRepository.close();
+  }
+};
+
+main();
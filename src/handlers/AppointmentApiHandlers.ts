@@ -0,0 +1,119 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IAppointmentService } from '../services/interfaces/IAppointmentService';
+import { AppointmentEntity } from '../models/AppointmentEntity';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+import { getApiKeyId } from '../utils/apiAuth';
+import { parseDateTimeInput } from '../utils/dateUtils';
+import { ScheduleRequestSchema } from '../types/schedule';
+import { AppointmentSearchQuerySchema, AppointmentUpdateSchema, AppointmentCancelSchema } from '../types/api';
+import { ActorType, ChangeChannel, ChangeContext } from '../types/appointmentEvent';
+
+type AppointmentParams = { Params: { appointmentId: string } };
+
+/**
+ * REST handlers for front-desk staff under /api/v1/appointments.
+ * Errors are returned with real HTTP status codes rather than the Retell-style always-200 responses.
+ */
+export class AppointmentApiHandlers {
+  constructor(
+    private appointmentService: IAppointmentService,
+    private timeZone: string = 'UTC' // Date strings without a UTC offset are read as clinic-local time
+  ) {}
+
+  private toResponse(appointment: AppointmentEntity) {
+    const { notes, ...rest } = appointment;
+    return rest;
+  }
+
+  private parseDateInput(value: unknown): unknown {
+    return typeof value === 'string' ? parseDateTimeInput(value, this.timeZone) : value;
+  }
+
+  // Changes made through the API are put down to the key they were made with
+  private changeContext(request: FastifyRequest): ChangeContext {
+    return { channel: ChangeChannel.ADMIN_API, actorType: ActorType.API_USER, actorId: getApiKeyId(request) };
+  }
+
+  private sendValidationError(reply: FastifyReply, error: { flatten: () => unknown }) {
+    reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: error.flatten() });
+  }
+
+  listAppointments = withHttpErrorHandling(async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = (request.query ?? {}) as Record<string, any>;
+    const parsed = AppointmentSearchQuerySchema.safeParse({
+      ...query,
+      from: query.from ? this.parseDateInput(query.from) : undefined,
+      to: query.to ? this.parseDateInput(query.to) : undefined
+    });
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const { status, type, ...filters } = parsed.data;
+    const result = await this.appointmentService.searchAppointments({ ...filters, statuses: status, types: type });
+    reply.send({
+      data: result.appointments.map(apt => this.toResponse(apt)),
+      count: result.appointments.length,
+      nextCursor: result.nextCursor ?? null
+    });
+  });
+
+  getAppointment = withHttpErrorHandling(async (request: FastifyRequest<AppointmentParams>, reply: FastifyReply) => {
+    const appointment = await this.appointmentService.getAppointment(request.params.appointmentId);
+    reply.send({ data: this.toResponse(appointment) });
+  });
+
+  createAppointment = withHttpErrorHandling(async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, any>;
+    const parsed = ScheduleRequestSchema.safeParse({
+      ...body,
+      startAt: this.parseDateInput(body.startAt),
+      endAt: body.endAt ? this.parseDateInput(body.endAt) : undefined,
+      notes: { ...body.notes, source: 'api' }
+    });
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const appointment = await this.appointmentService.createAppointment(parsed.data, this.changeContext(request));
+    reply.code(201).send({ data: this.toResponse(appointment) });
+  });
+
+  updateAppointment = withHttpErrorHandling(async (request: FastifyRequest<AppointmentParams>, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, any>;
+    const parsed = AppointmentUpdateSchema.safeParse({
+      ...body,
+      startAt: body.startAt ? this.parseDateInput(body.startAt) : undefined,
+      endAt: body.endAt ? this.parseDateInput(body.endAt) : undefined
+    });
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const { scope, ...changes } = parsed.data;
+    const appointment = await this.appointmentService.editAppointment(
+      request.params.appointmentId,
+      changes,
+      scope ?? 'this',
+      this.changeContext(request)
+    );
+    reply.send({ data: appointment ? this.toResponse(appointment) : null });
+  });
+
+  cancelAppointment = withHttpErrorHandling(async (request: FastifyRequest<AppointmentParams>, reply: FastifyReply) => {
+    const parsed = AppointmentCancelSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const { appointmentId } = request.params;
+    await this.appointmentService.cancelAppointment(appointmentId, parsed.data.scope ?? 'this', this.changeContext(request));
+
+    const appointment = await this.appointmentService.getAppointment(appointmentId);
+    reply.send({ data: this.toResponse(appointment) });
+  });
+}
@@ -0,0 +1,24 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IAppointmentService } from '../services/interfaces/IAppointmentService';
+import { IAppointmentHistoryService } from '../services/interfaces/IAppointmentHistoryService';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+
+type AppointmentParams = { Params: { appointmentId: string } };
+
+/**
+ * REST handlers for front-desk staff: who changed an appointment, how and when.
+ */
+export class AppointmentHistoryApiHandlers {
+  constructor(
+    private appointmentService: IAppointmentService,
+    private historyService: IAppointmentHistoryService
+  ) {}
+
+  listAppointmentEvents = withHttpErrorHandling(async (request: FastifyRequest<AppointmentParams>, reply: FastifyReply) => {
+    // 404 for unknown appointments rather than an empty history
+    await this.appointmentService.getAppointment(request.params.appointmentId);
+
+    const events = await this.historyService.getAppointmentEvents(request.params.appointmentId);
+    reply.send({ data: events, count: events.length });
+  });
+}
@@ -0,0 +1,25 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ICalendarSyncService } from '../services/interfaces/ICalendarSyncService';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+
+type AppointmentParams = { Params: { appointmentId: string } };
+
+/**
+ * REST handlers for front-desk staff: push an appointment to Google Calendar again, e.g. one
+ * whose calendar sync failed.
+ */
+export class CalendarSyncApiHandlers {
+  constructor(private calendarSyncService: ICalendarSyncService) {}
+
+  syncAppointment = withHttpErrorHandling(async (request: FastifyRequest<AppointmentParams>, reply: FastifyReply) => {
+    const appointment = await this.calendarSyncService.resyncAppointment(request.params.appointmentId);
+    // Still pending when this attempt failed too; the worker keeps retrying
+    reply.send({
+      data: {
+        appointmentId: appointment.id,
+        calendarEventId: appointment.calendarEventId ?? null,
+        calendarSyncState: appointment.calendarSyncState
+      }
+    });
+  });
+}
@@ -0,0 +1,68 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IMessageHistoryService } from '../services/interfaces/IMessageHistoryService';
+import { DeliveryReceipt, MessageStatus } from '../types/message';
+import { MessageChannel } from '../types/outbox';
+
+// Provider statuses that settle a message; anything else (queued, sending, sent) is progress we don't track
+const FINAL_STATUSES: Record<string, DeliveryReceipt['status']> = {
+  delivered: MessageStatus.DELIVERED,
+  delivery: MessageStatus.DELIVERED,
+  undelivered: MessageStatus.UNDELIVERED,
+  failed: MessageStatus.UNDELIVERED,
+  bounce: MessageStatus.UNDELIVERED,
+  bounced: MessageStatus.UNDELIVERED,
+  dropped: MessageStatus.UNDELIVERED,
+  rejected: MessageStatus.UNDELIVERED
+};
+
+/**
+ * Delivery receipt webhooks from message providers. Every receipt is acknowledged with 204,
+ * even unknown ones, so providers don't keep retrying reports we can't use.
+ */
+export class DeliveryReceiptHandlers {
+  constructor(private messageHistoryService: IMessageHistoryService) {}
+
+  private async record(channel: MessageChannel, providerMessageId: unknown, status: unknown, detail: Record<string, unknown>) {
+    const finalStatus = typeof status === 'string' ? FINAL_STATUSES[status.toLowerCase()] : undefined;
+    if (typeof providerMessageId !== 'string' || !providerMessageId || !finalStatus) {
+      return;
+    }
+
+    await this.messageHistoryService.recordReceipt({
+      channel,
+      providerMessageId: providerMessageId.replace(/^<|>$/g, ''),
+      status: finalStatus,
+      detail
+    });
+  }
+
+  /**
+   * Twilio-style status callback: a form post with MessageSid and MessageStatus (and ErrorCode on failure).
+   */
+  handleSmsReceipt = async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    try {
+      await this.record('sms', body.MessageSid ?? body.SmsSid, body.MessageStatus ?? body.SmsStatus, body);
+    } catch (error) {
+      console.error('Error recording SMS delivery receipt:', error);
+      reply.code(500).send({ code: 'INTERNAL_ERROR', message: 'Failed to record the receipt' });
+      return;
+    }
+    reply.code(204).send();
+  };
+
+  /**
+   * Email events relayed as JSON: `{ "messageId": "...", "status": "delivered" | "bounced" | ... }`.
+   */
+  handleEmailReceipt = async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    try {
+      await this.record('email', body.messageId, body.status ?? body.event, body);
+    } catch (error) {
+      console.error('Error recording email delivery receipt:', error);
+      reply.code(500).send({ code: 'INTERNAL_ERROR', message: 'Failed to record the receipt' });
+      return;
+    }
+    reply.code(204).send();
+  };
+}
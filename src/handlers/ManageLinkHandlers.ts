@@ -0,0 +1,153 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IManageLinkService } from '../services/interfaces/IManageLinkService';
+import { AppointmentEntity } from '../models/AppointmentEntity';
+import { AppointmentStatus } from '../types/schedule';
+import { AppError } from '../types/errors';
+import { getHttpStatusForError } from '../utils/errorHandler';
+import { escapeHtml, sendHtmlPage } from '../utils/htmlUtils';
+
+type ManageParams = { Params: { token: string } };
+type SlotsRequest = ManageParams & { Querystring: { from?: string } };
+type RescheduleRequest = ManageParams & { Body: { startAt?: string } };
+
+/**
+ * Public pages behind the self-service links in confirmation and reminder messages.
+ * Opening a page never changes the appointment; every change is a form post, so link previews
+ * in mail and messaging apps can't confirm or cancel by accident.
+ */
+export class ManageLinkHandlers {
+  constructor(
+    private manageLinkService: IManageLinkService,
+    private timeZone: string = 'UTC',
+    private clinicName: string = 'MedMe Medical Center'
+  ) {}
+
+  private formatDateTime(date: Date, timeZone?: string): string {
+    return date.toLocaleString('en-US', {
+      timeZone: timeZone ?? this.timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    });
+  }
+
+  private pagePath(token: string, action = ''): string {
+    return `/appointments/manage/${encodeURIComponent(token)}${action && `/${action}`}`;
+  }
+
+  private sendPage(reply: FastifyReply, statusCode: number, title: string, content: string) {
+    sendHtmlPage(reply, statusCode, title, this.clinicName, content);
+  }
+
+  private sendError(reply: FastifyReply, error: unknown) {
+    if (error instanceof AppError) {
+      this.sendPage(reply, getHttpStatusForError(error), 'Unable to update your appointment', `<p>${escapeHtml(error.message)}</p>`);
+      return;
+    }
+    throw error;
+  }
+
+  private describe(appointment: AppointmentEntity): string {
+    return `<p>Hi ${escapeHtml(appointment.firstName)}, your ${escapeHtml(appointment.type)} appointment is on
+  <strong>${escapeHtml(this.formatDateTime(appointment.startAt))}</strong>.</p>`;
+  }
+
+  showAppointment = async (request: FastifyRequest<ManageParams>, reply: FastifyReply) => {
+    try {
+      const { token } = request.params;
+      const appointment = await this.manageLinkService.getAppointment(token);
+
+      if (appointment.status === AppointmentStatus.CANCELLED || appointment.status === AppointmentStatus.COMPLETED) {
+        this.sendPage(reply, 200, 'Your appointment', `
+  <p>Hi ${escapeHtml(appointment.firstName)}, your ${escapeHtml(appointment.type)} appointment on
+  ${escapeHtml(this.formatDateTime(appointment.startAt))} is ${escapeHtml(appointment.status)}.</p>`);
+        return;
+      }
+
+      const confirm = appointment.status === AppointmentStatus.CONFIRMED
+        ? '<p>You have confirmed that you will attend.</p>'
+        : `<form method="post" action="${this.pagePath(token, 'confirm')}">
+    <button type="submit">I will attend</button>
+  </form>`;
+      this.sendPage(reply, 200, 'Your appointment', `
+  ${this.describe(appointment)}
+  ${confirm}
+  <p><a href="${this.pagePath(token, 'reschedule')}">Choose a different time</a></p>
+  <form method="post" action="${this.pagePath(token, 'cancel')}">
+    <button type="submit">Cancel this appointment</button>
+  </form>`);
+    } catch (error) {
+      this.sendError(reply, error);
+    }
+  };
+
+  confirmAppointment = async (request: FastifyRequest<ManageParams>, reply: FastifyReply) => {
+    try {
+      const appointment = await this.manageLinkService.confirmAppointment(request.params.token);
+      this.sendPage(reply, 200, 'Appointment confirmed', `
+  ${this.describe(appointment)}
+  <p>Thank you for confirming. See you then!</p>`);
+    } catch (error) {
+      this.sendError(reply, error);
+    }
+  };
+
+  cancelAppointment = async (request: FastifyRequest<ManageParams>, reply: FastifyReply) => {
+    try {
+      const appointment = await this.manageLinkService.cancelAppointment(request.params.token);
+      this.sendPage(reply, 200, 'Appointment cancelled', `
+  <p>Your ${escapeHtml(appointment.type)} appointment on ${escapeHtml(this.formatDateTime(appointment.startAt))} is cancelled.
+  A confirmation is on its way.</p>`);
+    } catch (error) {
+      this.sendError(reply, error);
+    }
+  };
+
+  showRescheduleSlots = async (request: FastifyRequest<SlotsRequest>, reply: FastifyReply) => {
+    try {
+      const { token } = request.params;
+      const from = request.query.from ? new Date(request.query.from) : undefined;
+      const slots = await this.manageLinkService.findRescheduleSlots(token, from && !isNaN(from.getTime()) ? from : undefined);
+
+      if (slots.length === 0) {
+        this.sendPage(reply, 200, 'Choose a new time', `
+  <p>There are no open times in the coming days. Please call the clinic to find another time.</p>
+  <p><a href="${this.pagePath(token)}">Back to your appointment</a></p>`);
+        return;
+      }
+
+      const choices = slots.map(slot => `
+  <form method="post" action="${this.pagePath(token, 'reschedule')}">
+    <input type="hidden" name="startAt" value="${slot.startAt.toISOString()}">
+    <button type="submit">${escapeHtml(this.formatDateTime(slot.startAt, slot.timeZone))}</button>
+  </form>`).join('');
+      const later = `${this.pagePath(token, 'reschedule')}?from=${encodeURIComponent(slots[slots.length - 1].endAt.toISOString())}`;
+      this.sendPage(reply, 200, 'Choose a new time', `
+  <p>Pick one of these open times to move your appointment.</p>${choices}
+  <p><a href="${later}">Show later times</a> · <a href="${this.pagePath(token)}">Back to your appointment</a></p>`);
+    } catch (error) {
+      this.sendError(reply, error);
+    }
+  };
+
+  rescheduleAppointment = async (request: FastifyRequest<RescheduleRequest>, reply: FastifyReply) => {
+    try {
+      const startAt = new Date(request.body?.startAt ?? '');
+      if (isNaN(startAt.getTime())) {
+        this.sendPage(reply, 400, 'Unable to update your appointment', '<p>Please pick one of the listed times.</p>');
+        return;
+      }
+
+      const appointment = await this.manageLinkService.rescheduleAppointment(request.params.token, startAt);
+      this.sendPage(reply, 200, 'Appointment moved', `
+  <p>Your ${escapeHtml(appointment.type)} appointment is now on
+  <strong>${escapeHtml(this.formatDateTime(appointment.startAt))}</strong>. A confirmation is on its way.</p>`);
+    } catch (error) {
+      this.sendError(reply, error);
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IAppointmentService } from '../services/interfaces/IAppointmentService';
+import { IMessageHistoryService } from '../services/interfaces/IMessageHistoryService';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+
+type AppointmentParams = { Params: { appointmentId: string } };
+
+/**
+ * REST handlers for front-desk staff: what was sent to the patient about an appointment.
+ */
+export class MessageApiHandlers {
+  constructor(
+    private appointmentService: IAppointmentService,
+    private messageHistoryService: IMessageHistoryService
+  ) {}
+
+  listAppointmentMessages = withHttpErrorHandling(async (request: FastifyRequest<AppointmentParams>, reply: FastifyReply) => {
+    // 404 for unknown appointments rather than an empty history
+    await this.appointmentService.getAppointment(request.params.appointmentId);
+
+    const messages = await this.messageHistoryService.getAppointmentMessages(request.params.appointmentId);
+    reply.send({ data: messages, count: messages.length });
+  });
+}
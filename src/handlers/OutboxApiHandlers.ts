@@ -0,0 +1,44 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IOutboxService } from '../services/interfaces/IOutboxService';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+import { OutboxListQuerySchema } from '../types/api';
+
+type OutboxMessageParams = { Params: { messageId: string } };
+
+/**
+ * REST handlers for front-desk staff under /api/v1/outbox: inspect queued patient
+ * messages and re-drive the ones that ran out of delivery attempts.
+ */
+export class OutboxApiHandlers {
+  constructor(private outboxService: IOutboxService) {}
+
+  private sendValidationError(reply: FastifyReply, error: { flatten: () => unknown }) {
+    reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: error.flatten() });
+  }
+
+  listMessages = withHttpErrorHandling(async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = OutboxListQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const messages = await this.outboxService.listMessages(parsed.data);
+    reply.send({ data: messages, count: messages.length });
+  });
+
+  getMessage = withHttpErrorHandling(async (request: FastifyRequest<OutboxMessageParams>, reply: FastifyReply) => {
+    const message = await this.outboxService.getMessage(request.params.messageId);
+    reply.send({ data: message });
+  });
+
+  retryMessage = withHttpErrorHandling(async (request: FastifyRequest<OutboxMessageParams>, reply: FastifyReply) => {
+    const message = await this.outboxService.retryMessage(request.params.messageId);
+    reply.send({ data: message });
+  });
+
+  retryDeadMessages = withHttpErrorHandling(async (_request: FastifyRequest, reply: FastifyReply) => {
+    const requeued = await this.outboxService.retryDeadMessages();
+    reply.send({ data: { requeued } });
+  });
+}
@@ -0,0 +1,69 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IPatientService } from '../services/interfaces/IPatientService';
+import { ICommunicationPreferencesService } from '../services/interfaces/ICommunicationPreferencesService';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+import { PatientListQuerySchema, PatientMergeSchema } from '../types/api';
+import { ConsentSource, PreferencesUpdateSchema } from '../types/preferences';
+
+type PatientParams = { Params: { patientId: string } };
+
+/**
+ * REST handlers for front-desk staff under /api/v1/patients.
+ */
+export class PatientApiHandlers {
+  constructor(
+    private patientService: IPatientService,
+    private preferencesService: ICommunicationPreferencesService
+  ) {}
+
+  listPatients = withHttpErrorHandling(async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = PatientListQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() });
+      return;
+    }
+
+    const patients = await this.patientService.findPatientsByContact(parsed.data.email, parsed.data.phoneNumber);
+    reply.send({ data: patients, count: patients.length });
+  });
+
+  getPatient = withHttpErrorHandling(async (request: FastifyRequest<PatientParams>, reply: FastifyReply) => {
+    const patient = await this.patientService.getPatient(request.params.patientId);
+    reply.send({ data: patient });
+  });
+
+  /**
+   * Merge the patient in the URL (a duplicate) into `targetPatientId`, moving its appointment history.
+   */
+  mergePatient = withHttpErrorHandling(async (request: FastifyRequest<PatientParams>, reply: FastifyReply) => {
+    const parsed = PatientMergeSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() });
+      return;
+    }
+
+    const patient = await this.patientService.mergePatients(request.params.patientId, parsed.data.targetPatientId);
+    reply.send({ data: patient });
+  });
+
+  getPreferences = withHttpErrorHandling(async (request: FastifyRequest<PatientParams>, reply: FastifyReply) => {
+    const preferences = await this.preferencesService.getPreferences(request.params.patientId);
+    reply.send({ data: preferences });
+  });
+
+  /**
+   * Change the preferred channel or quiet hours, or record consents the patient gave to staff.
+   */
+  updatePreferences = withHttpErrorHandling(async (request: FastifyRequest<PatientParams>, reply: FastifyReply) => {
+    const parsed = PreferencesUpdateSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() });
+      return;
+    }
+
+    const preferences = await this.preferencesService.updatePreferences(request.params.patientId, parsed.data, {
+      source: ConsentSource.STAFF
+    });
+    reply.send({ data: preferences });
+  });
+}
@@ -1,9 +1,35 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { IAppointmentService } from '../services/interfaces/IAppointmentService';
 import { ICalendarService } from '../services/interfaces/ICalendarService';
-import { withErrorHandling } from '../utils/errorHandler';
+import { IAvailabilityService } from '../services/interfaces/IAvailabilityService';
+import { IWaitlistService } from '../services/interfaces/IWaitlistService';
+import { ICommunicationPreferencesService } from '../services/interfaces/ICommunicationPreferencesService';
+import { IToolCallService } from '../services/interfaces/IToolCallService';
+import { IAppointmentHistoryService } from '../services/interfaces/IAppointmentHistoryService';
+import { AppointmentEventEntity } from '../models/AppointmentEventEntity';
+import { ToolCallResponse } from '../types/toolCall';
+import { ActorType, AppointmentSnapshot, ChangeChannel, ChangeContext } from '../types/appointmentEvent';
+import { getApiErrorBody, withErrorHandling } from '../utils/errorHandler';
 import { Retell } from 'retell-sdk';
 import { ScheduleRequestSchema } from '../types/schedule';
+import { WaitlistRequestSchema } from '../types/waitlist';
+import { ConsentSource, PreferencesUpdateSchema } from '../types/preferences';
+import { SeriesRequestSchema, SeriesScope, SeriesScopeSchema } from '../types/series';
+import { describeRecurrence } from '../utils/recurrenceUtils';
+import { formatZonedISOString, getZonedDateParts, parseDateTimeInput, zonedTimeToUtc } from '../utils/dateUtils';
+
+// What a tool call answers the agent with; always sent with HTTP 200
+type ToolResult = Record<string, unknown>;
+
+// Tool calls that change data, so a retry must get the first response instead of running again
+const DATA_CHANGING_FUNCTIONS = new Set([
+  'schedule_appointment',
+  'schedule_recurring_appointment',
+  'reschedule_appointment',
+  'cancel_appointment',
+  'join_waitlist',
+  'record_communication_consent'
+]);
 
 /**
  * Service handlers for schedule operations.
@@ -12,7 +38,13 @@ import { ScheduleRequestSchema } from '../types/schedule';
 export class ScheduleHandlers {
   constructor(
     private appointmentService: IAppointmentService,
-    private calendarService: ICalendarService
+    private calendarService: ICalendarService,
+    private availabilityService: IAvailabilityService,
+    private timeZone: string = 'UTC', // Clinic IANA time zone; the agent speaks in local wall-clock time
+    private waitlistService?: IWaitlistService,
+    private preferencesService?: ICommunicationPreferencesService,
+    private toolCallService?: IToolCallService, // Makes retried tool calls idempotent
+    private historyService?: IAppointmentHistoryService
   ) {}
 
   // Helper function to clean appointment data before returning in responses
@@ -25,6 +57,36 @@ export class ScheduleHandlers {
     return cleaned;
   }
 
+  // Date strings without a UTC offset are read as clinic-local time
+  private parseDateInput(value: unknown): unknown {
+    return typeof value === 'string' ? parseDateTimeInput(value, this.timeZone) : value;
+  }
+
+  private formatLocal(date: Date, timeZone: string = this.timeZone): string {
+    return formatZonedISOString(date, timeZone);
+  }
+
+  // The end of a range; a bare date ("2025-09-22") includes that whole local day
+  private parseRangeEnd(value: string): Date {
+    const end = parseDateTimeInput(value, this.timeZone);
+    if (!isNaN(end.getTime()) && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      const day = getZonedDateParts(end, this.timeZone);
+      return zonedTimeToUtc(day.year, day.month, day.day + 1, 0, 0, this.timeZone);
+    }
+    return end;
+  }
+
+  // Changes the agent makes are put down to the call they were made on
+  private changeContext(call: any): ChangeContext {
+    return { channel: ChangeChannel.VOICE_AGENT, actorType: ActorType.RETELL_CALL, actorId: call?.call_id };
+  }
+
+  // Which occurrences of a series a change applies to; undefined when the value is not recognised
+  private parseScope(value: unknown): SeriesScope | undefined {
+    const parsed = SeriesScopeSchema.safeParse(value || 'this');
+    return parsed.success ? parsed.data : undefined;
+  }
+
   /**
    * Handles Retell webhook requests for appointment scheduling.
    */
@@ -47,86 +109,169 @@ export class ScheduleHandlers {
     const { name, call, args } = body;
     console.log(`📞 ${name}:`, args);
 
+    // Retell retries tool calls; each distinct call that changes data runs once and duplicates get the
+    // first response. Reads are answered afresh, so a retry sees the current schedule.
+    if (this.toolCallService && call?.call_id && DATA_CHANGING_FUNCTIONS.has(name)) {
+      const outcome = await this.toolCallService.execute(
+        { callId: call.call_id, functionName: name, args },
+        () => this.recordResponse(name, call, args)
+      );
+      reply.code(outcome.statusCode).send(outcome.body);
+      return;
+    }
+
+    reply.code(200).send(await this.dispatch(name, call, args));
+  });
+
+  /**
+   * Run a tool call and capture its response, so it can be stored.
+   * Known errors become responses like they do for direct calls; other errors propagate.
+   */
+  private async recordResponse(name: string, call: any, args: any): Promise<ToolCallResponse> {
+    try {
+      return { statusCode: 200, body: await this.dispatch(name, call, args) };
+    } catch (error) {
+      const body = getApiErrorBody(error);
+      if (!body) {
+        throw error;
+      }
+      return { statusCode: 200, body };
+    }
+  }
+
+  private async dispatch(name: string, call: any, args: any): Promise<ToolResult> {
     // Handle different custom function names
     switch (name) {
       case 'schedule_appointment':
-        return await this.handleScheduleAppointment(call, args, reply);
+        return await this.handleScheduleAppointment(call, args);
+      case 'schedule_recurring_appointment':
+        return await this.handleScheduleRecurringAppointment(call, args);
       case 'check_booked_slots':
-        return await this.handleCheckBookedSlots(call, args, reply);
+        return await this.handleCheckBookedSlots(call, args);
+      case 'find_available_slots':
+        return await this.handleFindAvailableSlots(call, args);
       case 'reschedule_appointment':
-        return await this.handleRescheduleAppointment(call, args, reply);
+        return await this.handleRescheduleAppointment(call, args);
       case 'cancel_appointment':
-        return await this.handleCancelAppointment(call, args, reply);
+        return await this.handleCancelAppointment(call, args);
       case 'get_active_appointments_by_email_or_phone':
-        return await this.handleGetActiveAppointmentsByEmail(call, args, reply);
+        return await this.handleGetActiveAppointmentsByEmail(call, args);
       case 'get_current_time':
-        return await this.handleGetCurrentTime(call, args, reply);
+        return await this.handleGetCurrentTime(call, args);
+      case 'list_providers':
+        return await this.handleListProviders(call, args);
+      case 'join_waitlist':
+        return await this.handleJoinWaitlist(call, args);
+      case 'record_communication_consent':
+        return await this.handleRecordCommunicationConsent(call, args);
+      case 'get_appointment_history':
+        return await this.handleGetAppointmentHistory(call, args);
       default:
-        reply.code(200).send({ success: false, code: 'UNKNOWN_FUNCTION', message: `Unknown function: ${name}` });
-        return;
+        return { success: false, code: 'UNKNOWN_FUNCTION', message: `Unknown function: ${name}` };
     }
-  });
+  }
 
-  private async handleScheduleAppointment(call: any, args: any, reply: FastifyReply) {
-    const { firstName, lastName, email, phoneNumber, startAt, endAt, type, notes, reason } = args;
+  private async handleScheduleAppointment(call: any, args: any): Promise<ToolResult> {
+    const { firstName, lastName, email, phoneNumber, startAt, endAt, type, notes, reason, providerId, language } = args;
 
     const parsed = ScheduleRequestSchema.safeParse({
       firstName,
       lastName,
       email,
       phoneNumber,
-      startAt,
-      endAt,
+      startAt: this.parseDateInput(startAt),
+      endAt: endAt ? this.parseDateInput(endAt) : undefined,
       type,
       notes: call,
       reason,
-      callId: call?.call_id
+      callId: call?.call_id,
+      providerId: providerId || undefined,
+      preferredLanguage: language || undefined
     });
 
     if (!parsed.success) {
-      reply.code(200).send({ success: false, code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() });
-      return;
+      return { success: false, code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() };
     }
 
     // Create appointment using the service
-    const appointment = await this.appointmentService.createAppointment(parsed.data);
+    const appointment = await this.appointmentService.createAppointment(parsed.data, this.changeContext(call));
 
-    reply.send({
+    return {
       success: "true",
-      message: `Appointment scheduled for ${parsed.data.firstName} ${parsed.data.lastName} (${parsed.data.email}) from ${parsed.data.startAt.toISOString()} to ${parsed.data.endAt.toISOString()}`,
-      appointmentId: appointment.id
+      message: `Appointment scheduled for ${parsed.data.firstName} ${parsed.data.lastName} (${parsed.data.email}) from ${this.formatLocal(appointment.startAt)} to ${this.formatLocal(appointment.endAt)}`,
+      appointmentId: appointment.id,
+      providerId: appointment.providerId
+    };
+  }
+
+  private async handleScheduleRecurringAppointment(call: any, args: any): Promise<ToolResult> {
+    const { firstName, lastName, email, phoneNumber, startAt, endAt, type, reason, providerId, language, frequency, interval, count, until, exceptions } = args;
+
+    const parsed = SeriesRequestSchema.safeParse({
+      firstName,
+      lastName,
+      email,
+      phoneNumber,
+      startAt: this.parseDateInput(startAt),
+      endAt: endAt ? this.parseDateInput(endAt) : undefined,
+      type,
+      notes: call,
+      reason,
+      callId: call?.call_id,
+      providerId: providerId || undefined,
+      preferredLanguage: language || undefined,
+      recurrence: {
+        frequency,
+        interval: interval || undefined,
+        count: count || undefined,
+        until: until ? this.parseRangeEnd(String(until)) : undefined,
+        exceptions: Array.isArray(exceptions) ? exceptions : undefined
+      }
     });
+
+    if (!parsed.success) {
+      return { success: false, code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() };
+    }
+
+    const { series, appointments } = await this.appointmentService.createSeries(parsed.data, this.changeContext(call));
+    const last = appointments[appointments.length - 1];
+
+    return {
+      success: "true",
+      message: `${appointments.length} ${series.type} appointments scheduled for ${series.firstName} ${series.lastName} ${describeRecurrence(series.recurrence)}, from ${this.formatLocal(appointments[0].startAt)} to ${this.formatLocal(last.startAt)}`,
+      seriesId: series.id,
+      appointmentIds: appointments.map(apt => apt.id),
+      providerId: series.providerId
+    };
   }
 
-  private async handleCheckBookedSlots(call: any, args: any, reply: FastifyReply) {
+  private async handleCheckBookedSlots(call: any, args: any): Promise<ToolResult> {
     const { dateStr } = args;
     
     // Validate date string
     if (!dateStr || typeof dateStr !== 'string') {
-      reply.code(200).send({ 
+      return { 
         success: false, 
         code: 'INVALID_DATE', 
         message: 'dateStr is required and must be a valid date string' 
-      });
-      return;
+      };
     }
     
-    const date = new Date(dateStr);
+    const date = parseDateTimeInput(dateStr, this.timeZone);
     
     // Check if date is valid
     if (isNaN(date.getTime())) {
-      reply.code(200).send({ 
+      return { 
         success: false, 
         code: 'INVALID_DATE', 
         message: `Invalid date string: ${dateStr}` 
-      });
-      return;
+      };
     }
     
     const bookedSlots = await this.calendarService.getBookedSlotsForDate(date);
 
     // Convert dateStr to UTC for comparison
-    const checkTimeUTC = new Date(dateStr).toISOString();
+    const checkTimeUTC = date.toISOString();
 
     // Check if the dateStr time is among the booked slots using functional approach
     const available = !bookedSlots.some(slot => {
@@ -137,132 +282,348 @@ export class ScheduleHandlers {
       return checkTimeUTC >= slotStart && checkTimeUTC < slotEnd;
     });
 
-    reply.send({
+    return {
       success: "true",
       bookedSlots,
       available
+    };
+  }
+
+  private async handleFindAvailableSlots(call: any, args: any): Promise<ToolResult> {
+    const { startDate, endDate, type, providerId } = args;
+
+    // Whether the clinic offers the type is checked against the catalogue
+    if (!type || typeof type !== 'string') {
+      return {
+        success: false,
+        code: 'INVALID_TYPE',
+        message: 'type is required'
+      };
+    }
+
+    const from = startDate ? parseDateTimeInput(String(startDate), this.timeZone) : new Date();
+    if (isNaN(from.getTime())) {
+      return {
+        success: false,
+        code: 'INVALID_DATE',
+        message: `Invalid startDate: ${startDate}`
+      };
+    }
+
+    // Default to one day from the start
+    const to = endDate
+      ? this.parseRangeEnd(String(endDate))
+      : new Date(from.getTime() + 24 * 60 * 60 * 1000);
+
+    if (isNaN(to.getTime())) {
+      return {
+        success: false,
+        code: 'INVALID_DATE',
+        message: `Invalid endDate: ${endDate}`
+      };
+    }
+
+    const slots = await this.availabilityService.findAvailableSlots({
+      from,
+      to,
+      type,
+      providerId: providerId || undefined
     });
+
+    return {
+      success: "true",
+      slots: slots.map(slot => ({
+        startAt: slot.startAt.toISOString(),
+        endAt: slot.endAt.toISOString(),
+        localStartAt: this.formatLocal(slot.startAt, slot.timeZone),
+        localEndAt: this.formatLocal(slot.endAt, slot.timeZone),
+        providerId: slot.providerId,
+        providerName: slot.providerName
+      })),
+      count: slots.length,
+      message: slots.length > 0
+        ? `Found ${slots.length} available ${type} slot(s)`
+        : `No ${type} slots are available between ${this.formatLocal(from)} and ${this.formatLocal(to)}`
+    };
   }
 
-  private async handleRescheduleAppointment(call: any, args: any, reply: FastifyReply) {
-    const { appointmentId, startAt, endAt, type } = args;
+  private async handleRescheduleAppointment(call: any, args: any): Promise<ToolResult> {
+    const { appointmentId, startAt, endAt, type, providerId } = args;
+    const scope = this.parseScope(args.scope);
     
     // Validate inputs
     if (!appointmentId) {
-      reply.code(200).send({ 
+      return { 
         success: false, 
         code: 'MISSING_APPOINTMENT_ID', 
         message: 'appointmentId is required' 
-      });
-      return;
+      };
     }
     
-    if (!startAt || !endAt) {
-      reply.code(200).send({ 
+    if (!startAt) {
+      return { 
         success: false, 
         code: 'MISSING_DATES', 
-        message: 'startAt and endAt are required' 
-      });
-      return;
+        message: 'startAt is required' 
+      };
+    }
+
+    if (!scope) {
+      return { success: false, code: 'INVALID_SCOPE', message: "scope must be 'this' or 'following'" };
     }
     
-    // Validate dates
-    const startDate = new Date(startAt);
-    const endDate = new Date(endAt);
+    // Validate dates - endAt is optional and defaults to the appointment type's length
+    const startDate = parseDateTimeInput(String(startAt), this.timeZone);
+    const endDate = endAt ? parseDateTimeInput(String(endAt), this.timeZone) : undefined;
     
-    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-      reply.code(200).send({ 
+    if (isNaN(startDate.getTime()) || (endDate && isNaN(endDate.getTime()))) {
+      return { 
         success: false, 
         code: 'INVALID_DATE', 
         message: 'startAt and endAt must be valid date strings' 
-      });
-      return;
+      };
     }
 
     // Prepare update data - only allow date/time and appointment type changes
     const updateData: any = {
-      startAt: startDate,
-      endAt: endDate
+      startAt: startDate
     };
 
+    if (endDate) {
+      updateData.endAt = endDate;
+    }
+
     // Add type if provided
     if (type) {
       updateData.type = type;
     }
 
+    // Move to a different provider if the patient asked for one
+    if (providerId) {
+      updateData.providerId = providerId;
+    }
+
     // Update appointment using the service
-    const updatedAppointment = await this.appointmentService.editAppointment(appointmentId, updateData);
+    const updatedAppointment = await this.appointmentService.editAppointment(appointmentId, updateData, scope, this.changeContext(call));
 
     if (!updatedAppointment) {
-      reply.code(200).send({
+      return {
         success: false,
         code: 'APPOINTMENT_NOT_FOUND',
         message: `Appointment ${appointmentId} not found`
-      });
-      return;
+      };
     }
 
-    const message = type 
-      ? `Appointment ${appointmentId} rescheduled to ${startDate.toISOString()} - ${endDate.toISOString()} and changed to ${type}`
-      : `Appointment ${appointmentId} rescheduled to ${startDate.toISOString()} - ${endDate.toISOString()}`;
+    const newTime = `${this.formatLocal(updatedAppointment.startAt)} - ${this.formatLocal(updatedAppointment.endAt)}`;
+    const rescheduled = scope === 'following'
+      ? `Appointment ${appointmentId} and the rest of its series rescheduled, starting ${newTime}`
+      : `Appointment ${appointmentId} rescheduled to ${newTime}`;
+    const message = type ? `${rescheduled} and changed to ${type}` : rescheduled;
 
-    reply.send({
+    return {
       success: "true",
       message: message
-    });
+    };
   }
 
-  private async handleCancelAppointment(call: any, args: any, reply: FastifyReply) {
+  private async handleCancelAppointment(call: any, args: any): Promise<ToolResult> {
     const { appointmentId } = args;
+    const scope = this.parseScope(args.scope);
     
     // Validate appointmentId
     if (!appointmentId) {
-      reply.code(200).send({ 
+      return { 
         success: false, 
         code: 'MISSING_APPOINTMENT_ID', 
         message: 'appointmentId is required' 
-      });
-      return;
+      };
+    }
+
+    if (!scope) {
+      return { success: false, code: 'INVALID_SCOPE', message: "scope must be 'this' or 'following'" };
     }
 
     // Cancel appointment using the service
-    await this.appointmentService.cancelAppointment(appointmentId);
+    await this.appointmentService.cancelAppointment(appointmentId, scope, this.changeContext(call));
 
-    reply.send({
+    return {
       success: "true",
-      message: `Appointment ${appointmentId} cancelled successfully`
-    });
+      message: scope === 'following'
+        ? `Appointment ${appointmentId} and the rest of its series cancelled successfully`
+        : `Appointment ${appointmentId} cancelled successfully`
+    };
   }
 
-  private async handleGetActiveAppointmentsByEmail(call: any, args: any, reply: FastifyReply) {
+  private async handleGetActiveAppointmentsByEmail(call: any, args: any): Promise<ToolResult> {
     const { emailOrPhone } = args;
     
     // Validate emailOrPhone
     if (!emailOrPhone || typeof emailOrPhone !== 'string' || emailOrPhone.trim().length === 0) {
-      reply.code(200).send({ 
+      return { 
         success: false, 
         code: 'INVALID_INPUT', 
         message: 'emailOrPhone is required and must be a valid string' 
-      });
-      return;
+      };
     }
     
     const appointments = await this.appointmentService.getActiveAppointmentsByEmailOrPhone(emailOrPhone);
     const cleanedAppointments = appointments.map(apt => this.cleanAppointmentForResponse(apt));
-    reply.send({ 
+    return { 
       success: "true", 
       appointments: cleanedAppointments,
       count: appointments.length,
       message: `Found ${appointments.length} active appointment(s) for ${emailOrPhone}`
+    };
+  }
+
+
+  private async handleListProviders(call: any, args: any): Promise<ToolResult> {
+    const providers = await this.appointmentService.getActiveProviders();
+
+    return {
+      success: "true",
+      providers: providers.map(provider => ({
+        id: provider.id,
+        name: provider.displayName
+      })),
+      count: providers.length,
+      message: providers.length > 0
+        ? `Found ${providers.length} provider(s) accepting appointments`
+        : 'No specific providers are configured; appointments are booked with the first available clinician'
+    };
+  }
+
+  private async handleJoinWaitlist(call: any, args: any): Promise<ToolResult> {
+    if (!this.waitlistService) {
+      return { success: false, code: 'WAITLIST_UNAVAILABLE', message: 'The waitlist is not available' };
+    }
+
+    const { firstName, lastName, email, phoneNumber, type, startDate, endDate, providerId, language } = args;
+
+    const parsed = WaitlistRequestSchema.safeParse({
+      firstName,
+      lastName,
+      email,
+      phoneNumber,
+      type,
+      providerId: providerId || undefined,
+      earliestAt: startDate ? this.parseDateInput(startDate) : new Date(),
+      latestAt: endDate ? this.parseRangeEnd(String(endDate)) : undefined,
+      callId: call?.call_id,
+      preferredLanguage: language || undefined
+    });
+
+    if (!parsed.success) {
+      return { success: false, code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() };
+    }
+
+    const entry = await this.waitlistService.joinWaitlist(parsed.data);
+
+    return {
+      success: "true",
+      message: `${entry.firstName} ${entry.lastName} is on the waitlist for a ${entry.type} appointment between ${this.formatLocal(entry.earliestAt)} and ${this.formatLocal(entry.latestAt)}. We'll send a link to claim the first slot that opens up.`,
+      waitlistEntryId: entry.id
+    };
+  }
+
+  private async handleRecordCommunicationConsent(call: any, args: any): Promise<ToolResult> {
+    if (!this.preferencesService) {
+      return { success: false, code: 'PREFERENCES_UNAVAILABLE', message: 'Communication preferences are not available' };
+    }
+
+    const { emailOrPhone, channel, category, granted, preferredChannel, quietHoursStart, quietHoursEnd } = args;
+
+    if (!emailOrPhone || typeof emailOrPhone !== 'string' || emailOrPhone.trim().length === 0) {
+      return {
+        success: false,
+        code: 'INVALID_INPUT',
+        message: 'emailOrPhone is required and must be a valid string'
+      };
+    }
+
+    // "all" is how a caller says "don't text or email me"
+    const channels = channel === 'all' ? ['email', 'sms'] : channel ? [channel] : [];
+    const parsed = PreferencesUpdateSchema.safeParse({
+      preferredChannel: preferredChannel || undefined,
+      quietHours: quietHoursStart || quietHoursEnd ? { start: quietHoursStart, end: quietHoursEnd } : undefined,
+      consents: channels.map(consentChannel => ({ channel: consentChannel, category: category || undefined, granted }))
     });
+
+    if (!parsed.success) {
+      return { success: false, code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() };
+    }
+
+    const updated = await this.preferencesService.updatePreferencesByContact(emailOrPhone.trim(), parsed.data, {
+      source: ConsentSource.VOICE_AGENT,
+      sourceReference: call?.call_id
+    });
+
+    if (updated.length === 0) {
+      return {
+        success: false,
+        code: 'PATIENT_NOT_FOUND',
+        message: `No patient found for ${emailOrPhone}. Preferences can be recorded once the patient has booked.`
+      };
+    }
+
+    return {
+      success: "true",
+      message: `Communication preferences recorded for ${updated.map(({ patient }) => patient.fullName).join(', ')}`,
+      patientIds: updated.map(({ patient }) => patient.id)
+    };
   }
 
+  private async handleGetAppointmentHistory(call: any, args: any): Promise<ToolResult> {
+    if (!this.historyService) {
+      return { success: false, code: 'HISTORY_UNAVAILABLE', message: 'Appointment history is not available' };
+    }
+
+    const { appointmentId } = args;
+    if (!appointmentId) {
+      return {
+        success: false,
+        code: 'MISSING_APPOINTMENT_ID',
+        message: 'appointmentId is required'
+      };
+    }
+
+    // Unknown appointments are reported as such rather than as having no history
+    await this.appointmentService.getAppointment(appointmentId);
+    const events = await this.historyService.getAppointmentEvents(appointmentId);
+
+    return {
+      success: "true",
+      events: events.map(event => this.describeEvent(event)),
+      count: events.length,
+      message: events.length > 0
+        ? `Found ${events.length} change(s) to appointment ${appointmentId}`
+        : `No changes have been recorded for appointment ${appointmentId}`
+    };
+  }
 
-  private async handleGetCurrentTime(call: any, args: any, reply: FastifyReply) {
+  // An event with its times in clinic-local time, like every other time the agent reads out
+  private describeEvent(event: AppointmentEventEntity) {
+    const localize = (snapshot?: Partial<AppointmentSnapshot>) => snapshot && {
+      ...snapshot,
+      ...(snapshot.startAt && { startAt: this.formatLocal(snapshot.startAt) }),
+      ...(snapshot.endAt && { endAt: this.formatLocal(snapshot.endAt) })
+    };
+
+    return {
+      eventType: event.eventType,
+      changedAt: this.formatLocal(event.createdAt!),
+      channel: event.channel,
+      actorType: event.actorType,
+      before: localize(event.before),
+      after: localize(event.after)
+    };
+  }
+
+  private async handleGetCurrentTime(call: any, args: any): Promise<ToolResult> {
     const currentTime = new Date();
     const timeString = currentTime.toISOString();
     const readableTime = currentTime.toLocaleString('en-US', {
-      timeZone: 'UTC',
+      timeZone: this.timeZone,
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -273,15 +634,16 @@ export class ScheduleHandlers {
       timeZoneName: 'short'
     });
 
-    reply.send({
+    return {
       success: "true",
       message: `The current time is ${readableTime}`,
       currentTime: {
         iso: timeString,
+        localIso: this.formatLocal(currentTime),
         readable: readableTime,
         timestamp: currentTime.getTime(),
-        timezone: 'UTC'
+        timezone: this.timeZone
       }
-    });
+    };
   }
 }
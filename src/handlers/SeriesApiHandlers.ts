@@ -0,0 +1,64 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IAppointmentService, AppointmentSeriesResult } from '../services/interfaces/IAppointmentService';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+import { getApiKeyId } from '../utils/apiAuth';
+import { parseDateTimeInput } from '../utils/dateUtils';
+import { SeriesRequestSchema } from '../types/series';
+import { ActorType, ChangeChannel, ChangeContext } from '../types/appointmentEvent';
+
+type SeriesParams = { Params: { seriesId: string } };
+
+/**
+ * REST handlers for front-desk staff under /api/v1/series.
+ * Single occurrences are changed through /api/v1/appointments with a `scope`.
+ */
+export class SeriesApiHandlers {
+  constructor(
+    private appointmentService: IAppointmentService,
+    private timeZone: string = 'UTC' // Date strings without a UTC offset are read as clinic-local time
+  ) {}
+
+  private toResponse({ series, appointments }: AppointmentSeriesResult) {
+    return {
+      ...series,
+      appointments: appointments.map(({ notes, ...appointment }) => appointment)
+    };
+  }
+
+  private parseDateInput(value: unknown): unknown {
+    return typeof value === 'string' ? parseDateTimeInput(value, this.timeZone) : value;
+  }
+
+  // Changes made through the API are put down to the key they were made with
+  private changeContext(request: FastifyRequest): ChangeContext {
+    return { channel: ChangeChannel.ADMIN_API, actorType: ActorType.API_USER, actorId: getApiKeyId(request) };
+  }
+
+  private sendValidationError(reply: FastifyReply, error: { flatten: () => unknown }) {
+    reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: error.flatten() });
+  }
+
+  createSeries = withHttpErrorHandling(async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, any>;
+    const recurrence = body.recurrence ?? {};
+    const parsed = SeriesRequestSchema.safeParse({
+      ...body,
+      startAt: this.parseDateInput(body.startAt),
+      endAt: body.endAt ? this.parseDateInput(body.endAt) : undefined,
+      notes: { ...body.notes, source: 'api' },
+      recurrence: { ...recurrence, until: recurrence.until ? this.parseDateInput(recurrence.until) : undefined }
+    });
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const result = await this.appointmentService.createSeries(parsed.data, this.changeContext(request));
+    reply.code(201).send({ data: this.toResponse(result) });
+  });
+
+  getSeries = withHttpErrorHandling(async (request: FastifyRequest<SeriesParams>, reply: FastifyReply) => {
+    const result = await this.appointmentService.getSeries(request.params.seriesId);
+    reply.send({ data: this.toResponse(result) });
+  });
+}
@@ -0,0 +1,33 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ISmsReplyService } from '../services/interfaces/ISmsReplyService';
+import { escapeHtml } from '../utils/htmlUtils';
+
+/**
+ * Inbound SMS webhook in Twilio's format: a form post with From and Body. The answer goes back
+ * as TwiML in the response, so the gateway texts it to the patient straight away.
+ */
+export class SmsReplyHandlers {
+  constructor(private smsReplyService: ISmsReplyService) {}
+
+  private sendTwiml(reply: FastifyReply, message?: string) {
+    const content = message ? `<Message>${escapeHtml(message)}</Message>` : '';
+    reply.code(200).type('text/xml').send(`<?xml version="1.0" encoding="UTF-8"?><Response>${content}</Response>`);
+  }
+
+  handleInboundSms = async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    if (typeof body.From !== 'string' || !body.From) {
+      // Nothing to answer; an empty response stops the gateway from retrying
+      this.sendTwiml(reply);
+      return;
+    }
+
+    try {
+      const result = await this.smsReplyService.handleReply(body.From, typeof body.Body === 'string' ? body.Body : '');
+      this.sendTwiml(reply, result.reply);
+    } catch (error) {
+      console.error('Error handling inbound SMS:', error);
+      reply.code(500).send({ code: 'INTERNAL_ERROR', message: 'Failed to handle the message' });
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IWaitlistService } from '../services/interfaces/IWaitlistService';
+import { withHttpErrorHandling } from '../utils/errorHandler';
+import { parseDateTimeInput } from '../utils/dateUtils';
+import { WaitlistRequestSchema } from '../types/waitlist';
+import { WaitlistListQuerySchema } from '../types/api';
+
+type WaitlistEntryParams = { Params: { entryId: string } };
+
+/**
+ * REST handlers for front-desk staff under /api/v1/waitlist.
+ */
+export class WaitlistApiHandlers {
+  constructor(
+    private waitlistService: IWaitlistService,
+    private timeZone: string = 'UTC' // Date strings without a UTC offset are read as clinic-local time
+  ) {}
+
+  private parseDateInput(value: unknown): unknown {
+    return typeof value === 'string' ? parseDateTimeInput(value, this.timeZone) : value;
+  }
+
+  private sendValidationError(reply: FastifyReply, error: { flatten: () => unknown }) {
+    reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: error.flatten() });
+  }
+
+  listEntries = withHttpErrorHandling(async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = WaitlistListQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const entries = await this.waitlistService.listEntries(parsed.data.status);
+    reply.send({ data: entries, count: entries.length });
+  });
+
+  joinWaitlist = withHttpErrorHandling(async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, any>;
+    const parsed = WaitlistRequestSchema.safeParse({
+      ...body,
+      earliestAt: this.parseDateInput(body.earliestAt),
+      latestAt: this.parseDateInput(body.latestAt)
+    });
+    if (!parsed.success) {
+      this.sendValidationError(reply, parsed.error);
+      return;
+    }
+
+    const entry = await this.waitlistService.joinWaitlist(parsed.data);
+    reply.code(201).send({ data: entry });
+  });
+
+  /**
+   * Take the entry off the waitlist. A slot it was holding is offered to the next patient.
+   */
+  cancelEntry = withHttpErrorHandling(async (request: FastifyRequest<WaitlistEntryParams>, reply: FastifyReply) => {
+    const entry = await this.waitlistService.leaveWaitlist(request.params.entryId);
+    reply.send({ data: entry });
+  });
+}
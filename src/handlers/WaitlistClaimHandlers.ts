@@ -0,0 +1,74 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IAppointmentService } from '../services/interfaces/IAppointmentService';
+import { IWaitlistService } from '../services/interfaces/IWaitlistService';
+import { getHttpStatusForError } from '../utils/errorHandler';
+import { AppError } from '../types/errors';
+import { escapeHtml, sendHtmlPage } from '../utils/htmlUtils';
+
+type ClaimParams = { Params: { token: string } };
+
+/**
+ * Public pages behind the claim links sent to waitlisted patients.
+ * Opening the link only shows the offer; the slot is booked when the patient confirms, so link
+ * previews in mail and messaging apps can't claim it by accident.
+ */
+export class WaitlistClaimHandlers {
+  constructor(
+    private appointmentService: IAppointmentService,
+    private waitlistService: IWaitlistService,
+    private timeZone: string = 'UTC',
+    private clinicName: string = 'MedMe Medical Center'
+  ) {}
+
+  private formatDateTime(date: Date): string {
+    return date.toLocaleString('en-US', {
+      timeZone: this.timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    });
+  }
+
+  private sendPage(reply: FastifyReply, statusCode: number, title: string, content: string) {
+    sendHtmlPage(reply, statusCode, title, this.clinicName, content);
+  }
+
+  private sendError(reply: FastifyReply, error: unknown) {
+    if (error instanceof AppError) {
+      this.sendPage(reply, getHttpStatusForError(error), 'Offer unavailable', `<p>${escapeHtml(error.message)}</p>`);
+      return;
+    }
+    throw error;
+  }
+
+  showOffer = async (request: FastifyRequest<ClaimParams>, reply: FastifyReply) => {
+    try {
+      const entry = await this.waitlistService.getClaimableOffer(request.params.token);
+      const offer = entry.offer!;
+      this.sendPage(reply, 200, 'An appointment is available', `
+  <p>Hi ${escapeHtml(entry.firstName)}, a ${escapeHtml(entry.type)} appointment opened up on
+  <strong>${escapeHtml(this.formatDateTime(offer.startAt))}</strong>.</p>
+  <p>This offer is held for you until ${escapeHtml(this.formatDateTime(offer.expiresAt))}.</p>
+  <form method="post">
+    <button type="submit">Book this appointment</button>
+  </form>`);
+    } catch (error) {
+      this.sendError(reply, error);
+    }
+  };
+
+  claimOffer = async (request: FastifyRequest<ClaimParams>, reply: FastifyReply) => {
+    try {
+      const appointment = await this.appointmentService.claimWaitlistOffer(request.params.token);
+      this.sendPage(reply, 200, 'Appointment booked', `
+  <p>Your ${escapeHtml(appointment.type)} appointment is booked for
+  <strong>${escapeHtml(this.formatDateTime(appointment.startAt))}</strong>. A confirmation is on its way.</p>`);
+    } catch (error) {
+      this.sendError(reply, error);
+    }
+  };
+}
@@ -1 +1,13 @@
 export { ScheduleHandlers } from './ScheduleHandlers';
+export { AppointmentApiHandlers } from './AppointmentApiHandlers';
+export { PatientApiHandlers } from './PatientApiHandlers';
+export { SeriesApiHandlers } from './SeriesApiHandlers';
+export { WaitlistApiHandlers } from './WaitlistApiHandlers';
+export { WaitlistClaimHandlers } from './WaitlistClaimHandlers';
+export { OutboxApiHandlers } from './OutboxApiHandlers';
+export { MessageApiHandlers } from './MessageApiHandlers';
+export { AppointmentHistoryApiHandlers } from './AppointmentHistoryApiHandlers';
+export { DeliveryReceiptHandlers } from './DeliveryReceiptHandlers';
+export { ManageLinkHandlers } from './ManageLinkHandlers';
+export { SmsReplyHandlers } from './SmsReplyHandlers';
+export { CalendarSyncApiHandlers } from './CalendarSyncApiHandlers';
@@ -1,4 +1,5 @@
-import { AppointmentType, AppointmentStatus, Appointment, ScheduleRequest } from '../types/schedule';
+import { AppointmentTypeCode, AppointmentStatus, Appointment, ScheduleRequest } from '../types/schedule';
+import { CalendarSyncState } from '../types/calendarSync';
 
 /**
  * Entity representing the appointments table row (camelCase columns).
@@ -11,10 +12,14 @@ export class AppointmentEntity {
   public phoneNumber?: string;
   public startAt: Date;
   public endAt: Date;
-  public type: AppointmentType;
+  public type: AppointmentTypeCode;
   public status: AppointmentStatus;
   public reason?: string;
   public calendarEventId?: string;
+  public calendarSyncState?: CalendarSyncState;
+  public providerId?: string;
+  public patientId?: string;
+  public seriesId?: string;
   public createdAt?: Date;
   public updatedAt?: Date | null;
   public notes: Record<string, any>;
@@ -33,6 +38,10 @@ export class AppointmentEntity {
       this.status = data.status;
       this.reason = data.reason;
       this.calendarEventId = data.calendarEventId;
+      this.calendarSyncState = data.calendarSyncState;
+      this.providerId = data.providerId;
+      this.patientId = data.patientId;
+      this.seriesId = data.seriesId;
       this.createdAt = data.createdAt;
       this.updatedAt = data.updatedAt;
       this.notes = data.notes;
@@ -49,6 +58,7 @@ export class AppointmentEntity {
       this.status = AppointmentStatus.SCHEDULED;
       this.reason = data.reason;
       this.calendarEventId = undefined;
+      this.providerId = data.providerId;
       this.createdAt = new Date();
       this.updatedAt = null;
       this.notes = data.notes;
@@ -71,4 +81,14 @@ export class AppointmentEntity {
     this.updatedAt = new Date();
   }
 
+  public assignProvider(providerId: string | undefined): void {
+    this.providerId = providerId;
+    this.updatedAt = new Date();
+  }
+
+  public assignPatient(patientId: string | undefined): void {
+    this.patientId = patientId;
+    this.updatedAt = new Date();
+  }
+
 }
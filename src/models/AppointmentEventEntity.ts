@@ -0,0 +1,97 @@
+import { AppointmentStatus } from '../types/schedule';
+import {
+  ActorType,
+  AppointmentEvent,
+  AppointmentEventType,
+  AppointmentSnapshot,
+  ChangeChannel,
+  ChangeContext
+} from '../types/appointmentEvent';
+
+const TRACKED_FIELDS: (keyof AppointmentSnapshot)[] = ['startAt', 'endAt', 'type', 'status', 'providerId'];
+
+/**
+ * Entity representing the appointment_events table row (camelCase columns).
+ */
+export class AppointmentEventEntity {
+  public id?: string;
+  public appointmentId: string;
+  public eventType: AppointmentEventType;
+  public before?: Partial<AppointmentSnapshot>;
+  public after: Partial<AppointmentSnapshot>;
+  public channel: ChangeChannel;
+  public actorType: ActorType;
+  public actorId?: string;
+  public createdAt?: Date;
+
+  constructor(data: AppointmentEvent) {
+    this.id = data.id;
+    this.appointmentId = data.appointmentId;
+    this.eventType = data.eventType;
+    this.before = data.before;
+    this.after = data.after;
+    this.channel = data.channel;
+    this.actorType = data.actorType;
+    this.actorId = data.actorId;
+    this.createdAt = data.createdAt ?? new Date();
+  }
+
+  /**
+   * The tracked fields of an appointment, copied so later changes to it don't show up here.
+   */
+  static snapshot(appointment: AppointmentSnapshot): AppointmentSnapshot {
+    return {
+      startAt: new Date(appointment.startAt),
+      endAt: new Date(appointment.endAt),
+      type: appointment.type,
+      status: appointment.status,
+      providerId: appointment.providerId
+    };
+  }
+
+  /**
+   * The event for a change from `before` to `after`, with only the fields that changed.
+   * A new appointment has no `before`. Null when no tracked field changed.
+   */
+  static fromChange(
+    appointmentId: string,
+    before: AppointmentSnapshot | null,
+    after: AppointmentSnapshot,
+    context: ChangeContext
+  ): AppointmentEventEntity | null {
+    const base = { appointmentId, channel: context.channel, actorType: context.actorType, actorId: context.actorId };
+    if (!before) {
+      return new AppointmentEventEntity({ ...base, eventType: AppointmentEventType.CREATED, after: AppointmentEventEntity.snapshot(after) });
+    }
+
+    const changed = TRACKED_FIELDS.filter(field => !sameValue(before[field], after[field]));
+    if (changed.length === 0) {
+      return null;
+    }
+
+    // A change of several kinds at once is filed under the one that matters most to the patient
+    const has = (field: keyof AppointmentSnapshot) => changed.includes(field);
+    const eventType = has('status') && after.status === AppointmentStatus.CANCELLED ? AppointmentEventType.CANCELLED
+      : has('startAt') || has('endAt') || has('providerId') ? AppointmentEventType.RESCHEDULED
+      : has('type') ? AppointmentEventType.TYPE_CHANGED
+      : AppointmentEventType.STATUS_CHANGED;
+
+    return new AppointmentEventEntity({
+      ...base,
+      eventType,
+      before: pick(before, changed),
+      after: pick(after, changed)
+    });
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return (a ?? undefined) === (b ?? undefined);
+}
+
+function pick(snapshot: AppointmentSnapshot, fields: (keyof AppointmentSnapshot)[]): Partial<AppointmentSnapshot> {
+  return Object.fromEntries(fields.map(field => [field, snapshot[field] ?? null])) as Partial<AppointmentSnapshot>;
+}
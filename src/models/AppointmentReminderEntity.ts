@@ -0,0 +1,45 @@
+import { AppointmentReminder, ReminderStatus } from '../types/reminder';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Entity representing the appointment_reminders table row (camelCase columns).
+ */
+export class AppointmentReminderEntity {
+  public id?: string;
+  public appointmentId: string;
+  public offsetMinutes: number;
+  public appointmentStartAt: Date;
+  public dueAt: Date;
+  public status: ReminderStatus;
+  public sentAt?: Date;
+  public lastError?: string;
+  public createdAt?: Date;
+  public updatedAt?: Date | null;
+
+  constructor(data: AppointmentReminder) {
+    this.id = data.id;
+    this.appointmentId = data.appointmentId;
+    this.offsetMinutes = data.offsetMinutes;
+    this.appointmentStartAt = data.appointmentStartAt;
+    this.dueAt = data.dueAt;
+    this.status = data.status;
+    this.sentAt = data.sentAt;
+    this.lastError = data.lastError;
+    this.createdAt = data.createdAt ?? new Date();
+    this.updatedAt = data.updatedAt ?? null;
+  }
+
+  /**
+   * A pending reminder going out `offsetMinutes` before the appointment starts.
+   */
+  static plan(appointmentId: string, appointmentStartAt: Date, offsetMinutes: number): AppointmentReminderEntity {
+    return new AppointmentReminderEntity({
+      appointmentId,
+      offsetMinutes,
+      appointmentStartAt,
+      dueAt: new Date(appointmentStartAt.getTime() - offsetMinutes * MINUTE_MS),
+      status: ReminderStatus.PENDING
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import { AppointmentSeries, RecurrenceRule, SeriesStatus } from '../types/series';
+import { AppointmentTypeCode } from '../types/schedule';
+
+/**
+ * Entity representing the appointment_series table row (camelCase columns).
+ */
+export class AppointmentSeriesEntity {
+  public id?: string;
+  public patientId?: string;
+  public firstName: string;
+  public lastName: string;
+  public email?: string;
+  public phoneNumber?: string;
+  public type: AppointmentTypeCode;
+  public providerId?: string;
+  public startAt: Date;
+  public durationMinutes: number;
+  public timeZone: string;
+  public recurrence: RecurrenceRule;
+  public status: SeriesStatus;
+  public callId?: string;
+  public createdAt?: Date;
+  public updatedAt?: Date | null;
+
+  constructor(data: AppointmentSeries) {
+    this.id = data.id;
+    this.patientId = data.patientId;
+    this.firstName = data.firstName;
+    this.lastName = data.lastName;
+    this.email = data.email;
+    this.phoneNumber = data.phoneNumber;
+    this.type = data.type;
+    this.providerId = data.providerId;
+    this.startAt = data.startAt;
+    this.durationMinutes = data.durationMinutes;
+    this.timeZone = data.timeZone;
+    this.recurrence = data.recurrence;
+    this.status = data.status;
+    this.callId = data.callId;
+    this.createdAt = data.createdAt ?? new Date();
+    this.updatedAt = data.updatedAt ?? null;
+  }
+
+  /**
+   * Record a local date ("YYYY-MM-DD") the series no longer has an appointment on.
+   */
+  public addException(localDate: string): void {
+    if (!this.recurrence.exceptions.includes(localDate)) {
+      this.recurrence = { ...this.recurrence, exceptions: [...this.recurrence.exceptions, localDate] };
+      this.updatedAt = new Date();
+    }
+  }
+
+  /**
+   * End the series just before an occurrence; cancels it when that is the first occurrence.
+   */
+  public endBefore(occurrenceStart: Date): void {
+    if (occurrenceStart <= this.startAt) {
+      this.status = SeriesStatus.CANCELLED;
+    } else {
+      this.recurrence = { ...this.recurrence, count: undefined, until: new Date(occurrenceStart.getTime() - 1000) };
+    }
+    this.updatedAt = new Date();
+  }
+}
@@ -0,0 +1,49 @@
+import { AppointmentTypeCode, AppointmentTypeDefinition } from '../types/schedule';
+import { TimeInterval } from '../utils/intervalUtils';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Entity representing an appointment_types catalogue row with its qualified providers.
+ */
+export class AppointmentTypeEntity {
+  public code: AppointmentTypeCode;
+  public name: string;
+  public defaultDurationMinutes: number;
+  public allowedDurationsMinutes: number[];
+  public bufferBeforeMinutes: number;
+  public bufferAfterMinutes: number;
+  public minLeadTimeMinutes: number;
+  public providerIds: string[];
+  public active: boolean;
+
+  constructor(data: AppointmentTypeDefinition) {
+    this.code = data.code;
+    this.name = data.name;
+    this.defaultDurationMinutes = data.defaultDurationMinutes;
+    this.allowedDurationsMinutes = data.allowedDurationsMinutes;
+    this.bufferBeforeMinutes = data.bufferBeforeMinutes;
+    this.bufferAfterMinutes = data.bufferAfterMinutes;
+    this.minLeadTimeMinutes = data.minLeadTimeMinutes;
+    this.providerIds = data.providerIds;
+    this.active = data.active;
+  }
+
+  public isDurationAllowed(minutes: number): boolean {
+    return minutes === this.defaultDurationMinutes || this.allowedDurationsMinutes.includes(minutes);
+  }
+
+  public canBePerformedBy(providerId: string): boolean {
+    return this.providerIds.length === 0 || this.providerIds.includes(providerId);
+  }
+
+  /**
+   * The time an appointment of this type keeps its provider busy, including setup and clean-up.
+   */
+  public blockedInterval(startAt: Date, endAt: Date): TimeInterval {
+    return {
+      start: new Date(startAt.getTime() - this.bufferBeforeMinutes * MINUTE_MS),
+      end: new Date(endAt.getTime() + this.bufferAfterMinutes * MINUTE_MS)
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { CalendarSyncAction, CalendarSyncJob, CalendarSyncJobStatus } from '../types/calendarSync';
+
+/**
+ * Entity representing the calendar_sync_jobs table row (camelCase columns).
+ */
+export class CalendarSyncJobEntity {
+  public id?: string;
+  public appointmentId: string;
+  public action: CalendarSyncAction;
+  public status: CalendarSyncJobStatus;
+  public revision: number;
+  public attempts: number;
+  public nextAttemptAt: Date;
+  public lastError?: string;
+  public completedAt?: Date;
+  public createdAt?: Date;
+  public updatedAt?: Date | null;
+
+  constructor(data: CalendarSyncJob) {
+    this.id = data.id;
+    this.appointmentId = data.appointmentId;
+    this.action = data.action;
+    this.status = data.status;
+    this.revision = data.revision;
+    this.attempts = data.attempts;
+    this.nextAttemptAt = data.nextAttemptAt;
+    this.lastError = data.lastError;
+    this.completedAt = data.completedAt;
+    this.createdAt = data.createdAt ?? new Date();
+    this.updatedAt = data.updatedAt ?? null;
+  }
+}
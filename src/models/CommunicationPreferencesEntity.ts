@@ -0,0 +1,95 @@
+import { MessageChannel } from '../types/outbox';
+import { CommunicationPreferences, ConsentRecord, MessageCategory, QuietHours } from '../types/preferences';
+import { getZonedDateParts, parseTimeToMinutes, zonedTimeToUtc } from '../utils/dateUtils';
+
+/**
+ * Entity combining a communication_preferences row with the patient's communication_consents history.
+ */
+export class CommunicationPreferencesEntity {
+  public patientId: string;
+  public preferredChannel?: MessageChannel;
+  public quietHours?: QuietHours;
+  public consents: ConsentRecord[];
+  public updatedAt?: Date | null;
+
+  constructor(data: CommunicationPreferences) {
+    this.patientId = data.patientId;
+    this.preferredChannel = data.preferredChannel;
+    this.quietHours = data.quietHours;
+    this.consents = data.consents;
+    this.updatedAt = data.updatedAt ?? null;
+  }
+
+  /**
+   * Preferences for a patient who hasn't stated any: every channel and category is allowed.
+   */
+  static defaults(patientId: string): CommunicationPreferencesEntity {
+    return new CommunicationPreferencesEntity({ patientId, consents: [] });
+  }
+
+  /**
+   * Whether the patient accepts messages of this category on this channel. The latest record for the
+   * category or for the whole channel decides; without one, the patient is messaged.
+   */
+  public allows(channel: MessageChannel, category: MessageCategory): boolean {
+    const latest = this.consents
+      .filter(consent => consent.channel === channel && (consent.category === undefined || consent.category === category))
+      .reduce<ConsentRecord | undefined>((last, consent) => (!last || consent.recordedAt >= last.recordedAt ? consent : last), undefined);
+    return latest?.granted ?? true;
+  }
+
+  /**
+   * The channels to send a message of this category on, out of those the patient has contact details for.
+   * The preferred channel alone when it is allowed, otherwise every allowed channel.
+   */
+  public channelsFor(category: MessageCategory, available: MessageChannel[]): MessageChannel[] {
+    const allowed = available.filter(channel => this.allows(channel, category));
+    return this.preferredChannel && allowed.includes(this.preferredChannel) ? [this.preferredChannel] : allowed;
+  }
+
+  /**
+   * When the quiet period `at` falls in ends, or undefined if `at` is outside quiet hours
+   */
+  public quietHoursEnd(at: Date, timeZone: string): Date | undefined {
+    if (!this.quietHours) {
+      return undefined;
+    }
+
+    const start = parseTimeToMinutes(this.quietHours.start);
+    const end = parseTimeToMinutes(this.quietHours.end);
+    const local = getZonedDateParts(at, timeZone);
+    const minutes = local.hour * 60 + local.minute;
+
+    const endsToday = start < end
+      ? minutes >= start && minutes < end
+      : minutes < end; // Overnight window, in its morning part
+    const endsTomorrow = start > end && minutes >= start;
+    if (!endsToday && !endsTomorrow) {
+      return undefined;
+    }
+
+    const day = local.day + (endsTomorrow ? 1 : 0);
+    return zonedTimeToUtc(local.year, local.month, day, Math.floor(end / 60), end % 60, timeZone);
+  }
+
+  /**
+   * Apply a change of preferred channel or quiet hours; null clears, undefined keeps the current value.
+   * @returns True if anything changed
+   */
+  public update(changes: { preferredChannel?: MessageChannel | null; quietHours?: QuietHours | null }): boolean {
+    let changed = false;
+    if (changes.preferredChannel !== undefined && (changes.preferredChannel ?? undefined) !== this.preferredChannel) {
+      this.preferredChannel = changes.preferredChannel ?? undefined;
+      changed = true;
+    }
+    if (changes.quietHours !== undefined
+      && (changes.quietHours?.start !== this.quietHours?.start || changes.quietHours?.end !== this.quietHours?.end)) {
+      this.quietHours = changes.quietHours ?? undefined;
+      changed = true;
+    }
+    if (changed) {
+      this.updatedAt = new Date();
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,43 @@
+import { Message, MessageStatus } from '../types/message';
+import { MessageChannel } from '../types/outbox';
+
+/**
+ * Entity representing the messages table row (camelCase columns).
+ */
+export class MessageEntity {
+  public id?: string;
+  public outboxMessageId?: string;
+  public appointmentId?: string;
+  public waitlistEntryId?: string;
+  public channel: MessageChannel;
+  public recipient: string;
+  public template: string;
+  public language?: string;
+  public templateVersion?: number;
+  public transport: string;
+  public status: MessageStatus;
+  public providerMessageId?: string;
+  public providerResponse?: unknown;
+  public error?: string;
+  public statusUpdatedAt?: Date;
+  public createdAt?: Date;
+
+  constructor(data: Message) {
+    this.id = data.id;
+    this.outboxMessageId = data.outboxMessageId;
+    this.appointmentId = data.appointmentId;
+    this.waitlistEntryId = data.waitlistEntryId;
+    this.channel = data.channel;
+    this.recipient = data.recipient;
+    this.template = data.template;
+    this.language = data.language;
+    this.templateVersion = data.templateVersion;
+    this.transport = data.transport;
+    this.status = data.status;
+    this.providerMessageId = data.providerMessageId;
+    this.providerResponse = data.providerResponse;
+    this.error = data.error;
+    this.statusUpdatedAt = data.statusUpdatedAt ?? new Date();
+    this.createdAt = data.createdAt ?? new Date();
+  }
+}
@@ -0,0 +1,79 @@
+import { CalendarInvite, OutboundMessage, OutboxMessage, OutboxStatus, MessageChannel } from '../types/outbox';
+
+/**
+ * Entity representing the message_outbox table row (camelCase columns).
+ */
+export class OutboxMessageEntity {
+  public id?: string;
+  public to: string;
+  public subject: string;
+  public body: string;
+  public html?: string;
+  public calendarInvite?: CalendarInvite;
+  public type: MessageChannel;
+  public appointmentId?: string;
+  public waitlistEntryId?: string;
+  public eventType: string;
+  public language?: string;
+  public templateVersion?: number;
+  public status: OutboxStatus;
+  public attempts: number;
+  public nextAttemptAt: Date;
+  public lastError?: string;
+  public sentAt?: Date;
+  public createdAt?: Date;
+  public updatedAt?: Date | null;
+
+  constructor(data: OutboxMessage) {
+    this.id = data.id;
+    this.to = data.to;
+    this.subject = data.subject;
+    this.body = data.body;
+    this.html = data.html;
+    this.calendarInvite = data.calendarInvite;
+    this.type = data.type;
+    this.appointmentId = data.appointmentId;
+    this.waitlistEntryId = data.waitlistEntryId;
+    this.eventType = data.eventType;
+    this.language = data.language;
+    this.templateVersion = data.templateVersion;
+    this.status = data.status;
+    this.attempts = data.attempts;
+    this.nextAttemptAt = data.nextAttemptAt;
+    this.lastError = data.lastError;
+    this.sentAt = data.sentAt;
+    this.createdAt = data.createdAt ?? new Date();
+    this.updatedAt = data.updatedAt ?? null;
+  }
+
+  /**
+   * A new message, due for delivery straight away or from `notBefore`.
+   */
+  static enqueue(message: OutboundMessage, notBefore: Date = new Date()): OutboxMessageEntity {
+    return new OutboxMessageEntity({
+      ...message,
+      status: OutboxStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: notBefore
+    });
+  }
+
+  /**
+   * The message as handed to the delivery webhook.
+   */
+  toOutboundMessage(): OutboundMessage {
+    return {
+      to: this.to,
+      subject: this.subject,
+      body: this.body,
+      html: this.html,
+      calendarInvite: this.calendarInvite,
+      type: this.type,
+      appointmentId: this.appointmentId,
+      waitlistEntryId: this.waitlistEntryId,
+      eventType: this.eventType,
+      language: this.language,
+      templateVersion: this.templateVersion
+    };
+  }
+}
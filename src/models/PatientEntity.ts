@@ -0,0 +1,69 @@
+import { Language, Patient } from '../types/schedule';
+
+/**
+ * Entity representing the patients table row (camelCase columns).
+ */
+export class PatientEntity {
+  public id?: string;
+  public firstName: string;
+  public lastName: string;
+  public email?: string;
+  public phoneNumber?: string;
+  public mergedIntoId?: string;
+  public preferredLanguage?: Language;
+  public createdAt?: Date;
+  public updatedAt?: Date | null;
+
+  constructor(data: Patient) {
+    this.id = data.id;
+    this.firstName = data.firstName;
+    this.lastName = data.lastName;
+    this.email = data.email;
+    this.phoneNumber = data.phoneNumber;
+    this.mergedIntoId = data.mergedIntoId;
+    this.preferredLanguage = data.preferredLanguage;
+    this.createdAt = data.createdAt ?? new Date();
+    this.updatedAt = data.updatedAt ?? null;
+  }
+
+  public get fullName(): string {
+    return `${this.firstName} ${this.lastName}`;
+  }
+
+  public get isMerged(): boolean {
+    return this.mergedIntoId !== undefined;
+  }
+
+  /**
+   * Fill in contact details this record doesn't have yet. Existing values are never overwritten.
+   * @returns True if anything changed
+   */
+  public addMissingContactDetails(details: { email?: string; phoneNumber?: string }): boolean {
+    let changed = false;
+    if (!this.email && details.email) {
+      this.email = details.email;
+      changed = true;
+    }
+    if (!this.phoneNumber && details.phoneNumber) {
+      this.phoneNumber = details.phoneNumber;
+      changed = true;
+    }
+    if (changed) {
+      this.updatedAt = new Date();
+    }
+    return changed;
+  }
+
+  /**
+   * Record the language the patient asked to be contacted in. Nothing changes when none was given.
+   * @returns True if anything changed
+   */
+  public updatePreferredLanguage(language?: Language): boolean {
+    if (!language || language === this.preferredLanguage) {
+      return false;
+    }
+    this.preferredLanguage = language;
+    this.updatedAt = new Date();
+    return true;
+  }
+}
@@ -0,0 +1,36 @@
+import { Provider } from '../types/schedule';
+
+/**
+ * Entity representing the providers table row (camelCase columns).
+ */
+export class ProviderEntity {
+  public id: string;
+  public firstName: string;
+  public lastName: string;
+  public title?: string;
+  public email?: string;
+  public locationId?: string;
+  public timeZone?: string;
+  public active: boolean;
+  public createdAt: Date;
+  public updatedAt?: Date | null;
+
+  constructor(data: Provider) {
+    this.id = data.id;
+    this.firstName = data.firstName;
+    this.lastName = data.lastName;
+    this.title = data.title;
+    this.email = data.email;
+    this.locationId = data.locationId;
+    this.timeZone = data.timeZone;
+    this.active = data.active;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  public get displayName(): string {
+    return this.title
+      ? `${this.title} ${this.firstName} ${this.lastName}`
+      : `${this.firstName} ${this.lastName}`;
+  }
+}
@@ -0,0 +1,28 @@
+import { ToolCall, ToolCallResponse, ToolCallStatus } from '../types/toolCall';
+
+/**
+ * Entity representing the retell_tool_calls table row (camelCase columns).
+ */
+export class ToolCallEntity {
+  public callId: string;
+  public functionName: string;
+  public argsHash: string;
+  public status: ToolCallStatus;
+  public response?: ToolCallResponse;
+  public claimedAt?: Date;
+  public completedAt?: Date;
+
+  constructor(data: ToolCall) {
+    this.callId = data.callId;
+    this.functionName = data.functionName;
+    this.argsHash = data.argsHash;
+    this.status = data.status;
+    this.response = data.response;
+    this.claimedAt = data.claimedAt;
+    this.completedAt = data.completedAt;
+  }
+
+  public get isCompleted(): boolean {
+    return this.status === ToolCallStatus.COMPLETED && this.response !== undefined;
+  }
+}
@@ -0,0 +1,84 @@
+import { FreedSlot, WaitlistEntry, WaitlistOffer, WaitlistStatus } from '../types/waitlist';
+import { AppointmentTypeCode } from '../types/schedule';
+
+/**
+ * Entity representing the waitlist_entries table row (camelCase columns).
+ */
+export class WaitlistEntryEntity {
+  public id?: string;
+  public patientId?: string;
+  public firstName: string;
+  public lastName: string;
+  public email?: string;
+  public phoneNumber?: string;
+  public type: AppointmentTypeCode;
+  public providerId?: string;
+  public earliestAt: Date;
+  public latestAt: Date;
+  public status: WaitlistStatus;
+  public offer?: WaitlistOffer;
+  public appointmentId?: string;
+  public callId?: string;
+  public createdAt?: Date;
+  public updatedAt?: Date | null;
+
+  constructor(data: WaitlistEntry) {
+    this.id = data.id;
+    this.patientId = data.patientId;
+    this.firstName = data.firstName;
+    this.lastName = data.lastName;
+    this.email = data.email;
+    this.phoneNumber = data.phoneNumber;
+    this.type = data.type;
+    this.providerId = data.providerId;
+    this.earliestAt = data.earliestAt;
+    this.latestAt = data.latestAt;
+    this.status = data.status;
+    this.offer = data.offer;
+    this.appointmentId = data.appointmentId;
+    this.callId = data.callId;
+    this.createdAt = data.createdAt ?? new Date();
+    this.updatedAt = data.updatedAt ?? null;
+  }
+
+  /**
+   * Whether the slot fits the type, provider preference and date window this patient asked for.
+   */
+  public accepts(slot: FreedSlot): boolean {
+    return this.type === slot.type &&
+      (!this.providerId || this.providerId === slot.providerId) &&
+      slot.startAt >= this.earliestAt &&
+      slot.endAt <= this.latestAt;
+  }
+
+  public isOfferExpired(now: Date = new Date()): boolean {
+    return !!this.offer && this.offer.expiresAt <= now;
+  }
+
+  public makeOffer(offer: WaitlistOffer): void {
+    this.status = WaitlistStatus.OFFERED;
+    this.offer = offer;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Put the entry back in the queue, keeping its original place.
+   */
+  public withdrawOffer(): void {
+    this.status = WaitlistStatus.WAITING;
+    this.offer = undefined;
+    this.updatedAt = new Date();
+  }
+
+  public cancel(): void {
+    this.status = WaitlistStatus.CANCELLED;
+    this.offer = undefined;
+    this.updatedAt = new Date();
+  }
+
+  public markBooked(appointmentId: string): void {
+    this.status = WaitlistStatus.BOOKED;
+    this.appointmentId = appointmentId;
+    this.updatedAt = new Date();
+  }
+}
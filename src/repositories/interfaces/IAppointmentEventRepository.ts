@@ -0,0 +1,7 @@
+import { AppointmentEventEntity } from '../../models/AppointmentEventEntity';
+
+export interface IAppointmentEventRepository {
+  // Events are only ever added, never updated
+  append(event: AppointmentEventEntity): Promise<AppointmentEventEntity>;
+  findByAppointment(appointmentId: string): Promise<AppointmentEventEntity[]>; // Oldest first
+}
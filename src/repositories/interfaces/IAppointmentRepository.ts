@@ -1,12 +1,18 @@
 import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { AppointmentSearchCriteria } from '../../types/schedule';
 
 export interface IAppointmentRepository {
+  // Both throw TimeSlotUnavailableError when a scheduled or confirmed appointment would overlap another
+  // one with the same provider, e.g. one booked since the conflict check
   create(appointment: AppointmentEntity): Promise<AppointmentEntity>;
   update(id: string, appointment: AppointmentEntity): Promise<AppointmentEntity>;
   delete(id: string): Promise<boolean>;
 
   findById(id: string): Promise<AppointmentEntity | null>;
-  isAvailable(startAt: Date, endAt: Date, excludeId?: string): Promise<boolean>;
-  getConflictingAppointments(startAt: Date, endAt: Date, excludeId?: string): Promise<AppointmentEntity[]>;
+  // When providerId is omitted, conflicts are checked across every provider
+  isAvailable(startAt: Date, endAt: Date, excludeId?: string, providerId?: string): Promise<boolean>;
+  getConflictingAppointments(startAt: Date, endAt: Date, excludeId?: string, providerId?: string): Promise<AppointmentEntity[]>;
   getActiveAppointmentsByEmailOrPhone(emailOrPhone: string): Promise<AppointmentEntity[]>;
+  // Up to criteria.limit appointments in sort order, starting after criteria.after
+  search(criteria: AppointmentSearchCriteria): Promise<AppointmentEntity[]>;
 }
@@ -0,0 +1,9 @@
+import { AppointmentSeriesEntity } from '../../models/AppointmentSeriesEntity';
+
+export interface IAppointmentSeriesRepository {
+  create(series: AppointmentSeriesEntity): Promise<AppointmentSeriesEntity>;
+  update(id: string, series: AppointmentSeriesEntity): Promise<AppointmentSeriesEntity>;
+  delete(id: string): Promise<boolean>;
+
+  findById(id: string): Promise<AppointmentSeriesEntity | null>;
+}
@@ -0,0 +1,6 @@
+import { AppointmentTypeEntity } from '../../models/AppointmentTypeEntity';
+
+export interface IAppointmentTypeRepository {
+  findByCode(code: string): Promise<AppointmentTypeEntity | null>;
+  findAll(): Promise<AppointmentTypeEntity[]>;
+}
@@ -0,0 +1,7 @@
+import { BusinessHoursRule } from '../../types/availability';
+
+export interface IBusinessHoursRepository {
+  findByProvider(providerId: string): Promise<BusinessHoursRule[]>;
+  findByLocation(locationId: string): Promise<BusinessHoursRule[]>;
+  findClinicWide(): Promise<BusinessHoursRule[]>;
+}
@@ -0,0 +1,21 @@
+import { CalendarSyncJobEntity } from '../../models/CalendarSyncJobEntity';
+import { CalendarSyncAction } from '../../types/calendarSync';
+
+export interface ICalendarSyncRepository {
+  // Record a job for the appointment's latest change and mark the appointment pending. A job still
+  // waiting for the appointment takes the change instead, with a new revision and a fresh set of attempts.
+  // The job comes back claimed for the caller's own first attempt, hidden from workers for `leaseSeconds`.
+  enqueue(appointmentId: string, action: CalendarSyncAction, leaseSeconds: number): Promise<CalendarSyncJobEntity>;
+
+  // Atomically take up to `limit` due jobs, counting the attempt and hiding them from other workers
+  // for `leaseSeconds`. A worker that dies mid-sync leaves them due again once the lease ends.
+  claimDue(now: Date, limit: number, leaseSeconds: number): Promise<CalendarSyncJobEntity[]>;
+
+  // The next three only apply while the job is at the revision that was attempted; a change folded in
+  // since keeps the job pending. False when that happened.
+  // Also records the event ID on the appointment and marks it synced
+  markSynced(job: CalendarSyncJobEntity, calendarEventId?: string): Promise<boolean>;
+  scheduleRetry(job: CalendarSyncJobEntity, error: string, nextAttemptAt: Date): Promise<boolean>;
+  // Also marks the appointment failed
+  markFailed(job: CalendarSyncJobEntity, error: string): Promise<boolean>;
+}
@@ -0,0 +1,11 @@
+import { CommunicationPreferencesEntity } from '../../models/CommunicationPreferencesEntity';
+import { ConsentRecord } from '../../types/preferences';
+
+export interface ICommunicationPreferencesRepository {
+  // The patient's preferences with their full consent history; null when none were ever recorded
+  findByPatient(patientId: string): Promise<CommunicationPreferencesEntity | null>;
+  // Insert or replace the preferred channel and quiet hours; consents are left alone
+  save(preferences: CommunicationPreferencesEntity): Promise<void>;
+  // Consents are only ever added, so the history shows who agreed to what and when
+  addConsent(patientId: string, consent: ConsentRecord): Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { MessageEntity } from '../../models/MessageEntity';
+import { DeliveryReceipt } from '../../types/message';
+
+export interface IMessageRepository {
+  create(message: MessageEntity): Promise<MessageEntity>;
+  findByAppointment(appointmentId: string): Promise<MessageEntity[]>; // Oldest first
+
+  // Apply a receipt to the attempt the provider accepted under that ID; null when there is none
+  applyReceipt(receipt: DeliveryReceipt): Promise<MessageEntity | null>;
+}
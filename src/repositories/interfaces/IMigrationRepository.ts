@@ -0,0 +1,15 @@
+import { AppliedMigration, Migration } from '../../types/migration';
+
+export interface IMigrationRepository {
+  // Run `work` while holding a database-wide lock, so instances starting together don't both migrate
+  withLock<T>(work: () => Promise<T>): Promise<T>;
+  ensureHistoryTable(): Promise<void>;
+  // Lowest version first; empty when the history table doesn't exist yet
+  findApplied(): Promise<AppliedMigration[]>;
+  // Versions Flyway applied successfully, for databases it used to manage; empty when there are none
+  findFlywayVersions(): Promise<number[]>;
+  // Record migrations as applied without running them
+  recordAdopted(migrations: Migration[]): Promise<void>;
+  // Run the migration and record it in one transaction
+  apply(migration: Migration): Promise<AppliedMigration>;
+}
@@ -0,0 +1,19 @@
+import { OutboxMessageEntity } from '../../models/OutboxMessageEntity';
+import { OutboxFilter } from '../../types/outbox';
+
+export interface IOutboxRepository {
+  enqueue(message: OutboxMessageEntity): Promise<OutboxMessageEntity>;
+  findById(id: string): Promise<OutboxMessageEntity | null>;
+  find(filter: OutboxFilter): Promise<OutboxMessageEntity[]>; // Newest first
+
+  // Atomically take up to `limit` due messages, counting the attempt and hiding them from other
+  // workers for `leaseSeconds`. A worker that dies mid-send leaves them due again once the lease ends.
+  claimDue(now: Date, limit: number, leaseSeconds: number): Promise<OutboxMessageEntity[]>;
+  markSent(id: string): Promise<void>;
+  scheduleRetry(id: string, error: string, nextAttemptAt: Date): Promise<void>;
+  markDead(id: string, error: string): Promise<void>;
+
+  // Put dead messages back in the queue with a fresh set of attempts
+  requeue(id: string): Promise<OutboxMessageEntity | null>;
+  requeueDead(): Promise<number>;
+}
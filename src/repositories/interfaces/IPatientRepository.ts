@@ -0,0 +1,13 @@
+import { PatientEntity } from '../../models/PatientEntity';
+
+export interface IPatientRepository {
+  create(patient: PatientEntity): Promise<PatientEntity>;
+  update(id: string, patient: PatientEntity): Promise<PatientEntity>;
+
+  findById(id: string): Promise<PatientEntity | null>;
+  // Patients that haven't been merged away whose email (case-insensitive) or phone number matches
+  findByContact(email?: string, phoneNumber?: string): Promise<PatientEntity[]>;
+
+  // Moves every appointment from source to target and marks source as merged into target
+  merge(sourceId: string, targetId: string): Promise<PatientEntity>;
+}
@@ -0,0 +1,6 @@
+import { ProviderEntity } from '../../models/ProviderEntity';
+
+export interface IProviderRepository {
+  findById(id: string): Promise<ProviderEntity | null>;
+  findActive(): Promise<ProviderEntity[]>;
+}
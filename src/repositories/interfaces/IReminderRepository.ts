@@ -0,0 +1,12 @@
+import { AppointmentReminderEntity } from '../../models/AppointmentReminderEntity';
+import { ReminderStatus } from '../../types/reminder';
+
+export interface IReminderRepository {
+  // Replace the appointment's pending reminders; reminders already sent for the same start time are kept
+  replacePending(appointmentId: string, reminders: AppointmentReminderEntity[]): Promise<void>;
+  cancelPending(appointmentId: string): Promise<number>;
+
+  // Atomically move up to `limit` due reminders from pending to sending; concurrent callers get different rows
+  claimDue(now: Date, limit: number): Promise<AppointmentReminderEntity[]>;
+  complete(id: string, status: ReminderStatus, error?: string): Promise<void>;
+}
@@ -0,0 +1,8 @@
+/**
+ * Phone numbers that asked not to be texted. Numbers are E.164, the form texts are addressed in.
+ */
+export interface ISmsOptOutRepository {
+  optOut(phoneNumber: string, keyword: string): Promise<void>; // Opting out again keeps the first record
+  optIn(phoneNumber: string): Promise<boolean>; // False when the number was not opted out
+  isOptedOut(phoneNumber: string): Promise<boolean>;
+}
@@ -0,0 +1,12 @@
+import { ToolCallEntity } from '../../models/ToolCallEntity';
+import { ToolCallKey, ToolCallResponse } from '../../types/toolCall';
+
+export interface IToolCallRepository {
+  // Atomically record the call as in progress. False when it is already recorded, unless it has been
+  // in progress for longer than `staleAfterSeconds` (its handler died), in which case it is taken over.
+  claim(key: ToolCallKey, staleAfterSeconds: number): Promise<boolean>;
+  find(key: ToolCallKey): Promise<ToolCallEntity | null>;
+  complete(key: ToolCallKey, response: ToolCallResponse): Promise<void>;
+  // Forget a call that failed so a retry runs it again
+  release(key: ToolCallKey): Promise<void>;
+}
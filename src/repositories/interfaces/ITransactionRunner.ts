@@ -0,0 +1,5 @@
+export interface ITransactionRunner {
+  // Run `work` in one transaction: what the repositories write inside it is committed together, or not
+  // at all if it throws. A nested run is rolled back on its own, leaving the enclosing one intact.
+  run<T>(work: () => Promise<T>): Promise<T>;
+}
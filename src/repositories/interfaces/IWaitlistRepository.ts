@@ -0,0 +1,18 @@
+import { WaitlistEntryEntity } from '../../models/WaitlistEntryEntity';
+import { FreedSlot, WaitlistOffer, WaitlistStatus } from '../../types/waitlist';
+
+export interface IWaitlistRepository {
+  create(entry: WaitlistEntryEntity): Promise<WaitlistEntryEntity>;
+  update(id: string, entry: WaitlistEntryEntity): Promise<WaitlistEntryEntity>;
+
+  findById(id: string): Promise<WaitlistEntryEntity | null>;
+  findByOfferToken(token: string): Promise<WaitlistEntryEntity | null>;
+  findByStatus(status?: WaitlistStatus): Promise<WaitlistEntryEntity[]>;
+  // Waiting entries whose type, provider preference and window accept the slot, longest-waiting first.
+  // `after` skips entries up to and including that place in the queue.
+  findWaitingFor(slot: FreedSlot, after?: { createdAt: Date; id: string }): Promise<WaitlistEntryEntity[]>;
+  findExpiredOffers(now: Date): Promise<WaitlistEntryEntity[]>;
+
+  // Atomically move a waiting entry to offered; null if it is no longer waiting
+  makeOffer(id: string, offer: WaitlistOffer): Promise<WaitlistEntryEntity | null>;
+}
@@ -0,0 +1,70 @@
+import { Pool, QueryResult } from 'pg';
+import { IAppointmentEventRepository } from './interfaces/IAppointmentEventRepository';
+import { AppointmentEventEntity } from '../models/AppointmentEventEntity';
+import { AppointmentSnapshot } from '../types/appointmentEvent';
+import { createPostgresPool, queryTarget } from './postgresPool';
+
+export class PostgresAppointmentEventRepository implements IAppointmentEventRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async append(event: AppointmentEventEntity): Promise<AppointmentEventEntity> {
+    const query = `
+      INSERT INTO appointment_events (appointment_id, event_type, before, after, channel, actor_type, actor_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+    const values = [
+      event.appointmentId,
+      event.eventType,
+      event.before ? JSON.stringify(event.before) : null,
+      JSON.stringify(event.after),
+      event.channel,
+      event.actorType,
+      event.actorId || null
+    ];
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findByAppointment(appointmentId: string): Promise<AppointmentEventEntity[]> {
+    const result: QueryResult = await queryTarget(this.pool).query(
+      'SELECT * FROM appointment_events WHERE appointment_id = $1 ORDER BY created_at, id',
+      [appointmentId]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  private mapRowToEntity(row: any): AppointmentEventEntity {
+    return new AppointmentEventEntity({
+      id: row.id,
+      appointmentId: row.appointment_id,
+      eventType: row.event_type,
+      before: row.before ? this.mapSnapshot(row.before) : undefined,
+      after: this.mapSnapshot(row.after),
+      channel: row.channel,
+      actorType: row.actor_type,
+      actorId: row.actor_id || undefined,
+      createdAt: new Date(row.created_at)
+    });
+  }
+
+  // Times are stored as ISO strings in the JSON
+  private mapSnapshot(json: Record<string, any>): Partial<AppointmentSnapshot> {
+    const snapshot: Record<string, any> = { ...json };
+    for (const field of ['startAt', 'endAt']) {
+      if (typeof snapshot[field] === 'string') {
+        snapshot[field] = new Date(snapshot[field]);
+      }
+    }
+    return snapshot as Partial<AppointmentSnapshot>;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -1,52 +1,74 @@
 import { Pool, QueryResult } from 'pg';
 import { IAppointmentRepository } from './interfaces/IAppointmentRepository';
 import { AppointmentEntity } from '../models/AppointmentEntity';
+import { AppointmentSearchCriteria } from '../types/schedule';
+import { createPostgresPool, queryTarget } from './postgresPool';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizeEmailOrPhone, normalizePhoneNumber } from '../utils/contactUtils';
+import { TimeSlotUnavailableError } from '../types/errors';
+
+// Raised by the appointments_no_overlap constraint
+const EXCLUSION_VIOLATION = '23P01';
+
+// Match user input literally inside a LIKE pattern
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// A booking that lost the race for its time to another one saved in the meantime
+function isOverlapError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === EXCLUSION_VIOLATION;
+}
+
+function overlapError(appointment: AppointmentEntity): TimeSlotUnavailableError {
+  return new TimeSlotUnavailableError(
+    `Time slot from ${appointment.startAt.toISOString()} to ${appointment.endAt.toISOString()} is already booked`
+  );
+}
 
 export class PostgresAppointmentRepository implements IAppointmentRepository {
   private pool: Pool;
+  private readonly defaultPhoneCountry: CountryCode;
 
-  constructor() {
-    this.pool = new Pool({
-      connectionString: process.env.DATABASE_URL,
-      max: 20, // maximum number of clients in the pool
-      idleTimeoutMillis: 30000, // close idle clients after 30 seconds
-      connectionTimeoutMillis: 2000, // return an error after 2 seconds if connection could not be established
-    });
-
-    // Handle pool errors
-    this.pool.on('error', (err) => {
-      console.error('PostgreSQL pool error:', err);
-    });
+  constructor(pool?: Pool, defaultPhoneCountry: CountryCode = DEFAULT_PHONE_COUNTRY) {
+    this.pool = pool ?? createPostgresPool();
+    this.defaultPhoneCountry = defaultPhoneCountry;
   }
 
   async create(appointment: AppointmentEntity): Promise<AppointmentEntity> {
     const query = `
       INSERT INTO appointments (
         first_name, last_name, email, phone_number, start_at, end_at, 
-        type, status, notes, reason, calendar_event_id
+        type, status, notes, reason, calendar_event_id, provider_id, patient_id, series_id
       ) 
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       RETURNING *
     `;
     
     const values = [
       appointment.firstName,
       appointment.lastName,
-      appointment.email || null,
-      appointment.phoneNumber || null,
+      appointment.email ? normalizeEmail(appointment.email) : null,
+      appointment.phoneNumber ? normalizePhoneNumber(appointment.phoneNumber, this.defaultPhoneCountry) : null,
       appointment.startAt,
       appointment.endAt,
       appointment.type,
       'scheduled',
       JSON.stringify(appointment.notes || {}),
       appointment.reason || null,
-      appointment.calendarEventId || null
+      appointment.calendarEventId || null,
+      appointment.providerId || null,
+      appointment.patientId || null,
+      appointment.seriesId || null
     ];
 
     try {
-      const result: QueryResult = await this.pool.query(query, values);
+      const result: QueryResult = await queryTarget(this.pool).query(query, values);
       return this.mapRowToEntity(result.rows[0]);
     } catch (error) {
+      if (isOverlapError(error)) {
+        throw overlapError(appointment);
+      }
       console.error('Database error in create:', error);
       throw error;
     }
@@ -54,7 +76,7 @@ export class PostgresAppointmentRepository implements IAppointmentRepository {
 
   async findById(id: string): Promise<AppointmentEntity | null> {
     const query = 'SELECT * FROM appointments WHERE id = $1';
-    const result: QueryResult = await this.pool.query(query, [id]);
+    const result: QueryResult = await queryTarget(this.pool).query(query, [id]);
     
     if (result.rows.length === 0) {
       return null;
@@ -64,25 +86,32 @@ export class PostgresAppointmentRepository implements IAppointmentRepository {
   }
 
   async update(id: string, appointment: AppointmentEntity): Promise<AppointmentEntity> {
-    const query = `UPDATE appointments SET start_at = $1, end_at = $2, type = $3, notes = $4, calendar_event_id = $5, status = $6, updated_at = $7 WHERE id = $8 RETURNING *`;
-    const values = [appointment.startAt, appointment.endAt, appointment.type, JSON.stringify(appointment.notes), appointment.calendarEventId, appointment.status, new Date(), id];
-    const result = await this.pool.query(query, values);
-    return this.mapRowToEntity(result.rows[0]);
+    const query = `UPDATE appointments SET start_at = $1, end_at = $2, type = $3, notes = $4, calendar_event_id = $5, status = $6, updated_at = $7, provider_id = $8, patient_id = $9, series_id = $10 WHERE id = $11 RETURNING *`;
+    const values = [appointment.startAt, appointment.endAt, appointment.type, JSON.stringify(appointment.notes), appointment.calendarEventId, appointment.status, new Date(), appointment.providerId || null, appointment.patientId || null, appointment.seriesId || null, id];
+    try {
+      const result = await queryTarget(this.pool).query(query, values);
+      return this.mapRowToEntity(result.rows[0]);
+    } catch (error) {
+      if (isOverlapError(error)) {
+        throw overlapError(appointment);
+      }
+      throw error;
+    }
   }
 
   async delete(id: string): Promise<boolean> {
     const query = 'DELETE FROM appointments WHERE id = $1';
-    const result: QueryResult = await this.pool.query(query, [id]);
+    const result: QueryResult = await queryTarget(this.pool).query(query, [id]);
     return result.rowCount !== null && result.rowCount > 0;
   }
 
 
-  async isAvailable(startAt: Date, endAt: Date, excludeId?: string): Promise<boolean> {
-    const conflictingAppointments = await this.getConflictingAppointments(startAt, endAt, excludeId);
+  async isAvailable(startAt: Date, endAt: Date, excludeId?: string, providerId?: string): Promise<boolean> {
+    const conflictingAppointments = await this.getConflictingAppointments(startAt, endAt, excludeId, providerId);
     return conflictingAppointments.length === 0;
   }
 
-  async getConflictingAppointments(startAt: Date, endAt: Date, excludeId?: string): Promise<AppointmentEntity[]> {
+  async getConflictingAppointments(startAt: Date, endAt: Date, excludeId?: string, providerId?: string): Promise<AppointmentEntity[]> {
     let query = `
       SELECT * FROM appointments 
       WHERE start_at < $1 
@@ -93,23 +122,106 @@ export class PostgresAppointmentRepository implements IAppointmentRepository {
     const values: (Date | string)[] = [endAt, startAt];
     
     if (excludeId) {
-      query += ` AND id != $3`;
       values.push(excludeId);
+      query += ` AND id != $${values.length}`;
+    }
+
+    // Scope the check to a single provider's calendar when one is given
+    if (providerId) {
+      values.push(providerId);
+      query += ` AND provider_id = $${values.length}`;
     }
     
-    const result: QueryResult = await this.pool.query(query, values);
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
     return result.rows.map(row => this.mapRowToEntity(row));
   }
 
   async getActiveAppointmentsByEmailOrPhone(emailOrPhone: string): Promise<AppointmentEntity[]> {
+    // Also follow the patient record, so bookings made under other contact details
+    // (or moved here by a merge) are found too
     const query = `
       SELECT * FROM appointments 
-      WHERE (email = $1 OR phone_number = $1) 
+      WHERE (
+          email = $1 OR phone_number = $1
+          OR patient_id IN (
+            SELECT COALESCE(merged_into_id, id) FROM patients WHERE email = $1 OR phone_number = $1
+          )
+        )
         AND status IN ('scheduled', 'confirmed')
       ORDER BY start_at
     `;
     
-    const result: QueryResult = await this.pool.query(query, [emailOrPhone]);
+    const result: QueryResult = await queryTarget(this.pool).query(query, [normalizeEmailOrPhone(emailOrPhone, this.defaultPhoneCountry)]);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async search(criteria: AppointmentSearchCriteria): Promise<AppointmentEntity[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (criteria.from) {
+      conditions.push(`start_at >= ${param(criteria.from)}`);
+    }
+    if (criteria.to) {
+      conditions.push(`start_at < ${param(criteria.to)}`);
+    }
+    if (criteria.statuses?.length) {
+      conditions.push(`status = ANY(${param(criteria.statuses)})`);
+    }
+    if (criteria.types?.length) {
+      conditions.push(`type = ANY(${param(criteria.types)})`);
+    }
+    if (criteria.providerId) {
+      conditions.push(`provider_id = ${param(criteria.providerId)}`);
+    }
+    if (criteria.seriesId) {
+      conditions.push(`series_id = ${param(criteria.seriesId)}`);
+    }
+    if (criteria.callId) {
+      conditions.push(`notes->>'call_id' = ${param(criteria.callId)}`);
+    }
+    if (criteria.contact) {
+      const contact = param(normalizeEmailOrPhone(criteria.contact, this.defaultPhoneCountry));
+      conditions.push(`(
+        email = ${contact} OR phone_number = ${contact}
+        OR patient_id IN (SELECT COALESCE(merged_into_id, id) FROM patients WHERE email = ${contact} OR phone_number = ${contact})
+      )`);
+    }
+    if (criteria.patientName) {
+      // "jo" matches either name; "john do" matches first name "john..." and last name "do..."
+      const [firstName, ...rest] = criteria.patientName.trim().split(/\s+/);
+      if (rest.length === 0) {
+        const prefix = param(`${escapeLikePattern(firstName)}%`);
+        conditions.push(`(first_name ILIKE ${prefix} OR last_name ILIKE ${prefix})`);
+      } else {
+        conditions.push(`first_name ILIKE ${param(`${escapeLikePattern(firstName)}%`)}`);
+        conditions.push(`last_name ILIKE ${param(`${escapeLikePattern(rest.join(' '))}%`)}`);
+      }
+    }
+
+    // Keyset pagination on (sort column, id) keeps pages stable while rows are added
+    // Cursors carry JavaScript dates, so sort and compare at their millisecond precision; stored
+    // microseconds would otherwise put rows between a cursor and the row it was taken from
+    const column = criteria.sortBy === 'createdAt' ? 'created_at' : 'start_at';
+    const sortKey = `date_trunc('milliseconds', ${column})`;
+    const direction = criteria.sortOrder === 'desc' ? 'DESC' : 'ASC';
+    if (criteria.after) {
+      const comparison = criteria.sortOrder === 'desc' ? '<' : '>';
+      conditions.push(`(${sortKey}, id) ${comparison} (${param(criteria.after.value)}::timestamptz, ${param(criteria.after.id)}::uuid)`);
+    }
+
+    const query = `
+      SELECT * FROM appointments
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${sortKey} ${direction}, id ${direction}
+      LIMIT ${param(criteria.limit)}
+    `;
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
     return result.rows.map(row => this.mapRowToEntity(row));
   }
 
@@ -127,6 +239,10 @@ export class PostgresAppointmentRepository implements IAppointmentRepository {
       reason: row.reason || undefined,
       status: row.status,
       calendarEventId: row.calendar_event_id || undefined,
+      calendarSyncState: row.calendar_sync_state || undefined,
+      providerId: row.provider_id || undefined,
+      patientId: row.patient_id || undefined,
+      seriesId: row.series_id || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
     });
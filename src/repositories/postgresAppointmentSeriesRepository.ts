@@ -0,0 +1,117 @@
+import { Pool, QueryResult } from 'pg';
+import { IAppointmentSeriesRepository } from './interfaces/IAppointmentSeriesRepository';
+import { AppointmentSeriesEntity } from '../models/AppointmentSeriesEntity';
+import { createPostgresPool, queryTarget } from './postgresPool';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizePhoneNumber } from '../utils/contactUtils';
+
+// Exception dates come back as "YYYY-MM-DD" strings rather than Dates at server-local midnight
+const RETURNED_COLUMNS = '*, exceptions::text[] AS exception_dates';
+
+export class PostgresAppointmentSeriesRepository implements IAppointmentSeriesRepository {
+  private pool: Pool;
+  private readonly defaultPhoneCountry: CountryCode;
+
+  constructor(pool?: Pool, defaultPhoneCountry: CountryCode = DEFAULT_PHONE_COUNTRY) {
+    this.pool = pool ?? createPostgresPool();
+    this.defaultPhoneCountry = defaultPhoneCountry;
+  }
+
+  async create(series: AppointmentSeriesEntity): Promise<AppointmentSeriesEntity> {
+    const query = `
+      INSERT INTO appointment_series (
+        patient_id, first_name, last_name, email, phone_number, type, provider_id, start_at, duration_minutes,
+        time_zone, frequency, interval_count, occurrence_count, until_at, exceptions, status, call_id
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      RETURNING ${RETURNED_COLUMNS}
+    `;
+    const values = [
+      series.patientId || null,
+      series.firstName,
+      series.lastName,
+      series.email ? normalizeEmail(series.email) : null,
+      series.phoneNumber ? normalizePhoneNumber(series.phoneNumber, this.defaultPhoneCountry) : null,
+      series.type,
+      series.providerId || null,
+      series.startAt,
+      series.durationMinutes,
+      series.timeZone,
+      ...this.recurrenceValues(series),
+      series.status,
+      series.callId || null
+    ];
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async update(id: string, series: AppointmentSeriesEntity): Promise<AppointmentSeriesEntity> {
+    const query = `
+      UPDATE appointment_series
+      SET type = $1, provider_id = $2, start_at = $3, duration_minutes = $4, frequency = $5, interval_count = $6,
+          occurrence_count = $7, until_at = $8, exceptions = $9, status = $10, updated_at = $11
+      WHERE id = $12
+      RETURNING ${RETURNED_COLUMNS}
+    `;
+    const values = [
+      series.type,
+      series.providerId || null,
+      series.startAt,
+      series.durationMinutes,
+      ...this.recurrenceValues(series),
+      series.status,
+      new Date(),
+      id
+    ];
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result: QueryResult = await queryTarget(this.pool).query('DELETE FROM appointment_series WHERE id = $1', [id]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async findById(id: string): Promise<AppointmentSeriesEntity | null> {
+    const result: QueryResult = await queryTarget(this.pool).query(`SELECT ${RETURNED_COLUMNS} FROM appointment_series WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  private recurrenceValues(series: AppointmentSeriesEntity): unknown[] {
+    const { frequency, interval, count, until, exceptions } = series.recurrence;
+    return [frequency, interval, count ?? null, until ?? null, exceptions];
+  }
+
+  private mapRowToEntity(row: any): AppointmentSeriesEntity {
+    return new AppointmentSeriesEntity({
+      id: row.id,
+      patientId: row.patient_id || undefined,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email || undefined,
+      phoneNumber: row.phone_number || undefined,
+      type: row.type,
+      providerId: row.provider_id || undefined,
+      startAt: new Date(row.start_at),
+      durationMinutes: row.duration_minutes,
+      timeZone: row.time_zone,
+      recurrence: {
+        frequency: row.frequency,
+        interval: row.interval_count,
+        count: row.occurrence_count ?? undefined,
+        until: row.until_at ? new Date(row.until_at) : undefined,
+        exceptions: row.exception_dates || []
+      },
+      status: row.status,
+      callId: row.call_id || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
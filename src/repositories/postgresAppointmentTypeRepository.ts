@@ -0,0 +1,54 @@
+import { Pool, QueryResult } from 'pg';
+import { IAppointmentTypeRepository } from './interfaces/IAppointmentTypeRepository';
+import { AppointmentTypeEntity } from '../models/AppointmentTypeEntity';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresAppointmentTypeRepository implements IAppointmentTypeRepository {
+  private pool: Pool;
+
+  private static readonly SELECT_WITH_PROVIDERS = `
+    SELECT t.*, 
+      COALESCE(array_agg(tp.provider_id) FILTER (WHERE tp.provider_id IS NOT NULL), '{}') AS provider_ids
+    FROM appointment_types t
+    LEFT JOIN appointment_type_providers tp ON tp.appointment_type_code = t.code
+  `;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async findByCode(code: string): Promise<AppointmentTypeEntity | null> {
+    const query = `${PostgresAppointmentTypeRepository.SELECT_WITH_PROVIDERS} WHERE t.code = $1 GROUP BY t.code`;
+    const result: QueryResult = await this.pool.query(query, [code]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findAll(): Promise<AppointmentTypeEntity[]> {
+    const query = `${PostgresAppointmentTypeRepository.SELECT_WITH_PROVIDERS} GROUP BY t.code ORDER BY t.name`;
+    const result: QueryResult = await this.pool.query(query);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  private mapRowToEntity(row: any): AppointmentTypeEntity {
+    return new AppointmentTypeEntity({
+      code: row.code,
+      name: row.name,
+      defaultDurationMinutes: Number(row.default_duration_minutes),
+      allowedDurationsMinutes: (row.allowed_durations_minutes || []).map(Number),
+      bufferBeforeMinutes: Number(row.buffer_before_minutes),
+      bufferAfterMinutes: Number(row.buffer_after_minutes),
+      minLeadTimeMinutes: Number(row.min_lead_time_minutes),
+      providerIds: row.provider_ids || [],
+      active: row.active,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,61 @@
+import { Pool, QueryResult } from 'pg';
+import { IBusinessHoursRepository } from './interfaces/IBusinessHoursRepository';
+import { BusinessHoursRule } from '../types/availability';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresBusinessHoursRepository implements IBusinessHoursRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async findByProvider(providerId: string): Promise<BusinessHoursRule[]> {
+    const query = `
+      SELECT * FROM business_hours 
+      WHERE provider_id = $1 
+      ORDER BY day_of_week, opens_at
+    `;
+
+    const result: QueryResult = await this.pool.query(query, [providerId]);
+    return result.rows.map(row => this.mapRowToRule(row));
+  }
+
+  async findByLocation(locationId: string): Promise<BusinessHoursRule[]> {
+    const query = `
+      SELECT * FROM business_hours 
+      WHERE location_id = $1 
+      ORDER BY day_of_week, opens_at
+    `;
+
+    const result: QueryResult = await this.pool.query(query, [locationId]);
+    return result.rows.map(row => this.mapRowToRule(row));
+  }
+
+  async findClinicWide(): Promise<BusinessHoursRule[]> {
+    const query = `
+      SELECT * FROM business_hours 
+      WHERE location_id IS NULL AND provider_id IS NULL 
+      ORDER BY day_of_week, opens_at
+    `;
+
+    const result: QueryResult = await this.pool.query(query);
+    return result.rows.map(row => this.mapRowToRule(row));
+  }
+
+  private mapRowToRule(row: any): BusinessHoursRule {
+    return {
+      id: row.id,
+      locationId: row.location_id || undefined,
+      providerId: row.provider_id || undefined,
+      dayOfWeek: Number(row.day_of_week),
+      // Postgres returns time columns as "HH:mm:ss"
+      opensAt: String(row.opens_at).slice(0, 5),
+      closesAt: String(row.closes_at).slice(0, 5),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,116 @@
+import { Pool, QueryResult } from 'pg';
+import { ICalendarSyncRepository } from './interfaces/ICalendarSyncRepository';
+import { CalendarSyncJobEntity } from '../models/CalendarSyncJobEntity';
+import { CalendarSyncAction } from '../types/calendarSync';
+import { createPostgresPool, queryTarget } from './postgresPool';
+
+export class PostgresCalendarSyncRepository implements ICalendarSyncRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async enqueue(appointmentId: string, action: CalendarSyncAction, leaseSeconds: number): Promise<CalendarSyncJobEntity> {
+    // An event that was never created still has to be, whatever else changed in the meantime
+    const query = `
+      WITH job AS (
+        INSERT INTO calendar_sync_jobs (appointment_id, action, attempts, next_attempt_at)
+        VALUES ($1, $2, 1, now() + make_interval(secs => $3))
+        ON CONFLICT (appointment_id) WHERE status = 'pending' DO UPDATE
+        SET action = CASE WHEN calendar_sync_jobs.action = 'create' AND EXCLUDED.action = 'update' THEN 'create' ELSE EXCLUDED.action END,
+            revision = calendar_sync_jobs.revision + 1,
+            attempts = 1,
+            next_attempt_at = EXCLUDED.next_attempt_at,
+            updated_at = now()
+        RETURNING *
+      ), appointment AS (
+        UPDATE appointments SET calendar_sync_state = 'pending' WHERE id = $1
+      )
+      SELECT * FROM job
+    `;
+    const result: QueryResult = await queryTarget(this.pool).query(query, [appointmentId, action, leaseSeconds]);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async claimDue(now: Date, limit: number, leaseSeconds: number): Promise<CalendarSyncJobEntity[]> {
+    // SKIP LOCKED lets several workers sync side by side without taking the same job
+    const query = `
+      UPDATE calendar_sync_jobs
+      SET attempts = attempts + 1, next_attempt_at = $1::timestamptz + make_interval(secs => $3), updated_at = now()
+      WHERE id IN (
+        SELECT id FROM calendar_sync_jobs
+        WHERE status = 'pending' AND next_attempt_at <= $1
+        ORDER BY next_attempt_at
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result: QueryResult = await queryTarget(this.pool).query(query, [now, limit, leaseSeconds]);
+    return result.rows
+      .map(row => this.mapRowToEntity(row))
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async markSynced(job: CalendarSyncJobEntity, calendarEventId?: string): Promise<boolean> {
+    const result: QueryResult = await queryTarget(this.pool).query(`
+      WITH job AS (
+        UPDATE calendar_sync_jobs
+        SET status = 'done', last_error = NULL, completed_at = now(), updated_at = now()
+        WHERE id = $1 AND revision = $2 AND status = 'pending'
+        RETURNING appointment_id
+      )
+      UPDATE appointments
+      SET calendar_sync_state = 'synced', calendar_event_id = COALESCE($3, calendar_event_id)
+      WHERE id IN (SELECT appointment_id FROM job)
+      RETURNING id
+    `, [job.id, job.revision, calendarEventId ?? null]);
+    return result.rows.length > 0;
+  }
+
+  async scheduleRetry(job: CalendarSyncJobEntity, error: string, nextAttemptAt: Date): Promise<boolean> {
+    const result: QueryResult = await queryTarget(this.pool).query(`
+      UPDATE calendar_sync_jobs
+      SET next_attempt_at = $3, last_error = $4, updated_at = now()
+      WHERE id = $1 AND revision = $2 AND status = 'pending'
+    `, [job.id, job.revision, nextAttemptAt, error]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async markFailed(job: CalendarSyncJobEntity, error: string): Promise<boolean> {
+    const result: QueryResult = await queryTarget(this.pool).query(`
+      WITH job AS (
+        UPDATE calendar_sync_jobs
+        SET status = 'failed', last_error = $3, updated_at = now()
+        WHERE id = $1 AND revision = $2 AND status = 'pending'
+        RETURNING appointment_id
+      )
+      UPDATE appointments
+      SET calendar_sync_state = 'failed'
+      WHERE id IN (SELECT appointment_id FROM job)
+      RETURNING id
+    `, [job.id, job.revision, error]);
+    return result.rows.length > 0;
+  }
+
+  private mapRowToEntity(row: any): CalendarSyncJobEntity {
+    return new CalendarSyncJobEntity({
+      id: row.id,
+      appointmentId: row.appointment_id,
+      action: row.action,
+      status: row.status,
+      revision: row.revision,
+      attempts: row.attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      lastError: row.last_error || undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,90 @@
+import { Pool, QueryResult } from 'pg';
+import { ICommunicationPreferencesRepository } from './interfaces/ICommunicationPreferencesRepository';
+import { CommunicationPreferencesEntity } from '../models/CommunicationPreferencesEntity';
+import { ConsentRecord } from '../types/preferences';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresCommunicationPreferencesRepository implements ICommunicationPreferencesRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async findByPatient(patientId: string): Promise<CommunicationPreferencesEntity | null> {
+    const [preferences, consents]: QueryResult[] = await Promise.all([
+      this.pool.query('SELECT * FROM communication_preferences WHERE patient_id = $1', [patientId]),
+      this.pool.query('SELECT * FROM communication_consents WHERE patient_id = $1 ORDER BY recorded_at, id', [patientId])
+    ]);
+
+    if (preferences.rows.length === 0 && consents.rows.length === 0) {
+      return null;
+    }
+
+    const row = preferences.rows[0];
+    return new CommunicationPreferencesEntity({
+      patientId,
+      preferredChannel: row?.preferred_channel || undefined,
+      // Postgres returns time columns as "HH:mm:ss"
+      quietHours: row?.quiet_hours_start
+        ? { start: row.quiet_hours_start.slice(0, 5), end: row.quiet_hours_end.slice(0, 5) }
+        : undefined,
+      consents: consents.rows.map(consent => this.mapRowToConsent(consent)),
+      updatedAt: row?.updated_at ? new Date(row.updated_at) : undefined
+    });
+  }
+
+  async save(preferences: CommunicationPreferencesEntity): Promise<void> {
+    const query = `
+      INSERT INTO communication_preferences (patient_id, preferred_channel, quiet_hours_start, quiet_hours_end, updated_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (patient_id) DO UPDATE
+      SET preferred_channel = EXCLUDED.preferred_channel,
+          quiet_hours_start = EXCLUDED.quiet_hours_start,
+          quiet_hours_end = EXCLUDED.quiet_hours_end,
+          updated_at = EXCLUDED.updated_at
+    `;
+    const values = [
+      preferences.patientId,
+      preferences.preferredChannel || null,
+      preferences.quietHours?.start ?? null,
+      preferences.quietHours?.end ?? null,
+      new Date()
+    ];
+
+    await this.pool.query(query, values);
+  }
+
+  async addConsent(patientId: string, consent: ConsentRecord): Promise<void> {
+    const query = `
+      INSERT INTO communication_consents (patient_id, channel, category, granted, source, source_reference, recorded_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `;
+    const values = [
+      patientId,
+      consent.channel,
+      consent.category || null,
+      consent.granted,
+      consent.source,
+      consent.sourceReference || null,
+      consent.recordedAt
+    ];
+
+    await this.pool.query(query, values);
+  }
+
+  private mapRowToConsent(row: any): ConsentRecord {
+    return {
+      channel: row.channel,
+      category: row.category || undefined,
+      granted: row.granted,
+      source: row.source,
+      sourceReference: row.source_reference || undefined,
+      recordedAt: new Date(row.recorded_at)
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
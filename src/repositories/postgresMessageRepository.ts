@@ -0,0 +1,95 @@
+import { Pool, QueryResult } from 'pg';
+import { IMessageRepository } from './interfaces/IMessageRepository';
+import { MessageEntity } from '../models/MessageEntity';
+import { DeliveryReceipt } from '../types/message';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresMessageRepository implements IMessageRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async create(message: MessageEntity): Promise<MessageEntity> {
+    const query = `
+      INSERT INTO messages (outbox_message_id, appointment_id, waitlist_entry_id, channel, recipient, template, language, template_version, transport, status, provider_message_id, provider_response, error)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING *
+    `;
+    const values = [
+      message.outboxMessageId || null,
+      message.appointmentId || null,
+      message.waitlistEntryId || null,
+      message.channel,
+      message.recipient,
+      message.template,
+      message.language || null,
+      message.templateVersion ?? null,
+      message.transport,
+      message.status,
+      message.providerMessageId || null,
+      message.providerResponse === undefined ? null : JSON.stringify(message.providerResponse),
+      message.error || null
+    ];
+
+    const result: QueryResult = await this.pool.query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findByAppointment(appointmentId: string): Promise<MessageEntity[]> {
+    const result: QueryResult = await this.pool.query(
+      'SELECT * FROM messages WHERE appointment_id = $1 ORDER BY created_at',
+      [appointmentId]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async applyReceipt(receipt: DeliveryReceipt): Promise<MessageEntity | null> {
+    // Receipts can arrive out of order; once a message is delivered a late failure report doesn't undo it
+    const query = `
+      UPDATE messages
+      SET status = $1, provider_response = $2, status_updated_at = now()
+      WHERE channel = $3 AND provider_message_id = $4 AND status <> 'delivered'
+      RETURNING *
+    `;
+    const values = [
+      receipt.status,
+      receipt.detail === undefined ? null : JSON.stringify(receipt.detail),
+      receipt.channel,
+      receipt.providerMessageId
+    ];
+
+    const result: QueryResult = await this.pool.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  private mapRowToEntity(row: any): MessageEntity {
+    return new MessageEntity({
+      id: row.id,
+      outboxMessageId: row.outbox_message_id || undefined,
+      appointmentId: row.appointment_id || undefined,
+      waitlistEntryId: row.waitlist_entry_id || undefined,
+      channel: row.channel,
+      recipient: row.recipient,
+      template: row.template,
+      language: row.language || undefined,
+      templateVersion: row.template_version ?? undefined,
+      transport: row.transport,
+      status: row.status,
+      providerMessageId: row.provider_message_id || undefined,
+      providerResponse: row.provider_response ?? undefined,
+      error: row.error || undefined,
+      statusUpdatedAt: new Date(row.status_updated_at),
+      createdAt: new Date(row.created_at),
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,127 @@
+import { Pool, QueryResult } from 'pg';
+import { IMigrationRepository } from './interfaces/IMigrationRepository';
+import { AppliedMigration, Migration } from '../types/migration';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresMigrationRepository implements IMigrationRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async withLock<T>(work: () => Promise<T>): Promise<T> {
+    // A session-level advisory lock, held on its own connection while `work` uses the pool
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(`SELECT pg_advisory_lock(hashtext('schema_migrations'))`);
+      try {
+        return await work();
+      } finally {
+        await client.query(`SELECT pg_advisory_unlock(hashtext('schema_migrations'))`);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  async ensureHistoryTable(): Promise<void> {
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version integer PRIMARY KEY,
+        description text NOT NULL,
+        script text NOT NULL,
+        checksum text NOT NULL,
+        applied_at timestamptz NOT NULL DEFAULT now(),
+        execution_ms integer
+      )
+    `);
+  }
+
+  async findApplied(): Promise<AppliedMigration[]> {
+    const exists: QueryResult = await this.pool.query(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`);
+    if (!exists.rows[0].exists) {
+      return [];
+    }
+
+    const result: QueryResult = await this.pool.query('SELECT * FROM schema_migrations ORDER BY version');
+    return result.rows.map(row => this.mapRowToMigration(row));
+  }
+
+  async findFlywayVersions(): Promise<number[]> {
+    const exists: QueryResult = await this.pool.query(`SELECT to_regclass('flyway_schema_history') IS NOT NULL AS exists`);
+    if (!exists.rows[0].exists) {
+      return [];
+    }
+
+    // Baseline rows and repeatable migrations have no whole-number version of a file of ours
+    const result: QueryResult = await this.pool.query(`
+      SELECT version::integer AS version
+      FROM flyway_schema_history
+      WHERE success AND type = 'SQL' AND version ~ '^[0-9]+$'
+      ORDER BY version::integer
+    `);
+    return result.rows.map(row => row.version);
+  }
+
+  async recordAdopted(migrations: Migration[]): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const migration of migrations) {
+        await client.query(
+          'INSERT INTO schema_migrations (version, description, script, checksum) VALUES ($1, $2, $3, $4)',
+          [migration.version, migration.description, migration.script, migration.checksum]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Database error in recordAdopted:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async apply(migration: Migration): Promise<AppliedMigration> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const startedAt = Date.now();
+      // Without parameters the whole file runs as one multi-statement query
+      await client.query(migration.sql);
+      const result: QueryResult = await client.query(`
+        INSERT INTO schema_migrations (version, description, script, checksum, execution_ms)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `, [migration.version, migration.description, migration.script, migration.checksum, Date.now() - startedAt]);
+      await client.query('COMMIT');
+
+      return this.mapRowToMigration(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private mapRowToMigration(row: any): AppliedMigration {
+    return {
+      version: row.version,
+      description: row.description,
+      script: row.script,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+      executionMs: row.execution_ms ?? undefined
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { Pool, QueryResult } from 'pg';
+import { IOutboxRepository } from './interfaces/IOutboxRepository';
+import { OutboxMessageEntity } from '../models/OutboxMessageEntity';
+import { OutboxFilter } from '../types/outbox';
+import { createPostgresPool, queryTarget } from './postgresPool';
+
+const DEFAULT_LIMIT = 50;
+
+export class PostgresOutboxRepository implements IOutboxRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async enqueue(message: OutboxMessageEntity): Promise<OutboxMessageEntity> {
+    const query = `
+      INSERT INTO message_outbox (
+        channel, recipient, subject, body, html, calendar_invite, event_type, appointment_id, waitlist_entry_id,
+        language, template_version, status, next_attempt_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING *
+    `;
+    const values = [
+      message.type,
+      message.to,
+      message.subject,
+      message.body,
+      message.html || null,
+      message.calendarInvite ? JSON.stringify(message.calendarInvite) : null,
+      message.eventType,
+      message.appointmentId || null,
+      message.waitlistEntryId || null,
+      message.language || null,
+      message.templateVersion ?? null,
+      message.status,
+      message.nextAttemptAt
+    ];
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<OutboxMessageEntity | null> {
+    const result: QueryResult = await queryTarget(this.pool).query('SELECT * FROM message_outbox WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async find(filter: OutboxFilter): Promise<OutboxMessageEntity[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filter.status) {
+      values.push(filter.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filter.appointmentId) {
+      values.push(filter.appointmentId);
+      conditions.push(`appointment_id = $${values.length}`);
+    }
+    values.push(filter.limit ?? DEFAULT_LIMIT);
+
+    const query = `
+      SELECT * FROM message_outbox
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC
+      LIMIT $${values.length}
+    `;
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async claimDue(now: Date, limit: number, leaseSeconds: number): Promise<OutboxMessageEntity[]> {
+    // SKIP LOCKED lets several workers deliver side by side without taking the same message
+    const query = `
+      UPDATE message_outbox
+      SET attempts = attempts + 1, next_attempt_at = $1::timestamptz + make_interval(secs => $3), updated_at = now()
+      WHERE id IN (
+        SELECT id FROM message_outbox
+        WHERE status = 'pending' AND next_attempt_at <= $1
+        ORDER BY next_attempt_at
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result: QueryResult = await queryTarget(this.pool).query(query, [now, limit, leaseSeconds]);
+    return result.rows
+      .map(row => this.mapRowToEntity(row))
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async markSent(id: string): Promise<void> {
+    await queryTarget(this.pool).query(
+      `UPDATE message_outbox SET status = 'sent', sent_at = now(), last_error = NULL, updated_at = now() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async scheduleRetry(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+    await queryTarget(this.pool).query(
+      `UPDATE message_outbox SET next_attempt_at = $1, last_error = $2, updated_at = now() WHERE id = $3`,
+      [nextAttemptAt, error, id]
+    );
+  }
+
+  async markDead(id: string, error: string): Promise<void> {
+    await queryTarget(this.pool).query(
+      `UPDATE message_outbox SET status = 'dead', last_error = $1, updated_at = now() WHERE id = $2`,
+      [error, id]
+    );
+  }
+
+  async requeue(id: string): Promise<OutboxMessageEntity | null> {
+    const result: QueryResult = await queryTarget(this.pool).query(`
+      UPDATE message_outbox
+      SET status = 'pending', attempts = 0, next_attempt_at = now(), updated_at = now()
+      WHERE id = $1 AND status = 'dead'
+      RETURNING *
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async requeueDead(): Promise<number> {
+    const result: QueryResult = await queryTarget(this.pool).query(`
+      UPDATE message_outbox
+      SET status = 'pending', attempts = 0, next_attempt_at = now(), updated_at = now()
+      WHERE status = 'dead'
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  private mapRowToEntity(row: any): OutboxMessageEntity {
+    return new OutboxMessageEntity({
+      id: row.id,
+      to: row.recipient,
+      subject: row.subject,
+      body: row.body,
+      html: row.html || undefined,
+      calendarInvite: row.calendar_invite ?? undefined,
+      type: row.channel,
+      appointmentId: row.appointment_id || undefined,
+      waitlistEntryId: row.waitlist_entry_id || undefined,
+      eventType: row.event_type,
+      language: row.language || undefined,
+      templateVersion: row.template_version ?? undefined,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      lastError: row.last_error || undefined,
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
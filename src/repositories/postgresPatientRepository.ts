@@ -0,0 +1,144 @@
+import { Pool, QueryResult } from 'pg';
+import { IPatientRepository } from './interfaces/IPatientRepository';
+import { PatientEntity } from '../models/PatientEntity';
+import { createPostgresPool, queryTarget } from './postgresPool';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizePhoneNumber } from '../utils/contactUtils';
+
+export class PostgresPatientRepository implements IPatientRepository {
+  private pool: Pool;
+  private readonly defaultPhoneCountry: CountryCode;
+
+  constructor(pool?: Pool, defaultPhoneCountry: CountryCode = DEFAULT_PHONE_COUNTRY) {
+    this.pool = pool ?? createPostgresPool();
+    this.defaultPhoneCountry = defaultPhoneCountry;
+  }
+
+  async create(patient: PatientEntity): Promise<PatientEntity> {
+    const query = `
+      INSERT INTO patients (first_name, last_name, email, phone_number, preferred_language)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+    const values = [patient.firstName, patient.lastName, ...this.contactValues(patient.email, patient.phoneNumber), patient.preferredLanguage || null];
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async update(id: string, patient: PatientEntity): Promise<PatientEntity> {
+    const query = `
+      UPDATE patients 
+      SET first_name = $1, last_name = $2, email = $3, phone_number = $4, preferred_language = $5, updated_at = $6 
+      WHERE id = $7 
+      RETURNING *
+    `;
+    const values = [
+      patient.firstName,
+      patient.lastName,
+      ...this.contactValues(patient.email, patient.phoneNumber),
+      patient.preferredLanguage || null,
+      new Date(),
+      id
+    ];
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<PatientEntity | null> {
+    const result: QueryResult = await queryTarget(this.pool).query('SELECT * FROM patients WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findByContact(email?: string, phoneNumber?: string): Promise<PatientEntity[]> {
+    if (!email && !phoneNumber) {
+      return [];
+    }
+
+    const query = `
+      SELECT * FROM patients 
+      WHERE merged_into_id IS NULL 
+        AND (email = $1 OR phone_number = $2)
+      ORDER BY created_at
+    `;
+
+    const result: QueryResult = await queryTarget(this.pool).query(query, this.contactValues(email, phoneNumber));
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async merge(sourceId: string, targetId: string): Promise<PatientEntity> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query('UPDATE appointments SET patient_id = $1 WHERE patient_id = $2', [targetId, sourceId]);
+      // Records that were merged into the source earlier now point at the target too
+      await client.query('UPDATE patients SET merged_into_id = $1, updated_at = now() WHERE merged_into_id = $2', [targetId, sourceId]);
+      await client.query('UPDATE patients SET merged_into_id = $1, updated_at = now() WHERE id = $2', [targetId, sourceId]);
+
+      // Consents given on either record stay in force; the latest one still wins
+      await client.query('UPDATE communication_consents SET patient_id = $1 WHERE patient_id = $2', [targetId, sourceId]);
+      await client.query(`
+        INSERT INTO communication_preferences (patient_id, preferred_channel, quiet_hours_start, quiet_hours_end, updated_at)
+        SELECT $1, preferred_channel, quiet_hours_start, quiet_hours_end, now()
+        FROM communication_preferences
+        WHERE patient_id = $2
+        ON CONFLICT (patient_id) DO NOTHING
+      `, [targetId, sourceId]);
+
+      // Keep contact details and the language preference the target is missing
+      const result: QueryResult = await client.query(`
+        UPDATE patients t
+        SET email = COALESCE(t.email, s.email),
+            phone_number = COALESCE(t.phone_number, s.phone_number),
+            preferred_language = COALESCE(t.preferred_language, s.preferred_language),
+            updated_at = now()
+        FROM patients s
+        WHERE t.id = $1 AND s.id = $2
+        RETURNING t.*
+      `, [targetId, sourceId]);
+
+      await client.query('COMMIT');
+      return this.mapRowToEntity(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Database error in merge:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Email and phone are stored in canonical form so lookups can use plain equality
+  private contactValues(email?: string, phoneNumber?: string): (string | null)[] {
+    return [
+      email ? normalizeEmail(email) : null,
+      phoneNumber ? normalizePhoneNumber(phoneNumber, this.defaultPhoneCountry) : null
+    ];
+  }
+
+  private mapRowToEntity(row: any): PatientEntity {
+    return new PatientEntity({
+      id: row.id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email || undefined,
+      phoneNumber: row.phone_number || undefined,
+      mergedIntoId: row.merged_into_id || undefined,
+      preferredLanguage: row.preferred_language || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient } from 'pg';
+
+interface ActiveTransaction {
+  pool: Pool;
+  client: PoolClient;
+  depth: number;
+}
+
+// The transaction opened by withTransaction for the code it runs, so repositories join it without passing a client around
+const activeTransaction = new AsyncLocalStorage<ActiveTransaction>();
+
+/**
+ * Create the PostgreSQL connection pool shared by the Postgres repositories.
+ */
+export function createPostgresPool(): Pool {
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+    max: 20, // maximum number of clients in the pool
+    idleTimeoutMillis: 30000, // close idle clients after 30 seconds
+    connectionTimeoutMillis: 2000, // return an error after 2 seconds if connection could not be established
+  });
+
+  // Handle pool errors
+  pool.on('error', (err) => {
+    console.error('PostgreSQL pool error:', err);
+  });
+
+  return pool;
+}
+
+/**
+ * Where a repository should send a query: the client of the transaction it is running in, if that
+ * transaction is on the same pool, otherwise the pool itself.
+ */
+export function queryTarget(pool: Pool): Pool | PoolClient {
+  const transaction = activeTransaction.getStore();
+  return transaction?.pool === pool ? transaction.client : pool;
+}
+
+/**
+ * Run `work` in a transaction on `pool`, committing if it resolves and rolling back if it throws.
+ * Inside a transaction on the same pool it runs in a savepoint instead, so a failed step can be
+ * caught without aborting the enclosing transaction.
+ */
+export async function withTransaction<T>(pool: Pool, work: (client: PoolClient) => Promise<T>): Promise<T> {
+  const outer = activeTransaction.getStore();
+  if (outer?.pool === pool) {
+    const depth = outer.depth + 1;
+    const savepoint = `savepoint_${depth}`;
+    await outer.client.query(`SAVEPOINT ${savepoint}`);
+    try {
+      const result = await activeTransaction.run({ ...outer, depth }, () => work(outer.client));
+      await outer.client.query(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await outer.client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      throw error;
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await activeTransaction.run({ pool, client, depth: 0 }, () => work(client));
+    // A statement that failed and was caught outside a savepoint turns COMMIT into a rollback
+    const commit = await client.query('COMMIT');
+    if (commit.command === 'ROLLBACK') {
+      throw new Error('Transaction was rolled back because a statement in it failed');
+    }
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,60 @@
+import { Pool, QueryResult } from 'pg';
+import { IProviderRepository } from './interfaces/IProviderRepository';
+import { ProviderEntity } from '../models/ProviderEntity';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresProviderRepository implements IProviderRepository {
+  private pool: Pool;
+
+  // Providers inherit the time zone of the location they work at
+  private static readonly SELECT_WITH_LOCATION = `
+    SELECT p.*, l.time_zone AS location_time_zone
+    FROM providers p
+    LEFT JOIN locations l ON l.id = p.location_id
+  `;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async findById(id: string): Promise<ProviderEntity | null> {
+    const query = `${PostgresProviderRepository.SELECT_WITH_LOCATION} WHERE p.id = $1`;
+    const result: QueryResult = await this.pool.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findActive(): Promise<ProviderEntity[]> {
+    const query = `
+      ${PostgresProviderRepository.SELECT_WITH_LOCATION}
+      WHERE p.active = true 
+      ORDER BY p.last_name, p.first_name
+    `;
+
+    const result: QueryResult = await this.pool.query(query);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  private mapRowToEntity(row: any): ProviderEntity {
+    return new ProviderEntity({
+      id: row.id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      title: row.title || undefined,
+      email: row.email || undefined,
+      locationId: row.location_id || undefined,
+      timeZone: row.location_time_zone || undefined,
+      active: row.active,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,87 @@
+import { Pool, QueryResult } from 'pg';
+import { IReminderRepository } from './interfaces/IReminderRepository';
+import { AppointmentReminderEntity } from '../models/AppointmentReminderEntity';
+import { ReminderStatus } from '../types/reminder';
+import { createPostgresPool, queryTarget, withTransaction } from './postgresPool';
+
+export class PostgresReminderRepository implements IReminderRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async replacePending(appointmentId: string, reminders: AppointmentReminderEntity[]): Promise<void> {
+    try {
+      await withTransaction(this.pool, async client => {
+        await client.query(`DELETE FROM appointment_reminders WHERE appointment_id = $1 AND status = 'pending'`, [appointmentId]);
+
+        for (const reminder of reminders) {
+          await client.query(`
+            INSERT INTO appointment_reminders (appointment_id, offset_minutes, appointment_start_at, due_at, status)
+            VALUES ($1, $2, $3, $4, $5)
+            ON CONFLICT ON CONSTRAINT appointment_reminders_once DO NOTHING
+          `, [appointmentId, reminder.offsetMinutes, reminder.appointmentStartAt, reminder.dueAt, reminder.status]);
+        }
+      });
+    } catch (error) {
+      console.error('Database error in replacePending:', error);
+      throw error;
+    }
+  }
+
+  async cancelPending(appointmentId: string): Promise<number> {
+    const result: QueryResult = await queryTarget(this.pool).query(
+      `UPDATE appointment_reminders SET status = 'cancelled', updated_at = now() WHERE appointment_id = $1 AND status = 'pending'`,
+      [appointmentId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async claimDue(now: Date, limit: number): Promise<AppointmentReminderEntity[]> {
+    // SKIP LOCKED lets several instances dispatch side by side without claiming the same reminder
+    const query = `
+      UPDATE appointment_reminders
+      SET status = 'sending', updated_at = now()
+      WHERE id IN (
+        SELECT id FROM appointment_reminders
+        WHERE status = 'pending' AND due_at <= $1
+        ORDER BY due_at
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result: QueryResult = await queryTarget(this.pool).query(query, [now, limit]);
+    return result.rows
+      .map(row => this.mapRowToEntity(row))
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  async complete(id: string, status: ReminderStatus, error?: string): Promise<void> {
+    await queryTarget(this.pool).query(`
+      UPDATE appointment_reminders
+      SET status = $1, sent_at = CASE WHEN $1 = 'sent' THEN now() ELSE sent_at END, last_error = $2, updated_at = now()
+      WHERE id = $3
+    `, [status, error || null, id]);
+  }
+
+  private mapRowToEntity(row: any): AppointmentReminderEntity {
+    return new AppointmentReminderEntity({
+      id: row.id,
+      appointmentId: row.appointment_id,
+      offsetMinutes: row.offset_minutes,
+      appointmentStartAt: new Date(row.appointment_start_at),
+      dueAt: new Date(row.due_at),
+      status: row.status,
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+      lastError: row.last_error || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
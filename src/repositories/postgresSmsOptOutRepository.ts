@@ -0,0 +1,32 @@
+import { Pool, QueryResult } from 'pg';
+import { ISmsOptOutRepository } from './interfaces/ISmsOptOutRepository';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresSmsOptOutRepository implements ISmsOptOutRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async optOut(phoneNumber: string, keyword: string): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO sms_opt_outs (phone_number, keyword) VALUES ($1, $2) ON CONFLICT (phone_number) DO NOTHING',
+      [phoneNumber, keyword]
+    );
+  }
+
+  async optIn(phoneNumber: string): Promise<boolean> {
+    const result: QueryResult = await this.pool.query('DELETE FROM sms_opt_outs WHERE phone_number = $1', [phoneNumber]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async isOptedOut(phoneNumber: string): Promise<boolean> {
+    const result: QueryResult = await this.pool.query('SELECT 1 FROM sms_opt_outs WHERE phone_number = $1', [phoneNumber]);
+    return result.rows.length > 0;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,90 @@
+import { Pool, QueryResult } from 'pg';
+import { IToolCallRepository } from './interfaces/IToolCallRepository';
+import { ToolCallEntity } from '../models/ToolCallEntity';
+import { ToolCallKey, ToolCallResponse, ToolCallStatus } from '../types/toolCall';
+import { createPostgresPool } from './postgresPool';
+
+export class PostgresToolCallRepository implements IToolCallRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async claim(key: ToolCallKey, staleAfterSeconds: number): Promise<boolean> {
+    // The conflicting row is only taken over while it is stuck in progress; otherwise nothing is returned
+    const query = `
+      INSERT INTO retell_tool_calls (call_id, function_name, args_hash, status)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (call_id, function_name, args_hash) DO UPDATE
+      SET claimed_at = now()
+      WHERE retell_tool_calls.status = $4
+        AND retell_tool_calls.claimed_at < now() - make_interval(secs => $5)
+      RETURNING call_id
+    `;
+
+    const result: QueryResult = await this.pool.query(query, [
+      key.callId,
+      key.functionName,
+      key.argsHash,
+      ToolCallStatus.IN_PROGRESS,
+      staleAfterSeconds
+    ]);
+    return result.rows.length > 0;
+  }
+
+  async find(key: ToolCallKey): Promise<ToolCallEntity | null> {
+    const result: QueryResult = await this.pool.query(
+      'SELECT * FROM retell_tool_calls WHERE call_id = $1 AND function_name = $2 AND args_hash = $3',
+      [key.callId, key.functionName, key.argsHash]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async complete(key: ToolCallKey, response: ToolCallResponse): Promise<void> {
+    const query = `
+      UPDATE retell_tool_calls
+      SET status = $4, response_status = $5, response_body = $6, completed_at = now()
+      WHERE call_id = $1 AND function_name = $2 AND args_hash = $3
+    `;
+
+    await this.pool.query(query, [
+      key.callId,
+      key.functionName,
+      key.argsHash,
+      ToolCallStatus.COMPLETED,
+      response.statusCode,
+      JSON.stringify(response.body ?? null)
+    ]);
+  }
+
+  async release(key: ToolCallKey): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM retell_tool_calls WHERE call_id = $1 AND function_name = $2 AND args_hash = $3 AND status = $4',
+      [key.callId, key.functionName, key.argsHash, ToolCallStatus.IN_PROGRESS]
+    );
+  }
+
+  private mapRowToEntity(row: any): ToolCallEntity {
+    return new ToolCallEntity({
+      callId: row.call_id,
+      functionName: row.function_name,
+      argsHash: row.args_hash,
+      status: row.status,
+      response: row.response_status !== null && row.response_status !== undefined
+        ? { statusCode: row.response_status, body: row.response_body }
+        : undefined,
+      claimedAt: row.claimed_at ? new Date(row.claimed_at) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
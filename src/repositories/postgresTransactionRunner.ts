@@ -0,0 +1,16 @@
+import { Pool } from 'pg';
+import { ITransactionRunner } from './interfaces/ITransactionRunner';
+import { createPostgresPool, withTransaction } from './postgresPool';
+
+export class PostgresTransactionRunner implements ITransactionRunner {
+  private pool: Pool;
+
+  // Pass the pool the repositories use; only their queries on it join the transaction
+  constructor(pool?: Pool) {
+    this.pool = pool ?? createPostgresPool();
+  }
+
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    return await withTransaction(this.pool, () => work());
+  }
+}
@@ -0,0 +1,160 @@
+import { Pool, QueryResult } from 'pg';
+import { IWaitlistRepository } from './interfaces/IWaitlistRepository';
+import { WaitlistEntryEntity } from '../models/WaitlistEntryEntity';
+import { FreedSlot, WaitlistOffer, WaitlistStatus } from '../types/waitlist';
+import { createPostgresPool } from './postgresPool';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizePhoneNumber } from '../utils/contactUtils';
+
+export class PostgresWaitlistRepository implements IWaitlistRepository {
+  private pool: Pool;
+  private readonly defaultPhoneCountry: CountryCode;
+
+  constructor(pool?: Pool, defaultPhoneCountry: CountryCode = DEFAULT_PHONE_COUNTRY) {
+    this.pool = pool ?? createPostgresPool();
+    this.defaultPhoneCountry = defaultPhoneCountry;
+  }
+
+  async create(entry: WaitlistEntryEntity): Promise<WaitlistEntryEntity> {
+    const query = `
+      INSERT INTO waitlist_entries (
+        patient_id, first_name, last_name, email, phone_number, type, provider_id,
+        earliest_at, latest_at, status, call_id
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *
+    `;
+    const values = [
+      entry.patientId || null,
+      entry.firstName,
+      entry.lastName,
+      entry.email ? normalizeEmail(entry.email) : null,
+      entry.phoneNumber ? normalizePhoneNumber(entry.phoneNumber, this.defaultPhoneCountry) : null,
+      entry.type,
+      entry.providerId || null,
+      entry.earliestAt,
+      entry.latestAt,
+      entry.status,
+      entry.callId || null
+    ];
+
+    const result: QueryResult = await this.pool.query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async update(id: string, entry: WaitlistEntryEntity): Promise<WaitlistEntryEntity> {
+    const query = `
+      UPDATE waitlist_entries
+      SET status = $1, offer_token = $2, offered_start_at = $3, offered_end_at = $4, offered_provider_id = $5,
+          offer_expires_at = $6, appointment_id = $7, updated_at = $8
+      WHERE id = $9
+      RETURNING *
+    `;
+    const values = [
+      entry.status,
+      entry.offer?.token ?? null,
+      entry.offer?.startAt ?? null,
+      entry.offer?.endAt ?? null,
+      entry.offer?.providerId ?? null,
+      entry.offer?.expiresAt ?? null,
+      entry.appointmentId || null,
+      new Date(),
+      id
+    ];
+
+    const result: QueryResult = await this.pool.query(query, values);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<WaitlistEntryEntity | null> {
+    const result: QueryResult = await this.pool.query('SELECT * FROM waitlist_entries WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  async findByOfferToken(token: string): Promise<WaitlistEntryEntity | null> {
+    const result: QueryResult = await this.pool.query('SELECT * FROM waitlist_entries WHERE offer_token = $1', [token]);
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  async findByStatus(status?: WaitlistStatus): Promise<WaitlistEntryEntity[]> {
+    const result: QueryResult = status
+      ? await this.pool.query('SELECT * FROM waitlist_entries WHERE status = $1 ORDER BY created_at, id', [status])
+      : await this.pool.query('SELECT * FROM waitlist_entries ORDER BY created_at, id');
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async findWaitingFor(slot: FreedSlot, after?: { createdAt: Date; id: string }): Promise<WaitlistEntryEntity[]> {
+    let query = `
+      SELECT * FROM waitlist_entries
+      WHERE status = 'waiting'
+        AND type = $1
+        AND earliest_at <= $2
+        AND latest_at >= $3
+        AND (provider_id IS NULL OR provider_id = $4)
+    `;
+    const values: unknown[] = [slot.type, slot.startAt, slot.endAt, slot.providerId || null];
+
+    if (after) {
+      values.push(after.createdAt, after.id);
+      query += ` AND (created_at, id) > ($5::timestamptz, $6::uuid)`;
+    }
+
+    query += ' ORDER BY created_at, id';
+    const result: QueryResult = await this.pool.query(query, values);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async findExpiredOffers(now: Date): Promise<WaitlistEntryEntity[]> {
+    const query = `SELECT * FROM waitlist_entries WHERE status = 'offered' AND offer_expires_at <= $1 ORDER BY offer_expires_at`;
+    const result: QueryResult = await this.pool.query(query, [now]);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async makeOffer(id: string, offer: WaitlistOffer): Promise<WaitlistEntryEntity | null> {
+    // The status check keeps two freed slots from being offered to the same patient at once
+    const query = `
+      UPDATE waitlist_entries
+      SET status = 'offered', offer_token = $1, offered_start_at = $2, offered_end_at = $3,
+          offered_provider_id = $4, offer_expires_at = $5, updated_at = now()
+      WHERE id = $6 AND status = 'waiting'
+      RETURNING *
+    `;
+    const values = [offer.token, offer.startAt, offer.endAt, offer.providerId || null, offer.expiresAt, id];
+
+    const result: QueryResult = await this.pool.query(query, values);
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  private mapRowToEntity(row: any): WaitlistEntryEntity {
+    return new WaitlistEntryEntity({
+      id: row.id,
+      patientId: row.patient_id || undefined,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email || undefined,
+      phoneNumber: row.phone_number || undefined,
+      type: row.type,
+      providerId: row.provider_id || undefined,
+      earliestAt: new Date(row.earliest_at),
+      latestAt: new Date(row.latest_at),
+      status: row.status,
+      offer: row.offer_token
+        ? {
+          token: row.offer_token,
+          startAt: new Date(row.offered_start_at),
+          endAt: new Date(row.offered_end_at),
+          providerId: row.offered_provider_id || undefined,
+          expiresAt: new Date(row.offer_expires_at)
+        }
+        : undefined,
+      appointmentId: row.appointment_id || undefined,
+      callId: row.call_id || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
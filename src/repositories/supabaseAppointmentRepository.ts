@@ -1,15 +1,33 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { AppointmentEntity } from '../models/AppointmentEntity';
 import { IAppointmentRepository } from './interfaces/IAppointmentRepository';
-import { ConflictError } from '../types/errors';
+import { ConflictError, TimeSlotUnavailableError } from '../types/errors';
+import { AppointmentSearchCriteria } from '../types/schedule';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizeEmailOrPhone, normalizePhoneNumber } from '../utils/contactUtils';
+import { quoteFilterValue } from '../utils/postgrestUtils';
+
+// Match user input literally inside a LIKE pattern
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
 
 export class SupabaseAppointmentRepository implements IAppointmentRepository {
   private readonly tableName: string;
+  private readonly patientsTableName: string;
   private readonly supabase: SupabaseClient;
-
-  constructor(supabase: SupabaseClient, tableName = 'appointments') {
+  private readonly defaultPhoneCountry: CountryCode;
+
+  constructor(
+    supabase: SupabaseClient,
+    tableName = 'appointments',
+    patientsTableName = 'patients',
+    defaultPhoneCountry: CountryCode = DEFAULT_PHONE_COUNTRY
+  ) {
     this.supabase = supabase;
     this.tableName = tableName;
+    this.patientsTableName = patientsTableName;
+    this.defaultPhoneCountry = defaultPhoneCountry;
   }
 
   private mapRowToEntity(row: any): AppointmentEntity {
@@ -26,6 +44,10 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
       reason: row.reason ?? undefined,
       status: row.status,
       calendarEventId: row.calendar_event_id ?? undefined,
+      calendarSyncState: row.calendar_sync_state ?? undefined,
+      providerId: row.provider_id ?? undefined,
+      patientId: row.patient_id ?? undefined,
+      seriesId: row.series_id ?? undefined,
       createdAt: new Date(row.created_at),
       updatedAt: row.updated_at ? new Date(row.updated_at) : null,
     });
@@ -35,8 +57,8 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
     const row: any = {
       first_name: appointment.firstName,
       last_name: appointment.lastName,
-      email: appointment.email,
-      phone_number: appointment.phoneNumber,
+      email: appointment.email ? normalizeEmail(appointment.email) : appointment.email,
+      phone_number: appointment.phoneNumber ? normalizePhoneNumber(appointment.phoneNumber, this.defaultPhoneCountry) : appointment.phoneNumber,
       start_at: appointment.startAt,
       end_at: appointment.endAt,
       type: appointment.type,
@@ -44,6 +66,9 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
       reason: appointment.reason,
       status: appointment.status,
       calendar_event_id: appointment.calendarEventId,
+      provider_id: appointment.providerId,
+      patient_id: appointment.patientId,
+      series_id: appointment.seriesId,
       created_at: appointment.createdAt,
       updated_at: appointment.updatedAt ?? undefined,
     };
@@ -75,9 +100,12 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
         fullError: error
       });
       
-      if ((error as any).code === '23505') {
+      if (error.code === '23505') {
         throw new ConflictError('Appointment already exists for this time range');
       }
+      if (error.code === '23P01') {
+        throw new TimeSlotUnavailableError('Time slot is already booked');
+      }
       throw new Error(`Create failed: ${error.message}`);
     }
 
@@ -90,8 +118,8 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
       id: appointment.id,
       first_name: appointment.firstName,
       last_name: appointment.lastName,
-      email: appointment.email,
-      phone_number: appointment.phoneNumber,
+      email: appointment.email ? normalizeEmail(appointment.email) : appointment.email,
+      phone_number: appointment.phoneNumber ? normalizePhoneNumber(appointment.phoneNumber, this.defaultPhoneCountry) : appointment.phoneNumber,
       start_at: appointment.startAt,
       end_at: appointment.endAt,
       type: appointment.type,
@@ -99,6 +127,9 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
       reason: appointment.reason,
       status: appointment.status,
       calendar_event_id: appointment.calendarEventId,
+      provider_id: appointment.providerId ?? null,
+      patient_id: appointment.patientId ?? null,
+      series_id: appointment.seriesId ?? null,
       created_at: appointment.createdAt,
       updated_at: appointment.updatedAt ?? now,
     };
@@ -111,6 +142,9 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
       .single();
 
     if (error) {
+      if (error.code === '23P01') {
+        throw new TimeSlotUnavailableError('Time slot is already booked');
+      }
       throw new Error(`Update failed: ${error.message}`);
     }
 
@@ -148,7 +182,7 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
     return this.mapRowToEntity(data);
   }
 
-  async isAvailable(startAt: Date, endAt: Date, excludeId?: string): Promise<boolean> {
+  async isAvailable(startAt: Date, endAt: Date, excludeId?: string, providerId?: string): Promise<boolean> {
     const startIso = startAt.toISOString();
     const endIso = endAt.toISOString();
 
@@ -163,6 +197,11 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
       query = query.neq('id', excludeId);
     }
 
+    // Scope the check to a single provider's calendar when one is given
+    if (providerId) {
+      query = query.eq('provider_id', providerId);
+    }
+
     const { count, error } = await query;
 
     if (error) {
@@ -175,6 +214,7 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
           startIso,
           endIso,
           excludeId,
+          providerId,
           tableName: this.tableName
         },
         fullError: error
@@ -185,7 +225,7 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
     return (count ?? 0) === 0;
   }
 
-  async getConflictingAppointments(startAt: Date, endAt: Date, excludeId?: string): Promise<AppointmentEntity[]> {
+  async getConflictingAppointments(startAt: Date, endAt: Date, excludeId?: string, providerId?: string): Promise<AppointmentEntity[]> {
     const startIso = startAt.toISOString();
     const endIso = endAt.toISOString();
 
@@ -201,6 +241,11 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
       query = query.neq('id', excludeId);
     }
 
+    // Scope the check to a single provider's calendar when one is given
+    if (providerId) {
+      query = query.eq('provider_id', providerId);
+    }
+
     const { data, error } = await query;
 
     if (error) {
@@ -213,6 +258,7 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
           startIso,
           endIso,
           excludeId,
+          providerId,
           tableName: this.tableName
         },
         fullError: error
@@ -224,11 +270,21 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
   }
 
   async getActiveAppointmentsByEmailOrPhone(emailOrPhone: string): Promise<AppointmentEntity[]> {
+    emailOrPhone = normalizeEmailOrPhone(emailOrPhone, this.defaultPhoneCountry);
     const activeStatuses = ['scheduled', 'confirmed'];
+    const filters = [`email.eq.${quoteFilterValue(emailOrPhone)}`, `phone_number.eq.${quoteFilterValue(emailOrPhone)}`];
+
+    // Also follow the patient record, so bookings made under other contact details
+    // (or moved here by a merge) are found too
+    const patientIds = await this.findPatientIdsByContact(emailOrPhone);
+    if (patientIds.length > 0) {
+      filters.push(`patient_id.in.(${patientIds.join(',')})`);
+    }
+
     const { data, error } = await this.supabase
       .from(this.tableName)
       .select('*')  //this can break, fix later
-      .or(`email.eq.${emailOrPhone},phone_number.eq.${emailOrPhone}`)
+      .or(filters.join(','))
       .in('status', activeStatuses)
       .order('start_at', { ascending: false });
 
@@ -238,4 +294,89 @@ export class SupabaseAppointmentRepository implements IAppointmentRepository {
 
     return (data ?? []).map((r) => this.mapRowToEntity(r));
   }
+
+  async search(criteria: AppointmentSearchCriteria): Promise<AppointmentEntity[]> {
+    let query = this.supabase
+      .from(this.tableName)
+      .select('*');
+
+    if (criteria.from) {
+      query = query.gte('start_at', criteria.from.toISOString());
+    }
+    if (criteria.to) {
+      query = query.lt('start_at', criteria.to.toISOString());
+    }
+    if (criteria.statuses?.length) {
+      query = query.in('status', criteria.statuses);
+    }
+    if (criteria.types?.length) {
+      query = query.in('type', criteria.types);
+    }
+    if (criteria.providerId) {
+      query = query.eq('provider_id', criteria.providerId);
+    }
+    if (criteria.seriesId) {
+      query = query.eq('series_id', criteria.seriesId);
+    }
+    if (criteria.callId) {
+      query = query.eq('notes->>call_id', criteria.callId);
+    }
+    if (criteria.contact) {
+      const contact = normalizeEmailOrPhone(criteria.contact, this.defaultPhoneCountry);
+      const filters = [`email.eq.${quoteFilterValue(contact)}`, `phone_number.eq.${quoteFilterValue(contact)}`];
+      const patientIds = await this.findPatientIdsByContact(contact);
+      if (patientIds.length > 0) {
+        filters.push(`patient_id.in.(${patientIds.join(',')})`);
+      }
+      query = query.or(filters.join(','));
+    }
+    if (criteria.patientName) {
+      // "jo" matches either name; "john do" matches first name "john..." and last name "do..."
+      const [firstName, ...rest] = criteria.patientName.trim().split(/\s+/);
+      if (rest.length === 0) {
+        const prefix = quoteFilterValue(`${escapeLikePattern(firstName)}%`);
+        query = query.or(`first_name.ilike.${prefix},last_name.ilike.${prefix}`);
+      } else {
+        query = query
+          .ilike('first_name', `${escapeLikePattern(firstName)}%`)
+          .ilike('last_name', `${escapeLikePattern(rest.join(' '))}%`);
+      }
+    }
+
+    // Keyset pagination on (sort column, id) keeps pages stable while rows are added
+    // Cursors carry JavaScript dates, so sort and compare on the columns' millisecond copies; stored
+    // microseconds would otherwise never equal the cursor and put rows between it and its row
+    const column = criteria.sortBy === 'createdAt' ? 'created_at_ms' : 'start_at_ms';
+    const ascending = criteria.sortOrder !== 'desc';
+    if (criteria.after) {
+      const comparison = ascending ? 'gt' : 'lt';
+      const value = quoteFilterValue(criteria.after.value.toISOString());
+      query = query.or(`${column}.${comparison}.${value},and(${column}.eq.${value},id.${comparison}.${criteria.after.id})`);
+    }
+
+    const { data, error } = await query
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(criteria.limit);
+
+    if (error) {
+      throw new Error(`Search failed: ${error.message}`);
+    }
+
+    return (data ?? []).map((r) => this.mapRowToEntity(r));
+  }
+
+  private async findPatientIdsByContact(emailOrPhone: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from(this.patientsTableName)
+      .select('id, merged_into_id')
+      .or(`email.eq.${quoteFilterValue(emailOrPhone)},phone_number.eq.${quoteFilterValue(emailOrPhone)}`);
+
+    if (error) {
+      throw new Error(`Query patients by email or phone failed: ${error.message}`);
+    }
+
+    const ids = (data ?? []).map((row: any) => row.merged_into_id ?? row.id);
+    return Array.from(new Set<string>(ids));
+  }
 }
@@ -0,0 +1,161 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PatientEntity } from '../models/PatientEntity';
+import { IPatientRepository } from './interfaces/IPatientRepository';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizePhoneNumber } from '../utils/contactUtils';
+import { quoteFilterValue } from '../utils/postgrestUtils';
+
+export class SupabasePatientRepository implements IPatientRepository {
+  private readonly tableName: string;
+  private readonly appointmentsTableName: string;
+  private readonly supabase: SupabaseClient;
+  private readonly defaultPhoneCountry: CountryCode;
+
+  constructor(
+    supabase: SupabaseClient,
+    tableName = 'patients',
+    appointmentsTableName = 'appointments',
+    defaultPhoneCountry: CountryCode = DEFAULT_PHONE_COUNTRY
+  ) {
+    this.supabase = supabase;
+    this.tableName = tableName;
+    this.appointmentsTableName = appointmentsTableName;
+    this.defaultPhoneCountry = defaultPhoneCountry;
+  }
+
+  private mapRowToEntity(row: any): PatientEntity {
+    return new PatientEntity({
+      id: row.id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email ?? undefined,
+      phoneNumber: row.phone_number ?? undefined,
+      mergedIntoId: row.merged_into_id ?? undefined,
+      preferredLanguage: row.preferred_language ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : null,
+    });
+  }
+
+  // Email and phone are stored in canonical form so lookups can use plain equality
+  private contactColumns(email?: string, phoneNumber?: string): { email: string | null; phone_number: string | null } {
+    return {
+      email: email ? normalizeEmail(email) : null,
+      phone_number: phoneNumber ? normalizePhoneNumber(phoneNumber, this.defaultPhoneCountry) : null,
+    };
+  }
+
+  async create(patient: PatientEntity): Promise<PatientEntity> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .insert([{
+        first_name: patient.firstName,
+        last_name: patient.lastName,
+        ...this.contactColumns(patient.email, patient.phoneNumber),
+        preferred_language: patient.preferredLanguage ?? null,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Create patient failed: ${error.message}`);
+    }
+
+    return this.mapRowToEntity(data);
+  }
+
+  async update(id: string, patient: PatientEntity): Promise<PatientEntity> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .update({
+        first_name: patient.firstName,
+        last_name: patient.lastName,
+        ...this.contactColumns(patient.email, patient.phoneNumber),
+        preferred_language: patient.preferredLanguage ?? null,
+        updated_at: new Date(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Update patient failed: ${error.message}`);
+    }
+
+    return this.mapRowToEntity(data);
+  }
+
+  async findById(id: string): Promise<PatientEntity | null> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Find patient by id failed: ${error.message}`);
+    }
+
+    return data ? this.mapRowToEntity(data) : null;
+  }
+
+  async findByContact(email?: string, phoneNumber?: string): Promise<PatientEntity[]> {
+    const contact = this.contactColumns(email, phoneNumber);
+    const filters: string[] = [];
+    if (contact.email) {
+      filters.push(`email.eq.${quoteFilterValue(contact.email)}`);
+    }
+    if (contact.phone_number) {
+      filters.push(`phone_number.eq.${quoteFilterValue(contact.phone_number)}`);
+    }
+    if (filters.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select('*')
+      .or(filters.join(','))
+      .is('merged_into_id', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Find patients by contact failed: ${error.message}`);
+    }
+
+    return (data ?? []).map((r) => this.mapRowToEntity(r));
+  }
+
+  /**
+   * Supabase has no client-side transactions, so the steps run in an order that is safe to retry:
+   * appointments move first, then the source is marked as merged.
+   */
+  async merge(sourceId: string, targetId: string): Promise<PatientEntity> {
+    const [source, target] = await Promise.all([this.findById(sourceId), this.findById(targetId)]);
+    if (!source || !target) {
+      throw new Error(`Merge failed: patient ${!source ? sourceId : targetId} not found`);
+    }
+
+    const { error: appointmentsError } = await this.supabase
+      .from(this.appointmentsTableName)
+      .update({ patient_id: targetId })
+      .eq('patient_id', sourceId);
+
+    if (appointmentsError) {
+      throw new Error(`Merge failed moving appointments: ${appointmentsError.message}`);
+    }
+
+    const { error: redirectError } = await this.supabase
+      .from(this.tableName)
+      .update({ merged_into_id: targetId, updated_at: new Date() })
+      .or(`id.eq.${sourceId},merged_into_id.eq.${sourceId}`);
+
+    if (redirectError) {
+      throw new Error(`Merge failed marking patient as merged: ${redirectError.message}`);
+    }
+
+    target.addMissingContactDetails(source);
+    target.preferredLanguage ??= source.preferredLanguage;
+    return await this.update(targetId, target);
+  }
+}
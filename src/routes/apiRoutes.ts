@@ -0,0 +1,86 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { AppointmentApiHandlers } from '../handlers/AppointmentApiHandlers';
+import { PatientApiHandlers } from '../handlers/PatientApiHandlers';
+import { SeriesApiHandlers } from '../handlers/SeriesApiHandlers';
+import { WaitlistApiHandlers } from '../handlers/WaitlistApiHandlers';
+import { OutboxApiHandlers } from '../handlers/OutboxApiHandlers';
+import { MessageApiHandlers } from '../handlers/MessageApiHandlers';
+import { AppointmentHistoryApiHandlers } from '../handlers/AppointmentHistoryApiHandlers';
+import { CalendarSyncApiHandlers } from '../handlers/CalendarSyncApiHandlers';
+import { createApiKeyAuth } from '../utils/apiAuth';
+import { ApiPathParamsSchema } from '../types/api';
+
+export interface ApiRoutesOptions {
+  appointmentApiHandlers: AppointmentApiHandlers;
+  patientApiHandlers: PatientApiHandlers;
+  seriesApiHandlers: SeriesApiHandlers;
+  waitlistApiHandlers: WaitlistApiHandlers;
+  outboxApiHandlers: OutboxApiHandlers;
+  messageApiHandlers: MessageApiHandlers;
+  appointmentHistoryApiHandlers: AppointmentHistoryApiHandlers;
+  calendarSyncApiHandlers: CalendarSyncApiHandlers;
+  apiKeys: string[];
+}
+
+/**
+ * Reject a malformed id in the path with 400 before any handler looks it up.
+ */
+async function validatePathParams(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const parsed = ApiPathParamsSchema.safeParse(request.params ?? {});
+  if (!parsed.success) {
+    reply.code(400).send({ code: 'VALIDATION_ERROR', message: 'Invalid request data', details: parsed.error.flatten() });
+  }
+}
+
+/**
+ * Admin REST API, registered under the /api/v1 prefix. Every route requires an API key.
+ */
+export async function apiRoutes(
+  fastify: FastifyInstance,
+  {
+    appointmentApiHandlers,
+    patientApiHandlers,
+    seriesApiHandlers,
+    waitlistApiHandlers,
+    outboxApiHandlers,
+    messageApiHandlers,
+    appointmentHistoryApiHandlers,
+    calendarSyncApiHandlers,
+    apiKeys
+  }: ApiRoutesOptions
+) {
+  fastify.addHook('onRequest', createApiKeyAuth(apiKeys));
+  fastify.addHook('preValidation', validatePathParams);
+
+  // Appointment routes
+  fastify.get('/appointments', appointmentApiHandlers.listAppointments);
+  fastify.post('/appointments', appointmentApiHandlers.createAppointment);
+  fastify.get('/appointments/:appointmentId', appointmentApiHandlers.getAppointment);
+  fastify.patch('/appointments/:appointmentId', appointmentApiHandlers.updateAppointment);
+  fastify.post('/appointments/:appointmentId/cancel', appointmentApiHandlers.cancelAppointment);
+  fastify.get('/appointments/:appointmentId/messages', messageApiHandlers.listAppointmentMessages);
+  fastify.get('/appointments/:appointmentId/events', appointmentHistoryApiHandlers.listAppointmentEvents);
+  fastify.post('/appointments/:appointmentId/calendar-sync', calendarSyncApiHandlers.syncAppointment);
+
+  // Recurring series routes
+  fastify.post('/series', seriesApiHandlers.createSeries);
+  fastify.get('/series/:seriesId', seriesApiHandlers.getSeries);
+
+  // Patient routes
+  fastify.get('/patients', patientApiHandlers.listPatients);
+  fastify.get('/patients/:patientId', patientApiHandlers.getPatient);
+  fastify.post('/patients/:patientId/merge', patientApiHandlers.mergePatient);
+  fastify.get('/patients/:patientId/preferences', patientApiHandlers.getPreferences);
+  fastify.patch('/patients/:patientId/preferences', patientApiHandlers.updatePreferences);
+
+  // Waitlist routes
+  fastify.get('/waitlist', waitlistApiHandlers.listEntries);
+  fastify.post('/waitlist', waitlistApiHandlers.joinWaitlist);
+  fastify.post('/waitlist/:entryId/cancel', waitlistApiHandlers.cancelEntry);
+
+  // Outbound message routes
+  fastify.get('/outbox', outboxApiHandlers.listMessages);
+  fastify.post('/outbox/retry-dead', outboxApiHandlers.retryDeadMessages);
+  fastify.get('/outbox/:messageId', outboxApiHandlers.getMessage);
+  fastify.post('/outbox/:messageId/retry', outboxApiHandlers.retryMessage);
+}
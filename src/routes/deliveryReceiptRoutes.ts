@@ -0,0 +1,21 @@
+import { FastifyInstance } from 'fastify';
+import { DeliveryReceiptHandlers } from '../handlers/DeliveryReceiptHandlers';
+import { createQueryTokenAuth } from '../utils/apiAuth';
+
+export interface DeliveryReceiptRoutesOptions {
+  deliveryReceiptHandlers: DeliveryReceiptHandlers;
+  token: string;
+}
+
+/**
+ * Delivery receipt webhooks. Providers are given the callback URL with `?token=<DELIVERY_RECEIPT_TOKEN>`.
+ */
+export async function deliveryReceiptRoutes(fastify: FastifyInstance, { deliveryReceiptHandlers, token }: DeliveryReceiptRoutesOptions) {
+  // Twilio posts status callbacks as HTML forms
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) =>
+    done(null, Object.fromEntries(new URLSearchParams(body as string))));
+  fastify.addHook('onRequest', createQueryTokenAuth(token));
+
+  fastify.post('/messages/receipts/sms', deliveryReceiptHandlers.handleSmsReceipt);
+  fastify.post('/messages/receipts/email', deliveryReceiptHandlers.handleEmailReceipt);
+}
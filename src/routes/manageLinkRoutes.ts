@@ -0,0 +1,18 @@
+import { FastifyInstance } from 'fastify';
+import { ManageLinkHandlers } from '../handlers/ManageLinkHandlers';
+
+/**
+ * Public self-service pages linked from confirmation and reminder messages. The signed token in
+ * the URL is the only credential.
+ */
+export async function manageLinkRoutes(fastify: FastifyInstance, { manageLinkHandlers }: { manageLinkHandlers: ManageLinkHandlers }) {
+  // The pages post plain HTML forms; only the reschedule form carries a value
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) =>
+    done(null, Object.fromEntries(new URLSearchParams(body as string))));
+
+  fastify.get('/appointments/manage/:token', manageLinkHandlers.showAppointment);
+  fastify.post('/appointments/manage/:token/confirm', manageLinkHandlers.confirmAppointment);
+  fastify.post('/appointments/manage/:token/cancel', manageLinkHandlers.cancelAppointment);
+  fastify.get('/appointments/manage/:token/reschedule', manageLinkHandlers.showRescheduleSlots);
+  fastify.post('/appointments/manage/:token/reschedule', manageLinkHandlers.rescheduleAppointment);
+}
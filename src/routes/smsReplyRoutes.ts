@@ -0,0 +1,20 @@
+import { FastifyInstance } from 'fastify';
+import { SmsReplyHandlers } from '../handlers/SmsReplyHandlers';
+import { createQueryTokenAuth } from '../utils/apiAuth';
+
+export interface SmsReplyRoutesOptions {
+  smsReplyHandlers: SmsReplyHandlers;
+  token: string;
+}
+
+/**
+ * Inbound SMS webhook. Configure the gateway's incoming message URL as `/messages/inbound/sms?token=<INBOUND_SMS_TOKEN>`.
+ */
+export async function smsReplyRoutes(fastify: FastifyInstance, { smsReplyHandlers, token }: SmsReplyRoutesOptions) {
+  // Twilio posts incoming messages as HTML forms
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) =>
+    done(null, Object.fromEntries(new URLSearchParams(body as string))));
+  fastify.addHook('onRequest', createQueryTokenAuth(token));
+
+  fastify.post('/messages/inbound/sms', smsReplyHandlers.handleInboundSms);
+}
@@ -0,0 +1,13 @@
+import { FastifyInstance } from 'fastify';
+import { WaitlistClaimHandlers } from '../handlers/WaitlistClaimHandlers';
+
+/**
+ * Public claim pages linked from waitlist offer messages. The token in the URL is the only credential.
+ */
+export async function waitlistRoutes(fastify: FastifyInstance, { waitlistClaimHandlers }: { waitlistClaimHandlers: WaitlistClaimHandlers }) {
+  // The confirm button posts an empty HTML form; nothing in the body is used
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) => done(null, {}));
+
+  fastify.get('/waitlist/claim/:token', waitlistClaimHandlers.showOffer);
+  fastify.post('/waitlist/claim/:token', waitlistClaimHandlers.claimOffer);
+}
@@ -0,0 +1,14 @@
+import { AppointmentEventEntity } from '../models/AppointmentEventEntity';
+import { IAppointmentEventRepository } from '../repositories/interfaces/IAppointmentEventRepository';
+import { IAppointmentHistoryService } from './interfaces/IAppointmentHistoryService';
+
+/**
+ * Read side of the appointment change history written by AppointmentService.
+ */
+export class AppointmentHistoryService implements IAppointmentHistoryService {
+  constructor(private eventRepository: IAppointmentEventRepository) {}
+
+  async getAppointmentEvents(appointmentId: string): Promise<AppointmentEventEntity[]> {
+    return await this.eventRepository.findByAppointment(appointmentId);
+  }
+}
@@ -1,140 +1,268 @@
 import { AppointmentEntity } from '../models/AppointmentEntity';
-import { Appointment, ScheduleRequest, AppointmentStatus } from '../types/schedule';
+import { Appointment, ScheduleRequest, ScheduleRequestInput, AppointmentStatus, AppointmentSearchQuery } from '../types/schedule';
 import { IAppointmentRepository } from '../repositories/interfaces/IAppointmentRepository';
+import { IProviderRepository } from '../repositories/interfaces/IProviderRepository';
+import { IAppointmentSeriesRepository } from '../repositories/interfaces/IAppointmentSeriesRepository';
+import { IAppointmentEventRepository } from '../repositories/interfaces/IAppointmentEventRepository';
+import { ITransactionRunner } from '../repositories/interfaces/ITransactionRunner';
+import { ProviderEntity } from '../models/ProviderEntity';
+import { AppointmentTypeEntity } from '../models/AppointmentTypeEntity';
+import { AppointmentSeriesEntity } from '../models/AppointmentSeriesEntity';
+import { AppointmentEventEntity } from '../models/AppointmentEventEntity';
+import { CalendarSyncJobEntity } from '../models/CalendarSyncJobEntity';
+import { SeriesRequestInput, SeriesScope, SeriesStatus, RecurrenceRule, MAX_SERIES_OCCURRENCES } from '../types/series';
+import { ActorType, AppointmentSnapshot, ChangeChannel, ChangeContext, SYSTEM_CHANGE } from '../types/appointmentEvent';
 import { ICalendarService } from './interfaces/ICalendarService';
-import { IAppointmentService } from './interfaces/IAppointmentService';
-import { MessageService } from './emailService';
+import { IBusinessHoursService } from './interfaces/IBusinessHoursService';
+import { IAppointmentTypeService } from './interfaces/IAppointmentTypeService';
+import { IPatientService } from './interfaces/IPatientService';
+import { IWaitlistService } from './interfaces/IWaitlistService';
+import { IReminderService } from './interfaces/IReminderService';
+import { IMessageService } from './interfaces/IMessageService';
+import { ICalendarSyncService } from './interfaces/ICalendarSyncService';
+import { IAppointmentService, AppointmentSearchResult, AppointmentSeriesResult } from './interfaces/IAppointmentService';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizePhoneNumber } from '../utils/contactUtils';
+import { decodeCursor, encodeCursor } from '../utils/cursorUtils';
+import { expandRecurrence, toLocalDateString } from '../utils/recurrenceUtils';
+import { getZonedDateParts, zonedTimeToUtc } from '../utils/dateUtils';
+import { overlapsAny } from '../utils/intervalUtils';
 import { 
+  AppError,
   NotFoundError, 
+  ValidationError,
   AppointmentCancellationError,
-  TimeSlotUnavailableError
+  AppointmentConfirmationError,
+  TimeSlotUnavailableError,
+  OutsideBusinessHoursError
 } from '../types/errors';
 
+/**
+ * Optional collaborators for AppointmentService.
+ * Features backed by a missing dependency fall back to the single-resource behaviour.
+ */
+export interface AppointmentServiceDependencies {
+  providerRepository?: IProviderRepository;
+  businessHoursService?: IBusinessHoursService;
+  appointmentTypeService?: IAppointmentTypeService;
+  patientService?: IPatientService;
+  waitlistService?: IWaitlistService; // Offers slots freed by cancellations and reschedules to waitlisted patients
+  seriesRepository?: IAppointmentSeriesRepository; // Enables recurring appointment series
+  reminderService?: IReminderService; // Plans patient reminders for booked and moved appointments
+  messageService?: IMessageService; // Sends confirmations, reschedules and cancellations; none are sent without it
+  eventRepository?: IAppointmentEventRepository; // Keeps the history of changes to each appointment
+  // Syncs calendar events through retried sync jobs; without it they are changed inline, and a booking
+  // whose event can't be created is rolled back
+  calendarSyncService?: ICalendarSyncService;
+  // Saves each change together with the patient record, history, queued messages and reminders written
+  // for it; steps whose failure is only logged run in a savepoint. Without it they are saved one by one
+  transactions?: ITransactionRunner;
+  timeZone?: string; // Clinic IANA time zone recurring series follow without a provider; defaults to UTC
+  defaultPhoneCountry?: CountryCode; // Country assumed for phone numbers without an international prefix
+}
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_SEARCH_LIMIT = 25;
+const MAX_SEARCH_LIMIT = 100;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const ACTIVE_STATUSES = [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED];
+
 export class AppointmentService implements IAppointmentService {
   private appointmentRepository: IAppointmentRepository;
   private calendarService: ICalendarService;
-  private messageService: MessageService;
+  private messageService?: IMessageService;
+  private providerRepository?: IProviderRepository;
+  private businessHoursService?: IBusinessHoursService;
+  private appointmentTypeService?: IAppointmentTypeService;
+  private patientService?: IPatientService;
+  private waitlistService?: IWaitlistService;
+  private seriesRepository?: IAppointmentSeriesRepository;
+  private reminderService?: IReminderService;
+  private eventRepository?: IAppointmentEventRepository;
+  private calendarSyncService?: ICalendarSyncService;
+  private transactions: ITransactionRunner;
+  private readonly timeZone: string;
+  private readonly defaultPhoneCountry: CountryCode;
 
   constructor(
     appointmentRepository: IAppointmentRepository,
-    calendarService: ICalendarService
+    calendarService: ICalendarService,
+    dependencies: AppointmentServiceDependencies = {}
   ) {
     this.appointmentRepository = appointmentRepository;
     this.calendarService = calendarService;
-    this.messageService = new MessageService();
+    this.messageService = dependencies.messageService;
+    this.providerRepository = dependencies.providerRepository;
+    this.businessHoursService = dependencies.businessHoursService;
+    this.appointmentTypeService = dependencies.appointmentTypeService;
+    this.patientService = dependencies.patientService;
+    this.waitlistService = dependencies.waitlistService;
+    this.seriesRepository = dependencies.seriesRepository;
+    this.reminderService = dependencies.reminderService;
+    this.eventRepository = dependencies.eventRepository;
+    this.calendarSyncService = dependencies.calendarSyncService;
+    this.transactions = dependencies.transactions ?? { run: work => work() };
+    this.timeZone = dependencies.timeZone ?? 'UTC';
+    this.defaultPhoneCountry = dependencies.defaultPhoneCountry ?? DEFAULT_PHONE_COUNTRY;
   }
 
   async getActiveAppointmentsByEmailOrPhone(emailOrPhone: string): Promise<AppointmentEntity[]> {
     return await this.appointmentRepository.getActiveAppointmentsByEmailOrPhone(emailOrPhone);
   }
 
-  async createAppointment(data: ScheduleRequest): Promise<AppointmentEntity> {
-    // Check for time slot conflicts and get conflicting appointments
-    const conflictingAppointments = await this.appointmentRepository.getConflictingAppointments(data.startAt, data.endAt);
-    if (conflictingAppointments.length > 0) {
-      // Check if any conflicting appointment is by the same person (email or phone)
-      const samePersonConflict = conflictingAppointments.find(apt => 
-        (data.email && apt.email === data.email) || 
-        (data.phoneNumber && apt.phoneNumber === data.phoneNumber)
-      );
+  async getAppointment(appointmentId: string): Promise<AppointmentEntity> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new NotFoundError(`Appointment with ID ${appointmentId} not found`);
+    }
+    return appointment;
+  }
 
-      if (samePersonConflict) {
-        throw new TimeSlotUnavailableError(
-          `You already have an appointment scheduled during this time slot from ${data.startAt.toISOString()} to ${data.endAt.toISOString()}`
-        );
-      } else {
-        throw new TimeSlotUnavailableError(
-          `Time slot from ${data.startAt.toISOString()} to ${data.endAt.toISOString()} is already booked`
-        );
-      }
+  async searchAppointments(query: AppointmentSearchQuery): Promise<AppointmentSearchResult> {
+    const { sortBy = 'startAt', sortOrder = 'asc', limit = DEFAULT_SEARCH_LIMIT, cursor, ...filters } = query;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      throw new ValidationError(`limit must be a whole number between 1 and ${MAX_SEARCH_LIMIT}`);
+    }
+    if (filters.from && filters.to && filters.to <= filters.from) {
+      throw new ValidationError('The end of the search range must be after its start');
+    }
+    for (const type of filters.types ?? []) {
+      await this.appointmentTypeService?.getType(type);
     }
 
-    // Create appointment entity from ScheduleRequest
-    const appointment = new AppointmentEntity(data);
+    const sort = `${sortBy}:${sortOrder}`;
+    // One extra row tells us whether there is another page
+    const appointments = await this.appointmentRepository.search({
+      ...filters,
+      sortBy,
+      sortOrder,
+      limit: limit + 1,
+      after: cursor ? decodeCursor(cursor, sort) : undefined
+    });
 
-    // Create appointment in database first
-    const createdAppointment = await this.appointmentRepository.create(appointment);
+    if (appointments.length <= limit) {
+      return { appointments };
+    }
+
+    const page = appointments.slice(0, limit);
+    const last = page[page.length - 1];
+    const sortValue = sortBy === 'createdAt' ? last.createdAt! : last.startAt;
+    return { appointments: page, nextCursor: encodeCursor(sort, sortValue, last.id!) };
+  }
+
+  async getActiveProviders(): Promise<ProviderEntity[]> {
+    if (!this.providerRepository) {
+      return [];
+    }
+    return await this.providerRepository.findActive();
+  }
+
+  async createAppointment(input: ScheduleRequestInput, context: ChangeContext = SYSTEM_CHANGE): Promise<AppointmentEntity> {
+    const appointmentType = await this.appointmentTypeService?.getType(input.type);
+    const data: ScheduleRequest = {
+      ...input,
+      // Canonical contact details, so the same caller is recognised however they said them
+      email: input.email ? normalizeEmail(input.email) : undefined,
+      phoneNumber: input.phoneNumber ? normalizePhoneNumber(input.phoneNumber, this.defaultPhoneCountry) : undefined,
+      endAt: this.resolveEndAt(input.startAt, input.endAt, appointmentType)
+    };
+    if (appointmentType) {
+      this.appointmentTypeService!.assertLeadTime(appointmentType, data.startAt);
+    }
+
+    // Check for time slot conflicts and pick the provider who will see the patient
+    const providerId = await this.resolveProviderForSlot({
+      startAt: data.startAt,
+      endAt: data.endAt,
+      contact: data,
+      appointmentType,
+      preferredProviderId: data.providerId,
+      samePersonMessage: `You already have an appointment scheduled during this time slot from ${data.startAt.toISOString()} to ${data.endAt.toISOString()}`,
+      unavailableMessage: `Time slot from ${data.startAt.toISOString()} to ${data.endAt.toISOString()} is already booked`
+    });
+
+    // Saved together: the booking, a patient record created for it, its history, confirmation and reminders
+    const { bookedAppointment, syncJob } = await this.transactions.run(async () => {
+      // Link the booking to the patient's record, creating one for first-time callers
+      const patient = await this.patientService?.findOrCreatePatient(data);
+
+      // Create appointment entity from ScheduleRequest
+      const appointment = new AppointmentEntity(data);
+      appointment.providerId = providerId;
+      appointment.patientId = patient?.id;
+
+      // Create appointment in database first
+      const createdAppointment = await this.appointmentRepository.create(appointment);
+      const updatedAppointment = this.calendarSyncService ? createdAppointment : await this.createCalendarEventOrRollback(createdAppointment);
+      await this.recordChange(null, updatedAppointment, context);
+      const syncJob = await this.calendarSyncService?.enqueueSync(updatedAppointment);
 
-    try {
-      // Create calendar event - ensure we have a required id
-      const appointmentForCalendar: Appointment = {
-        ...createdAppointment,
-        id: createdAppointment.id!,
-        createdAt: createdAppointment.createdAt!,
-        updatedAt: createdAppointment.updatedAt
-      };
-      
-      const eventId = await this.calendarService.createCalendarEvent(appointmentForCalendar);
-      
-      // Update appointment with calendar event ID
-      createdAppointment.setCalendarEventId(eventId);
-      const updatedAppointment = await this.appointmentRepository.update(createdAppointment.id!, createdAppointment);
-      
       // Send confirmation email
       try {
         console.log(`📧 Triggering confirmation email for appointment: ${updatedAppointment.id}, patient: ${updatedAppointment.firstName} ${updatedAppointment.lastName}, email: ${updatedAppointment.email || 'N/A'}`);
-        
+
         const appointmentForEmail: Appointment = {
           ...updatedAppointment,
           id: updatedAppointment.id!,
           createdAt: updatedAppointment.createdAt!,
           updatedAt: updatedAppointment.updatedAt
         };
-        await this.messageService.sendConfirmationMessage(appointmentForEmail);
-        
+        const timeZone = await this.getProviderTimeZone(updatedAppointment.providerId);
+        await this.transactions.run(async () => this.messageService?.sendConfirmationMessage(appointmentForEmail, timeZone));
+
         console.log(`✅ Confirmation email process completed for appointment: ${updatedAppointment.id}`);
       } catch (emailError) {
         console.error(`❌ Failed to send confirmation email for appointment: ${updatedAppointment.id}:`, emailError);
         // Don't throw error - email failures shouldn't break appointment creation
       }
-      
-      return updatedAppointment;
-    } catch (calendarError) {
-      // Rollback: Delete the created appointment if calendar booking fails
-      try {
-        await this.appointmentRepository.delete(createdAppointment.id!);
-      } catch (deleteError) {
-        console.error('Failed to rollback appointment creation for details:', deleteError);
-      }
-      
-      throw new Error(`Failed to create calendar event: ${calendarError instanceof Error ? calendarError.message : 'Unknown error'}`);
-    }
+
+      await this.scheduleReminders(updatedAppointment);
+      return { bookedAppointment: updatedAppointment, syncJob };
+    });
+
+    return syncJob ? await this.syncCalendar(syncJob, bookedAppointment) : bookedAppointment;
   }
 
-  async editAppointment(appointmentId: string, data: Partial<ScheduleRequest>): Promise<AppointmentEntity | null> {
+  async editAppointment(
+    appointmentId: string,
+    data: Partial<ScheduleRequestInput>,
+    scope: SeriesScope = 'this',
+    context: ChangeContext = SYSTEM_CHANGE
+  ): Promise<AppointmentEntity | null> {
     const appointment = await this.appointmentRepository.findById(appointmentId);
     if (!appointment) {
       throw new NotFoundError(`Appointment with ID ${appointmentId} not found`);
     }
 
-    // If appointment time is being updated, check for conflicts
-    if (data.startAt && data.endAt) {
-      const conflictingAppointments = await this.appointmentRepository.getConflictingAppointments(data.startAt, data.endAt, appointmentId);
-      if (conflictingAppointments.length > 0) {
-        // Check if any conflicting appointment is by the same person (email or phone)
-        const samePersonConflict = conflictingAppointments.find(apt => 
-          (appointment.email && apt.email === appointment.email) || 
-          (appointment.phoneNumber && apt.phoneNumber === appointment.phoneNumber)
-        );
-
-        if (samePersonConflict) {
-          throw new TimeSlotUnavailableError(
-            `You already have another appointment scheduled during this time slot from ${data.startAt.toISOString()} to ${data.endAt.toISOString()}`
-          );
-        } else {
-          throw new TimeSlotUnavailableError(
-            `Time slot conflict: The new time slot is already booked.`
-          );
-        }
-      }
+    const series = scope === 'following' ? await this.findSeriesOf(appointment) : null;
+    if (series) {
+      return await this.editFollowingOccurrences(appointment, series, data, context);
     }
 
-    // Only allow specific fields to be updated (date/time and appointment type)
+    // Only allow specific fields to be updated (date/time, appointment type and provider)
     const allowedUpdates: Partial<Appointment> = {};
-    
-    // Allow date/time updates
-    if (data.startAt !== undefined) allowedUpdates.startAt = data.startAt;
-    if (data.endAt !== undefined) allowedUpdates.endAt = data.endAt;
+
+    // If appointment time, type or provider is being updated, check for conflicts
+    if (data.startAt || data.endAt || data.providerId || (data.type && data.type !== appointment.type)) {
+      const appointmentType = await this.appointmentTypeService?.getType(data.type ?? appointment.type);
+      const { startAt, endAt } = this.resolveEditedTimes(appointment, data, appointmentType);
+
+      const providerId = await this.resolveProviderForSlot({
+        startAt,
+        endAt,
+        contact: appointment,
+        appointmentType,
+        // Stay with the current provider unless the patient asked for someone else
+        preferredProviderId: data.providerId ?? appointment.providerId,
+        excludeId: appointmentId,
+        samePersonMessage: `You already have another appointment scheduled during this time slot from ${startAt.toISOString()} to ${endAt.toISOString()}`,
+        unavailableMessage: `Time slot conflict: The new time slot is already booked.`
+      });
+      allowedUpdates.providerId = providerId ?? appointment.providerId;
+      allowedUpdates.startAt = startAt;
+      allowedUpdates.endAt = endAt;
+    }
     
     // Allow appointment type updates
     if (data.type !== undefined) allowedUpdates.type = data.type;
@@ -149,12 +277,55 @@ export class AppointmentService implements IAppointmentService {
     };
 
     const updatedAppointment = new AppointmentEntity(updatedAppointmentData);
-    
-    // Update in database
-    const dbResult = await this.appointmentRepository.update(appointmentId, updatedAppointment);
+    const timeChanged = allowedUpdates.startAt !== undefined && (
+      allowedUpdates.startAt.getTime() !== appointment.startAt.getTime() ||
+      allowedUpdates.endAt!.getTime() !== appointment.endAt.getTime()
+    );
+
+    // The change is saved together with its history, reschedule message and reminders
+    const { dbResult, syncJob } = await this.transactions.run(async () => {
+      // Update in database
+      const dbResult = await this.appointmentRepository.update(appointmentId, updatedAppointment);
+      await this.recordChange(appointment, dbResult, context);
+      const syncJob = await this.calendarSyncService?.enqueueSync(dbResult);
+
+      // Send reschedule email if start time or end time changed
+      if (timeChanged) {
+        try {
+          console.log(`📧 Triggering reschedule email for appointment: ${dbResult.id}, patient: ${dbResult.firstName} ${dbResult.lastName}, email: ${dbResult.email || 'N/A'}`);
+          console.log(`🔄 Time change: ${appointment.startAt.toISOString()} → ${dbResult.startAt.toISOString()}`);
+
+          const appointmentForEmail: Appointment = {
+            ...dbResult,
+            id: dbResult.id!,
+            createdAt: dbResult.createdAt!,
+            updatedAt: dbResult.updatedAt
+          };
+
+          // Include old date/time info
+          const oldDateTime = {
+            start: appointment.startAt,
+            end: appointment.endAt
+          };
+
+          const timeZone = await this.getProviderTimeZone(dbResult.providerId);
+          await this.transactions.run(async () => this.messageService?.sendRescheduleMessage(appointmentForEmail, oldDateTime, timeZone));
+
+          console.log(`✅ Reschedule email process completed for appointment: ${dbResult.id}`);
+        } catch (emailError) {
+          console.error(`❌ Failed to send reschedule email for appointment: ${dbResult.id}:`, emailError);
+          // Don't throw error - email failures shouldn't break appointment updates
+        }
+
+        await this.scheduleReminders(dbResult);
+      }
+      return { dbResult, syncJob };
+    });
 
     // Update calendar event if calendar event ID exists
-    if (appointment.calendarEventId) {
+    if (syncJob) {
+      await this.syncCalendar(syncJob, dbResult);
+    } else if (appointment.calendarEventId) {
       try {
         const appointmentForCalendar: Appointment = {
           ...dbResult,
@@ -170,38 +341,15 @@ export class AppointmentService implements IAppointmentService {
       }
     }
 
-    // Send reschedule email if start time or end time changed
-    if (data.startAt || data.endAt) {
-      try {
-        console.log(`📧 Triggering reschedule email for appointment: ${dbResult.id}, patient: ${dbResult.firstName} ${dbResult.lastName}, email: ${dbResult.email || 'N/A'}`);
-        console.log(`🔄 Time change: ${appointment.startAt.toISOString()} → ${dbResult.startAt.toISOString()}`);
-        
-        const appointmentForEmail: Appointment = {
-          ...dbResult,
-          id: dbResult.id!,
-          createdAt: dbResult.createdAt!,
-          updatedAt: dbResult.updatedAt
-        };
-        
-        // Include old date/time info if available
-        const oldDateTime = (data.startAt || data.endAt) ? {
-          start: appointment.startAt,
-          end: appointment.endAt
-        } : undefined;
-        
-        await this.messageService.sendRescheduleMessage(appointmentForEmail, oldDateTime);
-        
-        console.log(`✅ Reschedule email process completed for appointment: ${dbResult.id}`);
-      } catch (emailError) {
-        console.error(`❌ Failed to send reschedule email for appointment: ${dbResult.id}:`, emailError);
-        // Don't throw error - email failures shouldn't break appointment updates
-      }
+    // The old slot is free for someone else unless the appointment still occupies it
+    if (timeChanged || dbResult.providerId !== appointment.providerId) {
+      await this.offerFreedSlot(appointment);
     }
 
     return dbResult;
   }
 
-  async cancelAppointment(appointmentId: string): Promise<boolean> {
+  async cancelAppointment(appointmentId: string, scope: SeriesScope = 'this', context: ChangeContext = SYSTEM_CHANGE): Promise<boolean> {
     const appointment = await this.appointmentRepository.findById(appointmentId);
     if (!appointment) {
       throw new NotFoundError(`Appointment with ID ${appointmentId} not found`);
@@ -210,14 +358,666 @@ export class AppointmentService implements IAppointmentService {
     // Check if appointment can be cancelled (business rules)
     this.validateAppointmentCanBeCancelled(appointment);
 
+    const series = await this.findSeriesOf(appointment);
+    if (series && scope === 'following') {
+      return await this.cancelFollowingOccurrences(appointment, series, context);
+    }
+
+    // The cancellation is saved together with its history, calendar sync job and cancellation message
+    const syncJob = await this.transactions.run(async () => {
+      const syncJob = await this.markCancelled(appointment, context);
+
+      // The rest of the series goes ahead without this date
+      if (series) {
+        series.addException(toLocalDateString(appointment.startAt, series.timeZone));
+        await this.seriesRepository!.update(series.id!, series);
+      }
+
+      // Send cancellation email
+      try {
+        console.log(`📧 Triggering cancellation email for appointment: ${appointment.id}, patient: ${appointment.firstName} ${appointment.lastName}, email: ${appointment.email || 'N/A'}`);
+        console.log(`❌ Cancelled appointment: ${appointment.startAt.toISOString()} - ${appointment.type}`);
+
+        const appointmentForEmail: Appointment = {
+          ...appointment,
+          id: appointment.id!,
+          createdAt: appointment.createdAt!,
+          updatedAt: appointment.updatedAt
+        };
+        const timeZone = await this.getProviderTimeZone(appointment.providerId);
+        await this.transactions.run(async () => this.messageService?.sendCancellationMessage(appointmentForEmail, timeZone));
+
+        console.log(`✅ Cancellation email process completed for appointment: ${appointment.id}`);
+      } catch (emailError) {
+        console.error(`❌ Failed to send cancellation email for appointment: ${appointment.id}:`, emailError);
+        // Don't throw error - email failures shouldn't break appointment cancellation
+      }
+      return syncJob;
+    });
+
+    await this.removeCalendarEvent(appointment, syncJob);
+    await this.offerFreedSlot(appointment);
+
+    return true;
+  }
+
+  async confirmAppointment(appointmentId: string, context: ChangeContext = SYSTEM_CHANGE): Promise<AppointmentEntity> {
+    const appointment = await this.getAppointment(appointmentId);
+
+    // Confirming twice, e.g. from the link in both the email and the text, changes nothing
+    if (appointment.status === AppointmentStatus.CONFIRMED) {
+      return appointment;
+    }
+    if (appointment.status !== AppointmentStatus.SCHEDULED) {
+      throw new AppointmentConfirmationError(`Cannot confirm ${appointment.status} appointments`);
+    }
+    if (appointment.startAt.getTime() <= Date.now()) {
+      throw new AppointmentConfirmationError('Cannot confirm appointments that have already started');
+    }
+
+    const before = AppointmentEventEntity.snapshot(appointment);
+    appointment.updateStatus(AppointmentStatus.CONFIRMED);
+    const confirmed = await this.appointmentRepository.update(appointmentId, appointment);
+    await this.recordChange(before, confirmed, context);
+    return confirmed;
+  }
+
+  async createSeries(input: SeriesRequestInput, context: ChangeContext = SYSTEM_CHANGE): Promise<AppointmentSeriesResult> {
+    if (!this.seriesRepository) {
+      throw new ValidationError('Recurring appointments are not available');
+    }
+
+    const { recurrence, ...request } = input;
+    const appointmentType = await this.appointmentTypeService?.getType(request.type);
+    const contact = {
+      email: request.email ? normalizeEmail(request.email) : undefined,
+      phoneNumber: request.phoneNumber ? normalizePhoneNumber(request.phoneNumber, this.defaultPhoneCountry) : undefined
+    };
+    const durationMs = this.resolveEndAt(request.startAt, request.endAt, appointmentType).getTime() - request.startAt.getTime();
+    if (appointmentType) {
+      this.appointmentTypeService!.assertLeadTime(appointmentType, request.startAt);
+    }
+
+    // Occurrences keep their local time of day, so expand in the time zone the patient is seen in
+    const timeZone = await this.getProviderTimeZone(request.providerId) ?? this.timeZone;
+    const occurrences = expandRecurrence(request.startAt, recurrence, timeZone)
+      .map(startAt => ({ startAt, endAt: new Date(startAt.getTime() + durationMs) }));
+    if (occurrences.length === 0) {
+      throw new ValidationError('The recurrence does not produce any appointments');
+    }
+
+    // Nothing is booked unless every occurrence is free
+    const providerId = await this.resolveProviderForOccurrences(occurrences, {
+      contact,
+      appointmentType,
+      preferredProviderId: request.providerId,
+      timeZone
+    });
+
+    // Booked as a whole or not at all, together with a patient record created for the series, the
+    // history, the confirmation and the reminders
+    const { series, appointments, syncJobs } = await this.transactions.run(async () => {
+      const patient = await this.patientService?.findOrCreatePatient({ ...request, ...contact });
+
+      const series = await this.seriesRepository!.create(new AppointmentSeriesEntity({
+        patientId: patient?.id,
+        firstName: request.firstName,
+        lastName: request.lastName,
+        ...contact,
+        type: request.type,
+        providerId,
+        startAt: request.startAt,
+        durationMinutes: durationMs / MINUTE_MS,
+        timeZone,
+        recurrence,
+        status: SeriesStatus.ACTIVE,
+        callId: request.callId
+      }));
+
+      const appointments: AppointmentEntity[] = [];
+      try {
+        for (const occurrence of occurrences) {
+          const appointment = new AppointmentEntity({ ...request, ...contact, ...occurrence, providerId });
+          appointment.patientId = patient?.id;
+          appointment.seriesId = series.id;
+
+          // In a savepoint, so a conflicting insert leaves the transaction usable for the rollback below
+          const created = await this.transactions.run(() => this.appointmentRepository.create(appointment));
+          appointments.push(created);
+
+          // With sync jobs the events follow once every occurrence is booked
+          if (!this.calendarSyncService) {
+            created.setCalendarEventId(await this.calendarService.createCalendarEvent(this.toAppointment(created)));
+            appointments[appointments.length - 1] = await this.appointmentRepository.update(created.id!, created);
+          }
+        }
+      } catch (error) {
+        // Rollback: the series is booked as a whole or not at all
+        await this.rollbackSeries(series, appointments);
+        if (error instanceof TimeSlotUnavailableError) {
+          // An occurrence's time was booked since the check above
+          throw error;
+        }
+        throw new Error(`Failed to book recurring appointments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      for (const appointment of appointments) {
+        await this.recordChange(null, appointment, context);
+      }
+      const syncJobs = await this.enqueueCalendarSyncs(appointments);
+
+      try {
+        console.log(`📧 Triggering series confirmation for series: ${series.id}, patient: ${series.firstName} ${series.lastName}, appointments: ${appointments.length}`);
+        await this.transactions.run(async () => this.messageService?.sendSeriesMessage('confirmation', appointments.map(apt => this.toAppointment(apt)), recurrence, timeZone));
+      } catch (emailError) {
+        console.error(`❌ Failed to send series confirmation for series: ${series.id}:`, emailError);
+        // Don't throw error - message failures shouldn't break booking
+      }
+
+      for (const appointment of appointments) {
+        await this.scheduleReminders(appointment);
+      }
+      return { series, appointments, syncJobs };
+    });
+
+    for (const [index, syncJob] of syncJobs.entries()) {
+      await this.syncCalendar(syncJob, appointments[index]);
+    }
+
+    return { series, appointments };
+  }
+
+  async getSeries(seriesId: string): Promise<AppointmentSeriesResult> {
+    const series = await this.seriesRepository?.findById(seriesId);
+    if (!series) {
+      throw new NotFoundError(`Appointment series with ID ${seriesId} not found`);
+    }
+    return { series, appointments: await this.getActiveOccurrences(seriesId) };
+  }
+
+  async claimWaitlistOffer(token: string): Promise<AppointmentEntity> {
+    if (!this.waitlistService) {
+      throw new NotFoundError('This offer is no longer available');
+    }
+
+    const entry = await this.waitlistService.getClaimableOffer(token);
+    const offer = entry.offer!;
+
+    let appointment: AppointmentEntity;
+    try {
+      // Booked like any other appointment, so the slot is checked again
+      appointment = await this.createAppointment({
+        firstName: entry.firstName,
+        lastName: entry.lastName,
+        email: entry.email,
+        phoneNumber: entry.phoneNumber,
+        type: entry.type,
+        startAt: offer.startAt,
+        endAt: offer.endAt,
+        providerId: offer.providerId,
+        callId: entry.callId,
+        notes: { source: 'waitlist', waitlistEntryId: entry.id }
+      }, { channel: ChangeChannel.WAITLIST_CLAIM, actorType: ActorType.PATIENT });
+    } catch (error) {
+      if (error instanceof AppError) {
+        // The slot can't be booked for this patient; put them back in the queue
+        await this.waitlistService.releaseOffer(entry);
+      }
+      throw error;
+    }
+
+    await this.waitlistService.completeClaim(entry, appointment.id!);
+    return appointment;
+  }
+
+  /**
+   * Work out when an appointment ends. With a type catalogue the end time is optional and
+   * checked against the type's allowed durations; without one the caller must supply it.
+   */
+  private resolveEndAt(startAt: Date, endAt?: Date, appointmentType?: AppointmentTypeEntity): Date {
+    if (appointmentType) {
+      return this.appointmentTypeService!.resolveEndAt(appointmentType, startAt, endAt);
+    }
+    if (!endAt) {
+      throw new ValidationError('endAt is required');
+    }
+    if (endAt <= startAt) {
+      throw new ValidationError('endAt must be after startAt');
+    }
+    return endAt;
+  }
+
+  /**
+   * Check a time slot against business hours and existing bookings, and return the provider who should take it.
+   * Without configured providers the whole clinic is treated as one bookable resource.
+   */
+  private async resolveProviderForSlot(params: {
+    startAt: Date;
+    endAt: Date;
+    contact: { email?: string; phoneNumber?: string };
+    appointmentType?: AppointmentTypeEntity;
+    preferredProviderId?: string;
+    excludeId?: string;
+    ignoreIds?: string[]; // Appointments that are moving too, so their current times don't block
+    samePersonMessage: string;
+    unavailableMessage: string;
+  }): Promise<string | undefined> {
+    const { startAt, endAt, contact, appointmentType, preferredProviderId, excludeId } = params;
+
+    // The type's setup and clean-up time must be free too
+    const blocked = appointmentType?.blockedInterval(startAt, endAt) ?? { start: startAt, end: endAt };
+
+    // Booked appointments keep their own type's setup and clean-up time, so look that much further out
+    const catalogue = await this.appointmentTypeService?.listTypes({ includeRetired: true }) ?? [];
+    const typesByCode = new Map(catalogue.map(type => [type.code, type]));
+    const longestBeforeMs = Math.max(0, ...catalogue.map(type => type.bufferBeforeMinutes)) * MINUTE_MS;
+    const longestAfterMs = Math.max(0, ...catalogue.map(type => type.bufferAfterMinutes)) * MINUTE_MS;
+    const searchFrom = new Date(blocked.start.getTime() - longestAfterMs);
+    const searchTo = new Date(blocked.end.getTime() + longestBeforeMs);
+    const blocks = (apt: AppointmentEntity) => overlapsAny(blocked, [
+      typesByCode.get(apt.type)?.blockedInterval(apt.startAt, apt.endAt) ?? { start: apt.startAt, end: apt.endAt }
+    ]);
+
+    // A patient can't be in two places at once, whichever provider they are seeing
+    const ignored = (apt: AppointmentEntity) => params.ignoreIds?.includes(apt.id!) ?? false;
+    const overlappingAppointments = (excludeId
+      ? await this.appointmentRepository.getConflictingAppointments(searchFrom, searchTo, excludeId)
+      : await this.appointmentRepository.getConflictingAppointments(searchFrom, searchTo)
+    ).filter(apt => !ignored(apt) && blocks(apt));
+    const samePersonConflict = overlappingAppointments.find(apt => 
+      (contact.email && apt.email === contact.email) || 
+      (contact.phoneNumber && apt.phoneNumber === contact.phoneNumber)
+    );
+
+    if (samePersonConflict) {
+      throw new TimeSlotUnavailableError(params.samePersonMessage);
+    }
+
+    const candidates = await this.getCandidateProviders(preferredProviderId, appointmentType);
+    if (candidates.length === 0) {
+      await this.businessHoursService?.assertWithinBusinessHours(startAt, endAt);
+      if (overlappingAppointments.length > 0) {
+        throw new TimeSlotUnavailableError(params.unavailableMessage);
+      }
+      return undefined;
+    }
+
+    const workingProviders = await this.filterWorkingProviders(startAt, endAt, candidates);
+    if (workingProviders.length === 0) {
+      if (preferredProviderId) {
+        // Throws with the provider's opening hours for that day
+        await this.businessHoursService!.assertWithinBusinessHours(startAt, endAt, candidates[0]);
+      }
+      throw new OutsideBusinessHoursError(
+        `None of our providers are working from ${startAt.toISOString()} to ${endAt.toISOString()}`
+      );
+    }
+
+    for (const provider of workingProviders) {
+      const conflicts = await this.appointmentRepository.getConflictingAppointments(searchFrom, searchTo, excludeId, provider.id);
+      if (conflicts.filter(apt => !ignored(apt) && blocks(apt)).length === 0) {
+        return provider.id;
+      }
+    }
+
+    if (preferredProviderId) {
+      throw new TimeSlotUnavailableError(
+        `${candidates[0].displayName} is not available from ${startAt.toISOString()} to ${endAt.toISOString()}`
+      );
+    }
+    throw new TimeSlotUnavailableError(params.unavailableMessage);
+  }
+
+  private async filterWorkingProviders(startAt: Date, endAt: Date, providers: ProviderEntity[]): Promise<ProviderEntity[]> {
+    if (!this.businessHoursService) {
+      return providers;
+    }
+
+    const working: ProviderEntity[] = [];
+    for (const provider of providers) {
+      if (await this.businessHoursService.isWithinBusinessHours(startAt, endAt, provider)) {
+        working.push(provider);
+      }
+    }
+    return working;
+  }
+
+  private async getCandidateProviders(preferredProviderId?: string, appointmentType?: AppointmentTypeEntity): Promise<ProviderEntity[]> {
+    if (!this.providerRepository) {
+      return [];
+    }
+
+    if (preferredProviderId) {
+      const provider = await this.providerRepository.findById(preferredProviderId);
+      if (!provider) {
+        throw new NotFoundError(`Provider with ID ${preferredProviderId} not found`);
+      }
+      if (!provider.active) {
+        throw new ValidationError(`${provider.displayName} is not currently accepting appointments`);
+      }
+      if (appointmentType && !appointmentType.canBePerformedBy(provider.id)) {
+        throw new ValidationError(`${provider.displayName} does not offer ${appointmentType.name} appointments`);
+      }
+      return [provider];
+    }
+
+    const providers = await this.providerRepository.findActive();
+    if (!appointmentType) {
+      return providers;
+    }
+
+    const qualified = providers.filter(provider => appointmentType.canBePerformedBy(provider.id));
+    if (providers.length > 0 && qualified.length === 0) {
+      throw new ValidationError(`None of our providers currently offer ${appointmentType.name} appointments`);
+    }
+    return qualified;
+  }
+
+  /**
+   * New start and end of an edited appointment. A new start time or type without an end time
+   * gets the type's default length; without a catalogue the appointment keeps its current length.
+   */
+  private resolveEditedTimes(
+    appointment: AppointmentEntity,
+    data: Partial<ScheduleRequestInput>,
+    appointmentType?: AppointmentTypeEntity
+  ): { startAt: Date; endAt: Date } {
+    const startAt = data.startAt ?? appointment.startAt;
+    const endAt = data.endAt || (appointmentType && (data.startAt || data.type))
+      ? this.resolveEndAt(startAt, data.endAt, appointmentType)
+      : new Date(startAt.getTime() + appointment.endAt.getTime() - appointment.startAt.getTime());
+    if (appointmentType && data.startAt) {
+      this.appointmentTypeService!.assertLeadTime(appointmentType, startAt);
+    }
+    return { startAt, endAt };
+  }
+
+  /**
+   * Check every occurrence of a series and return the provider who takes them all: the one
+   * asked for, or whoever is free for the first occurrence. Unavailable dates are reported together.
+   */
+  private async resolveProviderForOccurrences(
+    occurrences: { startAt: Date; endAt: Date }[],
+    params: {
+      contact: { email?: string; phoneNumber?: string };
+      appointmentType?: AppointmentTypeEntity;
+      preferredProviderId?: string;
+      ignoreIds?: string[];
+      timeZone: string;
+    }
+  ): Promise<string | undefined> {
+    let providerId = params.preferredProviderId;
+    const unavailableDates: string[] = [];
+
+    for (const { startAt, endAt } of occurrences) {
+      try {
+        const assigned = await this.resolveProviderForSlot({
+          startAt,
+          endAt,
+          contact: params.contact,
+          appointmentType: params.appointmentType,
+          preferredProviderId: providerId,
+          ignoreIds: params.ignoreIds,
+          samePersonMessage: `You already have an appointment scheduled from ${startAt.toISOString()} to ${endAt.toISOString()}`,
+          unavailableMessage: `Time slot from ${startAt.toISOString()} to ${endAt.toISOString()} is already booked`
+        });
+        providerId = providerId ?? assigned;
+      } catch (error) {
+        if (error instanceof TimeSlotUnavailableError || error instanceof OutsideBusinessHoursError) {
+          unavailableDates.push(toLocalDateString(startAt, params.timeZone));
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (unavailableDates.length > 0) {
+      throw new TimeSlotUnavailableError(
+        `The recurring time is not available on ${unavailableDates.join(', ')}. Choose another time or skip these dates as exceptions`
+      );
+    }
+    return providerId;
+  }
+
+  /**
+   * Move an occurrence and every later one of its series. Each keeps its own date, shifted by
+   * as many days as the edited occurrence moved, at the edited occurrence's new time of day.
+   * The series is split so the occurrences before it keep the original rule.
+   */
+  private async editFollowingOccurrences(
+    appointment: AppointmentEntity,
+    series: AppointmentSeriesEntity,
+    data: Partial<ScheduleRequestInput>,
+    context: ChangeContext
+  ): Promise<AppointmentEntity> {
+    const appointmentType = await this.appointmentTypeService?.getType(data.type ?? appointment.type);
+    const { startAt, endAt } = this.resolveEditedTimes(appointment, data, appointmentType);
+    const durationMs = endAt.getTime() - startAt.getTime();
+
+    const timeZone = series.timeZone;
+    const from = getZonedDateParts(appointment.startAt, timeZone);
+    const to = getZonedDateParts(startAt, timeZone);
+    const dayShift = Math.round((Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / DAY_MS);
+
+    const following = await this.getActiveOccurrences(series.id!, appointment.startAt);
+    const moves = following.map(occurrence => {
+      const local = getZonedDateParts(occurrence.startAt, timeZone);
+      const newStart = zonedTimeToUtc(local.year, local.month, local.day + dayShift, to.hour, to.minute, timeZone);
+      return { occurrence, startAt: newStart, endAt: new Date(newStart.getTime() + durationMs) };
+    });
+
+    // The occurrences being moved don't block each other's new times
+    const providerId = await this.resolveProviderForOccurrences(moves, {
+      contact: appointment,
+      appointmentType,
+      preferredProviderId: data.providerId ?? appointment.providerId,
+      ignoreIds: following.map(occurrence => occurrence.id!),
+      timeZone
+    });
+
+    const timeChanged = dayShift !== 0 ||
+      startAt.getTime() !== appointment.startAt.getTime() ||
+      endAt.getTime() !== appointment.endAt.getTime();
+
+    // The occurrences move as a whole or not at all, together with the split series, their history,
+    // the reschedule message and their reminders
+    const { updated, syncJobs } = await this.transactions.run(async () => {
+      // The database rejects overlapping bookings, so when the occurrences move later the last one is saved first
+      // (and the other way round), each moving into time the one after (or before) it has already left
+      const updated: AppointmentEntity[] = new Array(moves.length);
+      const order = [...moves.keys()];
+      if (startAt > appointment.startAt) {
+        order.reverse();
+      }
+      const moved: AppointmentEntity[] = [];
+      try {
+        for (const index of order) {
+          const move = moves[index];
+          const occurrence = new AppointmentEntity({
+            ...this.toAppointment(move.occurrence),
+            startAt: move.startAt,
+            endAt: move.endAt,
+            type: data.type ?? move.occurrence.type,
+            providerId: providerId ?? move.occurrence.providerId,
+            updatedAt: new Date()
+          });
+          // In a savepoint, so a conflicting update leaves the transaction usable for the rollback below
+          updated[index] = await this.transactions.run(() => this.appointmentRepository.update(occurrence.id!, occurrence));
+          moved.push(move.occurrence);
+        }
+      } catch (error) {
+        // Rollback: put the occurrences already moved back, last first so none lands on another
+        await this.restoreOccurrences(moved.reverse());
+        throw error;
+      }
+
+      for (const [index, occurrence] of updated.entries()) {
+        await this.recordChange(moves[index].occurrence, occurrence, context);
+      }
+
+      await this.splitSeries(series, appointment.startAt, updated, {
+        type: data.type ?? series.type,
+        providerId: providerId ?? series.providerId,
+        durationMinutes: durationMs / MINUTE_MS
+      });
+      // After the split, so the events carry the series the occurrences now belong to
+      const syncJobs = await this.enqueueCalendarSyncs(updated);
+
+      if (timeChanged) {
+        try {
+          console.log(`📧 Triggering series reschedule for series: ${series.id}, patient: ${series.firstName} ${series.lastName}, appointments: ${updated.length}`);
+          await this.transactions.run(async () => this.messageService?.sendSeriesMessage('reschedule', updated.map(apt => this.toAppointment(apt)), series.recurrence, timeZone));
+        } catch (emailError) {
+          console.error(`❌ Failed to send series reschedule for series: ${series.id}:`, emailError);
+          // Don't throw error - message failures shouldn't break rescheduling
+        }
+
+        for (const occurrence of updated) {
+          await this.scheduleReminders(occurrence);
+        }
+      }
+      return { updated, syncJobs };
+    });
+
+    for (const [index, occurrence] of updated.entries()) {
+      const syncJob = syncJobs[index];
+      if (syncJob) {
+        await this.syncCalendar(syncJob, occurrence);
+      } else if (occurrence.calendarEventId) {
+        try {
+          await this.calendarService.updateCalendarEvent(occurrence.calendarEventId, this.toAppointment(occurrence));
+        } catch (calendarError) {
+          console.error('Failed to update calendar event:', calendarError);
+          // Note: We don't rollback the DB update here as it's a secondary operation
+        }
+      }
+    }
+
+    if (timeChanged || updated[0].providerId !== appointment.providerId) {
+      for (const occurrence of following) {
+        await this.offerFreedSlot(occurrence);
+      }
+    }
+
+    return updated[0];
+  }
+
+  /**
+   * Point the occurrences from `occurrenceStart` on at a series describing their new times.
+   * When they start with the series' first occurrence the series itself is updated.
+   */
+  private async splitSeries(
+    series: AppointmentSeriesEntity,
+    occurrenceStart: Date,
+    moved: AppointmentEntity[],
+    changes: Pick<AppointmentSeriesEntity, 'type' | 'providerId' | 'durationMinutes'>
+  ): Promise<void> {
+    const newStart = moved[0].startAt;
+    const recurrence = this.recurrenceCovering(series.recurrence, moved, series.timeZone);
+
+    if (occurrenceStart <= series.startAt) {
+      Object.assign(series, changes, { startAt: newStart, recurrence, updatedAt: new Date() });
+      await this.seriesRepository!.update(series.id!, series);
+      return;
+    }
+
+    series.endBefore(occurrenceStart);
+    await this.seriesRepository!.update(series.id!, series);
+
+    const { id, createdAt, updatedAt, ...details } = series;
+    const following = await this.seriesRepository!.create(new AppointmentSeriesEntity({
+      ...details,
+      ...changes,
+      startAt: newStart,
+      recurrence,
+      status: SeriesStatus.ACTIVE
+    }));
+
+    for (const appointment of moved) {
+      appointment.seriesId = following.id;
+      await this.appointmentRepository.update(appointment.id!, appointment);
+    }
+  }
+
+  /**
+   * The rule's frequency, ending at the last appointment, with the dates in between that have
+   * no appointment as exceptions.
+   */
+  private recurrenceCovering(rule: RecurrenceRule, appointments: AppointmentEntity[], timeZone: string): RecurrenceRule {
+    const recurrence: RecurrenceRule = {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      until: appointments[appointments.length - 1].startAt,
+      exceptions: []
+    };
+    const booked = new Set(appointments.map(apt => toLocalDateString(apt.startAt, timeZone)));
+    recurrence.exceptions = expandRecurrence(appointments[0].startAt, recurrence, timeZone)
+      .map(date => toLocalDateString(date, timeZone))
+      .filter(date => !booked.has(date));
+    return recurrence;
+  }
+
+  private async cancelFollowingOccurrences(
+    appointment: AppointmentEntity,
+    series: AppointmentSeriesEntity,
+    context: ChangeContext
+  ): Promise<boolean> {
+    const following = await this.getActiveOccurrences(series.id!, appointment.startAt);
+
+    const syncJobs = await this.transactions.run(async () => {
+      const syncJobs: (CalendarSyncJobEntity | undefined)[] = [];
+      for (const occurrence of following) {
+        syncJobs.push(await this.markCancelled(occurrence, context));
+      }
+
+      series.endBefore(appointment.startAt);
+      await this.seriesRepository!.update(series.id!, series);
+
+      try {
+        console.log(`📧 Triggering series cancellation for series: ${series.id}, patient: ${series.firstName} ${series.lastName}, appointments: ${following.length}`);
+        await this.transactions.run(async () => this.messageService?.sendSeriesMessage('cancellation', following.map(apt => this.toAppointment(apt)), series.recurrence, series.timeZone));
+      } catch (emailError) {
+        console.error(`❌ Failed to send series cancellation for series: ${series.id}:`, emailError);
+        // Don't throw error - message failures shouldn't break cancellation
+      }
+      return syncJobs;
+    });
+
+    for (const [index, occurrence] of following.entries()) {
+      await this.removeCalendarEvent(occurrence, syncJobs[index]);
+    }
+    for (const occurrence of following) {
+      await this.offerFreedSlot(occurrence);
+    }
+    return true;
+  }
+
+  // Returns the job that removes the calendar event, when events are synced by jobs
+  private async markCancelled(appointment: AppointmentEntity, context: ChangeContext): Promise<CalendarSyncJobEntity | undefined> {
+    const before = AppointmentEventEntity.snapshot(appointment);
     appointment.status = AppointmentStatus.CANCELLED;
     appointment.updatedAt = new Date();
-    
+
     // Update in database
-    await this.appointmentRepository.update(appointmentId, appointment);
+    await this.appointmentRepository.update(appointment.id!, appointment);
+    await this.recordChange(before, appointment, context);
+    const syncJob = await this.calendarSyncService?.enqueueSync(appointment);
+
+    try {
+      await this.transactions.run(async () => this.reminderService?.cancelReminders(appointment.id!));
+    } catch (reminderError) {
+      console.error(`❌ Failed to cancel reminders for appointment: ${appointment.id}:`, reminderError);
+      // Stale reminders are skipped when they come due, since the appointment is no longer active
+    }
+    return syncJob;
+  }
 
+  // Once the cancellation is saved
+  private async removeCalendarEvent(appointment: AppointmentEntity, syncJob?: CalendarSyncJobEntity): Promise<void> {
     // Cancel calendar event if calendar event ID exists
-    if (appointment.calendarEventId) {
+    if (syncJob) {
+      await this.syncCalendar(syncJob, appointment);
+    } else if (appointment.calendarEventId) {
       try {
         await this.calendarService.deleteCalendarEvent(appointment.calendarEventId);
       } catch (calendarError) {
@@ -225,27 +1025,171 @@ export class AppointmentService implements IAppointmentService {
         // Note: We don't rollback the DB update here as the appointment is already cancelled
       }
     }
+  }
 
-    // Send cancellation email
+  private async createCalendarEventOrRollback(createdAppointment: AppointmentEntity): Promise<AppointmentEntity> {
     try {
-      console.log(`📧 Triggering cancellation email for appointment: ${appointment.id}, patient: ${appointment.firstName} ${appointment.lastName}, email: ${appointment.email || 'N/A'}`);
-      console.log(`❌ Cancelled appointment: ${appointment.startAt.toISOString()} - ${appointment.type}`);
-      
-      const appointmentForEmail: Appointment = {
-        ...appointment,
-        id: appointment.id!,
-        createdAt: appointment.createdAt!,
-        updatedAt: appointment.updatedAt
-      };
-      await this.messageService.sendCancellationMessage(appointmentForEmail);
-      
-      console.log(`✅ Cancellation email process completed for appointment: ${appointment.id}`);
-    } catch (emailError) {
-      console.error(`❌ Failed to send cancellation email for appointment: ${appointment.id}:`, emailError);
-      // Don't throw error - email failures shouldn't break appointment cancellation
+      // Create calendar event - ensure we have a required id
+      const eventId = await this.calendarService.createCalendarEvent(this.toAppointment(createdAppointment));
+
+      // Update appointment with calendar event ID
+      createdAppointment.setCalendarEventId(eventId);
+      return await this.appointmentRepository.update(createdAppointment.id!, createdAppointment);
+    } catch (calendarError) {
+      // Rollback: Delete the created appointment if calendar booking fails
+      try {
+        await this.appointmentRepository.delete(createdAppointment.id!);
+      } catch (deleteError) {
+        console.error('Failed to rollback appointment creation for details:', deleteError);
+      }
+
+      throw new Error(`Failed to create calendar event: ${calendarError instanceof Error ? calendarError.message : 'Unknown error'}`);
     }
+  }
 
-    return true;
+  // In the transaction that saves the changes, so none of them is saved without the job that syncs its event
+  private async enqueueCalendarSyncs(appointments: AppointmentEntity[]): Promise<CalendarSyncJobEntity[]> {
+    const syncJobs: CalendarSyncJobEntity[] = [];
+    if (this.calendarSyncService) {
+      for (const appointment of appointments) {
+        syncJobs.push(await this.calendarSyncService.enqueueSync(appointment));
+      }
+    }
+    return syncJobs;
+  }
+
+  // Once the change is committed
+  private async syncCalendar(syncJob: CalendarSyncJobEntity, appointment: AppointmentEntity): Promise<AppointmentEntity> {
+    try {
+      return await this.calendarSyncService!.runSync(syncJob, appointment);
+    } catch (syncError) {
+      console.error(`❌ Failed to sync calendar for appointment: ${appointment.id}:`, syncError);
+      // Don't throw error - the change is saved with its sync job, which the worker retries
+      return appointment;
+    }
+  }
+
+  // Undo as much as possible; one failed step shouldn't leave the rest behind
+  private async rollbackSeries(series: AppointmentSeriesEntity, appointments: AppointmentEntity[]): Promise<void> {
+    const steps: (() => Promise<unknown>)[] = [];
+    for (const appointment of appointments) {
+      if (appointment.calendarEventId) {
+        steps.push(() => this.calendarService.deleteCalendarEvent(appointment.calendarEventId!));
+      }
+      steps.push(() => this.appointmentRepository.delete(appointment.id!));
+    }
+    steps.push(() => this.seriesRepository!.delete(series.id!));
+
+    for (const step of steps) {
+      try {
+        await step();
+      } catch (rollbackError) {
+        console.error(`Failed to rollback series creation for series: ${series.id}:`, rollbackError);
+      }
+    }
+  }
+
+  // Undo as much as possible; one failed step shouldn't leave the rest behind
+  private async restoreOccurrences(occurrences: AppointmentEntity[]): Promise<void> {
+    for (const occurrence of occurrences) {
+      try {
+        await this.transactions.run(() => this.appointmentRepository.update(occurrence.id!, occurrence));
+      } catch (rollbackError) {
+        console.error(`Failed to rollback the move of appointment: ${occurrence.id}:`, rollbackError);
+      }
+    }
+  }
+
+  private async findSeriesOf(appointment: AppointmentEntity): Promise<AppointmentSeriesEntity | null> {
+    if (!appointment.seriesId || !this.seriesRepository) {
+      return null;
+    }
+    return await this.seriesRepository.findById(appointment.seriesId);
+  }
+
+  // Scheduled and confirmed occurrences of a series, optionally from a given start time on
+  private async getActiveOccurrences(seriesId: string, from?: Date): Promise<AppointmentEntity[]> {
+    return await this.appointmentRepository.search({
+      seriesId,
+      from,
+      statuses: ACTIVE_STATUSES,
+      sortBy: 'startAt',
+      sortOrder: 'asc',
+      limit: MAX_SERIES_OCCURRENCES
+    });
+  }
+
+  private toAppointment(entity: AppointmentEntity): Appointment {
+    return {
+      ...entity,
+      id: entity.id!,
+      createdAt: entity.createdAt!,
+      updatedAt: entity.updatedAt
+    };
+  }
+
+  private async scheduleReminders(appointment: AppointmentEntity): Promise<void> {
+    try {
+      await this.transactions.run(async () => this.reminderService?.scheduleReminders(appointment));
+    } catch (reminderError) {
+      console.error(`❌ Failed to schedule reminders for appointment: ${appointment.id}:`, reminderError);
+      // Don't throw error - the booking itself has already been made
+    }
+  }
+
+  /**
+   * Add a change to the appointment's history. Patients can only act on their own appointments,
+   * so a patient's change is put down to the appointment's patient record.
+   */
+  private async recordChange(before: AppointmentSnapshot | null, after: AppointmentEntity, context: ChangeContext): Promise<void> {
+    if (!this.eventRepository) {
+      return;
+    }
+
+    const actorId = context.actorId ?? (context.actorType === ActorType.PATIENT ? after.patientId : undefined);
+    const event = AppointmentEventEntity.fromChange(after.id!, before, after, { ...context, actorId });
+    if (!event) {
+      return;
+    }
+
+    try {
+      await this.transactions.run(() => this.eventRepository!.append(event));
+    } catch (historyError) {
+      console.error(`❌ Failed to record ${event.eventType} event for appointment: ${after.id}:`, historyError);
+      // Don't throw error - the change itself has already been made
+    }
+  }
+
+  private async offerFreedSlot(appointment: AppointmentEntity): Promise<void> {
+    if (!this.waitlistService) {
+      return;
+    }
+
+    try {
+      const offered = await this.waitlistService.offerFreedSlot({
+        startAt: appointment.startAt,
+        endAt: appointment.endAt,
+        type: appointment.type,
+        providerId: appointment.providerId
+      });
+      if (offered) {
+        console.log(`📋 Offered freed slot ${appointment.startAt.toISOString()} to waitlist entry: ${offered.id}`);
+      }
+    } catch (waitlistError) {
+      console.error(`❌ Failed to offer freed slot of appointment: ${appointment.id} to the waitlist:`, waitlistError);
+      // Don't throw error - the change itself has already been made
+    }
+  }
+
+  /**
+   * Time zone of the location the provider works at, if it differs from the clinic's.
+   */
+  private async getProviderTimeZone(providerId?: string): Promise<string | undefined> {
+    if (!providerId || !this.providerRepository) {
+      return undefined;
+    }
+    const provider = await this.providerRepository.findById(providerId);
+    return provider?.timeZone;
   }
 
   private validateAppointmentCanBeCancelled(appointment: AppointmentEntity): void {
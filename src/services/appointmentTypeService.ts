@@ -0,0 +1,70 @@
+import { AppointmentTypeEntity } from '../models/AppointmentTypeEntity';
+import { IAppointmentTypeRepository } from '../repositories/interfaces/IAppointmentTypeRepository';
+import { IAppointmentTypeService } from './interfaces/IAppointmentTypeService';
+import { ValidationError } from '../types/errors';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Appointment type catalogue.
+ * Each type decides how long its appointments last, how much padding they need around them
+ * and how far in advance they must be booked.
+ */
+export class AppointmentTypeService implements IAppointmentTypeService {
+  private readonly appointmentTypeRepository: IAppointmentTypeRepository;
+
+  constructor(appointmentTypeRepository: IAppointmentTypeRepository) {
+    this.appointmentTypeRepository = appointmentTypeRepository;
+  }
+
+  async getType(code: string): Promise<AppointmentTypeEntity> {
+    const type = await this.appointmentTypeRepository.findByCode(code);
+    if (!type || !type.active) {
+      throw new ValidationError(`We don't currently offer ${code} appointments`);
+    }
+    return type;
+  }
+
+  async listTypes(options: { includeRetired?: boolean } = {}): Promise<AppointmentTypeEntity[]> {
+    const types = await this.appointmentTypeRepository.findAll();
+    return options.includeRetired ? types : types.filter(type => type.active);
+  }
+
+  resolveEndAt(type: AppointmentTypeEntity, startAt: Date, endAt?: Date): Date {
+    if (!endAt) {
+      return new Date(startAt.getTime() + type.defaultDurationMinutes * MINUTE_MS);
+    }
+
+    const durationMinutes = (endAt.getTime() - startAt.getTime()) / MINUTE_MS;
+    if (!type.isDurationAllowed(durationMinutes)) {
+      const allowed = type.allowedDurationsMinutes.length > 0
+        ? type.allowedDurationsMinutes
+        : [type.defaultDurationMinutes];
+      throw new ValidationError(
+        `${type.name} appointments can last ${allowed.join(', ')} minutes, not ${durationMinutes}`
+      );
+    }
+    return endAt;
+  }
+
+  assertLeadTime(type: AppointmentTypeEntity, startAt: Date): void {
+    const minutesUntilStart = (startAt.getTime() - Date.now()) / MINUTE_MS;
+    if (minutesUntilStart < type.minLeadTimeMinutes) {
+      throw new ValidationError(
+        `${type.name} appointments must be booked at least ${this.formatLeadTime(type.minLeadTimeMinutes)} in advance`
+      );
+    }
+  }
+
+  private formatLeadTime(minutes: number): string {
+    if (minutes % (24 * 60) === 0) {
+      const days = minutes / (24 * 60);
+      return `${days} day${days === 1 ? '' : 's'}`;
+    }
+    if (minutes % 60 === 0) {
+      const hours = minutes / 60;
+      return `${hours} hour${hours === 1 ? '' : 's'}`;
+    }
+    return `${minutes} minutes`;
+  }
+}
@@ -0,0 +1,192 @@
+import { AvailableSlot, SlotSearchRequest } from '../types/availability';
+import { ProviderEntity } from '../models/ProviderEntity';
+import { AppointmentTypeEntity } from '../models/AppointmentTypeEntity';
+import { AppointmentEntity } from '../models/AppointmentEntity';
+import { IAppointmentRepository } from '../repositories/interfaces/IAppointmentRepository';
+import { IProviderRepository } from '../repositories/interfaces/IProviderRepository';
+import { ICalendarService } from './interfaces/ICalendarService';
+import { IBusinessHoursService } from './interfaces/IBusinessHoursService';
+import { IAppointmentTypeService } from './interfaces/IAppointmentTypeService';
+import { IAvailabilityService } from './interfaces/IAvailabilityService';
+import { NotFoundError, ValidationError } from '../types/errors';
+import { TimeInterval, mergeIntervals, subtractIntervals, overlapsAny } from '../utils/intervalUtils';
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_SLOT_LIMIT = 20;
+
+export interface AvailabilityServiceDependencies {
+  providerRepository?: IProviderRepository;
+  businessHoursService?: IBusinessHoursService;
+}
+
+/**
+ * Generates concrete bookable slots from business hours, appointment type timing,
+ * existing appointments and Google Calendar busy time.
+ */
+export class AvailabilityService implements IAvailabilityService {
+  private readonly slotIntervalMinutes: number;
+  private readonly maxRangeDays: number;
+  private readonly appointmentRepository: IAppointmentRepository;
+  private readonly calendarService: ICalendarService;
+  private readonly appointmentTypeService: IAppointmentTypeService;
+  private readonly providerRepository?: IProviderRepository;
+  private readonly businessHoursService?: IBusinessHoursService;
+
+  constructor(
+    config: { slotIntervalMinutes: number; maxRangeDays: number },
+    appointmentRepository: IAppointmentRepository,
+    calendarService: ICalendarService,
+    appointmentTypeService: IAppointmentTypeService,
+    dependencies: AvailabilityServiceDependencies = {}
+  ) {
+    this.slotIntervalMinutes = config.slotIntervalMinutes;
+    this.maxRangeDays = config.maxRangeDays;
+    this.appointmentRepository = appointmentRepository;
+    this.calendarService = calendarService;
+    this.appointmentTypeService = appointmentTypeService;
+    this.providerRepository = dependencies.providerRepository;
+    this.businessHoursService = dependencies.businessHoursService;
+  }
+
+  async findAvailableSlots(request: SlotSearchRequest): Promise<AvailableSlot[]> {
+    if (request.to <= request.from) {
+      throw new ValidationError('The end of the search range must be after its start');
+    }
+    if (request.to.getTime() - request.from.getTime() > this.maxRangeDays * 24 * 60 * MINUTE_MS) {
+      throw new ValidationError(`Available slots can only be searched ${this.maxRangeDays} days at a time`);
+    }
+
+    const appointmentType = await this.appointmentTypeService.getType(request.type);
+
+    // Never offer slots inside the type's booking lead time
+    const earliestStart = new Date(Date.now() + appointmentType.minLeadTimeMinutes * MINUTE_MS);
+    const from = request.from < earliestStart ? earliestStart : request.from;
+    const to = request.to;
+    if (to <= from) {
+      return [];
+    }
+
+    const providers = await this.getCandidateProviders(appointmentType, request.providerId);
+
+    // Booked appointments keep their own type's setup and clean-up time too
+    const catalogue = await this.appointmentTypeService.listTypes({ includeRetired: true });
+    const typesByCode = new Map(catalogue.map(type => [type.code, type]));
+    const longestBeforeMs = Math.max(0, ...catalogue.map(type => type.bufferBeforeMinutes)) * MINUTE_MS;
+    const longestAfterMs = Math.max(0, ...catalogue.map(type => type.bufferAfterMinutes)) * MINUTE_MS;
+
+    // Active appointments for every provider, widened by both sides' buffers so edge bookings are seen
+    const appointments = await this.appointmentRepository.getConflictingAppointments(
+      new Date(from.getTime() - appointmentType.bufferBeforeMinutes * MINUTE_MS - longestAfterMs),
+      new Date(to.getTime() + appointmentType.bufferAfterMinutes * MINUTE_MS + longestBeforeMs)
+    );
+
+    // The clinic calendar also contains our own appointments; whatever is left once they are
+    // removed is external busy time (meetings, holidays) that blocks every provider.
+    const calendarBusy = await this.calendarService.getBusySlots(from, to);
+    const externalBusy = subtractIntervals(
+      calendarBusy.map(slot => ({ start: new Date(slot.start), end: new Date(slot.end) })),
+      appointments.map(apt => ({ start: apt.startAt, end: apt.endAt }))
+    );
+
+    const slots: AvailableSlot[] = [];
+    for (const provider of providers) {
+      const openingIntervals = this.businessHoursService
+        ? await this.businessHoursService.getOpeningIntervals(from, to, provider)
+        : [{ start: from, end: to }];
+
+      const busy = mergeIntervals([
+        ...externalBusy,
+        ...this.appointmentsFor(appointments, provider).map(apt => this.blockedBy(apt, typesByCode))
+      ]);
+
+      for (const interval of openingIntervals) {
+        for (const slot of this.slotsWithin(interval, from, appointmentType.defaultDurationMinutes)) {
+          if (!overlapsAny(appointmentType.blockedInterval(slot.start, slot.end), busy)) {
+            slots.push({
+              startAt: slot.start,
+              endAt: slot.end,
+              providerId: provider?.id,
+              providerName: provider?.displayName,
+              timeZone: provider?.timeZone
+            });
+          }
+        }
+      }
+    }
+
+    slots.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+
+    // Without a preference the patient only cares about the time, so offer each start time once
+    const offered = request.providerId ? slots : this.firstSlotPerStartTime(slots);
+    return offered.slice(0, request.limit ?? DEFAULT_SLOT_LIMIT);
+  }
+
+  private async getCandidateProviders(
+    appointmentType: AppointmentTypeEntity,
+    providerId?: string
+  ): Promise<(ProviderEntity | undefined)[]> {
+    if (!this.providerRepository) {
+      return [undefined];
+    }
+
+    if (providerId) {
+      const provider = await this.providerRepository.findById(providerId);
+      if (!provider || !provider.active) {
+        throw new NotFoundError(`Provider with ID ${providerId} not found`);
+      }
+      if (!appointmentType.canBePerformedBy(provider.id)) {
+        throw new ValidationError(`${provider.displayName} does not offer ${appointmentType.name} appointments`);
+      }
+      return [provider];
+    }
+
+    const providers = await this.providerRepository.findActive();
+    // Without configured providers the whole clinic is one bookable resource
+    if (providers.length === 0) {
+      return [undefined];
+    }
+    return providers.filter(provider => appointmentType.canBePerformedBy(provider.id));
+  }
+
+  private appointmentsFor(appointments: AppointmentEntity[], provider?: ProviderEntity): AppointmentEntity[] {
+    if (!provider) {
+      return appointments;
+    }
+    return appointments.filter(apt => apt.providerId === provider.id);
+  }
+
+  /**
+   * The time a booked appointment keeps its provider busy. Types missing from the catalogue have no buffers.
+   */
+  private blockedBy(appointment: AppointmentEntity, typesByCode: Map<string, AppointmentTypeEntity>): TimeInterval {
+    return typesByCode.get(appointment.type)?.blockedInterval(appointment.startAt, appointment.endAt)
+      ?? { start: appointment.startAt, end: appointment.endAt };
+  }
+
+  private slotsWithin(interval: TimeInterval, notBefore: Date, durationMinutes: number): TimeInterval[] {
+    const stepMs = this.slotIntervalMinutes * MINUTE_MS;
+    const durationMs = durationMinutes * MINUTE_MS;
+    const earliest = Math.max(interval.start.getTime(), notBefore.getTime());
+
+    // Align start times to the slot grid, e.g. :00, :15, :30, :45
+    let start = Math.ceil(earliest / stepMs) * stepMs;
+    const slots: TimeInterval[] = [];
+    while (start + durationMs <= interval.end.getTime()) {
+      slots.push({ start: new Date(start), end: new Date(start + durationMs) });
+      start += stepMs;
+    }
+    return slots;
+  }
+
+  private firstSlotPerStartTime(slots: AvailableSlot[]): AvailableSlot[] {
+    const seen = new Set<number>();
+    return slots.filter(slot => {
+      const key = slot.startAt.getTime();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,134 @@
+import { BusinessHoursRule, DAY_NAMES } from '../types/availability';
+import { ProviderEntity } from '../models/ProviderEntity';
+import { IBusinessHoursRepository } from '../repositories/interfaces/IBusinessHoursRepository';
+import { IBusinessHoursService } from './interfaces/IBusinessHoursService';
+import { OutsideBusinessHoursError } from '../types/errors';
+import { getZonedDateParts, parseTimeToMinutes, zonedTimeToUtc } from '../utils/dateUtils';
+import { TimeInterval } from '../utils/intervalUtils';
+
+/**
+ * Weekly opening-hours rules engine.
+ * Provider hours take precedence over their location's hours, which take precedence over
+ * the clinic-wide defaults. When no hours are configured at any level, every time is bookable.
+ */
+export class BusinessHoursService implements IBusinessHoursService {
+  private readonly timeZone: string;
+  private readonly businessHoursRepository: IBusinessHoursRepository;
+
+  constructor(config: { timeZone: string }, businessHoursRepository: IBusinessHoursRepository) {
+    this.timeZone = config.timeZone;
+    this.businessHoursRepository = businessHoursRepository;
+  }
+
+  async getRules(provider?: ProviderEntity): Promise<BusinessHoursRule[]> {
+    if (provider) {
+      const providerRules = await this.businessHoursRepository.findByProvider(provider.id);
+      if (providerRules.length > 0) {
+        return providerRules;
+      }
+
+      if (provider.locationId) {
+        const locationRules = await this.businessHoursRepository.findByLocation(provider.locationId);
+        if (locationRules.length > 0) {
+          return locationRules;
+        }
+      }
+    }
+
+    return await this.businessHoursRepository.findClinicWide();
+  }
+
+  async isWithinBusinessHours(startAt: Date, endAt: Date, provider?: ProviderEntity): Promise<boolean> {
+    const rules = await this.getRules(provider);
+    return this.fitsRules(startAt, endAt, rules, this.timeZoneFor(provider));
+  }
+
+  async assertWithinBusinessHours(startAt: Date, endAt: Date, provider?: ProviderEntity): Promise<void> {
+    const rules = await this.getRules(provider);
+    if (this.fitsRules(startAt, endAt, rules, this.timeZoneFor(provider))) {
+      return;
+    }
+
+    const subject = provider ? provider.displayName : 'The clinic';
+    const timeZone = this.timeZoneFor(provider);
+    const start = getZonedDateParts(startAt, timeZone);
+    const dayName = DAY_NAMES[start.dayOfWeek];
+    const dayRules = rules.filter(rule => rule.dayOfWeek === start.dayOfWeek);
+
+    if (dayRules.length === 0) {
+      throw new OutsideBusinessHoursError(`${subject} is not open on ${dayName}s`);
+    }
+
+    const intervals = dayRules.map(rule => `${rule.opensAt}-${rule.closesAt}`).join(', ');
+    throw new OutsideBusinessHoursError(
+      `The requested time is outside business hours. ${subject} is open ${intervals} (${timeZone}) on ${dayName}`
+    );
+  }
+
+  async getOpeningIntervals(from: Date, to: Date, provider?: ProviderEntity): Promise<TimeInterval[]> {
+    const rules = await this.getRules(provider);
+    if (rules.length === 0) {
+      return [{ start: from, end: to }];
+    }
+
+    const timeZone = this.timeZoneFor(provider);
+    const first = getZonedDateParts(from, timeZone);
+    const last = getZonedDateParts(to, timeZone);
+    const cursor = new Date(Date.UTC(first.year, first.month - 1, first.day));
+    const lastDay = new Date(Date.UTC(last.year, last.month - 1, last.day));
+
+    const intervals: TimeInterval[] = [];
+    while (cursor <= lastDay) {
+      const year = cursor.getUTCFullYear();
+      const month = cursor.getUTCMonth() + 1;
+      const day = cursor.getUTCDate();
+
+      for (const rule of rules.filter(r => r.dayOfWeek === cursor.getUTCDay())) {
+        const opens = parseTimeToMinutes(rule.opensAt);
+        const closes = parseTimeToMinutes(rule.closesAt);
+        const start = zonedTimeToUtc(year, month, day, Math.floor(opens / 60), opens % 60, timeZone);
+        const end = zonedTimeToUtc(year, month, day, Math.floor(closes / 60), closes % 60, timeZone);
+
+        // Clip to the requested range
+        const clippedStart = start < from ? from : start;
+        const clippedEnd = end > to ? to : end;
+        if (clippedEnd > clippedStart) {
+          intervals.push({ start: clippedStart, end: clippedEnd });
+        }
+      }
+
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  // Opening hours are wall-clock times at the provider's location, or the clinic's when it has none
+  private timeZoneFor(provider?: ProviderEntity): string {
+    return provider?.timeZone ?? this.timeZone;
+  }
+
+  private fitsRules(startAt: Date, endAt: Date, rules: BusinessHoursRule[], timeZone: string): boolean {
+    if (rules.length === 0) {
+      return true;
+    }
+
+    const start = getZonedDateParts(startAt, timeZone);
+    const end = getZonedDateParts(endAt, timeZone);
+
+    // Opening intervals never span midnight, so the appointment must start and end on the same local day
+    if (start.year !== end.year || start.month !== end.month || start.day !== end.day) {
+      return false;
+    }
+
+    const startMinutes = start.hour * 60 + start.minute;
+    const endMinutes = end.hour * 60 + end.minute + (end.second > 0 ? 1 : 0);
+
+    // The whole appointment must fit inside a single interval; a lunch break splits the day in two
+    return rules.some(rule =>
+      rule.dayOfWeek === start.dayOfWeek &&
+      parseTimeToMinutes(rule.opensAt) <= startMinutes &&
+      endMinutes <= parseTimeToMinutes(rule.closesAt)
+    );
+  }
+}
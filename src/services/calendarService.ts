@@ -1,6 +1,7 @@
 import { BusySlot, Appointment } from '../types/schedule';
 import { ICalendarService } from './interfaces/ICalendarService';
 import { calendar_v3 } from '@googleapis/calendar';
+import { formatZonedISOString, getZonedDateParts, zonedTimeToUtc } from '../utils/dateUtils';
 
 /**
  * Google Calendar implementation of ICalendarService using FreeBusy API via official SDK.
@@ -10,25 +11,32 @@ export class CalendarService implements ICalendarService {
   private readonly rangeDays: number;
   private readonly calendar: calendar_v3.Calendar;
   private readonly primaryCalendarId: string;
+  private readonly timeZone: string;
 
-  constructor(config: { primaryCalendarId: string; rangeDays: number }, calendar: calendar_v3.Calendar) {
+  constructor(config: { primaryCalendarId: string; rangeDays: number; timeZone: string }, calendar: calendar_v3.Calendar) {
     this.rangeDays = config.rangeDays;
     this.calendar = calendar;
     this.primaryCalendarId = config.primaryCalendarId;
+    this.timeZone = config.timeZone;
   }
 
   async getBookedSlotsForDate(date: Date): Promise<BusySlot[]> {
-    const timeMin = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 0, 0, 0));
-    const timeMax = new Date(timeMin);
-    timeMax.setUTCDate(timeMax.getUTCDate() + this.rangeDays);
-    timeMax.setUTCHours(23, 59, 59, 0);
+    // Days start and end at midnight in the clinic's time zone, not UTC
+    const day = getZonedDateParts(date, this.timeZone);
+    const timeMin = zonedTimeToUtc(day.year, day.month, day.day, 0, 0, this.timeZone);
+    const timeMax = zonedTimeToUtc(day.year, day.month, day.day + this.rangeDays, 23, 59, this.timeZone);
+    timeMax.setUTCSeconds(59);
 
+    return await this.getBusySlots(timeMin, timeMax);
+  }
+
+  async getBusySlots(timeMin: Date, timeMax: Date): Promise<BusySlot[]> {
     try {
       const res = await this.calendar.freebusy.query({
         requestBody: {
           timeMin: timeMin.toISOString(),
           timeMax: timeMax.toISOString(),
-          timeZone: 'UTC',
+          timeZone: this.timeZone,
           items: [{ id: this.primaryCalendarId }]
         }
       });
@@ -61,7 +69,7 @@ export class CalendarService implements ICalendarService {
           timeMin: timeMin.toISOString(),
           timeMax: timeMax.toISOString(),
           primaryCalendarId: this.primaryCalendarId,
-          timeZone: 'UTC'
+          timeZone: this.timeZone
         },
         fullError: err
       });
@@ -76,27 +84,7 @@ export class CalendarService implements ICalendarService {
 
   async createCalendarEvent(appointment: Appointment): Promise<string> {
     try {
-      const event: calendar_v3.Schema$Event = {
-        summary: `${appointment.type.charAt(0).toUpperCase() + appointment.type.slice(1)} - ${appointment.firstName} ${appointment.lastName}`,
-        description: `${appointment.reason || `${appointment.type.charAt(0).toUpperCase() + appointment.type.slice(1)} appointment`}\n\nPatient: ${appointment.firstName} ${appointment.lastName}\nEmail: ${appointment.email || 'Not provided'}\nPhone: ${appointment.phoneNumber || 'Not provided'}`,
-        start: {
-          dateTime: appointment.startAt.toISOString(),
-          timeZone: 'UTC', // Use UTC since toISOString() converts to UTC
-        },
-        end: {
-          dateTime: appointment.endAt.toISOString(),
-          timeZone: 'UTC', // Use UTC since toISOString() converts to UTC
-        },
-        // Removed attendees field to avoid Domain-Wide Delegation requirement
-        // Patient info is included in the description instead
-        reminders: {
-          useDefault: false,
-          overrides: [
-            { method: 'email', minutes: 24 * 60 }, // 24 hours before
-            { method: 'popup', minutes: 15 }, // 15 minutes before
-          ],
-        },
-      };
+      const event = this.buildEvent(appointment, true);
 
       const response = await this.calendar.events.insert({
         calendarId: this.primaryCalendarId,
@@ -134,19 +122,7 @@ export class CalendarService implements ICalendarService {
 
   async updateCalendarEvent(eventId: string, appointment: Appointment): Promise<void> {
     try {
-      const event: calendar_v3.Schema$Event = {
-        summary: `${appointment.type.charAt(0).toUpperCase() + appointment.type.slice(1)} - ${appointment.firstName} ${appointment.lastName}`,
-        description: `${appointment.reason || `${appointment.type.charAt(0).toUpperCase() + appointment.type.slice(1)} appointment`}\n\nPatient: ${appointment.firstName} ${appointment.lastName}\nEmail: ${appointment.email || 'Not provided'}\nPhone: ${appointment.phoneNumber || 'Not provided'}`,
-        start: {
-          dateTime: appointment.startAt.toISOString(),
-          timeZone: 'UTC', // Use UTC since toISOString() converts to UTC
-        },
-        end: {
-          dateTime: appointment.endAt.toISOString(),
-          timeZone: 'UTC', // Use UTC since toISOString() converts to UTC
-        },
-        // Removed attendees field to avoid Domain-Wide Delegation requirement
-      };
+      const event = this.buildEvent(appointment, false);
 
       await this.calendar.events.update({
         calendarId: this.primaryCalendarId,
@@ -178,6 +154,85 @@ export class CalendarService implements ICalendarService {
     }
   }
 
+  async upsertCalendarEvent(eventId: string, appointment: Appointment): Promise<void> {
+    // Confirmed in case the event was deleted earlier: Google keeps deleted events as cancelled
+    const event: calendar_v3.Schema$Event = { ...this.buildEvent(appointment, true), id: eventId, status: 'confirmed' };
+
+    try {
+      await this.calendar.events.insert({
+        calendarId: this.primaryCalendarId,
+        requestBody: event,
+      });
+    } catch (err: any) {
+      // 409: an earlier attempt already created the event, so bring it up to date instead
+      if (err?.code !== 409 && err?.response?.status !== 409) {
+        throw this.upsertError(err, eventId, appointment);
+      }
+
+      try {
+        await this.calendar.events.update({
+          calendarId: this.primaryCalendarId,
+          eventId: eventId,
+          requestBody: event,
+        });
+      } catch (updateErr: any) {
+        throw this.upsertError(updateErr, eventId, appointment);
+      }
+    }
+  }
+
+  private upsertError(err: any, eventId: string, appointment: Appointment): Error {
+    console.error('🚨 Google Calendar Event Upsert Error:', {
+      message: err?.message,
+      status: err?.code || err?.response?.status,
+      statusText: err?.response?.statusText,
+      details: err?.errors || err?.response?.data,
+      eventId: eventId,
+      appointmentId: appointment.id,
+      calendarId: this.primaryCalendarId,
+      fullError: err
+    });
+
+    const status = err?.code || err?.response?.status;
+    const details = err?.errors || err?.response?.data || err?.message;
+    return new Error(`Calendar event upsert failed${status ? ` (status ${status})` : ''}: ${
+      typeof details === 'string' ? details : JSON.stringify(details)
+    }`);
+  }
+
+  private buildEvent(appointment: Appointment, withReminders: boolean): calendar_v3.Schema$Event {
+    const typeLabel = appointment.type.charAt(0).toUpperCase() + appointment.type.slice(1);
+    return {
+      summary: `${typeLabel} - ${appointment.firstName} ${appointment.lastName}`,
+      description: `${appointment.reason || `${typeLabel} appointment`}\n\nPatient: ${appointment.firstName} ${appointment.lastName}\nEmail: ${appointment.email || 'Not provided'}\nPhone: ${appointment.phoneNumber || 'Not provided'}${appointment.seriesId ? '\nPart of a recurring series' : ''}`,
+      start: {
+        dateTime: formatZonedISOString(appointment.startAt, this.timeZone),
+        timeZone: this.timeZone,
+      },
+      end: {
+        dateTime: formatZonedISOString(appointment.endAt, this.timeZone),
+        timeZone: this.timeZone,
+      },
+      // Each occurrence of a series is its own event, linked to the others by the series ID
+      extendedProperties: this.seriesProperties(appointment),
+      // Removed attendees field to avoid Domain-Wide Delegation requirement
+      // Patient info is included in the description instead
+      ...(withReminders && {
+        reminders: {
+          useDefault: false,
+          overrides: [
+            { method: 'email', minutes: 24 * 60 }, // 24 hours before
+            { method: 'popup', minutes: 15 }, // 15 minutes before
+          ],
+        },
+      }),
+    };
+  }
+
+  private seriesProperties(appointment: Appointment): calendar_v3.Schema$Event['extendedProperties'] {
+    return appointment.seriesId ? { private: { seriesId: appointment.seriesId } } : undefined;
+  }
+
   async deleteCalendarEvent(eventId: string): Promise<void> {
     try {
       await this.calendar.events.delete({
@@ -185,9 +240,10 @@ export class CalendarService implements ICalendarService {
         eventId: eventId,
       });
     } catch (err: any) {
-      // If event is already deleted (404), consider it successful
-      if (err?.code === 404 || err?.response?.status === 404) {
-        console.log('✅ Calendar event already deleted (404), considering successful:', eventId);
+      // If event is already deleted (404, or 410 once Google has marked it deleted), consider it successful
+      const deletedStatus = err?.code || err?.response?.status;
+      if (deletedStatus === 404 || deletedStatus === 410) {
+        console.log(`✅ Calendar event already deleted (${deletedStatus}), considering successful:`, eventId);
         return;
       }
       
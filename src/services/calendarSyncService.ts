@@ -0,0 +1,157 @@
+import { AppointmentEntity } from '../models/AppointmentEntity';
+import { CalendarSyncJobEntity } from '../models/CalendarSyncJobEntity';
+import { AppointmentStatus } from '../types/schedule';
+import { CalendarSyncAction, CalendarSyncState } from '../types/calendarSync';
+import { ICalendarSyncRepository } from '../repositories/interfaces/ICalendarSyncRepository';
+import { IAppointmentRepository } from '../repositories/interfaces/IAppointmentRepository';
+import { ICalendarSyncService } from './interfaces/ICalendarSyncService';
+import { ICalendarService } from './interfaces/ICalendarService';
+import { NotFoundError } from '../types/errors';
+import { calendarEventIdFor } from '../utils/calendarUtils';
+
+const SECOND_MS = 1000;
+const DEFAULT_BATCH_SIZE = 20;
+// Long enough for a few slow Google API calls; a claim older than this is assumed abandoned
+const DEFAULT_LEASE_SECONDS = 60;
+
+export interface CalendarSyncServiceConfig {
+  maxAttempts: number; // Attempts before the appointment is marked failed
+  retryBaseSeconds: number; // Delay after the first failure; doubles with every further failure
+  retryMaxSeconds: number; // Upper bound for the delay between attempts
+  batchSize?: number; // Jobs claimed per worker run
+  leaseSeconds?: number;
+}
+
+/**
+ * Brings appointments' Google Calendar events in line with the database. Every saved change records
+ * a sync job in the transaction that saves it, so a failed calendar call, or a crash before the call,
+ * is retried with exponential backoff instead of leaving the two apart. Jobs sync the appointment as
+ * it is when they run, under an event ID derived from the appointment, which makes a repeated attempt
+ * update the event rather than create a second one.
+ */
+export class CalendarSyncService implements ICalendarSyncService {
+  private readonly config: CalendarSyncServiceConfig;
+  private readonly syncRepository: ICalendarSyncRepository;
+  private readonly appointmentRepository: IAppointmentRepository;
+  private readonly calendarService: ICalendarService;
+
+  constructor(
+    config: CalendarSyncServiceConfig,
+    syncRepository: ICalendarSyncRepository,
+    appointmentRepository: IAppointmentRepository,
+    calendarService: ICalendarService
+  ) {
+    this.config = config;
+    this.syncRepository = syncRepository;
+    this.appointmentRepository = appointmentRepository;
+    this.calendarService = calendarService;
+  }
+
+  async enqueueSync(appointment: AppointmentEntity): Promise<CalendarSyncJobEntity> {
+    const job = await this.syncRepository.enqueue(
+      appointment.id!,
+      this.actionFor(appointment),
+      this.config.leaseSeconds ?? DEFAULT_LEASE_SECONDS
+    );
+    appointment.calendarSyncState = CalendarSyncState.PENDING;
+    return job;
+  }
+
+  async runSync(job: CalendarSyncJobEntity, appointment: AppointmentEntity): Promise<AppointmentEntity> {
+    await this.run(job, appointment, new Date());
+    return appointment;
+  }
+
+  async syncDueJobs(now: Date = new Date()): Promise<number> {
+    const due = await this.syncRepository.claimDue(
+      now,
+      this.config.batchSize ?? DEFAULT_BATCH_SIZE,
+      this.config.leaseSeconds ?? DEFAULT_LEASE_SECONDS
+    );
+
+    let synced = 0;
+    for (const job of due) {
+      try {
+        // Deleting an appointment deletes its jobs too, so it can only be missing if that happened just now
+        const appointment = await this.appointmentRepository.findById(job.appointmentId);
+        if (appointment && await this.run(job, appointment, now)) {
+          synced++;
+        }
+      } catch (error) {
+        console.error(`Failed to sync calendar for appointment ${job.appointmentId}:`, error);
+      }
+    }
+
+    return synced;
+  }
+
+  async resyncAppointment(appointmentId: string): Promise<AppointmentEntity> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new NotFoundError(`Appointment with ID ${appointmentId} not found`);
+    }
+    return await this.runSync(await this.enqueueSync(appointment), appointment);
+  }
+
+  private actionFor(appointment: AppointmentEntity): CalendarSyncAction {
+    if (appointment.status === AppointmentStatus.CANCELLED) {
+      return CalendarSyncAction.DELETE;
+    }
+    return appointment.calendarEventId ? CalendarSyncAction.UPDATE : CalendarSyncAction.CREATE;
+  }
+
+  // One attempt at the job; updates the appointment's event ID and sync state to match.
+  // Returns whether the appointment is now synced.
+  private async run(job: CalendarSyncJobEntity, appointment: AppointmentEntity, now: Date): Promise<boolean> {
+    // Events created before sync jobs keep the ID Google gave them
+    const eventId = appointment.calendarEventId ?? calendarEventIdFor(appointment.id!);
+    const cancelled = appointment.status === AppointmentStatus.CANCELLED;
+
+    try {
+      if (cancelled) {
+        await this.calendarService.deleteCalendarEvent(eventId);
+      } else {
+        await this.calendarService.upsertCalendarEvent(eventId, {
+          ...appointment,
+          id: appointment.id!,
+          createdAt: appointment.createdAt!,
+          updatedAt: appointment.updatedAt
+        });
+      }
+    } catch (error: any) {
+      await this.recordFailure(job, appointment, error, now)
+        .catch(recordError => console.error(`Failed to record calendar sync failure of appointment ${appointment.id}:`, recordError));
+      return false;
+    }
+
+    // A change saved since this attempt started leaves the job pending for the next one
+    if (!await this.syncRepository.markSynced(job, cancelled ? undefined : eventId)) {
+      return false;
+    }
+    if (!cancelled) {
+      appointment.calendarEventId = eventId;
+    }
+    appointment.calendarSyncState = CalendarSyncState.SYNCED;
+    return true;
+  }
+
+  private async recordFailure(job: CalendarSyncJobEntity, appointment: AppointmentEntity, error: any, now: Date): Promise<void> {
+    const reason = error?.message ?? String(error);
+
+    if (job.attempts >= this.config.maxAttempts) {
+      console.error(`❌ Giving up on calendar ${job.action} for appointment ${appointment.id} after ${job.attempts} attempts: ${reason}`);
+      if (await this.syncRepository.markFailed(job, reason)) {
+        appointment.calendarSyncState = CalendarSyncState.FAILED;
+      }
+      return;
+    }
+
+    const nextAttemptAt = new Date(now.getTime() + this.retryDelaySeconds(job.attempts) * SECOND_MS);
+    console.warn(`⚠️ Calendar ${job.action} for appointment ${appointment.id} failed (attempt ${job.attempts}), retrying at ${nextAttemptAt.toISOString()}: ${reason}`);
+    await this.syncRepository.scheduleRetry(job, reason, nextAttemptAt);
+  }
+
+  private retryDelaySeconds(attempts: number): number {
+    return Math.min(this.config.retryBaseSeconds * 2 ** (attempts - 1), this.config.retryMaxSeconds);
+  }
+}
@@ -0,0 +1,55 @@
+import { CommunicationPreferencesEntity } from '../models/CommunicationPreferencesEntity';
+import { ICommunicationPreferencesRepository } from '../repositories/interfaces/ICommunicationPreferencesRepository';
+import { ConsentContext, ICommunicationPreferencesService, PatientPreferences } from './interfaces/ICommunicationPreferencesService';
+import { IPatientService } from './interfaces/IPatientService';
+import { PreferencesUpdate } from '../types/preferences';
+
+/**
+ * Keeps each patient's preferred channel, quiet hours and consent history. MessageService reads
+ * them before every message.
+ */
+export class CommunicationPreferencesService implements ICommunicationPreferencesService {
+  private readonly preferencesRepository: ICommunicationPreferencesRepository;
+  private readonly patientService: IPatientService;
+
+  constructor(preferencesRepository: ICommunicationPreferencesRepository, patientService: IPatientService) {
+    this.preferencesRepository = preferencesRepository;
+    this.patientService = patientService;
+  }
+
+  async getPreferences(patientId: string): Promise<CommunicationPreferencesEntity> {
+    await this.patientService.getPatient(patientId);
+    return await this.preferencesRepository.findByPatient(patientId) ?? CommunicationPreferencesEntity.defaults(patientId);
+  }
+
+  async updatePreferences(patientId: string, update: PreferencesUpdate, context: ConsentContext): Promise<CommunicationPreferencesEntity> {
+    const preferences = await this.getPreferences(patientId);
+
+    if (preferences.update({ preferredChannel: update.preferredChannel, quietHours: update.quietHours })) {
+      await this.preferencesRepository.save(preferences);
+    }
+
+    for (const change of update.consents ?? []) {
+      const consent = { ...change, ...context, recordedAt: new Date() };
+      await this.preferencesRepository.addConsent(patientId, consent);
+      preferences.consents.push(consent);
+      console.log(`📝 Patient ${patientId} ${change.granted ? 'opted in to' : 'opted out of'} ${change.category ?? 'all'} messages by ${change.channel} (${context.source}${context.sourceReference ? ` ${context.sourceReference}` : ''})`);
+    }
+
+    return preferences;
+  }
+
+  async updatePreferencesByContact(emailOrPhone: string, update: PreferencesUpdate, context: ConsentContext): Promise<PatientPreferences[]> {
+    const isEmail = emailOrPhone.includes('@');
+    const patients = await this.patientService.findPatientsByContact(
+      isEmail ? emailOrPhone : undefined,
+      isEmail ? undefined : emailOrPhone
+    );
+
+    const updated: PatientPreferences[] = [];
+    for (const patient of patients) {
+      updated.push({ patient, preferences: await this.updatePreferences(patient.id!, update, context) });
+    }
+    return updated;
+  }
+}
@@ -1,44 +1,83 @@
-import axios from 'axios';
-import { Appointment } from '../types/schedule';
-import { MessageTemplates } from './emailTemplates';
+import { Appointment, Language } from '../types/schedule';
+import { WaitlistEntry } from '../types/waitlist';
+import { RecurrenceRule } from '../types/series';
+import { CalendarInvite, MessageChannel, OutboundMessage } from '../types/outbox';
+import { ClinicBranding, MessageStatus } from '../types/message';
+import { MessageCategory } from '../types/preferences';
+import { OutboxMessageEntity } from '../models/OutboxMessageEntity';
+import { MessageEntity } from '../models/MessageEntity';
+import { CommunicationPreferencesEntity } from '../models/CommunicationPreferencesEntity';
+import { IOutboxRepository } from '../repositories/interfaces/IOutboxRepository';
+import { IMessageRepository } from '../repositories/interfaces/IMessageRepository';
+import { ISmsOptOutRepository } from '../repositories/interfaces/ISmsOptOutRepository';
+import { IMessageService } from './interfaces/IMessageService';
+import { IPatientService } from './interfaces/IPatientService';
+import { ICommunicationPreferencesService } from './interfaces/ICommunicationPreferencesService';
+import { MessageTransports, TransportResult } from './interfaces/IMessageTransport';
+import { createManageUrl, ManageLinkConfig } from '../utils/manageLinkUtils';
+import { RecipientOptedOutError } from '../types/errors';
+import { DEFAULT_CLINIC_BRANDING, MessageTemplates, RenderedMessage, TemplateOptions } from './emailTemplates';
 
-export class MessageService {
-  private readonly zapierWebhookUrl = 'https://hooks.zapier.com/hooks/catch/23072494/umv9s0s/';
+export interface MessageServiceConfig {
+  timeZone?: string;
+  defaultLanguage?: Language; // For patients without a preferred language
+  clinic?: ClinicBranding;
+  manageLinks?: ManageLinkConfig; // Confirmations and reminders link to the self-service page; omitted without it
+}
+
+export interface MessageServiceDependencies {
+  outboxRepository?: IOutboxRepository; // Messages are queued for the outbox worker instead of sent inline
+  messageRepository?: IMessageRepository; // Records every delivery attempt for the message history
+  patientService?: IPatientService; // Looks up each patient's preferred language
+  smsOptOutRepository?: ISmsOptOutRepository; // Numbers that replied STOP are not texted
+  preferencesService?: ICommunicationPreferencesService; // Preferred channel, consent per channel and category, quiet hours
+}
+
+export class MessageService implements IMessageService {
+  private readonly timeZone: string;
+  private readonly defaultLanguage: Language;
+  private readonly clinic: ClinicBranding;
+  private readonly manageLinks?: ManageLinkConfig;
+  private readonly transports: MessageTransports;
+  private readonly outboxRepository?: IOutboxRepository;
+  private readonly messageRepository?: IMessageRepository;
+  private readonly patientService?: IPatientService;
+  private readonly smsOptOutRepository?: ISmsOptOutRepository;
+  private readonly preferencesService?: ICommunicationPreferencesService;
+
+  constructor(config: MessageServiceConfig, transports: MessageTransports, dependencies: MessageServiceDependencies = {}) {
+    // Patients read appointment times on the clinic's clock
+    this.timeZone = config.timeZone ?? 'UTC';
+    this.defaultLanguage = config.defaultLanguage ?? Language.ENGLISH;
+    this.clinic = config.clinic ?? DEFAULT_CLINIC_BRANDING;
+    this.manageLinks = config.manageLinks;
+    this.transports = transports;
+    this.outboxRepository = dependencies.outboxRepository;
+    this.messageRepository = dependencies.messageRepository;
+    this.patientService = dependencies.patientService;
+    this.smsOptOutRepository = dependencies.smsOptOutRepository;
+    this.preferencesService = dependencies.preferencesService;
+  }
 
   /**
    * Send appointment confirmation message (email or SMS)
    */
-  async sendConfirmationMessage(appointment: Appointment): Promise<void> {
+  async sendConfirmationMessage(appointment: Appointment, timeZone?: string): Promise<void> {
     if (!appointment.id) {
       console.log(`⚠️  No ID provided for appointment, skipping confirmation message`);
       return;
     }
 
-    const { subject, body } = MessageTemplates.generateConfirmationMessage(appointment);
-    
-    // Send email if available
-    if (appointment.email) {
-      await this.sendMessage({
-        to: appointment.email,
-        subject,
-        body,
-        type: 'email',
-        appointmentId: appointment.id,
-        eventType: 'confirmation'
-      });
-    }
+    const options = await this.templateOptions(appointment.patientId, timeZone);
+    const content = MessageTemplates.generateConfirmationMessage(appointment, options, this.manageUrl(appointment.id));
+    const calendarInvite = MessageTemplates.generateCalendarInvite(appointment, 'REQUEST', options);
 
-    // Send SMS if phone available
-    if (appointment.phoneNumber) {
-      await this.sendMessage({
-        to: appointment.phoneNumber,
-        subject,
-        body,
-        type: 'sms',
-        appointmentId: appointment.id,
-        eventType: 'confirmation'
-      });
-    }
+    await this.sendToRecipient(appointment, MessageCategory.APPOINTMENT_UPDATES, options.timeZone, {
+      email: this.emailContent(content, calendarInvite),
+      sms: this.smsContent(content),
+      appointmentId: appointment.id,
+      eventType: 'confirmation'
+    });
 
     if (!appointment.email && !appointment.phoneNumber) {
       console.log(`⚠️  No email or phone provided for appointment ${appointment.id}, skipping confirmation message`);
@@ -48,37 +87,22 @@ export class MessageService {
   /**
    * Send appointment reschedule message (email or SMS)
    */
-  async sendRescheduleMessage(appointment: Appointment, oldDateTime?: { start: Date; end: Date }): Promise<void> {
+  async sendRescheduleMessage(appointment: Appointment, oldDateTime?: { start: Date; end: Date }, timeZone?: string): Promise<void> {
     if (!appointment.id) {
       console.log(`⚠️  No ID provided for appointment, skipping reschedule message`);
       return;
     }
 
-    const { subject, body } = MessageTemplates.generateRescheduleMessage(appointment, oldDateTime);
-    
-    // Send email if available
-    if (appointment.email) {
-      await this.sendMessage({
-        to: appointment.email,
-        subject,
-        body,
-        type: 'email',
-        appointmentId: appointment.id,
-        eventType: 'reschedule'
-      });
-    }
+    const options = await this.templateOptions(appointment.patientId, timeZone);
+    const content = MessageTemplates.generateRescheduleMessage(appointment, oldDateTime, options);
+    const calendarInvite = MessageTemplates.generateCalendarInvite(appointment, 'REQUEST', options);
 
-    // Send SMS if phone available
-    if (appointment.phoneNumber) {
-      await this.sendMessage({
-        to: appointment.phoneNumber,
-        subject,
-        body,
-        type: 'sms',
-        appointmentId: appointment.id,
-        eventType: 'reschedule'
-      });
-    }
+    await this.sendToRecipient(appointment, MessageCategory.APPOINTMENT_UPDATES, options.timeZone, {
+      email: this.emailContent(content, calendarInvite),
+      sms: this.smsContent(content),
+      appointmentId: appointment.id,
+      eventType: 'reschedule'
+    });
 
     if (!appointment.email && !appointment.phoneNumber) {
       console.log(`⚠️  No email or phone provided for appointment ${appointment.id}, skipping reschedule message`);
@@ -88,37 +112,22 @@ export class MessageService {
   /**
    * Send appointment cancellation message (email or SMS)
    */
-  async sendCancellationMessage(appointment: Appointment): Promise<void> {
+  async sendCancellationMessage(appointment: Appointment, timeZone?: string): Promise<void> {
     if (!appointment.id) {
       console.log(`⚠️  No ID provided for appointment, skipping cancellation message`);
       return;
     }
 
-    const { subject, body } = MessageTemplates.generateCancellationMessage(appointment);
-    
-    // Send email if available
-    if (appointment.email) {
-      await this.sendMessage({
-        to: appointment.email,
-        subject,
-        body,
-        type: 'email',
-        appointmentId: appointment.id,
-        eventType: 'cancellation'
-      });
-    }
+    const options = await this.templateOptions(appointment.patientId, timeZone);
+    const content = MessageTemplates.generateCancellationMessage(appointment, options);
+    const calendarInvite = MessageTemplates.generateCalendarInvite(appointment, 'CANCEL', options);
 
-    // Send SMS if phone available
-    if (appointment.phoneNumber) {
-      await this.sendMessage({
-        to: appointment.phoneNumber,
-        subject,
-        body,
-        type: 'sms',
-        appointmentId: appointment.id,
-        eventType: 'cancellation'
-      });
-    }
+    await this.sendToRecipient(appointment, MessageCategory.APPOINTMENT_UPDATES, options.timeZone, {
+      email: this.emailContent(content, calendarInvite),
+      sms: this.smsContent(content),
+      appointmentId: appointment.id,
+      eventType: 'cancellation'
+    });
 
     if (!appointment.email && !appointment.phoneNumber) {
       console.log(`⚠️  No email or phone provided for appointment ${appointment.id}, skipping cancellation message`);
@@ -126,53 +135,290 @@ export class MessageService {
   }
 
   /**
-   * Send message via Zapier webhook (email or SMS)
+   * Send an upcoming appointment reminder (email or SMS)
    */
-  private async sendMessage(messageData: {
-    to: string;
-    subject: string;
-    body: string;
-    type: 'email' | 'sms';
-    appointmentId: string;
-    eventType: string;
-  }): Promise<void> {
+  async sendReminderMessage(appointment: Appointment, offsetMinutes: number, timeZone?: string): Promise<void> {
+    if (!appointment.id) {
+      console.log(`⚠️  No ID provided for appointment, skipping reminder message`);
+      return;
+    }
+
+    const options = await this.templateOptions(appointment.patientId, timeZone);
+    const content = MessageTemplates.generateReminderMessage(appointment, offsetMinutes, options, this.manageUrl(appointment.id));
+
+    await this.sendToRecipient(appointment, MessageCategory.REMINDERS, options.timeZone, {
+      email: this.emailContent(content),
+      sms: this.smsContent(content),
+      appointmentId: appointment.id,
+      eventType: 'reminder'
+    });
+  }
+
+  /**
+   * Send one message for several occurrences of a recurring series (email or SMS)
+   */
+  async sendSeriesMessage(
+    eventType: 'confirmation' | 'reschedule' | 'cancellation',
+    appointments: Appointment[],
+    recurrence: Pick<RecurrenceRule, 'frequency' | 'interval'>,
+    timeZone?: string
+  ): Promise<void> {
+    const first = appointments[0];
+    if (!first?.id) {
+      console.log(`⚠️  No appointments in series, skipping ${eventType} message`);
+      return;
+    }
+
+    const options = await this.templateOptions(first.patientId, timeZone);
+    const content = MessageTemplates.generateSeriesMessage(eventType, appointments, recurrence, options);
+
+    await this.sendToRecipient(first, MessageCategory.APPOINTMENT_UPDATES, options.timeZone, {
+      email: this.emailContent(content),
+      sms: this.smsContent(content),
+      appointmentId: first.id,
+      eventType: `series_${eventType}`
+    });
+  }
+
+  /**
+   * Send a waitlisted patient the offer of a freed slot (email or SMS)
+   */
+  async sendWaitlistOfferMessage(entry: WaitlistEntry, claimUrl: string, timeZone?: string): Promise<void> {
+    if (!entry.id || !entry.offer) {
+      console.log(`⚠️  No open offer for waitlist entry, skipping offer message`);
+      return;
+    }
+
+    const options = await this.templateOptions(entry.patientId, timeZone);
+    const content = MessageTemplates.generateWaitlistOfferMessage(entry, claimUrl, options);
+
+    await this.sendToRecipient(entry, MessageCategory.WAITLIST_OFFERS, options.timeZone, {
+      email: this.emailContent(content),
+      sms: this.smsContent(content),
+      waitlistEntryId: entry.id,
+      eventType: 'waitlist_offer'
+    });
+  }
+
+  /**
+   * Send a message on the channels the patient accepts for its category, preferring their preferred
+   * channel, and hold it in the outbox until their quiet hours are over
+   */
+  private async sendToRecipient(
+    recipient: { patientId?: string; email?: string; phoneNumber?: string },
+    category: MessageCategory,
+    timeZone: string | undefined,
+    message: {
+      email: Omit<OutboundMessage, 'to' | 'type' | 'eventType'>;
+      sms: Omit<OutboundMessage, 'to' | 'type' | 'eventType'>;
+      appointmentId?: string;
+      waitlistEntryId?: string;
+      eventType: string;
+    }
+  ): Promise<void> {
+    const { email, sms, ...reference } = message;
+    const available: MessageChannel[] = [
+      ...(recipient.email ? ['email' as const] : []),
+      ...(recipient.phoneNumber ? ['sms' as const] : [])
+    ];
+
+    const preferences = await this.preferencesFor(recipient.patientId);
+    const channels = preferences?.channelsFor(category, available) ?? available;
+    for (const channel of available.filter(channel => !preferences?.allows(channel, category))) {
+      console.log(`🔕 Patient ${recipient.patientId} opted out of ${category} by ${channel}, skipping ${message.eventType} ${channel}`);
+    }
+    const notBefore = preferences?.quietHoursEnd(new Date(), timeZone ?? this.timeZone);
+
+    if (recipient.email && channels.includes('email')) {
+      await this.sendMessage({ to: recipient.email, ...email, type: 'email', ...reference }, notBefore);
+    }
+    if (recipient.phoneNumber && channels.includes('sms')) {
+      await this.sendMessage({ to: recipient.phoneNumber, ...sms, type: 'sms', ...reference }, notBefore);
+    }
+  }
+
+  // Emails carry the full text and HTML bodies, plus the calendar invite for single appointments
+  private emailContent(
+    content: RenderedMessage,
+    calendarInvite?: CalendarInvite
+  ): Pick<OutboundMessage, 'subject' | 'body' | 'html' | 'calendarInvite' | 'language' | 'templateVersion'> {
+    return {
+      subject: content.subject,
+      body: content.body,
+      html: content.html,
+      calendarInvite,
+      language: content.language,
+      templateVersion: content.templateVersion
+    };
+  }
+
+  // Texts only carry the short variant
+  private smsContent(content: RenderedMessage): Pick<OutboundMessage, 'subject' | 'body' | 'language' | 'templateVersion'> {
+    return {
+      subject: content.subject,
+      body: content.sms,
+      language: content.language,
+      templateVersion: content.templateVersion
+    };
+  }
+
+  private manageUrl(appointmentId: string): string | undefined {
+    return this.manageLinks && createManageUrl(appointmentId, this.manageLinks);
+  }
+
+  /**
+   * Language, clock and branding for a patient's messages. Without a known preference, or when the
+   * patient can't be looked up, messages go out in the clinic's default language.
+   */
+  private async templateOptions(patientId?: string, timeZone?: string): Promise<TemplateOptions> {
+    let language = this.defaultLanguage;
+    if (patientId && this.patientService) {
+      try {
+        const patient = await this.patientService.getPatient(patientId);
+        language = patient.preferredLanguage ?? language;
+      } catch (error) {
+        console.error(`❌ Failed to look up the preferred language of patient ${patientId}:`, error);
+      }
+    }
+
+    return { timeZone: timeZone ?? this.timeZone, language, clinic: this.clinic };
+  }
+
+  /**
+   * The patient's communication preferences. When they can't be looked up the patient is messaged
+   * on every channel, as before preferences existed; the change being reported has already happened.
+   */
+  private async preferencesFor(patientId?: string): Promise<CommunicationPreferencesEntity | undefined> {
+    if (!patientId || !this.preferencesService) {
+      return undefined;
+    }
     try {
-      const messageType = messageData.type === 'email' ? 'email' : 'SMS';
-      console.log(`📱 Sending ${messageData.eventType} ${messageType} to ${messageData.to} for appointment ${messageData.appointmentId}`);
-
-      const response = await axios.post(this.zapierWebhookUrl, {
-        ...messageData,
-        timestamp: new Date().toISOString(),
-        source: 'medme-appointment-system'
-      }, {
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        timeout: 10000 // 10 second timeout
+      return await this.preferencesService.getPreferences(patientId);
+    } catch (error) {
+      console.error(`❌ Failed to look up the communication preferences of patient ${patientId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Hand one message to the transport configured for its channel. Throws when delivery fails,
+   * so callers such as the outbox worker can retry.
+   */
+  async deliver(messageData: OutboundMessage, outboxMessageId?: string): Promise<TransportResult> {
+    // The patient may have opted out while the message was queued
+    if (await this.isOptedOut(messageData)) {
+      throw new RecipientOptedOutError(`${messageData.to} has opted out of text messages`);
+    }
+
+    const transport = this.transports[messageData.type];
+    const messageType = messageData.type === 'email' ? 'email' : 'SMS';
+    const reference = messageData.appointmentId
+      ? `appointment ${messageData.appointmentId}`
+      : `waitlist entry ${messageData.waitlistEntryId}`;
+    console.log(`📱 Sending ${messageData.eventType} ${messageType} to ${messageData.to} for ${reference} via ${transport.name}`);
+
+    let result: TransportResult;
+    try {
+      result = await transport.send(messageData);
+    } catch (error: any) {
+      await this.recordAttempt(messageData, transport.name, outboxMessageId, {
+        status: MessageStatus.FAILED,
+        error: error.message ?? String(error),
+        providerResponse: error.response?.data
       });
+      throw error;
+    }
+    await this.recordAttempt(messageData, transport.name, outboxMessageId, {
+      status: MessageStatus.SENT,
+      providerMessageId: result.providerMessageId,
+      providerResponse: result.response
+    });
 
-      console.log(`✅ ${messageData.eventType} ${messageType} sent successfully:`, {
-        to: messageData.to,
-        subject: messageData.subject,
+    console.log(`✅ ${messageData.eventType} ${messageType} sent successfully:`, {
+      to: messageData.to,
+      subject: messageData.subject,
+      appointmentId: messageData.appointmentId,
+      waitlistEntryId: messageData.waitlistEntryId,
+      type: messageData.type,
+      transport: transport.name,
+      providerMessageId: result.providerMessageId
+    });
+    return result;
+  }
+
+  private async isOptedOut(messageData: OutboundMessage): Promise<boolean> {
+    return messageData.type === 'sms' && !!(await this.smsOptOutRepository?.isOptedOut(messageData.to));
+  }
+
+  private async recordAttempt(
+    messageData: OutboundMessage,
+    transport: string,
+    outboxMessageId: string | undefined,
+    outcome: { status: MessageStatus; providerMessageId?: string; providerResponse?: unknown; error?: string }
+  ): Promise<void> {
+    try {
+      await this.messageRepository?.create(new MessageEntity({
+        outboxMessageId,
         appointmentId: messageData.appointmentId,
-        type: messageData.type,
-        zapierStatus: response.status,
-        zapierResponse: response.data
-      });
+        waitlistEntryId: messageData.waitlistEntryId,
+        channel: messageData.type,
+        recipient: messageData.to,
+        template: messageData.eventType,
+        language: messageData.language,
+        templateVersion: messageData.templateVersion,
+        transport,
+        ...outcome
+      }));
+    } catch (error) {
+      // The history is for staff; losing an entry must not cause the message to be sent again
+      console.error(`❌ Failed to record ${outcome.status} ${messageData.eventType} message to ${messageData.to}:`, error);
+    }
+  }
 
+  /**
+   * Queue a message in the outbox, or send it straight away when there is no outbox.
+   * Queued messages wait until `notBefore` when it is given. A message that can't be queued
+   * throws, so it is not sent without the change it describes being saved with it.
+   */
+  private async sendMessage(messageData: OutboundMessage, notBefore?: Date): Promise<void> {
+    try {
+      if (await this.isOptedOut(messageData)) {
+        console.log(`🔕 ${messageData.to} has opted out of text messages, skipping ${messageData.eventType} SMS`);
+        return;
+      }
+    } catch (error) {
+      // Checked again on delivery, which is retried until the check succeeds
+      console.error(`❌ Failed to check whether ${messageData.to} opted out of text messages:`, error);
+    }
+
+    if (this.outboxRepository) {
+      await this.outboxRepository.enqueue(OutboxMessageEntity.enqueue(messageData, notBefore));
+      if (notBefore) {
+        console.log(`🌙 Holding ${messageData.eventType} ${messageData.type} to ${messageData.to} until ${notBefore.toISOString()}, after the patient's quiet hours`);
+      }
+      return;
+    }
+
+    if (notBefore) {
+      console.warn(`⚠️ No outbox to hold ${messageData.eventType} ${messageData.type} to ${messageData.to} until after quiet hours, sending it now`);
+    }
+
+    try {
+      await this.deliver(messageData);
     } catch (error: any) {
       const messageType = messageData.type === 'email' ? 'email' : 'SMS';
       console.error(`❌ Failed to send ${messageData.eventType} ${messageType}:`, {
         to: messageData.to,
         subject: messageData.subject,
         appointmentId: messageData.appointmentId,
+        waitlistEntryId: messageData.waitlistEntryId,
         type: messageData.type,
+        transport: this.transports[messageData.type].name,
         error: error.message,
-        zapierError: error.response?.data
+        providerError: error.response?.data
       });
-      
+
       // Don't throw error - message failures shouldn't break appointment operations
-      // In production, you might want to queue for retry or send to a dead letter queue
     }
   }
 }
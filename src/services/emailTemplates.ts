@@ -1,107 +1,291 @@
-import { Appointment } from '../types/schedule';
+import { Appointment, Language } from '../types/schedule';
+import { WaitlistEntry } from '../types/waitlist';
+import { RecurrenceRule } from '../types/series';
+import { ClinicBranding } from '../types/message';
+import { CalendarInvite } from '../types/outbox';
+import { buildIcsCalendar } from '../utils/icsUtils';
+import { escapeHtml } from '../utils/htmlUtils';
+import { MessageTemplateResource, SmsReplyName, TemplateName, fillTemplate, getTemplateResource, pluralize } from './templates';
 
+export const DEFAULT_CLINIC_BRANDING: ClinicBranding = {
+  name: 'MedMe Medical Center',
+  phone: '(555) 123-4567'
+};
+
+export interface TemplateOptions {
+  timeZone?: string; // Defaults to UTC
+  language?: Language; // Defaults to English
+  clinic?: ClinicBranding;
+}
+
+export interface RenderedMessage {
+  subject: string;
+  body: string; // Plain-text email body
+  html: string; // HTML email body
+  sms: string; // Short variant for SMS
+  language: string;
+  templateVersion: number;
+}
+
+/**
+ * Renders patient messages from the per-language template resources in ./templates.
+ */
 export class MessageTemplates {
   /**
-   * Generate appointment confirmation message
+   * Generate appointment confirmation message, with a link to confirm, cancel or reschedule online if given
    */
-  static generateConfirmationMessage(appointment: Appointment): {
-    subject: string;
-    body: string;
-  } {
-    const appointmentDate = appointment.startAt.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-    
-    const appointmentTime = appointment.startAt.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
+  static generateConfirmationMessage(appointment: Appointment, options: TemplateOptions = {}, manageUrl?: string): RenderedMessage {
+    return this.render(
+      'confirmation',
+      options,
+      resource => this.appointmentValues(appointment, resource, options),
+      manageUrl
+    );
+  }
 
-    const subject = `Appointment Confirmed - ${appointmentDate} at ${appointmentTime}`;
-    
-    const body = `Hi ${appointment.firstName}! Your ${appointment.type} appointment is confirmed for ${appointmentDate} at ${appointmentTime}. MedMe Medical Center - Please arrive 15min early. Questions? Call (555) 123-4567 or email oluwatoba.aribo@gmail.com`.trim();
+  /**
+   * Generate appointment reschedule message
+   */
+  static generateRescheduleMessage(
+    appointment: Appointment,
+    oldDateTime?: { start: Date; end: Date },
+    options: TemplateOptions = {}
+  ): RenderedMessage {
+    return this.render('reschedule', options, resource => ({
+      ...this.appointmentValues(appointment, resource, options),
+      // Available to templates that mention the previous time
+      ...(oldDateTime && {
+        oldDate: this.formatDate(oldDateTime.start, resource, options),
+        oldTime: this.formatTime(oldDateTime.start, resource, options)
+      })
+    }));
+  }
 
-    return { subject, body };
+  /**
+   * Generate appointment cancellation message
+   */
+  static generateCancellationMessage(appointment: Appointment, options: TemplateOptions = {}): RenderedMessage {
+    return this.render('cancellation', options, resource => this.appointmentValues(appointment, resource, options));
   }
 
   /**
-   * Generate appointment reschedule message
+   * Generate appointment reminder message, sent `offsetMinutes` before the appointment
    */
-  static generateRescheduleMessage(appointment: Appointment, oldDateTime?: { start: Date; end: Date }): {
-    subject: string;
-    body: string;
-  } {
-    const newDate = appointment.startAt.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
+  static generateReminderMessage(
+    appointment: Appointment,
+    offsetMinutes: number,
+    options: TemplateOptions = {},
+    manageUrl?: string
+  ): RenderedMessage {
+    return this.render('reminder', options, resource => ({
+      ...this.appointmentValues(appointment, resource, options),
+      leadTime: this.describeLeadTime(offsetMinutes, resource)
+    }), manageUrl);
+  }
+
+  // "in 2 days", "in 2 hours", "in 90 minutes"
+  private static describeLeadTime(minutes: number, resource: MessageTemplateResource): string {
+    const [amount, unit] = minutes % 1440 === 0
+      ? [minutes / 1440, 'day' as const]
+      : minutes % 60 === 0 ? [minutes / 60, 'hour' as const] : [minutes, 'minute' as const];
+    return pluralize(resource.leadTime[unit], amount, resource.locale);
+  }
+
+  /**
+   * Generate one message covering several occurrences of a recurring series
+   */
+  static generateSeriesMessage(
+    eventType: 'confirmation' | 'reschedule' | 'cancellation',
+    appointments: Appointment[],
+    recurrence: Pick<RecurrenceRule, 'frequency' | 'interval'>,
+    options: TemplateOptions = {}
+  ): RenderedMessage {
+    const template = ({
+      confirmation: 'seriesConfirmation',
+      reschedule: 'seriesReschedule',
+      cancellation: 'seriesCancellation'
+    } as const)[eventType];
+
+    return this.render(template, options, resource => {
+      const values = {
+        ...this.appointmentValues(appointments[0], resource, options),
+        count: appointments.length,
+        recurrence: pluralize(resource.recurrence[recurrence.frequency], recurrence.interval ?? 1, resource.locale)
+      };
+      return { ...values, visits: fillTemplate(pluralize(resource.seriesVisits, appointments.length, resource.locale), values) };
     });
-    
-    const newTime = appointment.startAt.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
+  }
+
+  /**
+   * Generate waitlist slot offer message
+   */
+  static generateWaitlistOfferMessage(entry: WaitlistEntry, claimUrl: string, options: TemplateOptions = {}): RenderedMessage {
+    const offer = entry.offer!;
+    return this.render('waitlistOffer', options, resource => ({
+      ...this.clinicValues(resource, options),
+      firstName: entry.firstName,
+      type: resource.appointmentTypes[entry.type] ?? entry.type,
+      date: this.formatDate(offer.startAt, resource, options),
+      shortDate: this.formatShortDate(offer.startAt, resource, options),
+      time: this.formatTime(offer.startAt, resource, options),
+      expiryTime: this.formatTime(offer.expiresAt, resource, options),
+      claimUrl
+    }));
+  }
+
+  /**
+   * Generate the answer to a text a patient sent in, mentioning the appointment it acted on if any
+   */
+  static generateSmsReply(reply: SmsReplyName, appointment?: Appointment, options: TemplateOptions = {}): string {
+    const resource = getTemplateResource(options.language ?? Language.ENGLISH);
+    const values = appointment ? this.appointmentValues(appointment, resource, options) : this.clinicValues(resource, options);
+    return fillTemplate(resource.smsReplies[reply], values).trim();
+  }
+
+  /**
+   * Generate the .ics invite attached to emails about one appointment. Every invite for the same
+   * appointment shares a UID, so calendars move or remove the event they already have.
+   */
+  static generateCalendarInvite(
+    appointment: Appointment,
+    method: CalendarInvite['method'],
+    options: TemplateOptions = {},
+    now: Date = new Date()
+  ): CalendarInvite {
+    const resource = getTemplateResource(options.language ?? Language.ENGLISH);
+    const clinic = options.clinic ?? DEFAULT_CLINIC_BRANDING;
+    const values = this.appointmentValues(appointment, resource, options);
+
+    const content = buildIcsCalendar({
+      method,
+      uid: `appointment-${appointment.id}@medme-schedule`,
+      // Seconds since booking only ever grow, so each change supersedes the one before
+      sequence: Math.max(0, Math.floor((now.getTime() - appointment.createdAt.getTime()) / 1000)),
+      startAt: appointment.startAt,
+      endAt: appointment.endAt,
+      summary: fillTemplate(resource.calendarEvent.summary, values),
+      location: clinic.address ? `${clinic.name}, ${clinic.address}` : clinic.name,
+      organizer: clinic.email ? { name: clinic.name, email: clinic.email } : undefined,
+      attendee: appointment.email
+        ? { name: `${appointment.firstName} ${appointment.lastName}`, email: appointment.email }
+        : undefined,
+      stamp: now
     });
 
-    const subject = `Appointment Rescheduled - New Time: ${newDate} at ${newTime}`;
-    
-    let oldDateTimeInfo = '';
-    if (oldDateTime) {
-      const oldDate = oldDateTime.start.toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      });
-      const oldTime = oldDateTime.start.toLocaleTimeString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-      oldDateTimeInfo = `\n🔄 PREVIOUS APPOINTMENT:\n• Date: ${oldDate}\n• Time: ${oldTime}\n`;
-    }
-
-    const body = `Hi ${appointment.firstName}! Your ${appointment.type} appointment has been rescheduled to ${newDate} at ${newTime}. MedMe Medical Center - Please arrive 15min early. Questions? Call (555) 123-4567`.trim();
-
-    return { subject, body };
+    return { method, filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics', content };
+  }
+
+  private static render(
+    template: TemplateName,
+    options: TemplateOptions,
+    values: (resource: MessageTemplateResource) => Record<string, string | number>,
+    manageUrl?: string
+  ): RenderedMessage {
+    const resource = getTemplateResource(options.language ?? Language.ENGLISH);
+    const filled = values(resource);
+    const text = resource.messages[template];
+    const selfService = (variant: 'body' | 'sms') => manageUrl ? fillTemplate(resource.selfService[variant], { manageUrl }) : '';
+    const subject = fillTemplate(text.subject, filled).trim();
+    // Without a link the `{selfService}` paragraph is left empty, so the blank lines around it collapse
+    const body = fillTemplate(text.body, { ...filled, selfService: selfService('body') }).replace(/\n{3,}/g, '\n\n').trim();
+
+    return {
+      subject,
+      body,
+      html: this.toHtml(subject, body, resource, options.clinic ?? DEFAULT_CLINIC_BRANDING),
+      sms: fillTemplate(text.sms, { ...filled, selfService: selfService('sms') }).trim(),
+      language: resource.language,
+      templateVersion: resource.version
+    };
   }
 
   /**
-   * Generate appointment cancellation message
+   * The HTML version of an email: each paragraph of the text body, with links made clickable,
+   * under the clinic's name and above its contact details.
    */
-  static generateCancellationMessage(appointment: Appointment): {
-    subject: string;
-    body: string;
-  } {
-    const appointmentDate = appointment.startAt.toLocaleDateString('en-US', {
+  private static toHtml(subject: string, body: string, resource: MessageTemplateResource, clinic: ClinicBranding): string {
+    const paragraphs = body.split(/\n\s*\n/).map(paragraph => {
+      const html = escapeHtml(paragraph)
+        .replace(/https?:\/\/[^\s<]+/g, url => `<a href="${url}">${url}</a>`)
+        .replace(/\n/g, '<br>');
+      return `    <p>${html}</p>`;
+    });
+    const footer = [clinic.name, clinic.address, clinic.phone, clinic.email].filter(Boolean).map(line => escapeHtml(line!));
+
+    return [
+      '<!DOCTYPE html>',
+      `<html lang="${resource.language}">`,
+      '<head>',
+      '  <meta charset="utf-8">',
+      `  <title>${escapeHtml(subject)}</title>`,
+      '</head>',
+      '<body style="margin: 0; padding: 24px; background: #f5f7fa; font-family: Arial, Helvetica, sans-serif; color: #1f2933;">',
+      '  <div style="max-width: 560px; margin: 0 auto; padding: 24px; background: #ffffff; border-radius: 8px;">',
+      `    <h1 style="margin: 0 0 16px; font-size: 20px; color: #1a5f7a;">${escapeHtml(clinic.name)}</h1>`,
+      ...paragraphs,
+      `    <p style="margin-top: 24px; font-size: 12px; color: #6b7785;">${footer.join('<br>')}</p>`,
+      '  </div>',
+      '</body>',
+      '</html>'
+    ].join('\n');
+  }
+
+  private static appointmentValues(
+    appointment: Appointment,
+    resource: MessageTemplateResource,
+    options: TemplateOptions
+  ): Record<string, string | number> {
+    return {
+      ...this.clinicValues(resource, options),
+      firstName: appointment.firstName,
+      type: resource.appointmentTypes[appointment.type] ?? appointment.type,
+      date: this.formatDate(appointment.startAt, resource, options),
+      shortDate: this.formatShortDate(appointment.startAt, resource, options),
+      time: this.formatTime(appointment.startAt, resource, options)
+    };
+  }
+
+  private static clinicValues(resource: MessageTemplateResource, options: TemplateOptions): Record<string, string> {
+    const clinic = options.clinic ?? DEFAULT_CLINIC_BRANDING;
+    const contact = clinic.email ? resource.contact.phoneAndEmail : resource.contact.phone;
+
+    return {
+      clinic: clinic.address ? `${clinic.name}, ${clinic.address}` : clinic.name,
+      clinicName: clinic.name,
+      clinicPhone: clinic.phone,
+      clinicEmail: clinic.email ?? '',
+      contact: fillTemplate(contact, { clinicPhone: clinic.phone, clinicEmail: clinic.email ?? '' })
+    };
+  }
+
+  // e.g. "Monday, September 22, 2025" or "lundi 22 septembre 2025"
+  private static formatDate(date: Date, resource: MessageTemplateResource, options: TemplateOptions): string {
+    return date.toLocaleDateString(resource.locale, {
+      timeZone: options.timeZone ?? 'UTC',
       weekday: 'long',
       year: 'numeric',
       month: 'long',
       day: 'numeric'
     });
-    
-    const appointmentTime = appointment.startAt.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-
-    const subject = `Appointment Cancelled - ${appointmentDate} at ${appointmentTime}`;
-    
-    const body = `Hi ${appointment.firstName}! Your ${appointment.type} appointment for ${appointmentDate} at ${appointmentTime} has been cancelled. Need to reschedule? Call (555) 123-4567 or use our AI booking assistant. - MedMe Medical Center`.trim();
+  }
 
-    return { subject, body };
+  // For SMS, e.g. "Mon, Sep 22" or "lun. 22 sept."
+  private static formatShortDate(date: Date, resource: MessageTemplateResource, options: TemplateOptions): string {
+    return date.toLocaleDateString(resource.locale, {
+      timeZone: options.timeZone ?? 'UTC',
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
   }
 
-  /**
-   * Calculate appointment duration in minutes
-   */
-  private static calculateDuration(startAt: Date, endAt: Date): number {
-    return Math.round((endAt.getTime() - startAt.getTime()) / (1000 * 60));
+  // The locale decides between 12 and 24 hour clocks, e.g. "2:00 PM EDT" or "14 h 00 HAE"
+  private static formatTime(date: Date, resource: MessageTemplateResource, options: TemplateOptions): string {
+    return date.toLocaleTimeString(resource.locale, {
+      timeZone: options.timeZone ?? 'UTC',
+      timeZoneName: 'short',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
   }
 }
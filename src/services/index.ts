@@ -1,4 +1,37 @@
 export { AppointmentService } from './appointmentService';
 export { CalendarService } from './calendarService';
+export { BusinessHoursService } from './businessHoursService';
+export { AvailabilityService } from './availabilityService';
+export { AppointmentTypeService } from './appointmentTypeService';
+export { PatientService } from './patientService';
+export { WaitlistService } from './waitlistService';
+export { ReminderService } from './reminderService';
+export { OutboxService } from './outboxService';
+export { MessageService } from './emailService';
+export { MessageHistoryService } from './messageHistoryService';
+export { ManageLinkService } from './manageLinkService';
+export { SmsReplyService } from './smsReplyService';
+export { CommunicationPreferencesService } from './communicationPreferencesService';
+export { ToolCallService } from './toolCallService';
+export { AppointmentHistoryService } from './appointmentHistoryService';
+export { MigrationService } from './migrationService';
+export { CalendarSyncService } from './calendarSyncService';
 export { IAppointmentService } from './interfaces/IAppointmentService';
 export { ICalendarService } from './interfaces/ICalendarService';
+export { IBusinessHoursService } from './interfaces/IBusinessHoursService';
+export { IAvailabilityService } from './interfaces/IAvailabilityService';
+export { IAppointmentTypeService } from './interfaces/IAppointmentTypeService';
+export { IPatientService } from './interfaces/IPatientService';
+export { IWaitlistService } from './interfaces/IWaitlistService';
+export { IReminderService } from './interfaces/IReminderService';
+export { IOutboxService } from './interfaces/IOutboxService';
+export { IMessageService } from './interfaces/IMessageService';
+export { IMessageTransport } from './interfaces/IMessageTransport';
+export { IMessageHistoryService } from './interfaces/IMessageHistoryService';
+export { IManageLinkService } from './interfaces/IManageLinkService';
+export { ISmsReplyService } from './interfaces/ISmsReplyService';
+export { ICommunicationPreferencesService } from './interfaces/ICommunicationPreferencesService';
+export { IToolCallService } from './interfaces/IToolCallService';
+export { IAppointmentHistoryService } from './interfaces/IAppointmentHistoryService';
+export { IMigrationService } from './interfaces/IMigrationService';
+export { ICalendarSyncService } from './interfaces/ICalendarSyncService';
@@ -0,0 +1,5 @@
+import { AppointmentEventEntity } from '../../models/AppointmentEventEntity';
+
+export interface IAppointmentHistoryService {
+  getAppointmentEvents(appointmentId: string): Promise<AppointmentEventEntity[]>; // Oldest first
+}
@@ -1,12 +1,37 @@
-import { ScheduleRequest } from '../../types/schedule';
+import { AppointmentSearchQuery, ScheduleRequestInput } from '../../types/schedule';
 import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { ProviderEntity } from '../../models/ProviderEntity';
+import { AppointmentSeriesEntity } from '../../models/AppointmentSeriesEntity';
+import { SeriesRequestInput, SeriesScope } from '../../types/series';
+import { ChangeContext } from '../../types/appointmentEvent';
 
+export interface AppointmentSearchResult {
+  appointments: AppointmentEntity[];
+  nextCursor?: string; // Pass as `cursor` to get the next page; absent on the last page
+}
+
+export interface AppointmentSeriesResult {
+  series: AppointmentSeriesEntity;
+  appointments: AppointmentEntity[]; // Scheduled and confirmed occurrences, earliest first
+}
+
+// Changes are recorded in the appointment's history with the given context; a system change without one
 export interface IAppointmentService {
   // Core appointment operations
-  createAppointment(data: ScheduleRequest): Promise<AppointmentEntity>;
-  editAppointment(appointmentId: string, data: Partial<ScheduleRequest>): Promise<AppointmentEntity | null>;
-  cancelAppointment(appointmentId: string): Promise<boolean>;
+  createAppointment(data: ScheduleRequestInput, context?: ChangeContext): Promise<AppointmentEntity>;
+  // scope 'following' also applies the change to later occurrences of the appointment's series
+  editAppointment(appointmentId: string, data: Partial<ScheduleRequestInput>, scope?: SeriesScope, context?: ChangeContext): Promise<AppointmentEntity | null>;
+  cancelAppointment(appointmentId: string, scope?: SeriesScope, context?: ChangeContext): Promise<boolean>;
+  confirmAppointment(appointmentId: string, context?: ChangeContext): Promise<AppointmentEntity>; // The patient says they will attend
+  claimWaitlistOffer(token: string): Promise<AppointmentEntity>; // Books the slot a waitlisted patient was offered
+
+  // Recurring series
+  createSeries(data: SeriesRequestInput, context?: ChangeContext): Promise<AppointmentSeriesResult>; // Books every occurrence or none
+  getSeries(seriesId: string): Promise<AppointmentSeriesResult>; // Throws NotFoundError
 
   // Booking queries
+  getAppointment(appointmentId: string): Promise<AppointmentEntity>; // Throws NotFoundError
   getActiveAppointmentsByEmailOrPhone(emailOrPhone: string): Promise<AppointmentEntity[]>;
+  searchAppointments(query: AppointmentSearchQuery): Promise<AppointmentSearchResult>;
+  getActiveProviders(): Promise<ProviderEntity[]>;
 }
@@ -0,0 +1,8 @@
+import { AppointmentTypeEntity } from '../../models/AppointmentTypeEntity';
+
+export interface IAppointmentTypeService {
+  getType(code: string): Promise<AppointmentTypeEntity>; // Throws ValidationError for unknown or retired types
+  listTypes(options?: { includeRetired?: boolean }): Promise<AppointmentTypeEntity[]>; // Retired types still pad the appointments booked before they were retired
+  resolveEndAt(type: AppointmentTypeEntity, startAt: Date, endAt?: Date): Date; // Throws ValidationError for durations the type doesn't allow
+  assertLeadTime(type: AppointmentTypeEntity, startAt: Date): void; // Throws ValidationError when booked too close to the start
+}
@@ -0,0 +1,5 @@
+import { AvailableSlot, SlotSearchRequest } from '../../types/availability';
+
+export interface IAvailabilityService {
+  findAvailableSlots(request: SlotSearchRequest): Promise<AvailableSlot[]>;
+}
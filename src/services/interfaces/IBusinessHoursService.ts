@@ -0,0 +1,10 @@
+import { BusinessHoursRule } from '../../types/availability';
+import { ProviderEntity } from '../../models/ProviderEntity';
+import { TimeInterval } from '../../utils/intervalUtils';
+
+export interface IBusinessHoursService {
+  getRules(provider?: ProviderEntity): Promise<BusinessHoursRule[]>;
+  isWithinBusinessHours(startAt: Date, endAt: Date, provider?: ProviderEntity): Promise<boolean>;
+  assertWithinBusinessHours(startAt: Date, endAt: Date, provider?: ProviderEntity): Promise<void>; // Throws OutsideBusinessHoursError
+  getOpeningIntervals(from: Date, to: Date, provider?: ProviderEntity): Promise<TimeInterval[]>;
+}
@@ -2,7 +2,10 @@ import { BusySlot, Appointment } from '../../types/schedule';
 
 export interface ICalendarService {
   getBookedSlotsForDate(date: Date): Promise<BusySlot[]>;
+  getBusySlots(timeMin: Date, timeMax: Date): Promise<BusySlot[]>;
   createCalendarEvent(appointment: Appointment): Promise<string>; // Returns calendar event ID
   updateCalendarEvent(eventId: string, appointment: Appointment): Promise<void>;
+  // Create the event under the given ID, or bring it up to date if it already exists
+  upsertCalendarEvent(eventId: string, appointment: Appointment): Promise<void>;
   deleteCalendarEvent(eventId: string): Promise<void>;
 }
@@ -0,0 +1,18 @@
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { CalendarSyncJobEntity } from '../../models/CalendarSyncJobEntity';
+
+export interface ICalendarSyncService {
+  // Record a sync job for the appointment's latest change and mark the appointment pending. Called in the
+  // transaction that saves the change, so the change is never saved without the job that syncs it.
+  enqueueSync(appointment: AppointmentEntity): Promise<CalendarSyncJobEntity>;
+
+  // Make the job's first attempt, once the change is committed.
+  // Never throws for a calendar failure: the job is retried by the worker instead.
+  // Returns the appointment with its event ID and sync state as they stand after the attempt.
+  runSync(job: CalendarSyncJobEntity, appointment: AppointmentEntity): Promise<AppointmentEntity>;
+
+  syncDueJobs(now?: Date): Promise<number>; // Returns how many appointments were synced
+
+  // Sync an appointment again, e.g. one that failed, with a fresh set of attempts
+  resyncAppointment(appointmentId: string): Promise<AppointmentEntity>;
+}
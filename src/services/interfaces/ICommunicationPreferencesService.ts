@@ -0,0 +1,25 @@
+import { CommunicationPreferencesEntity } from '../../models/CommunicationPreferencesEntity';
+import { PatientEntity } from '../../models/PatientEntity';
+import { ConsentSource, PreferencesUpdate } from '../../types/preferences';
+
+/**
+ * Who captured a change of preferences, recorded with every consent.
+ */
+export interface ConsentContext {
+  source: ConsentSource;
+  sourceReference?: string; // e.g. the Retell call ID
+}
+
+export interface PatientPreferences {
+  patient: PatientEntity;
+  preferences: CommunicationPreferencesEntity;
+}
+
+export interface ICommunicationPreferencesService {
+  // Defaults (everything allowed) when the patient has none; throws NotFoundError for unknown patients
+  getPreferences(patientId: string): Promise<CommunicationPreferencesEntity>;
+  updatePreferences(patientId: string, update: PreferencesUpdate, context: ConsentContext): Promise<CommunicationPreferencesEntity>;
+  // Applies to every patient with this email or phone number, since they all receive what is sent to it.
+  // Empty when no patient has it.
+  updatePreferencesByContact(emailOrPhone: string, update: PreferencesUpdate, context: ConsentContext): Promise<PatientPreferences[]>;
+}
@@ -0,0 +1,14 @@
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+import { AvailableSlot } from '../../types/availability';
+
+/**
+ * What a patient can do with the signed link in their confirmation and reminder messages.
+ * Every method throws ValidationError for a tampered or expired token.
+ */
+export interface IManageLinkService {
+  getAppointment(token: string): Promise<AppointmentEntity>;
+  confirmAppointment(token: string): Promise<AppointmentEntity>;
+  cancelAppointment(token: string): Promise<AppointmentEntity>; // Same rules as cancelling by phone
+  findRescheduleSlots(token: string, from?: Date): Promise<AvailableSlot[]>; // Open slots with the same type and provider
+  rescheduleAppointment(token: string, startAt: Date): Promise<AppointmentEntity>;
+}
@@ -0,0 +1,9 @@
+import { MessageEntity } from '../../models/MessageEntity';
+import { DeliveryReceipt } from '../../types/message';
+
+export interface IMessageHistoryService {
+  getAppointmentMessages(appointmentId: string): Promise<MessageEntity[]>;
+
+  // Returns the updated attempt, or null when the receipt matches none (e.g. it was already delivered)
+  recordReceipt(receipt: DeliveryReceipt): Promise<MessageEntity | null>;
+}
@@ -0,0 +1,26 @@
+import { Appointment } from '../../types/schedule';
+import { WaitlistEntry } from '../../types/waitlist';
+import { RecurrenceRule } from '../../types/series';
+import { OutboundMessage } from '../../types/outbox';
+import { TransportResult } from './IMessageTransport';
+
+/**
+ * Patient notifications. Send failures are logged rather than thrown, so a message
+ * never breaks the booking change it describes; only `deliver` throws.
+ */
+export interface IMessageService {
+  sendConfirmationMessage(appointment: Appointment, timeZone?: string): Promise<void>;
+  sendRescheduleMessage(appointment: Appointment, oldDateTime?: { start: Date; end: Date }, timeZone?: string): Promise<void>;
+  sendCancellationMessage(appointment: Appointment, timeZone?: string): Promise<void>;
+  sendReminderMessage(appointment: Appointment, offsetMinutes: number, timeZone?: string): Promise<void>;
+  sendSeriesMessage(
+    eventType: 'confirmation' | 'reschedule' | 'cancellation',
+    appointments: Appointment[],
+    recurrence: Pick<RecurrenceRule, 'frequency' | 'interval'>,
+    timeZone?: string
+  ): Promise<void>;
+  sendWaitlistOfferMessage(entry: WaitlistEntry, claimUrl: string, timeZone?: string): Promise<void>;
+
+  // Every attempt is recorded in the message history, linked to the outbox entry it came from
+  deliver(message: OutboundMessage, outboxMessageId?: string): Promise<TransportResult>;
+}
@@ -0,0 +1,21 @@
+import { MessageChannel, OutboundMessage } from '../../types/outbox';
+
+/**
+ * What a transport learned from its provider about an accepted message.
+ */
+export interface TransportResult {
+  providerMessageId?: string; // The provider's own ID, e.g. an SMTP Message-ID or a Twilio SID
+  response?: unknown;
+}
+
+/**
+ * Hands a rendered message to one delivery provider. Implementations throw when the
+ * provider does not accept the message, so the outbox can retry it.
+ */
+export interface IMessageTransport {
+  readonly name: string; // Shown in logs, e.g. 'smtp' or 'zapier'
+  send(message: OutboundMessage): Promise<TransportResult>;
+}
+
+// One transport per channel; the same transport may serve both
+export type MessageTransports = Record<MessageChannel, IMessageTransport>;
@@ -0,0 +1,13 @@
+import { MigrationStatus } from '../../types/migration';
+
+/**
+ * Applies the versioned SQL files in the sql directory and keeps track of them in schema_migrations.
+ */
+export interface IMigrationService {
+  // Every migration, on file or applied, lowest version first. Changes nothing, so it serves as a dry run.
+  getStatus(): Promise<MigrationStatus[]>;
+  // Apply the pending migrations in order, each in its own transaction, and return them.
+  // Throws MigrationError, before applying anything, if an applied migration has changed or gone missing
+  // or a new one sorts before the latest applied; and if a migration fails, which leaves it unapplied.
+  migrate(): Promise<MigrationStatus[]>;
+}
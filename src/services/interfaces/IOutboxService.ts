@@ -0,0 +1,13 @@
+import { OutboxMessageEntity } from '../../models/OutboxMessageEntity';
+import { OutboxFilter } from '../../types/outbox';
+
+export interface IOutboxService {
+  deliverDueMessages(now?: Date): Promise<number>; // Returns how many messages were delivered
+
+  listMessages(filter?: OutboxFilter): Promise<OutboxMessageEntity[]>;
+  getMessage(id: string): Promise<OutboxMessageEntity>;
+
+  // Re-drive dead messages: they are delivered on the worker's next run with a fresh set of attempts
+  retryMessage(id: string): Promise<OutboxMessageEntity>;
+  retryDeadMessages(): Promise<number>;
+}
@@ -0,0 +1,17 @@
+import { PatientEntity } from '../../models/PatientEntity';
+import { Language } from '../../types/schedule';
+
+export interface PatientDetails {
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phoneNumber?: string;
+  preferredLanguage?: Language;
+}
+
+export interface IPatientService {
+  findOrCreatePatient(details: PatientDetails): Promise<PatientEntity>;
+  getPatient(patientId: string): Promise<PatientEntity>; // Throws NotFoundError
+  findPatientsByContact(email?: string, phoneNumber?: string): Promise<PatientEntity[]>; // Excludes merged records
+  mergePatients(sourceId: string, targetId: string): Promise<PatientEntity>; // Returns the surviving record
+}
@@ -0,0 +1,9 @@
+import { AppointmentEntity } from '../../models/AppointmentEntity';
+
+export interface IReminderService {
+  // Plan reminders for the appointment's current start time, replacing any still pending
+  scheduleReminders(appointment: AppointmentEntity): Promise<void>;
+  cancelReminders(appointmentId: string): Promise<void>;
+
+  dispatchDueReminders(now?: Date): Promise<number>; // Returns how many reminders were sent
+}
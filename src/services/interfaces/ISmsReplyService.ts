@@ -0,0 +1,14 @@
+export type SmsReplyAction = 'confirmed' | 'cancelled' | 'not_changed' | 'no_appointment' | 'opted_out' | 'opted_in' | 'help';
+
+export interface SmsReplyResult {
+  action: SmsReplyAction;
+  appointmentId?: string; // The appointment the text acted on
+  reply: string; // Text to send back to the patient
+}
+
+/**
+ * Acts on texts patients send in reply to our messages.
+ */
+export interface ISmsReplyService {
+  handleReply(from: string, text: string): Promise<SmsReplyResult>;
+}
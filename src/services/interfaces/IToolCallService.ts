@@ -0,0 +1,20 @@
+import { ToolCallResponse } from '../../types/toolCall';
+
+export interface ToolCallRequest {
+  callId: string;
+  functionName: string;
+  args: unknown;
+}
+
+export interface ToolCallOutcome extends ToolCallResponse {
+  replayed: boolean; // True when this is the stored response of an earlier identical call
+}
+
+/**
+ * Runs each Retell tool call once, however often Retell retries it.
+ */
+export interface IToolCallService {
+  // Duplicates arriving while the first is still running wait for its response; throws
+  // RequestInProgressError if it doesn't finish in time
+  execute(request: ToolCallRequest, handler: () => Promise<ToolCallResponse>): Promise<ToolCallOutcome>;
+}
@@ -0,0 +1,15 @@
+import { WaitlistEntryEntity } from '../../models/WaitlistEntryEntity';
+import { FreedSlot, WaitlistRequest, WaitlistStatus } from '../../types/waitlist';
+
+export interface IWaitlistService {
+  joinWaitlist(request: WaitlistRequest): Promise<WaitlistEntryEntity>;
+  listEntries(status?: WaitlistStatus): Promise<WaitlistEntryEntity[]>;
+  leaveWaitlist(entryId: string): Promise<WaitlistEntryEntity>; // Passes on any offer the entry was holding
+
+  // Offer the slot to the next eligible waiting patient; null when nobody wants it or it is already taken
+  offerFreedSlot(slot: FreedSlot): Promise<WaitlistEntryEntity | null>;
+  getClaimableOffer(token: string): Promise<WaitlistEntryEntity>; // Throws NotFoundError or ConflictError
+  completeClaim(entry: WaitlistEntryEntity, appointmentId: string): Promise<WaitlistEntryEntity>;
+  releaseOffer(entry: WaitlistEntryEntity): Promise<void>; // Back to the queue; the slot goes to the next patient
+  expireOffers(now?: Date): Promise<number>; // Returns how many offers lapsed
+}
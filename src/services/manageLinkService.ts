@@ -0,0 +1,87 @@
+import { AppointmentEntity } from '../models/AppointmentEntity';
+import { AppointmentStatus } from '../types/schedule';
+import { AvailableSlot } from '../types/availability';
+import { AppointmentReschedulingError } from '../types/errors';
+import { ActorType, ChangeChannel, ChangeContext } from '../types/appointmentEvent';
+import { readManageToken } from '../utils/manageLinkUtils';
+import { IAppointmentService } from './interfaces/IAppointmentService';
+import { IAvailabilityService } from './interfaces/IAvailabilityService';
+import { IManageLinkService } from './interfaces/IManageLinkService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RESCHEDULE_SLOTS = 24;
+const SELF_SERVICE_CHANGE: ChangeContext = { channel: ChangeChannel.SELF_SERVICE, actorType: ActorType.PATIENT };
+
+export interface ManageLinkServiceConfig {
+  secret: string; // The same secret the message service signs links with
+  searchDays?: number; // How far ahead each page of reschedule slots looks; defaults to 7
+}
+
+/**
+ * Backs the self-service pages linked from patient messages. The signed token stands in for the
+ * patient's identity, so each action is limited to the appointment it was issued for; the actual
+ * changes go through the appointment service and follow the same rules as any other booking.
+ */
+export class ManageLinkService implements IManageLinkService {
+  private readonly secret: string;
+  private readonly searchDays: number;
+  private readonly appointmentService: IAppointmentService;
+  private readonly availabilityService: IAvailabilityService;
+
+  constructor(config: ManageLinkServiceConfig, appointmentService: IAppointmentService, availabilityService: IAvailabilityService) {
+    this.secret = config.secret;
+    this.searchDays = config.searchDays ?? 7;
+    this.appointmentService = appointmentService;
+    this.availabilityService = availabilityService;
+  }
+
+  async getAppointment(token: string): Promise<AppointmentEntity> {
+    return await this.appointmentService.getAppointment(readManageToken(token, this.secret));
+  }
+
+  async confirmAppointment(token: string): Promise<AppointmentEntity> {
+    return await this.appointmentService.confirmAppointment(readManageToken(token, this.secret), SELF_SERVICE_CHANGE);
+  }
+
+  async cancelAppointment(token: string): Promise<AppointmentEntity> {
+    const appointmentId = readManageToken(token, this.secret);
+    // Only this occurrence, even for a series; the rest goes ahead
+    await this.appointmentService.cancelAppointment(appointmentId, 'this', SELF_SERVICE_CHANGE);
+    return await this.appointmentService.getAppointment(appointmentId);
+  }
+
+  async findRescheduleSlots(token: string, from?: Date): Promise<AvailableSlot[]> {
+    const appointment = await this.getReschedulableAppointment(token);
+    const start = new Date(Math.max(Date.now(), from?.getTime() ?? 0));
+
+    return await this.availabilityService.findAvailableSlots({
+      from: start,
+      to: new Date(start.getTime() + this.searchDays * DAY_MS),
+      type: appointment.type,
+      providerId: appointment.providerId,
+      limit: MAX_RESCHEDULE_SLOTS
+    });
+  }
+
+  async rescheduleAppointment(token: string, startAt: Date): Promise<AppointmentEntity> {
+    const appointment = await this.getReschedulableAppointment(token);
+    if (startAt.getTime() <= Date.now()) {
+      throw new AppointmentReschedulingError('The new time has already passed');
+    }
+
+    // Keeps the type and provider; the new slot is checked like any other booking
+    const updated = await this.appointmentService.editAppointment(appointment.id!, { startAt }, 'this', SELF_SERVICE_CHANGE);
+    return updated ?? appointment;
+  }
+
+  private async getReschedulableAppointment(token: string): Promise<AppointmentEntity> {
+    const appointment = await this.getAppointment(token);
+    if (appointment.status !== AppointmentStatus.SCHEDULED && appointment.status !== AppointmentStatus.CONFIRMED) {
+      throw new AppointmentReschedulingError(`Cannot reschedule ${appointment.status} appointments`);
+    }
+    if (appointment.startAt.getTime() <= Date.now()) {
+      throw new AppointmentReschedulingError('Cannot reschedule appointments that have already started');
+    }
+    return appointment;
+  }
+}
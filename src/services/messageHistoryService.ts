@@ -0,0 +1,27 @@
+import { MessageEntity } from '../models/MessageEntity';
+import { DeliveryReceipt } from '../types/message';
+import { IMessageRepository } from '../repositories/interfaces/IMessageRepository';
+import { IMessageHistoryService } from './interfaces/IMessageHistoryService';
+
+/**
+ * Read side of the message history written by MessageService, plus delivery receipts
+ * from providers that report back on messages they accepted.
+ */
+export class MessageHistoryService implements IMessageHistoryService {
+  constructor(private messageRepository: IMessageRepository) {}
+
+  async getAppointmentMessages(appointmentId: string): Promise<MessageEntity[]> {
+    return await this.messageRepository.findByAppointment(appointmentId);
+  }
+
+  async recordReceipt(receipt: DeliveryReceipt): Promise<MessageEntity | null> {
+    const message = await this.messageRepository.applyReceipt(receipt);
+    if (!message) {
+      console.warn(`⚠️ Delivery receipt for unknown or already delivered ${receipt.channel} message ${receipt.providerMessageId}`);
+      return null;
+    }
+
+    console.log(`📬 ${receipt.channel} message ${message.id} to ${message.recipient} is ${message.status}`);
+    return message;
+  }
+}
@@ -0,0 +1,115 @@
+import { IMigrationRepository } from '../repositories/interfaces/IMigrationRepository';
+import { IMigrationService } from './interfaces/IMigrationService';
+import { Migration, MigrationState, MigrationStatus } from '../types/migration';
+import { MigrationError } from '../types/errors';
+import { DEFAULT_MIGRATIONS_DIR, loadMigrations } from '../utils/migrationUtils';
+
+export interface MigrationServiceConfig {
+  directory?: string; // Where the V<version>__<description>.sql files are; defaults to the repository's sql directory
+}
+
+// What the history knows about an applied migration; adopted ones have no time of their own
+interface AppliedRecord {
+  version: number;
+  description: string;
+  script: string;
+  checksum: string;
+  appliedAt?: Date;
+}
+
+const PROBLEMS: Partial<Record<MigrationState, string>> = {
+  [MigrationState.DRIFTED]: 'has changed since it was applied',
+  [MigrationState.MISSING]: 'was applied but is no longer in the sql directory',
+  [MigrationState.OUT_OF_ORDER]: 'sorts before migrations that are already applied; give it a higher version'
+};
+
+/**
+ * Built-in migration runner, for `npm run migrate` and MIGRATE_ON_STARTUP. Databases that Flyway used to
+ * migrate are taken over on the first run: the versions in its history are recorded as applied.
+ */
+export class MigrationService implements IMigrationService {
+  private readonly directory: string;
+  private readonly migrationRepository: IMigrationRepository;
+
+  constructor(config: MigrationServiceConfig, migrationRepository: IMigrationRepository) {
+    this.directory = config.directory ?? DEFAULT_MIGRATIONS_DIR;
+    this.migrationRepository = migrationRepository;
+  }
+
+  async getStatus(): Promise<MigrationStatus[]> {
+    const migrations = await loadMigrations(this.directory);
+    const applied = await this.migrationRepository.findApplied();
+
+    if (applied.length === 0) {
+      return describe(migrations, await this.findAdoptable(migrations));
+    }
+    return describe(migrations, applied);
+  }
+
+  async migrate(): Promise<MigrationStatus[]> {
+    const migrations = await loadMigrations(this.directory);
+
+    return this.migrationRepository.withLock(async () => {
+      await this.migrationRepository.ensureHistoryTable();
+      let applied = await this.migrationRepository.findApplied();
+
+      if (applied.length === 0) {
+        const adoptable = await this.findAdoptable(migrations);
+        if (adoptable.length > 0) {
+          await this.migrationRepository.recordAdopted(adoptable);
+          console.log(`🗄️ Adopted ${adoptable.length} migration(s) from Flyway's history`);
+          applied = await this.migrationRepository.findApplied();
+        }
+      }
+
+      const statuses = describe(migrations, applied);
+      const problems = statuses.filter(status => PROBLEMS[status.state]);
+      if (problems.length > 0) {
+        throw new MigrationError(`Refusing to migrate: ${problems.map(status => `${status.script} ${PROBLEMS[status.state]}`).join('; ')}`);
+      }
+
+      const pending = statuses.filter(status => status.state === MigrationState.PENDING);
+      const done: MigrationStatus[] = [];
+      for (const status of pending) {
+        const migration = migrations.find(candidate => candidate.version === status.version)!;
+        try {
+          const record = await this.migrationRepository.apply(migration);
+          console.log(`🗄️ Applied ${migration.script} (${record.executionMs} ms)`);
+          done.push({ ...status, state: MigrationState.APPLIED, appliedAt: record.appliedAt });
+        } catch (error: any) {
+          // The failed migration was rolled back; those before it stay applied
+          throw new MigrationError(`${migration.script} failed and was rolled back: ${error.message}`);
+        }
+      }
+
+      return done;
+    });
+  }
+
+  // The migrations Flyway's history says are applied, with the checksums of the files as they are now
+  private async findAdoptable(migrations: Migration[]): Promise<Migration[]> {
+    const versions = await this.migrationRepository.findFlywayVersions();
+    return migrations.filter(migration => versions.includes(migration.version));
+  }
+}
+
+function describe(migrations: Migration[], applied: AppliedRecord[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map(record => [record.version, record]));
+  const latestApplied = Math.max(0, ...applied.map(record => record.version));
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const record = appliedByVersion.get(migration.version);
+    const state = record
+      ? (record.checksum === migration.checksum ? MigrationState.APPLIED : MigrationState.DRIFTED)
+      : (migration.version < latestApplied ? MigrationState.OUT_OF_ORDER : MigrationState.PENDING);
+    return { version: migration.version, description: migration.description, script: migration.script, state, appliedAt: record?.appliedAt };
+  });
+
+  for (const record of applied) {
+    if (!migrations.some(migration => migration.version === record.version)) {
+      statuses.push({ version: record.version, description: record.description, script: record.script, state: MigrationState.MISSING, appliedAt: record.appliedAt });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
@@ -0,0 +1,106 @@
+import { OutboxMessageEntity } from '../models/OutboxMessageEntity';
+import { OutboxFilter } from '../types/outbox';
+import { IOutboxRepository } from '../repositories/interfaces/IOutboxRepository';
+import { IOutboxService } from './interfaces/IOutboxService';
+import { IMessageService } from './interfaces/IMessageService';
+import { NotFoundError, RecipientOptedOutError, ValidationError } from '../types/errors';
+
+const SECOND_MS = 1000;
+const DEFAULT_BATCH_SIZE = 20;
+// Long enough for the 10 second webhook timeout; a claim older than this is assumed abandoned
+const DEFAULT_LEASE_SECONDS = 60;
+
+export interface OutboxServiceConfig {
+  maxAttempts: number; // Attempts before a message is parked as dead
+  retryBaseSeconds: number; // Delay after the first failure; doubles with every further failure
+  retryMaxSeconds: number; // Upper bound for the delay between attempts
+  batchSize?: number; // Messages claimed per worker run
+  leaseSeconds?: number;
+}
+
+/**
+ * Delivers queued patient messages from the outbox. Failed deliveries are retried with
+ * exponential backoff until `maxAttempts` is reached, then the message is marked dead
+ * and waits for staff to re-drive it through the admin API or `npm run outbox`.
+ */
+export class OutboxService implements IOutboxService {
+  private readonly config: OutboxServiceConfig;
+  private readonly outboxRepository: IOutboxRepository;
+  private readonly messageService: IMessageService;
+
+  constructor(config: OutboxServiceConfig, outboxRepository: IOutboxRepository, messageService: IMessageService) {
+    this.config = config;
+    this.outboxRepository = outboxRepository;
+    this.messageService = messageService;
+  }
+
+  async deliverDueMessages(now: Date = new Date()): Promise<number> {
+    const due = await this.outboxRepository.claimDue(
+      now,
+      this.config.batchSize ?? DEFAULT_BATCH_SIZE,
+      this.config.leaseSeconds ?? DEFAULT_LEASE_SECONDS
+    );
+
+    let delivered = 0;
+    for (const message of due) {
+      try {
+        await this.messageService.deliver(message.toOutboundMessage(), message.id);
+        await this.outboxRepository.markSent(message.id!);
+        delivered++;
+      } catch (error: any) {
+        await this.recordFailure(message, error, now)
+          .catch(recordError => console.error(`Failed to record delivery failure of message ${message.id}:`, recordError));
+      }
+    }
+
+    return delivered;
+  }
+
+  async listMessages(filter: OutboxFilter = {}): Promise<OutboxMessageEntity[]> {
+    return await this.outboxRepository.find(filter);
+  }
+
+  async getMessage(id: string): Promise<OutboxMessageEntity> {
+    const message = await this.outboxRepository.findById(id);
+    if (!message) {
+      throw new NotFoundError(`Message with ID ${id} not found`);
+    }
+    return message;
+  }
+
+  async retryMessage(id: string): Promise<OutboxMessageEntity> {
+    const requeued = await this.outboxRepository.requeue(id);
+    if (requeued) {
+      return requeued;
+    }
+
+    const message = await this.getMessage(id);
+    throw new ValidationError(`Only dead messages can be retried, this message is ${message.status}`);
+  }
+
+  async retryDeadMessages(): Promise<number> {
+    return await this.outboxRepository.requeueDead();
+  }
+
+  private async recordFailure(message: OutboxMessageEntity, error: any, now: Date): Promise<void> {
+    // Keep the webhook's own explanation when there is one
+    const reason = error.response?.data
+      ? `${error.message}: ${JSON.stringify(error.response.data)}`
+      : error.message ?? String(error);
+
+    // Retrying won't help until the patient opts back in, and then only staff should decide to resend
+    if (error instanceof RecipientOptedOutError || message.attempts >= this.config.maxAttempts) {
+      console.error(`❌ Giving up on ${message.eventType} ${message.type} ${message.id} after ${message.attempts} attempts: ${reason}`);
+      await this.outboxRepository.markDead(message.id!, reason);
+      return;
+    }
+
+    const nextAttemptAt = new Date(now.getTime() + this.retryDelaySeconds(message.attempts) * SECOND_MS);
+    console.warn(`⚠️ Delivery of ${message.eventType} ${message.type} ${message.id} failed (attempt ${message.attempts}), retrying at ${nextAttemptAt.toISOString()}: ${reason}`);
+    await this.outboxRepository.scheduleRetry(message.id!, reason, nextAttemptAt);
+  }
+
+  private retryDelaySeconds(attempts: number): number {
+    return Math.min(this.config.retryBaseSeconds * 2 ** (attempts - 1), this.config.retryMaxSeconds);
+  }
+}
@@ -0,0 +1,89 @@
+import { PatientEntity } from '../models/PatientEntity';
+import { IPatientRepository } from '../repositories/interfaces/IPatientRepository';
+import { IPatientService, PatientDetails } from './interfaces/IPatientService';
+import { NotFoundError, ValidationError } from '../types/errors';
+import { CountryCode } from 'libphonenumber-js';
+import { DEFAULT_PHONE_COUNTRY, normalizeEmail, normalizePhoneNumber } from '../utils/contactUtils';
+
+/**
+ * Keeps one patient record per person across bookings.
+ * A booking matches an existing patient when both email and phone number agree, or when one of them
+ * agrees and so does the name. Families often share a phone number or email, so a shared contact
+ * detail alone is not enough.
+ */
+export class PatientService implements IPatientService {
+  private readonly patientRepository: IPatientRepository;
+  private readonly defaultPhoneCountry: CountryCode;
+
+  constructor(patientRepository: IPatientRepository, defaultPhoneCountry: CountryCode = DEFAULT_PHONE_COUNTRY) {
+    this.patientRepository = patientRepository;
+    this.defaultPhoneCountry = defaultPhoneCountry;
+  }
+
+  async findOrCreatePatient(input: PatientDetails): Promise<PatientEntity> {
+    // Stored contact details are canonical, so compare like with like
+    const details: PatientDetails = {
+      ...input,
+      email: input.email ? normalizeEmail(input.email) : undefined,
+      phoneNumber: input.phoneNumber ? normalizePhoneNumber(input.phoneNumber, this.defaultPhoneCountry) : undefined
+    };
+    const candidates = await this.patientRepository.findByContact(details.email, details.phoneNumber);
+
+    const match =
+      candidates.find(patient => this.sameEmail(patient, details) && this.samePhone(patient, details)) ??
+      candidates.find(patient => this.sameName(patient, details) && (this.sameEmail(patient, details) || this.samePhone(patient, details)));
+
+    if (!match) {
+      return await this.patientRepository.create(new PatientEntity(details));
+    }
+
+    // A returning patient may give us a phone number or email we didn't have yet, or ask for another language
+    const addedContactDetails = match.addMissingContactDetails(details);
+    const changedLanguage = match.updatePreferredLanguage(details.preferredLanguage);
+    if (addedContactDetails || changedLanguage) {
+      return await this.patientRepository.update(match.id!, match);
+    }
+    return match;
+  }
+
+  async getPatient(patientId: string): Promise<PatientEntity> {
+    const patient = await this.patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError(`Patient with ID ${patientId} not found`);
+    }
+    return patient;
+  }
+
+  async findPatientsByContact(email?: string, phoneNumber?: string): Promise<PatientEntity[]> {
+    return await this.patientRepository.findByContact(email, phoneNumber);
+  }
+
+  async mergePatients(sourceId: string, targetId: string): Promise<PatientEntity> {
+    if (sourceId === targetId) {
+      throw new ValidationError('Cannot merge a patient into itself');
+    }
+
+    const [source, target] = await Promise.all([this.getPatient(sourceId), this.getPatient(targetId)]);
+    for (const patient of [source, target]) {
+      if (patient.isMerged) {
+        throw new ValidationError(`Patient ${patient.id} has already been merged into ${patient.mergedIntoId}`);
+      }
+    }
+
+    return await this.patientRepository.merge(sourceId, targetId);
+  }
+
+  private sameEmail(patient: PatientEntity, details: PatientDetails): boolean {
+    return !!patient.email && !!details.email && patient.email === details.email;
+  }
+
+  private samePhone(patient: PatientEntity, details: PatientDetails): boolean {
+    return !!patient.phoneNumber && !!details.phoneNumber && patient.phoneNumber === details.phoneNumber;
+  }
+
+  private sameName(patient: PatientEntity, details: PatientDetails): boolean {
+    const normalize = (name: string) => name.trim().toLowerCase();
+    return normalize(patient.firstName) === normalize(details.firstName) &&
+      normalize(patient.lastName) === normalize(details.lastName);
+  }
+}
@@ -0,0 +1,110 @@
+import { AppointmentEntity } from '../models/AppointmentEntity';
+import { AppointmentReminderEntity } from '../models/AppointmentReminderEntity';
+import { AppointmentStatus } from '../types/schedule';
+import { ReminderStatus } from '../types/reminder';
+import { IReminderRepository } from '../repositories/interfaces/IReminderRepository';
+import { IAppointmentRepository } from '../repositories/interfaces/IAppointmentRepository';
+import { IProviderRepository } from '../repositories/interfaces/IProviderRepository';
+import { IReminderService } from './interfaces/IReminderService';
+import { IMessageService } from './interfaces/IMessageService';
+
+const DEFAULT_BATCH_SIZE = 50;
+
+export interface ReminderServiceConfig {
+  offsetsMinutes: number[]; // e.g. [2880, 120] for 48 hours and 2 hours before
+  batchSize?: number; // Reminders claimed per dispatch run
+}
+
+export interface ReminderServiceDependencies {
+  providerRepository?: IProviderRepository; // Formats times in the provider's location time zone
+}
+
+/**
+ * Sends patients reminders ahead of their appointments. Reminders are planned in Postgres when an
+ * appointment is booked or moved and sent by a polling dispatcher, so they survive restarts.
+ * A dispatcher claims each reminder before sending it, so none is ever sent twice.
+ */
+export class ReminderService implements IReminderService {
+  private readonly config: ReminderServiceConfig;
+  private readonly reminderRepository: IReminderRepository;
+  private readonly appointmentRepository: IAppointmentRepository;
+  private readonly messageService: IMessageService;
+  private readonly providerRepository?: IProviderRepository;
+
+  constructor(
+    config: ReminderServiceConfig,
+    reminderRepository: IReminderRepository,
+    appointmentRepository: IAppointmentRepository,
+    messageService: IMessageService,
+    dependencies: ReminderServiceDependencies = {}
+  ) {
+    this.config = config;
+    this.reminderRepository = reminderRepository;
+    this.appointmentRepository = appointmentRepository;
+    this.messageService = messageService;
+    this.providerRepository = dependencies.providerRepository;
+  }
+
+  async scheduleReminders(appointment: AppointmentEntity): Promise<void> {
+    const now = new Date();
+    // Reminders whose time has already passed, e.g. the 48 hour one for a booking made today, are not sent late
+    const reminders = this.config.offsetsMinutes
+      .map(offset => AppointmentReminderEntity.plan(appointment.id!, appointment.startAt, offset))
+      .filter(reminder => reminder.dueAt > now);
+
+    await this.reminderRepository.replacePending(appointment.id!, reminders);
+  }
+
+  async cancelReminders(appointmentId: string): Promise<void> {
+    await this.reminderRepository.cancelPending(appointmentId);
+  }
+
+  async dispatchDueReminders(now: Date = new Date()): Promise<number> {
+    const due = await this.reminderRepository.claimDue(now, this.config.batchSize ?? DEFAULT_BATCH_SIZE);
+
+    let sent = 0;
+    for (const reminder of due) {
+      try {
+        const appointment = await this.appointmentRepository.findById(reminder.appointmentId);
+        if (!appointment || !this.stillApplies(reminder, appointment, now)) {
+          await this.reminderRepository.complete(reminder.id!, ReminderStatus.SKIPPED);
+          continue;
+        }
+
+        await this.messageService.sendReminderMessage(
+          { ...appointment, id: appointment.id!, createdAt: appointment.createdAt! },
+          reminder.offsetMinutes,
+          await this.getProviderTimeZone(appointment.providerId)
+        );
+        await this.reminderRepository.complete(reminder.id!, ReminderStatus.SENT);
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send reminder ${reminder.id} for appointment ${reminder.appointmentId}:`, error);
+        // Not retried: the message may already have gone out
+        await this.reminderRepository.complete(reminder.id!, ReminderStatus.FAILED, error instanceof Error ? error.message : String(error))
+          .catch(completeError => console.error(`Failed to record reminder ${reminder.id} as failed:`, completeError));
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Reminders are replaced when an appointment moves, but one claimed while the change was
+   * being saved can still refer to the old time.
+   */
+  private stillApplies(reminder: AppointmentReminderEntity, appointment: AppointmentEntity, now: Date): boolean {
+    const active = appointment.status === AppointmentStatus.SCHEDULED || appointment.status === AppointmentStatus.CONFIRMED;
+    return active &&
+      appointment.startAt.getTime() === reminder.appointmentStartAt.getTime() &&
+      appointment.startAt > now;
+  }
+
+  private async getProviderTimeZone(providerId?: string): Promise<string | undefined> {
+    if (!providerId || !this.providerRepository) {
+      return undefined;
+    }
+    const provider = await this.providerRepository.findById(providerId);
+    return provider?.timeZone;
+  }
+}
@@ -0,0 +1,151 @@
+import { CountryCode } from 'libphonenumber-js';
+import { AppointmentEntity } from '../models/AppointmentEntity';
+import { Language } from '../types/schedule';
+import { ClinicBranding } from '../types/message';
+import { AppError } from '../types/errors';
+import { ActorType, ChangeChannel, ChangeContext } from '../types/appointmentEvent';
+import { ISmsOptOutRepository } from '../repositories/interfaces/ISmsOptOutRepository';
+import { IAppointmentService } from './interfaces/IAppointmentService';
+import { IPatientService } from './interfaces/IPatientService';
+import { ISmsReplyService, SmsReplyResult } from './interfaces/ISmsReplyService';
+import { DEFAULT_CLINIC_BRANDING, MessageTemplates, TemplateOptions } from './emailTemplates';
+import { SmsReplyName } from './templates';
+import { DEFAULT_PHONE_COUNTRY, normalizePhoneNumber } from '../utils/contactUtils';
+
+// Replies are matched on their first word, ignoring case, accents and punctuation
+const CONFIRM_KEYWORDS = ['C', 'Y', 'YES', 'CONFIRM', 'OUI', 'SI'];
+const CANCEL_KEYWORDS = ['CANCEL', 'ANNULER', 'CANCELAR'];
+// The opt-out and opt-in words carriers recognise, plus their French equivalent
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'END', 'QUIT', 'CANCELALL', 'ARRET'];
+const START_KEYWORDS = ['START', 'UNSTOP', 'YESSTART'];
+const SMS_REPLY_CHANGE: ChangeContext = { channel: ChangeChannel.SMS_REPLY, actorType: ActorType.PATIENT };
+
+export interface SmsReplyServiceConfig {
+  timeZone?: string;
+  defaultLanguage?: Language;
+  clinic?: ClinicBranding;
+  defaultPhoneCountry?: CountryCode; // Country assumed for sender numbers without an international prefix
+}
+
+export interface SmsReplyServiceDependencies {
+  patientService?: IPatientService; // Answers in the patient's preferred language
+}
+
+/**
+ * Two-way SMS: confirms or cancels the sender's next appointment, and records opt-outs
+ * that MessageService honours for every later text.
+ */
+export class SmsReplyService implements ISmsReplyService {
+  private readonly timeZone: string;
+  private readonly defaultLanguage: Language;
+  private readonly clinic: ClinicBranding;
+  private readonly defaultPhoneCountry: CountryCode;
+  private readonly appointmentService: IAppointmentService;
+  private readonly smsOptOutRepository: ISmsOptOutRepository;
+  private readonly patientService?: IPatientService;
+
+  constructor(
+    config: SmsReplyServiceConfig,
+    appointmentService: IAppointmentService,
+    smsOptOutRepository: ISmsOptOutRepository,
+    dependencies: SmsReplyServiceDependencies = {}
+  ) {
+    this.timeZone = config.timeZone ?? 'UTC';
+    this.defaultLanguage = config.defaultLanguage ?? Language.ENGLISH;
+    this.clinic = config.clinic ?? DEFAULT_CLINIC_BRANDING;
+    this.defaultPhoneCountry = config.defaultPhoneCountry ?? DEFAULT_PHONE_COUNTRY;
+    this.appointmentService = appointmentService;
+    this.smsOptOutRepository = smsOptOutRepository;
+    this.patientService = dependencies.patientService;
+  }
+
+  async handleReply(from: string, text: string): Promise<SmsReplyResult> {
+    const phoneNumber = normalizePhoneNumber(from, this.defaultPhoneCountry);
+    const keyword = this.keywordOf(text);
+
+    if (STOP_KEYWORDS.includes(keyword)) {
+      await this.smsOptOutRepository.optOut(phoneNumber, keyword);
+      console.log(`🔕 ${phoneNumber} opted out of text messages`);
+      return await this.result('opted_out', 'optedOut', phoneNumber);
+    }
+    if (START_KEYWORDS.includes(keyword)) {
+      await this.smsOptOutRepository.optIn(phoneNumber);
+      console.log(`🔔 ${phoneNumber} opted back in to text messages`);
+      return await this.result('opted_in', 'optedIn', phoneNumber);
+    }
+
+    const confirm = CONFIRM_KEYWORDS.includes(keyword);
+    if (!confirm && !CANCEL_KEYWORDS.includes(keyword)) {
+      return await this.result('help', 'help', phoneNumber);
+    }
+
+    const appointment = await this.findNextAppointment(phoneNumber);
+    if (!appointment) {
+      return await this.result('no_appointment', 'noAppointment', phoneNumber);
+    }
+
+    try {
+      if (confirm) {
+        await this.appointmentService.confirmAppointment(appointment.id!, SMS_REPLY_CHANGE);
+      } else {
+        await this.appointmentService.cancelAppointment(appointment.id!, 'this', SMS_REPLY_CHANGE);
+      }
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      // e.g. too close to the start to cancel; the front desk can still help
+      console.warn(`⚠️ Could not ${confirm ? 'confirm' : 'cancel'} appointment ${appointment.id} by text: ${error.message}`);
+      return await this.result('not_changed', 'notChanged', phoneNumber, appointment);
+    }
+
+    console.log(`📲 Appointment ${appointment.id} ${confirm ? 'confirmed' : 'cancelled'} by text from ${phoneNumber}`);
+    return confirm
+      ? await this.result('confirmed', 'confirmed', phoneNumber, appointment)
+      : await this.result('cancelled', 'cancelled', phoneNumber, appointment);
+  }
+
+  // "Yes!" -> YES, "Sí" -> SI, "Arrêt" -> ARRET
+  private keywordOf(text: string): string {
+    const [first = ''] = text.trim().split(/\s+/);
+    return first.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w]/g, '').toUpperCase();
+  }
+
+  private async findNextAppointment(phoneNumber: string): Promise<AppointmentEntity | undefined> {
+    const now = Date.now();
+    const active = await this.appointmentService.getActiveAppointmentsByEmailOrPhone(phoneNumber);
+    // Active appointments come earliest first
+    return active.find(appointment => appointment.startAt.getTime() > now);
+  }
+
+  private async result(
+    action: SmsReplyResult['action'],
+    template: SmsReplyName,
+    phoneNumber: string,
+    appointment?: AppointmentEntity
+  ): Promise<SmsReplyResult> {
+    const options = await this.templateOptions(phoneNumber, appointment);
+    return {
+      action,
+      appointmentId: appointment?.id,
+      reply: MessageTemplates.generateSmsReply(template, appointment && { ...appointment, id: appointment.id!, createdAt: appointment.createdAt! }, options)
+    };
+  }
+
+  /**
+   * Answer in the language of the appointment's patient, or of whoever has this number on file
+   */
+  private async templateOptions(phoneNumber: string, appointment?: AppointmentEntity): Promise<TemplateOptions> {
+    let language = this.defaultLanguage;
+    try {
+      const patient = appointment?.patientId
+        ? await this.patientService?.getPatient(appointment.patientId)
+        : (await this.patientService?.findPatientsByContact(undefined, phoneNumber))?.[0];
+      language = patient?.preferredLanguage ?? language;
+    } catch (error) {
+      console.error(`❌ Failed to look up the preferred language for ${phoneNumber}:`, error);
+    }
+
+    return { timeZone: this.timeZone, language, clinic: this.clinic };
+  }
+}
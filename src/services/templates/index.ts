@@ -0,0 +1,75 @@
+import { AppointmentType, AppointmentTypeCode, Language } from '../../types/schedule';
+import en from './en.json';
+import fr from './fr.json';
+import es from './es.json';
+
+// Singular and plural wording, picked with the language's plural rules
+export interface PluralText {
+  one: string;
+  other: string;
+}
+
+export interface MessageText {
+  subject: string;
+  body: string; // Email text; blank lines separate paragraphs, which become <p> in the HTML version
+  sms: string; // Short enough for one or two SMS segments
+}
+
+export type TemplateName =
+  | 'confirmation'
+  | 'reschedule'
+  | 'cancellation'
+  | 'reminder'
+  | 'seriesConfirmation'
+  | 'seriesReschedule'
+  | 'seriesCancellation'
+  | 'waitlistOffer';
+
+// Answers to texts patients send in, e.g. "C" to confirm or STOP to opt out
+export type SmsReplyName = 'confirmed' | 'cancelled' | 'notChanged' | 'noAppointment' | 'optedOut' | 'optedIn' | 'help';
+
+/**
+ * Patient message wording for one language. Text holds `{placeholder}` names that are filled in
+ * when a message is rendered. Bump `version` whenever the wording changes, so the message history
+ * shows which text a patient received.
+ */
+export interface MessageTemplateResource {
+  language: string;
+  version: number;
+  locale: string; // BCP 47 locale for dates and times, e.g. fr-CA
+  contact: { phone: string; phoneAndEmail: string };
+  // Names of the seeded types; a type the clinic added to the catalogue is shown by its code
+  appointmentTypes: Record<AppointmentType, string> & Partial<Record<AppointmentTypeCode, string>>;
+  leadTime: { day: PluralText; hour: PluralText; minute: PluralText };
+  recurrence: { daily: PluralText; weekly: PluralText; monthly: PluralText };
+  seriesVisits: PluralText;
+  messages: Record<TemplateName, MessageText>;
+  smsReplies: Record<SmsReplyName, string>;
+  // Fills the `{selfService}` placeholder when a message carries a self-service link; left empty otherwise
+  selfService: { body: string; sms: string };
+  calendarEvent: { summary: string };
+}
+
+const RESOURCES: Record<Language, MessageTemplateResource> = {
+  [Language.ENGLISH]: en,
+  [Language.FRENCH]: fr,
+  [Language.SPANISH]: es
+};
+
+export function getTemplateResource(language: Language): MessageTemplateResource {
+  return RESOURCES[language] ?? RESOURCES[Language.ENGLISH];
+}
+
+/**
+ * Replace `{name}` placeholders with their values. Unknown placeholders are left as they are.
+ */
+export function fillTemplate(text: string, values: Record<string, string | number>): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    values[name] === undefined ? placeholder : String(values[name])
+  );
+}
+
+export function pluralize(text: PluralText, count: number, locale: string): string {
+  const form = new Intl.PluralRules(locale).select(count) === 'one' ? text.one : text.other;
+  return fillTemplate(form, { count });
+}
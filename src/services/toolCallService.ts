@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { IToolCallRepository } from '../repositories/interfaces/IToolCallRepository';
+import { IToolCallService, ToolCallOutcome, ToolCallRequest } from './interfaces/IToolCallService';
+import { ToolCallKey, ToolCallResponse } from '../types/toolCall';
+import { RequestInProgressError } from '../types/errors';
+
+export interface ToolCallServiceConfig {
+  waitTimeoutMs?: number; // How long a duplicate waits for the first call to finish
+  pollIntervalMs?: number;
+  staleAfterSeconds?: number; // A call in progress this long is assumed to have died and is run again
+}
+
+/**
+ * Idempotent handling of Retell tool calls. Each call is claimed in Postgres before it runs, so the
+ * guarantee holds across concurrent requests and server instances.
+ */
+export class ToolCallService implements IToolCallService {
+  private readonly waitTimeoutMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly staleAfterSeconds: number;
+  private readonly toolCallRepository: IToolCallRepository;
+
+  constructor(config: ToolCallServiceConfig, toolCallRepository: IToolCallRepository) {
+    this.waitTimeoutMs = config.waitTimeoutMs ?? 20000;
+    this.pollIntervalMs = config.pollIntervalMs ?? 250;
+    this.staleAfterSeconds = config.staleAfterSeconds ?? 120;
+    this.toolCallRepository = toolCallRepository;
+  }
+
+  async execute(request: ToolCallRequest, handler: () => Promise<ToolCallResponse>): Promise<ToolCallOutcome> {
+    const key: ToolCallKey = {
+      callId: request.callId,
+      functionName: request.functionName,
+      argsHash: hashArgs(request.args)
+    };
+    const deadline = Date.now() + this.waitTimeoutMs;
+
+    for (;;) {
+      if (await this.toolCallRepository.claim(key, this.staleAfterSeconds)) {
+        return await this.run(key, handler);
+      }
+
+      // Either finished, still running, or released by a failed first attempt (claimed again above)
+      const existing = await this.toolCallRepository.find(key);
+      if (existing?.isCompleted) {
+        console.log(`♻️ Replaying ${key.functionName} response for duplicate call ${key.callId}`);
+        return { ...existing.response!, replayed: true };
+      }
+
+      if (Date.now() >= deadline) {
+        throw new RequestInProgressError(`${key.functionName} is still being processed for this call, please try again shortly`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  private async run(key: ToolCallKey, handler: () => Promise<ToolCallResponse>): Promise<ToolCallOutcome> {
+    let response: ToolCallResponse;
+    try {
+      response = await handler();
+    } catch (error) {
+      // Nothing was answered, so a retry should run the function again
+      await this.toolCallRepository.release(key)
+        .catch(releaseError => console.error(`❌ Failed to release ${key.functionName} for call ${key.callId}:`, releaseError));
+      throw error;
+    }
+
+    try {
+      await this.toolCallRepository.complete(key, response);
+    } catch (error) {
+      // The caller still gets its answer; duplicates wait until the claim goes stale and then run it again
+      console.error(`❌ Failed to store the ${key.functionName} response for call ${key.callId}:`, error);
+    }
+    return { ...response, replayed: false };
+  }
+}
+
+/**
+ * SHA-256 of the arguments as JSON with object keys sorted, so key order doesn't matter
+ */
+function hashArgs(args: unknown): string {
+  return createHash('sha256').update(canonicalJson(args ?? null)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([name, item]) => `${JSON.stringify(name)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,15 @@
+import { OutboundMessage } from '../../types/outbox';
+import { IMessageTransport, TransportResult } from '../interfaces/IMessageTransport';
+
+/**
+ * Development sink: prints each message instead of sending it.
+ */
+export class ConsoleTransport implements IMessageTransport {
+  readonly name = 'console';
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    const invite = message.calendarInvite ? `\n📎 ${message.calendarInvite.filename} (${message.calendarInvite.method})` : '';
+    console.log(`📨 [${message.type}] to ${message.to}: ${message.subject}\n${message.body}${invite}`);
+    return {};
+  }
+}
@@ -0,0 +1,19 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OutboundMessage } from '../../types/outbox';
+import { IMessageTransport, TransportResult } from '../interfaces/IMessageTransport';
+
+/**
+ * Development sink: appends each message to a JSON Lines file instead of sending it.
+ */
+export class FileTransport implements IMessageTransport {
+  readonly name = 'file';
+
+  constructor(private config: { filePath: string }) {}
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    await fs.mkdir(path.dirname(this.config.filePath), { recursive: true });
+    await fs.appendFile(this.config.filePath, JSON.stringify({ ...message, timestamp: new Date().toISOString() }) + '\n');
+    return {};
+  }
+}
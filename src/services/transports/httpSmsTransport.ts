@@ -0,0 +1,41 @@
+import axios from 'axios';
+import { OutboundMessage } from '../../types/outbox';
+import { IMessageTransport, TransportResult } from '../interfaces/IMessageTransport';
+
+export interface HttpSmsTransportConfig {
+  url: string; // For Twilio: https://api.twilio.com/2010-04-01/Accounts/<AccountSid>/Messages.json
+  from: string; // Sending number in E.164
+  username?: string; // Basic auth, e.g. the Twilio Account SID
+  password?: string; // e.g. the Twilio Auth Token
+  timeoutMs?: number;
+}
+
+/**
+ * Sends SMS through an HTTP gateway that accepts Twilio's request shape: a form-encoded
+ * POST of To, From and Body with basic auth, answered with JSON carrying the message `sid`.
+ */
+export class HttpSmsTransport implements IMessageTransport {
+  readonly name = 'http-sms';
+
+  constructor(private config: HttpSmsTransportConfig) {}
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    if (message.type !== 'sms') {
+      throw new Error(`The HTTP SMS transport only sends SMS, not ${message.type}`);
+    }
+
+    const response = await axios.post(this.config.url, new URLSearchParams({
+      To: message.to,
+      From: this.config.from,
+      Body: message.body
+    }).toString(), {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      auth: this.config.username ? { username: this.config.username, password: this.config.password ?? '' } : undefined,
+      timeout: this.config.timeoutMs ?? 10000 // 10 second timeout
+    });
+
+    return { providerMessageId: response.data?.sid ?? response.data?.id, response: response.data };
+  }
+}
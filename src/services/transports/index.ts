@@ -0,0 +1,69 @@
+import { MessageChannel } from '../../types/outbox';
+import { IMessageTransport, MessageTransports } from '../interfaces/IMessageTransport';
+import { ZapierTransport } from './zapierTransport';
+import { SmtpTransport } from './smtpTransport';
+import { HttpSmsTransport } from './httpSmsTransport';
+import { FileTransport } from './fileTransport';
+import { ConsoleTransport } from './consoleTransport';
+
+export { ZapierTransport, SmtpTransport, HttpSmsTransport, FileTransport, ConsoleTransport };
+
+const CHANNEL_TRANSPORTS: Record<MessageChannel, { variable: string; allowed: string[] }> = {
+  email: { variable: 'EMAIL_TRANSPORT', allowed: ['smtp', 'zapier', 'file', 'console'] },
+  sms: { variable: 'SMS_TRANSPORT', allowed: ['http', 'zapier', 'file', 'console'] }
+};
+
+function required(env: NodeJS.ProcessEnv, variable: string, transport: string): string {
+  const value = env[variable];
+  if (!value) {
+    throw new Error(`${variable} must be set to use the ${transport} transport`);
+  }
+  return value;
+}
+
+function createTransport(channel: MessageChannel, env: NodeJS.ProcessEnv): IMessageTransport {
+  const { variable, allowed } = CHANNEL_TRANSPORTS[channel];
+  // Without any configuration messages are only printed, so development never reaches patients
+  const kind = (env[variable] || (env.ZAPIER_WEBHOOK_URL ? 'zapier' : 'console')).toLowerCase();
+  if (!allowed.includes(kind)) {
+    throw new Error(`${variable} must be one of ${allowed.join(', ')}, got "${env[variable]}"`);
+  }
+
+  switch (kind) {
+    case 'smtp': {
+      const port = Number(env.SMTP_PORT || 587);
+      return new SmtpTransport({
+        host: required(env, 'SMTP_HOST', kind),
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: required(env, 'SMTP_FROM', kind)
+      });
+    }
+    case 'http':
+      return new HttpSmsTransport({
+        url: required(env, 'SMS_GATEWAY_URL', kind),
+        from: required(env, 'SMS_FROM_NUMBER', kind),
+        username: env.SMS_GATEWAY_USERNAME,
+        password: env.SMS_GATEWAY_PASSWORD
+      });
+    case 'zapier':
+      return new ZapierTransport({ webhookUrl: required(env, 'ZAPIER_WEBHOOK_URL', kind) });
+    case 'file':
+      return new FileTransport({ filePath: env.MESSAGE_SINK_FILE || 'logs/messages.jsonl' });
+    default:
+      return new ConsoleTransport();
+  }
+}
+
+/**
+ * Build the email and SMS transports selected by EMAIL_TRANSPORT and SMS_TRANSPORT.
+ * Throws when a selected transport is missing its settings.
+ */
+export function createMessageTransports(env: NodeJS.ProcessEnv = process.env): MessageTransports {
+  return {
+    email: createTransport('email', env),
+    sms: createTransport('sms', env)
+  };
+}
@@ -0,0 +1,54 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { OutboundMessage } from '../../types/outbox';
+import { IMessageTransport, TransportResult } from '../interfaces/IMessageTransport';
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  password?: string;
+  from: string; // e.g. "MedMe Clinic <appointments@example.com>"
+}
+
+/**
+ * Sends email through an SMTP server.
+ */
+export class SmtpTransport implements IMessageTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(config: SmtpTransportConfig, transporter?: Transporter) {
+    this.from = config.from;
+    this.transporter = transporter ?? nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    if (message.type !== 'email') {
+      throw new Error(`The SMTP transport only sends email, not ${message.type}`);
+    }
+
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.body,
+      html: message.html,
+      // Sent both as a text/calendar alternative, which mail clients show as an invite, and as an .ics attachment
+      icalEvent: message.calendarInvite && {
+        method: message.calendarInvite.method,
+        filename: message.calendarInvite.filename,
+        content: message.calendarInvite.content
+      }
+    });
+
+    // Stored without the angle brackets, the form most bounce and delivery webhooks report it in
+    return { providerMessageId: info.messageId?.replace(/^<|>$/g, ''), response: info.response };
+  }
+}
@@ -0,0 +1,28 @@
+import axios from 'axios';
+import { OutboundMessage } from '../../types/outbox';
+import { IMessageTransport, TransportResult } from '../interfaces/IMessageTransport';
+
+/**
+ * Posts messages to a Zapier catch hook, whose Zap sends the email or SMS.
+ */
+export class ZapierTransport implements IMessageTransport {
+  readonly name = 'zapier';
+
+  constructor(private config: { webhookUrl: string; timeoutMs?: number }) {}
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    const response = await axios.post(this.config.webhookUrl, {
+      ...message,
+      timestamp: new Date().toISOString(),
+      source: 'medme-appointment-system'
+    }, {
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      timeout: this.config.timeoutMs ?? 10000 // 10 second timeout
+    });
+
+    // Catch hooks answer with the ID of the request they queued
+    return { providerMessageId: response.data?.request_id, response: response.data };
+  }
+}
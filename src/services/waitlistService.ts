@@ -0,0 +1,199 @@
+import { randomBytes } from 'crypto';
+import { WaitlistEntryEntity } from '../models/WaitlistEntryEntity';
+import { FreedSlot, WaitlistRequest, WaitlistStatus } from '../types/waitlist';
+import { IWaitlistRepository } from '../repositories/interfaces/IWaitlistRepository';
+import { IAppointmentRepository } from '../repositories/interfaces/IAppointmentRepository';
+import { IAppointmentTypeService } from './interfaces/IAppointmentTypeService';
+import { IPatientService } from './interfaces/IPatientService';
+import { IWaitlistService } from './interfaces/IWaitlistService';
+import { IMessageService } from './interfaces/IMessageService';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface WaitlistServiceConfig {
+  claimWindowMinutes: number; // How long a patient has to claim an offered slot
+  claimBaseUrl: string; // Public base URL the claim links point at
+}
+
+export interface WaitlistServiceDependencies {
+  appointmentTypeService?: IAppointmentTypeService;
+  patientService?: IPatientService;
+}
+
+/**
+ * Offers slots freed by cancellations and reschedules to waitlisted patients, one at a time and
+ * in the order they joined. An offer holds the slot for a single patient until it is claimed,
+ * declined by letting it lapse, or the entry leaves the waitlist; then it moves down the queue.
+ */
+export class WaitlistService implements IWaitlistService {
+  private readonly config: WaitlistServiceConfig;
+  private readonly waitlistRepository: IWaitlistRepository;
+  private readonly appointmentRepository: IAppointmentRepository;
+  private readonly messageService: IMessageService;
+  private readonly appointmentTypeService?: IAppointmentTypeService;
+  private readonly patientService?: IPatientService;
+
+  constructor(
+    config: WaitlistServiceConfig,
+    waitlistRepository: IWaitlistRepository,
+    appointmentRepository: IAppointmentRepository,
+    messageService: IMessageService,
+    dependencies: WaitlistServiceDependencies = {}
+  ) {
+    this.config = config;
+    this.waitlistRepository = waitlistRepository;
+    this.appointmentRepository = appointmentRepository;
+    this.messageService = messageService;
+    this.appointmentTypeService = dependencies.appointmentTypeService;
+    this.patientService = dependencies.patientService;
+  }
+
+  async joinWaitlist(request: WaitlistRequest): Promise<WaitlistEntryEntity> {
+    // Rejects unknown and retired types
+    await this.appointmentTypeService?.getType(request.type);
+
+    if (request.latestAt <= new Date()) {
+      throw new ValidationError('The requested date range has already passed');
+    }
+
+    const patient = await this.patientService?.findOrCreatePatient(request);
+
+    return await this.waitlistRepository.create(new WaitlistEntryEntity({
+      ...request,
+      patientId: patient?.id,
+      status: WaitlistStatus.WAITING
+    }));
+  }
+
+  async listEntries(status?: WaitlistStatus): Promise<WaitlistEntryEntity[]> {
+    return await this.waitlistRepository.findByStatus(status);
+  }
+
+  async leaveWaitlist(entryId: string): Promise<WaitlistEntryEntity> {
+    const entry = await this.waitlistRepository.findById(entryId);
+    if (!entry) {
+      throw new NotFoundError(`Waitlist entry with ID ${entryId} not found`);
+    }
+    if (entry.status === WaitlistStatus.BOOKED || entry.status === WaitlistStatus.CANCELLED) {
+      throw new ValidationError(`Waitlist entry is already ${entry.status}`);
+    }
+
+    const heldSlot = this.heldSlot(entry);
+    entry.cancel();
+    const cancelled = await this.waitlistRepository.update(entryId, entry);
+
+    if (heldSlot) {
+      await this.offerToNext(heldSlot, entry);
+    }
+    return cancelled;
+  }
+
+  async offerFreedSlot(slot: FreedSlot): Promise<WaitlistEntryEntity | null> {
+    return await this.offerSlot(slot);
+  }
+
+  async getClaimableOffer(token: string): Promise<WaitlistEntryEntity> {
+    const entry = await this.waitlistRepository.findByOfferToken(token);
+    if (!entry || entry.status !== WaitlistStatus.OFFERED) {
+      throw new NotFoundError('This offer is no longer available');
+    }
+    if (entry.isOfferExpired()) {
+      throw new ConflictError('This offer has expired');
+    }
+    return entry;
+  }
+
+  async completeClaim(entry: WaitlistEntryEntity, appointmentId: string): Promise<WaitlistEntryEntity> {
+    entry.markBooked(appointmentId);
+    return await this.waitlistRepository.update(entry.id!, entry);
+  }
+
+  async releaseOffer(entry: WaitlistEntryEntity): Promise<void> {
+    const heldSlot = this.heldSlot(entry);
+    entry.withdrawOffer();
+    await this.waitlistRepository.update(entry.id!, entry);
+
+    if (heldSlot) {
+      await this.offerToNext(heldSlot, entry);
+    }
+  }
+
+  async expireOffers(now: Date = new Date()): Promise<number> {
+    const expired = await this.waitlistRepository.findExpiredOffers(now);
+
+    for (const entry of expired) {
+      try {
+        await this.releaseOffer(entry);
+      } catch (error) {
+        console.error(`Failed to expire waitlist offer for entry ${entry.id}:`, error);
+      }
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Pass a slot on to whoever joined after this entry. Earlier entries were already passed over
+   * when the slot was first offered.
+   */
+  private async offerToNext(slot: FreedSlot, entry: WaitlistEntryEntity): Promise<void> {
+    await this.offerSlot(slot, { createdAt: entry.createdAt!, id: entry.id! });
+  }
+
+  private async offerSlot(slot: FreedSlot, after?: { createdAt: Date; id: string }): Promise<WaitlistEntryEntity | null> {
+    const now = new Date();
+    if (slot.startAt <= now) {
+      return null;
+    }
+
+    // Someone may have booked the slot between it being freed and now
+    const available = await this.appointmentRepository.isAvailable(slot.startAt, slot.endAt, undefined, slot.providerId);
+    if (!available) {
+      return null;
+    }
+
+    const candidates = await this.waitlistRepository.findWaitingFor(slot, after);
+    for (const candidate of candidates) {
+      const windowEnd = new Date(now.getTime() + this.config.claimWindowMinutes * MINUTE_MS);
+      const offered = await this.waitlistRepository.makeOffer(candidate.id!, {
+        token: randomBytes(24).toString('base64url'),
+        startAt: slot.startAt,
+        endAt: slot.endAt,
+        providerId: slot.providerId,
+        // A slot can't be claimed once it has started
+        expiresAt: windowEnd < slot.startAt ? windowEnd : slot.startAt
+      });
+
+      // Null means another freed slot reached this patient first
+      if (offered) {
+        await this.sendOffer(offered);
+        return offered;
+      }
+    }
+
+    return null;
+  }
+
+  private heldSlot(entry: WaitlistEntryEntity): FreedSlot | undefined {
+    if (!entry.offer) {
+      return undefined;
+    }
+    return {
+      startAt: entry.offer.startAt,
+      endAt: entry.offer.endAt,
+      type: entry.type,
+      providerId: entry.offer.providerId
+    };
+  }
+
+  private async sendOffer(entry: WaitlistEntryEntity): Promise<void> {
+    try {
+      const claimUrl = `${this.config.claimBaseUrl}/waitlist/claim/${entry.offer!.token}`;
+      await this.messageService.sendWaitlistOfferMessage(entry, claimUrl);
+    } catch (error) {
+      console.error(`❌ Failed to send waitlist offer for entry: ${entry.id}:`, error);
+      // Don't throw error - the offer still stands and lapses if nobody claims it
+    }
+  }
+}
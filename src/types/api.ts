@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { AppointmentStatus, AppointmentTypeCodeSchema } from './schedule';
+import { WaitlistStatus } from './waitlist';
+import { SeriesScopeSchema } from './series';
+import { OutboxStatus } from './outbox';
+
+/**
+ * Request schemas for the admin REST API (/api/v1).
+ * Appointment creation reuses ScheduleRequestSchema from the Retell flow.
+ */
+
+// Query strings carry lists as comma-separated values, e.g. ?status=scheduled,confirmed
+const commaSeparated = <T extends z.ZodType>(item: T) => z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',').map(part => part.trim()).filter(Boolean) : value),
+  z.array(item).min(1)
+);
+
+// Every id in an /api/v1 path is a UUID primary key; anything else would only fail in Postgres
+export const ApiPathParamsSchema = z.object({
+  appointmentId: z.uuid(),
+  patientId: z.uuid(),
+  seriesId: z.uuid(),
+  entryId: z.uuid(),
+  messageId: z.uuid()
+}).partial();
+
+export const AppointmentSearchQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  status: commaSeparated(z.nativeEnum(AppointmentStatus)).optional(),
+  type: commaSeparated(AppointmentTypeCodeSchema).optional(),
+  providerId: z.uuid().optional(),
+  patientName: z.string().trim().min(1).optional(),
+  callId: z.string().trim().min(1).optional(),
+  contact: z.string().trim().min(1).optional(), // Email or phone number
+  seriesId: z.uuid().optional(),
+  sortBy: z.enum(['startAt', 'createdAt']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().min(1).optional()
+});
+
+// Reschedules, type changes and provider changes; patient details are fixed once booked.
+// `scope: 'following'` applies the change to the rest of a recurring series too.
+export const AppointmentUpdateSchema = z.object({
+  startAt: z.coerce.date().optional(),
+  endAt: z.coerce.date().optional(),
+  type: AppointmentTypeCodeSchema.optional(),
+  providerId: z.uuid().optional(),
+  scope: SeriesScopeSchema.optional()
+}).strict().refine(({ scope, ...changes }) => Object.values(changes).some(value => value !== undefined), {
+  message: 'At least one of startAt, endAt, type or providerId must be provided'
+});
+
+export const AppointmentCancelSchema = z.object({
+  scope: SeriesScopeSchema.optional()
+}).strict();
+
+export const PatientListQuerySchema = z.object({
+  email: z.string().trim().min(1).optional(),
+  phoneNumber: z.string().trim().min(1).optional()
+}).refine((data) => data.email || data.phoneNumber, {
+  message: 'Either email or phone number must be provided',
+  path: ['email', 'phoneNumber']
+});
+
+export const PatientMergeSchema = z.object({
+  targetPatientId: z.uuid() // The record that survives the merge
+});
+
+export const WaitlistListQuerySchema = z.object({
+  status: z.nativeEnum(WaitlistStatus).optional()
+});
+
+export const OutboxListQuerySchema = z.object({
+  status: z.nativeEnum(OutboxStatus).optional(),
+  appointmentId: z.uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional()
+});
+
+export type ApiPathParams = z.infer<typeof ApiPathParamsSchema>;
+export type AppointmentSearchQueryParams = z.infer<typeof AppointmentSearchQuerySchema>;
+export type AppointmentUpdate = z.infer<typeof AppointmentUpdateSchema>;
+export type AppointmentCancel = z.infer<typeof AppointmentCancelSchema>;
+export type PatientListQuery = z.infer<typeof PatientListQuerySchema>;
+export type PatientMerge = z.infer<typeof PatientMergeSchema>;
+export type WaitlistListQuery = z.infer<typeof WaitlistListQuerySchema>;
+export type OutboxListQuery = z.infer<typeof OutboxListQuerySchema>;
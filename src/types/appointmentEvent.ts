@@ -0,0 +1,60 @@
+import { Appointment } from './schedule';
+
+export enum AppointmentEventType {
+  CREATED = 'created',
+  RESCHEDULED = 'rescheduled', // New start or end time, or moved to another provider
+  TYPE_CHANGED = 'type_changed',
+  STATUS_CHANGED = 'status_changed', // e.g. confirmed by the patient
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * Who made a change to an appointment.
+ */
+export enum ActorType {
+  RETELL_CALL = 'retell_call', // The voice agent; the actor ID is the call ID
+  API_USER = 'api_user', // Staff through the admin REST API; the actor ID identifies the API key
+  PATIENT = 'patient', // The patient, through a self-service link, a text reply or a waitlist offer; the actor ID is their patient ID
+  SYSTEM = 'system' // A background job, or code that didn't say who it acts for
+}
+
+/**
+ * Where a change to an appointment came in.
+ */
+export enum ChangeChannel {
+  VOICE_AGENT = 'voice_agent',
+  ADMIN_API = 'admin_api',
+  SELF_SERVICE = 'self_service', // Signed links in patient messages
+  SMS_REPLY = 'sms_reply',
+  WAITLIST_CLAIM = 'waitlist_claim',
+  SYSTEM = 'system'
+}
+
+/**
+ * Who made a change and how, recorded with every appointment event.
+ */
+export interface ChangeContext {
+  channel: ChangeChannel;
+  actorType: ActorType;
+  actorId?: string; // e.g. the Retell call ID or the API key's ID
+}
+
+export const SYSTEM_CHANGE: ChangeContext = { channel: ChangeChannel.SYSTEM, actorType: ActorType.SYSTEM };
+
+// The fields of an appointment its history keeps track of
+export type AppointmentSnapshot = Pick<Appointment, 'startAt' | 'endAt' | 'type' | 'status' | 'providerId'>;
+
+/**
+ * One change to an appointment, as recorded in appointment_events.
+ */
+export interface AppointmentEvent {
+  id?: string;
+  appointmentId: string;
+  eventType: AppointmentEventType;
+  before?: Partial<AppointmentSnapshot>; // The changed fields' old values; absent for created
+  after: Partial<AppointmentSnapshot>; // Their new values; every tracked field for created
+  channel: ChangeChannel;
+  actorType: ActorType;
+  actorId?: string;
+  createdAt?: Date;
+}
@@ -0,0 +1,32 @@
+import { AppointmentTypeCode } from './schedule';
+
+/**
+ * A single opening interval on one day of the week, in the clinic's local wall-clock time.
+ * Split shifts and lunch breaks are described by several rules for the same day.
+ */
+export interface BusinessHoursRule {
+  id?: string;
+  locationId?: string;
+  providerId?: string;
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  opensAt: string; // "HH:mm"
+  closesAt: string; // "HH:mm"
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface SlotSearchRequest {
+  from: Date;
+  to: Date;
+  type: AppointmentTypeCode;
+  providerId?: string;
+  limit?: number;
+}
+
+export interface AvailableSlot {
+  startAt: Date;
+  endAt: Date;
+  providerId?: string;
+  providerName?: string;
+  timeZone?: string; // Set when the provider's location has its own time zone
+}
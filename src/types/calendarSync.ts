@@ -0,0 +1,35 @@
+/**
+ * Whether an appointment's calendar event reflects its latest change.
+ */
+export enum CalendarSyncState {
+  PENDING = 'pending', // A sync job is waiting for its first or next attempt
+  SYNCED = 'synced',
+  FAILED = 'failed' // Gave up after the last retry; synced again with the next change or when re-driven
+}
+
+export enum CalendarSyncJobStatus {
+  PENDING = 'pending',
+  DONE = 'done',
+  FAILED = 'failed'
+}
+
+// What the change asked of the calendar. Jobs sync the appointment as it is when they run.
+export enum CalendarSyncAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete'
+}
+
+export interface CalendarSyncJob {
+  id?: string;
+  appointmentId: string;
+  action: CalendarSyncAction;
+  status: CalendarSyncJobStatus;
+  revision: number; // Bumped by each change folded into the job while it waits
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date | null;
+}
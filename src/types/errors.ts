@@ -37,6 +37,13 @@ export class AppointmentCancellationError extends AppError {
   }
 }
 
+export class AppointmentConfirmationError extends AppError {
+  constructor(message: string) {
+    super('APPOINTMENT_CONFIRMATION_ERROR', message);
+    Object.setPrototypeOf(this, AppointmentConfirmationError.prototype);
+  }
+}
+
 export class AppointmentReschedulingError extends AppError {
   constructor(message: string) {
     super('APPOINTMENT_RESCHEDULING_ERROR', message);
@@ -44,6 +51,20 @@ export class AppointmentReschedulingError extends AppError {
   }
 }
 
+export class RecipientOptedOutError extends AppError {
+  constructor(message: string) {
+    super('RECIPIENT_OPTED_OUT', message);
+    Object.setPrototypeOf(this, RecipientOptedOutError.prototype);
+  }
+}
+
+export class RequestInProgressError extends AppError {
+  constructor(message: string) {
+    super('REQUEST_IN_PROGRESS', message);
+    Object.setPrototypeOf(this, RequestInProgressError.prototype);
+  }
+}
+
 export class TimeSlotUnavailableError extends AppError {
   constructor(message: string) {
     super('TIME_SLOT_UNAVAILABLE', message);
@@ -51,6 +72,13 @@ export class TimeSlotUnavailableError extends AppError {
   }
 }
 
+export class OutsideBusinessHoursError extends AppError {
+  constructor(message: string) {
+    super('OUTSIDE_BUSINESS_HOURS', message);
+    Object.setPrototypeOf(this, OutsideBusinessHoursError.prototype);
+  }
+}
+
 export class PastDateError extends AppError {
   constructor(message: string) {
     super('PAST_DATE_ERROR', message);
@@ -58,6 +86,13 @@ export class PastDateError extends AppError {
   }
 }
 
+export class MigrationError extends AppError {
+  constructor(message: string) {
+    super('MIGRATION_ERROR', message);
+    Object.setPrototypeOf(this, MigrationError.prototype);
+  }
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
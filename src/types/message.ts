@@ -0,0 +1,50 @@
+import { MessageChannel } from './outbox';
+
+export enum MessageStatus {
+  SENT = 'sent', // Accepted by the transport
+  FAILED = 'failed', // The transport refused it or could not be reached
+  DELIVERED = 'delivered', // Confirmed by a delivery receipt
+  UNDELIVERED = 'undelivered' // A delivery receipt reported a bounce or carrier failure
+}
+
+/**
+ * One attempt to send a patient message, as recorded in the messages table.
+ */
+export interface Message {
+  id?: string;
+  outboxMessageId?: string;
+  appointmentId?: string;
+  waitlistEntryId?: string;
+  channel: MessageChannel;
+  recipient: string;
+  template: string;
+  language?: string;
+  templateVersion?: number;
+  transport: string;
+  status: MessageStatus;
+  providerMessageId?: string;
+  providerResponse?: unknown;
+  error?: string;
+  statusUpdatedAt?: Date;
+  createdAt?: Date;
+}
+
+/**
+ * A provider's report on a message it accepted earlier.
+ */
+export interface DeliveryReceipt {
+  channel: MessageChannel;
+  providerMessageId: string;
+  status: MessageStatus.DELIVERED | MessageStatus.UNDELIVERED;
+  detail?: unknown; // The provider's payload, kept as the latest provider response
+}
+
+/**
+ * Clinic details quoted in patient messages.
+ */
+export interface ClinicBranding {
+  name: string;
+  phone: string;
+  address?: string;
+  email?: string;
+}
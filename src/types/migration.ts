@@ -0,0 +1,41 @@
+/**
+ * One file in the sql directory, named V<version>__<description>.sql.
+ */
+export interface Migration {
+  version: number;
+  description: string; // From the file name, e.g. "create appointments table"
+  script: string; // The file name
+  checksum: string; // SHA-256 of the file, with line endings normalized
+  sql: string;
+}
+
+/**
+ * A migration as recorded in schema_migrations once it has been applied.
+ */
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  script: string;
+  checksum: string;
+  appliedAt: Date;
+  executionMs?: number; // Absent for migrations adopted from Flyway's history
+}
+
+export enum MigrationState {
+  APPLIED = 'applied',
+  PENDING = 'pending',
+  DRIFTED = 'drifted', // Applied, but the file has changed since
+  MISSING = 'missing', // Applied, but the file is gone
+  OUT_OF_ORDER = 'out_of_order' // Not applied, but a later version already is
+}
+
+/**
+ * How one migration stands against the database, as listed by a dry run.
+ */
+export interface MigrationStatus {
+  version: number;
+  description: string;
+  script: string;
+  state: MigrationState;
+  appliedAt?: Date;
+}
@@ -0,0 +1,50 @@
+export enum OutboxStatus {
+  PENDING = 'pending', // Waiting for its first or next delivery attempt
+  SENT = 'sent',
+  DEAD = 'dead' // Gave up after the last retry; only delivered again when re-driven
+}
+
+export type MessageChannel = 'email' | 'sms';
+
+/**
+ * An iCalendar (.ics) invite attached to an email.
+ */
+export interface CalendarInvite {
+  method: 'REQUEST' | 'CANCEL';
+  filename: string;
+  content: string;
+}
+
+/**
+ * A rendered patient message, ready to hand to the delivery webhook.
+ */
+export interface OutboundMessage {
+  to: string;
+  subject: string;
+  body: string; // Plain text; the short variant for SMS
+  html?: string; // Emails only
+  calendarInvite?: CalendarInvite; // Emails about a single appointment
+  type: MessageChannel;
+  appointmentId?: string;
+  waitlistEntryId?: string;
+  eventType: string;
+  language?: string; // Language and version of the template it was rendered from
+  templateVersion?: number;
+}
+
+export interface OutboxMessage extends OutboundMessage {
+  id?: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date | null;
+}
+
+export interface OutboxFilter {
+  status?: OutboxStatus;
+  appointmentId?: string;
+  limit?: number;
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { MessageChannel } from './outbox';
+
+/**
+ * Kinds of patient message a patient can opt in to or out of separately.
+ */
+export enum MessageCategory {
+  APPOINTMENT_UPDATES = 'appointment_updates', // Confirmations, reschedules and cancellations, single or series
+  REMINDERS = 'reminders',
+  WAITLIST_OFFERS = 'waitlist_offers'
+}
+
+/**
+ * Where a consent decision was captured.
+ */
+export enum ConsentSource {
+  VOICE_AGENT = 'voice_agent', // During a Retell call; the reference is the call ID
+  STAFF = 'staff' // Front-desk staff through the admin REST API
+}
+
+/**
+ * One opt-in or opt-out, as recorded in communication_consents. Later records override earlier ones.
+ */
+export interface ConsentRecord {
+  channel: MessageChannel;
+  category?: MessageCategory; // Every category when omitted
+  granted: boolean;
+  source: ConsentSource;
+  sourceReference?: string;
+  recordedAt: Date;
+}
+
+/**
+ * A daily window, in the clinic's local time, in which the patient is not messaged.
+ * It may cross midnight, e.g. 21:00 to 08:00.
+ */
+export interface QuietHours {
+  start: string; // "HH:mm"
+  end: string; // "HH:mm"
+}
+
+export interface CommunicationPreferences {
+  patientId: string;
+  preferredChannel?: MessageChannel; // Only this channel is used while the patient accepts it
+  quietHours?: QuietHours;
+  consents: ConsentRecord[]; // Oldest first
+  updatedAt?: Date | null;
+}
+
+const ChannelSchema = z.enum(['email', 'sms']);
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be given as HH:mm');
+
+export const ConsentChangeSchema = z.object({
+  channel: ChannelSchema,
+  category: z.nativeEnum(MessageCategory).optional(),
+  granted: z.boolean()
+});
+
+// null clears a preference; omitted fields are left as they are
+export const PreferencesUpdateSchema = z.object({
+  preferredChannel: ChannelSchema.nullable().optional(),
+  quietHours: z.object({ start: TimeOfDaySchema, end: TimeOfDaySchema })
+    .refine((hours) => hours.start !== hours.end, { message: 'Quiet hours must start and end at different times' })
+    .nullable()
+    .optional(),
+  consents: z.array(ConsentChangeSchema).optional()
+}).strict().refine((update) => update.preferredChannel !== undefined || update.quietHours !== undefined || !!update.consents?.length, {
+  message: 'At least one of preferredChannel, quietHours or consents must be provided'
+});
+
+export type ConsentChange = z.infer<typeof ConsentChangeSchema>;
+export type PreferencesUpdate = z.infer<typeof PreferencesUpdateSchema>;
@@ -0,0 +1,21 @@
+export enum ReminderStatus {
+  PENDING = 'pending',
+  SENDING = 'sending', // Claimed by a dispatcher; never claimed again, so it is sent at most once
+  SENT = 'sent',
+  SKIPPED = 'skipped', // The appointment was cancelled or moved before the reminder went out
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export interface AppointmentReminder {
+  id?: string;
+  appointmentId: string;
+  offsetMinutes: number;
+  appointmentStartAt: Date;
+  dueAt: Date;
+  status: ReminderStatus;
+  sentAt?: Date;
+  lastError?: string;
+  createdAt?: Date;
+  updatedAt?: Date | null;
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
+import { CalendarSyncState } from './calendarSync';
 
+// Codes of the appointment types the catalogue is seeded with. Clinics can add their own types to
+// the appointment_types catalogue, so appointments carry an AppointmentTypeCode rather than one of these.
 export enum AppointmentType {
   CONSULTATION = 'consultation',
   FOLLOW_UP = 'follow_up',
@@ -15,6 +18,11 @@ export enum AppointmentType {
   ROUTINE = 'routine'
 }
 
+// A code from the appointment_types catalogue. Whether the clinic offers it is checked against the
+// catalogue (appointmentTypeService.getType) when it is booked, searched for or waitlisted.
+export type AppointmentTypeCode = string;
+export const AppointmentTypeCodeSchema = z.string().trim().min(1);
+
 export enum AppointmentStatus {
   SCHEDULED = 'scheduled',
   CONFIRMED = 'confirmed',
@@ -22,6 +30,13 @@ export enum AppointmentStatus {
   COMPLETED = 'completed'
 }
 
+// Languages patient messages are written in
+export enum Language {
+  ENGLISH = 'en',
+  FRENCH = 'fr',
+  SPANISH = 'es'
+}
+
 
 export const ScheduleRequestSchema = z.object({
   firstName: z.string().min(1),
@@ -29,12 +44,14 @@ export const ScheduleRequestSchema = z.object({
   email: z.email().optional(),
   phoneNumber: z.string().optional(),
   startAt: z.coerce.date(),
-  endAt: z.coerce.date(),
-  type: z.nativeEnum(AppointmentType),
+  endAt: z.coerce.date().optional(), // Derived from the appointment type's default duration when omitted
+  type: AppointmentTypeCodeSchema,
   notes: z.record(z.string(), z.any()).optional().default({}), // JSONB object
   reason: z.string().optional(),
-  callId: z.string().optional()
-}).refine((data) => data.endAt > data.startAt, {
+  callId: z.string().optional(),
+  providerId: z.uuid().optional(), // Preferred provider; any available provider is assigned when omitted
+  preferredLanguage: z.nativeEnum(Language).optional() // Saved on the patient's record for future messages
+}).refine((data) => !data.endAt || data.endAt > data.startAt, {
   message: 'endAt must be after startAt',
   path: ['endAt']
 }).refine((data) => data.email || data.phoneNumber, {
@@ -42,7 +59,10 @@ export const ScheduleRequestSchema = z.object({
   path: ['email', 'phoneNumber']
 });
 
-export type ScheduleRequest = z.infer<typeof ScheduleRequestSchema>;
+export type ScheduleRequestInput = z.infer<typeof ScheduleRequestSchema>;
+
+// A schedule request once its end time is known
+export type ScheduleRequest = ScheduleRequestInput & { endAt: Date };
 
 export interface RetellWebhookRequest {
   name: string;
@@ -66,15 +86,86 @@ export interface Appointment {
   phoneNumber?: string;
   startAt: Date;
   endAt: Date;
-  type: AppointmentType;
+  type: AppointmentTypeCode;
   notes: Record<string, any>; // JSONB object - stores full Retell call data
   reason?: string;
   status: AppointmentStatus;
   calendarEventId?: string;
+  calendarSyncState?: CalendarSyncState;
+  providerId?: string;
+  patientId?: string;
+  seriesId?: string; // Set on occurrences of a recurring series
   createdAt: Date;
   updatedAt?: Date | null;
 }
 
+export type AppointmentSortField = 'startAt' | 'createdAt';
+export type SortOrder = 'asc' | 'desc';
+
+export interface AppointmentSearchFilters {
+  from?: Date; // Appointments starting at or after this time
+  to?: Date; // ...and before this time
+  statuses?: AppointmentStatus[]; // Any status when omitted
+  types?: AppointmentTypeCode[];
+  providerId?: string;
+  patientName?: string; // Prefix of the first or last name, or "first last"; case-insensitive
+  callId?: string; // Retell call that created the booking
+  contact?: string; // Email or phone number, including the patient's other bookings
+  seriesId?: string; // Occurrences of a recurring series
+}
+
+export interface AppointmentSearchQuery extends AppointmentSearchFilters {
+  sortBy?: AppointmentSortField; // Defaults to startAt
+  sortOrder?: SortOrder; // Defaults to asc
+  limit?: number;
+  cursor?: string; // nextCursor from the previous page
+}
+
+// What repositories receive once the service has applied defaults and decoded the cursor
+export interface AppointmentSearchCriteria extends AppointmentSearchFilters {
+  sortBy: AppointmentSortField;
+  sortOrder: SortOrder;
+  limit: number;
+  after?: { value: Date; id: string }; // Sort key of the last row already returned
+}
+
+export interface Patient {
+  id?: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phoneNumber?: string;
+  mergedIntoId?: string; // Set once this record has been merged into another patient
+  preferredLanguage?: Language; // Messages use the clinic's default language when unset
+  createdAt?: Date;
+  updatedAt?: Date | null;
+}
+
+export interface Provider {
+  id: string;
+  firstName: string;
+  lastName: string;
+  title?: string;
+  email?: string;
+  locationId?: string;
+  timeZone?: string; // The location's IANA time zone, if it has its own
+  active: boolean;
+  createdAt: Date;
+  updatedAt?: Date | null;
+}
+
+export interface AppointmentTypeDefinition {
+  code: AppointmentTypeCode;
+  name: string;
+  defaultDurationMinutes: number;
+  allowedDurationsMinutes: number[];
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  minLeadTimeMinutes: number;
+  providerIds: string[]; // Empty means any provider can perform it
+  active: boolean;
+}
+
 export interface BusySlot {
   start: Date;
   end: Date;
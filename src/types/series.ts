@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { AppointmentTypeCode, ScheduleRequestSchema } from './schedule';
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly'
+}
+
+export enum SeriesStatus {
+  ACTIVE = 'active',
+  CANCELLED = 'cancelled'
+}
+
+// Which occurrences a reschedule or cancellation applies to
+export const SeriesScopeSchema = z.enum(['this', 'following']);
+
+export type SeriesScope = z.infer<typeof SeriesScopeSchema>;
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/**
+ * RRULE-style recurrence: FREQ, INTERVAL, COUNT or UNTIL, and EXDATE-style exceptions.
+ * Like RRULE, skipped exception dates still count towards `count`.
+ */
+export const RecurrenceRuleSchema = z.object({
+  frequency: z.nativeEnum(RecurrenceFrequency),
+  interval: z.coerce.number().int().min(1).max(12).default(1),
+  count: z.coerce.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+  until: z.coerce.date().optional(),
+  exceptions: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Exceptions must be local dates (YYYY-MM-DD)')).default([])
+}).refine((data) => data.count || data.until, {
+  message: 'Either count or until must be provided',
+  path: ['count', 'until']
+});
+
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>;
+
+export const SeriesRequestSchema = ScheduleRequestSchema.and(z.object({
+  recurrence: RecurrenceRuleSchema
+}));
+
+export type SeriesRequestInput = z.infer<typeof SeriesRequestSchema>;
+
+export interface AppointmentSeries {
+  id?: string;
+  patientId?: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phoneNumber?: string;
+  type: AppointmentTypeCode;
+  providerId?: string;
+  startAt: Date;
+  durationMinutes: number;
+  timeZone: string;
+  recurrence: RecurrenceRule;
+  status: SeriesStatus;
+  callId?: string;
+  createdAt?: Date;
+  updatedAt?: Date | null;
+}
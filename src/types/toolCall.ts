@@ -0,0 +1,28 @@
+export enum ToolCallStatus {
+  IN_PROGRESS = 'in_progress', // Claimed by the request handling it; duplicates wait
+  COMPLETED = 'completed' // Duplicates get the stored response
+}
+
+/**
+ * Identifies one Retell tool call: Retell retries with the same call, function and arguments.
+ */
+export interface ToolCallKey {
+  callId: string;
+  functionName: string;
+  argsHash: string; // SHA-256 of the arguments, with object keys sorted
+}
+
+/**
+ * The response sent for a tool call, replayed for its duplicates.
+ */
+export interface ToolCallResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+export interface ToolCall extends ToolCallKey {
+  status: ToolCallStatus;
+  response?: ToolCallResponse;
+  claimedAt?: Date;
+  completedAt?: Date;
+}
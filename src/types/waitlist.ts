@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { AppointmentTypeCode, AppointmentTypeCodeSchema, Language } from './schedule';
+
+export enum WaitlistStatus {
+  WAITING = 'waiting',
+  OFFERED = 'offered', // Holding a time-limited offer for a freed slot
+  BOOKED = 'booked',
+  CANCELLED = 'cancelled'
+}
+
+export const WaitlistRequestSchema = z.object({
+  firstName: z.string().min(1),
+  lastName: z.string().min(1),
+  email: z.email().optional(),
+  phoneNumber: z.string().optional(),
+  type: AppointmentTypeCodeSchema,
+  providerId: z.uuid().optional(), // Any provider when omitted
+  earliestAt: z.coerce.date(),
+  latestAt: z.coerce.date(),
+  callId: z.string().optional(),
+  preferredLanguage: z.nativeEnum(Language).optional()
+}).refine((data) => data.latestAt > data.earliestAt, {
+  message: 'latestAt must be after earliestAt',
+  path: ['latestAt']
+}).refine((data) => data.email || data.phoneNumber, {
+  message: 'Either email or phone number must be provided',
+  path: ['email', 'phoneNumber']
+});
+
+export type WaitlistRequest = z.infer<typeof WaitlistRequestSchema>;
+
+/**
+ * A slot that became free through a cancellation or reschedule.
+ */
+export interface FreedSlot {
+  startAt: Date;
+  endAt: Date;
+  type: AppointmentTypeCode;
+  providerId?: string;
+}
+
+export interface WaitlistOffer {
+  token: string;
+  startAt: Date;
+  endAt: Date;
+  providerId?: string;
+  expiresAt: Date;
+}
+
+export interface WaitlistEntry {
+  id?: string;
+  patientId?: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phoneNumber?: string;
+  type: AppointmentTypeCode;
+  providerId?: string;
+  earliestAt: Date;
+  latestAt: Date;
+  status: WaitlistStatus;
+  offer?: WaitlistOffer;
+  appointmentId?: string;
+  callId?: string;
+  createdAt?: Date;
+  updatedAt?: Date | null;
+}
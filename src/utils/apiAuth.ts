@@ -0,0 +1,73 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Compare two secrets in constant time. Hashing first gives both buffers the same length.
+ */
+function secretsMatch(given: string, expected: string): boolean {
+  const a = createHash('sha256').update(given).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Read the credential from an `X-API-Key` header or an `Authorization: Bearer <token>` header.
+ */
+export function getRequestCredential(request: FastifyRequest): string | undefined {
+  const apiKey = request.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey.length > 0) {
+    return apiKey;
+  }
+
+  const authorization = request.headers.authorization;
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+/**
+ * A short, stable ID for the credential a request was made with, e.g. "key_3f2a9c1e", so changes
+ * can be put down to the key that made them without storing the key itself.
+ */
+export function getApiKeyId(request: FastifyRequest): string | undefined {
+  const credential = getRequestCredential(request);
+  return credential ? `key_${createHash('sha256').update(credential).digest('hex').slice(0, 8)}` : undefined;
+}
+
+/**
+ * Create a Fastify hook that rejects requests without one of the configured API keys.
+ * The same keys are accepted as bearer tokens.
+ * 
+ * @param apiKeys - Accepted keys, e.g. from ADMIN_API_KEYS
+ * @returns onRequest hook for the protected routes
+ */
+export function createApiKeyAuth(apiKeys: string[]) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const credential = getRequestCredential(request);
+    // Check every key so the response time doesn't reveal which one came close
+    const authorized = !!credential && apiKeys.reduce((found, key) => secretsMatch(credential, key) || found, false);
+
+    if (!authorized) {
+      reply
+        .code(401)
+        .header('WWW-Authenticate', 'Bearer')
+        .send({ code: 'UNAUTHORIZED', message: 'A valid API key or bearer token is required' });
+    }
+  };
+}
+
+/**
+ * Create a Fastify hook for webhooks whose senders can't set headers (e.g. Twilio status callbacks):
+ * the shared secret travels as a `token` query parameter in the callback URL.
+ *
+ * @param token - The secret configured in the callback URL, e.g. from DELIVERY_RECEIPT_TOKEN
+ * @returns onRequest hook for the protected routes
+ */
+export function createQueryTokenAuth(token: string) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const given = (request.query as Record<string, unknown> | undefined)?.token;
+
+    if (typeof given !== 'string' || !secretsMatch(given, token)) {
+      reply.code(401).send({ code: 'UNAUTHORIZED', message: 'A valid token is required' });
+    }
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Google Calendar event IDs chosen by the app rather than by Google
+ */
+
+/**
+ * The event ID an appointment's calendar event is created under. Deriving it from the appointment
+ * makes a retried create land on the same event instead of adding a duplicate.
+ * Google accepts 5-1024 characters from base32hex (a-v and 0-9); a UUID's hex digits all qualify.
+ */
+export function calendarEventIdFor(appointmentId: string): string {
+  return `appt${appointmentId.replace(/-/g, '').toLowerCase()}`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Contact detail normalization, so the same person is found however they spell their email or phone number
+ */
+import { CountryCode, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js';
+
+/**
+ * Country assumed for phone numbers given without an international prefix
+ */
+export const DEFAULT_PHONE_COUNTRY: CountryCode = 'US';
+
+/**
+ * Check whether a value is an ISO 3166-1 alpha-2 country code we can parse phone numbers for
+ * @param country - Country code such as 'CA' or 'GB'
+ * @returns True if phone numbers can be normalized for the country
+ */
+export function isSupportedPhoneCountry(country: string): country is CountryCode {
+  return isSupportedCountry(country);
+}
+
+/**
+ * Canonicalize an email address for storage and comparison
+ * @param email - Email address as given by the caller
+ * @returns Trimmed, lowercase email address
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Convert a phone number to E.164, e.g. "416 555 1234" -> "+14165551234"
+ * @param phoneNumber - Phone number in national or international format
+ * @param defaultCountry - Country assumed when the number has no international prefix
+ * @returns E.164 phone number, or the trimmed input if it cannot be parsed as a phone number
+ */
+export function normalizePhoneNumber(phoneNumber: string, defaultCountry: CountryCode = DEFAULT_PHONE_COUNTRY): string {
+  const parsed = parsePhoneNumberFromString(phoneNumber, defaultCountry);
+  if (!parsed || !parsed.isPossible()) {
+    return phoneNumber.trim();
+  }
+  return parsed.number;
+}
+
+/**
+ * Normalize a lookup value that may be either an email address or a phone number
+ * @param emailOrPhone - Email address or phone number
+ * @param defaultCountry - Country assumed for phone numbers without an international prefix
+ * @returns Canonical email address or E.164 phone number
+ */
+export function normalizeEmailOrPhone(emailOrPhone: string, defaultCountry: CountryCode = DEFAULT_PHONE_COUNTRY): string {
+  return emailOrPhone.includes('@')
+    ? normalizeEmail(emailOrPhone)
+    : normalizePhoneNumber(emailOrPhone, defaultCountry);
+}
@@ -0,0 +1,47 @@
+/**
+ * Opaque cursors for keyset pagination
+ */
+import { ValidationError } from '../types/errors';
+
+interface CursorPayload {
+  s: string; // Sort the cursor was issued for, e.g. "startAt:asc"
+  v: string; // Sort value of the last row, as an ISO string
+  id: string; // Tie-breaker for rows with the same sort value
+}
+
+/**
+ * Encode the position after a row
+ * @param sort - Sort the page was produced with, e.g. "startAt:asc"
+ * @param value - Sort value of the last row on the page
+ * @param id - ID of the last row on the page
+ * @returns URL-safe cursor string
+ */
+export function encodeCursor(sort: string, value: Date, id: string): string {
+  const payload: CursorPayload = { s: sort, v: value.toISOString(), id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor issued by encodeCursor
+ * @param cursor - Cursor string from a previous page
+ * @param sort - Sort of the current request; must match the one the cursor was issued for
+ * @returns Sort value and ID of the last row already returned
+ * @throws ValidationError if the cursor is malformed or belongs to a different sort
+ */
+export function decodeCursor(cursor: string, sort: string): { value: Date; id: string } {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  const value = new Date(payload?.v);
+  if (typeof payload?.id !== 'string' || isNaN(value.getTime())) {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (payload.s !== sort) {
+    throw new ValidationError('The cursor was issued for a different sort order');
+  }
+  return { value, id: payload.id };
+}
@@ -104,3 +104,159 @@ export function getCurrentDayEndUTC(): Date {
   const now = getCurrentTimeUTC();
   return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 23, 59, 59, 999));
 }
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the wall-clock date and time of an instant in an IANA time zone
+ * @param date - The instant to convert
+ * @param timeZone - IANA time zone name, e.g. "America/Toronto"
+ * @returns The calendar fields as seen on a clock in that time zone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * Get the offset between UTC and an IANA time zone at a given instant
+ * @param date - The instant to evaluate (offsets change with daylight saving time)
+ * @param timeZone - IANA time zone name
+ * @returns Offset in minutes to add to UTC to get local time
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in an IANA time zone to a UTC instant
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of the month
+ * @param hour - Hour (0-23)
+ * @param minute - Minute (0-59)
+ * @param timeZone - IANA time zone name
+ * @returns Date object for that local time
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const asUTC = Date.UTC(year, month - 1, day, hour, minute, 0, 0);
+  const firstGuess = asUTC - getTimeZoneOffsetMinutes(new Date(asUTC), timeZone) * 60000;
+  // Re-evaluate the offset at the guessed instant in case it sits across a DST transition
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(asUTC - offset * 60000);
+}
+
+/**
+ * Format minutes since midnight as a 24-hour "HH:mm" string
+ * @param minutes - Minutes since midnight
+ * @returns Time string, e.g. "09:30"
+ */
+export function formatMinutesAsTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a "HH:mm" or "HH:mm:ss" time string into minutes since midnight
+ * @param time - Time string as stored in a Postgres `time` column
+ * @returns Minutes since midnight
+ */
+export function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a string is an IANA time zone name the runtime understands
+ * @param timeZone - Time zone name, e.g. "America/Toronto"
+ * @returns True if the time zone can be used for formatting
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+/**
+ * Parse a date/time string, reading values without a UTC offset as wall-clock time in a time zone
+ * @param value - ISO 8601 string; "2025-09-22T14:00:00Z" and "2025-09-22T14:00:00-04:00" are absolute,
+ *                "2025-09-22T14:00" and "2025-09-22" are local to the time zone
+ * @param timeZone - IANA time zone name used for local values
+ * @returns Date object (invalid if the string can't be parsed)
+ */
+export function parseDateTimeInput(value: string, timeZone: string): Date {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  const date = zonedTimeToUtc(Number(year), Number(month), Number(day), Number(hour), Number(minute), timeZone);
+  return new Date(date.getTime() + Number(second) * 1000);
+}
+
+/**
+ * Format an instant as an ISO 8601 string with the time zone's UTC offset
+ * @param date - The instant to format
+ * @param timeZone - IANA time zone name
+ * @returns ISO string, e.g. "2025-09-22T10:00:00-04:00"
+ */
+export function formatZonedISOString(date: Date, timeZone: string): string {
+  const parts = getZonedDateParts(date, timeZone);
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const sign = offset < 0 ? '-' : '+';
+  const absOffset = Math.abs(offset);
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.floor(absOffset / 60))}:${pad(absOffset % 60)}`;
+}
@@ -1,13 +1,42 @@
 import { FastifyReply } from 'fastify';
 import { 
+  AppError,
   ValidationError, 
   ConflictError, 
   NotFoundError, 
   AppointmentCancellationError,
+  AppointmentConfirmationError,
+  AppointmentReschedulingError,
   TimeSlotUnavailableError,
-  PastDateError 
+  OutsideBusinessHoursError,
+  PastDateError,
+  RequestInProgressError
 } from '../types/errors';
 
+/**
+ * Response body for an error the Retell tools answer with instead of failing.
+ *
+ * @param error - The error to describe
+ * @returns The body with success: false and the error code, or null if the error should be re-thrown
+ */
+export function getApiErrorBody(error: unknown): { success: false; code: string; message: string } | null {
+  if (
+    error instanceof ValidationError ||
+    error instanceof ConflictError ||
+    error instanceof NotFoundError ||
+    error instanceof AppointmentCancellationError ||
+    error instanceof TimeSlotUnavailableError ||
+    error instanceof OutsideBusinessHoursError ||
+    error instanceof PastDateError ||
+    error instanceof RequestInProgressError
+  ) {
+    return { success: false, code: error.code, message: error.message };
+  }
+
+  // Error not handled, should be re-thrown
+  return null;
+}
+
 /**
  * Centralized error handler for API operations.
  * Always returns HTTP 200 with structured response containing success: false and error code.
@@ -17,57 +46,96 @@ import {
  * @returns true if error was handled, false if it should be re-thrown
  */
 export function handleApiError(error: unknown, reply: FastifyReply): boolean {
-  if (error instanceof ValidationError) {
-    reply.code(200).send({ success: false, code: error.code, message: error.message });
-    return true;
+  const body = getApiErrorBody(error);
+  if (!body) {
+    return false;
   }
-  
-  if (error instanceof ConflictError) {
-    reply.code(200).send({ success: false, code: error.code, message: error.message });
-    return true;
-  }
-  
+
+  reply.code(200).send(body);
+  return true;
+}
+
+/**
+ * Wrapper function to handle errors in async handler methods.
+ * Use this to wrap handler logic and automatically handle known errors.
+ * 
+ * @param handlerFn - The async handler function to wrap
+ * @returns Wrapped handler function with error handling
+ */
+export function withErrorHandling<T extends any[], R>(
+  handlerFn: (...args: T) => Promise<R>
+) {
+  return async (...args: T): Promise<R | void> => {
+    const reply = args[args.length - 1] as FastifyReply;
+    
+    try {
+      return await handlerFn(...args);
+    } catch (error) {
+      if (handleApiError(error, reply)) {
+        return;
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * HTTP status code for an application error in the REST API.
+ * Unknown AppError subclasses are treated as bad requests.
+ */
+export function getHttpStatusForError(error: AppError): number {
   if (error instanceof NotFoundError) {
-    reply.code(200).send({ success: false, code: error.code, message: error.message });
-    return true;
+    return 404;
   }
-  
-  if (error instanceof AppointmentCancellationError) {
-    reply.code(200).send({ success: false, code: error.code, message: error.message });
-    return true;
+  if (error instanceof ConflictError || error instanceof TimeSlotUnavailableError || error instanceof RequestInProgressError) {
+    return 409;
   }
-  
-  if (error instanceof TimeSlotUnavailableError) {
-    reply.code(200).send({ success: false, code: error.code, message: error.message });
-    return true;
+  if (
+    error instanceof OutsideBusinessHoursError ||
+    error instanceof AppointmentCancellationError ||
+    error instanceof AppointmentConfirmationError ||
+    error instanceof AppointmentReschedulingError ||
+    error instanceof PastDateError
+  ) {
+    return 422;
   }
-  
-  if (error instanceof PastDateError) {
-    reply.code(200).send({ success: false, code: error.code, message: error.message });
+  return 400;
+}
+
+/**
+ * Error handler for the REST API.
+ * Unlike handleApiError, responds with the HTTP status code matching the error.
+ * 
+ * @param error - The error to handle
+ * @param reply - Fastify reply object
+ * @returns true if error was handled, false if it should be re-thrown
+ */
+export function handleHttpError(error: unknown, reply: FastifyReply): boolean {
+  if (error instanceof AppError) {
+    reply.code(getHttpStatusForError(error)).send({ code: error.code, message: error.message });
     return true;
   }
-  
-  // Error not handled, should be re-thrown
+
+  // Error not handled, Fastify responds with 500
   return false;
 }
 
 /**
- * Wrapper function to handle errors in async handler methods.
- * Use this to wrap handler logic and automatically handle known errors.
+ * Wrapper function to handle errors in REST API handler methods with real HTTP status codes.
  * 
  * @param handlerFn - The async handler function to wrap
  * @returns Wrapped handler function with error handling
  */
-export function withErrorHandling<T extends any[], R>(
+export function withHttpErrorHandling<T extends any[], R>(
   handlerFn: (...args: T) => Promise<R>
 ) {
   return async (...args: T): Promise<R | void> => {
     const reply = args[args.length - 1] as FastifyReply;
-    
+
     try {
       return await handlerFn(...args);
     } catch (error) {
-      if (handleApiError(error, reply)) {
+      if (handleHttpError(error, reply)) {
         return;
       }
       throw error;
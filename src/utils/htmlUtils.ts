@@ -0,0 +1,29 @@
+import { FastifyReply } from 'fastify';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Send a minimal patient-facing HTML page. `content` is inserted as is, so values in it must
+ * already be escaped.
+ */
+export function sendHtmlPage(reply: FastifyReply, statusCode: number, title: string, clinicName: string, content: string): void {
+  reply.code(statusCode).type('text/html; charset=utf-8').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)} - ${escapeHtml(clinicName)}</title>
+</head>
+<body style="font-family: sans-serif; max-width: 32rem; margin: 2rem auto; padding: 0 1rem;">
+  <h1>${escapeHtml(title)}</h1>
+  ${content}
+</body>
+</html>`);
+}
@@ -0,0 +1,104 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer for the invites attached to patient emails.
+ */
+
+export type IcsMethod = 'REQUEST' | 'CANCEL';
+
+export interface IcsPerson {
+  name: string;
+  email: string;
+}
+
+export interface IcsEvent {
+  method: IcsMethod;
+  uid: string; // The same for every invite about one appointment, so calendars update the event in place
+  sequence: number; // Must grow with each revision of the event
+  startAt: Date;
+  endAt: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer?: IcsPerson;
+  attendee?: IcsPerson;
+  stamp?: Date; // When the invite was created; defaults to now
+}
+
+const PRODUCT_ID = '-//MedMe//Appointment Scheduling//EN';
+const MAX_LINE_OCTETS = 75;
+
+// 20300115T193000Z
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// TEXT values escape backslashes, semicolons, commas and line breaks (RFC 5545 3.3.11)
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values can't contain quotes, so they are dropped before quoting (RFC 5545 3.2)
+function quoteParameter(value: string): string {
+  return `"${value.replace(/"/g, '')}"`;
+}
+
+/**
+ * Split a content line into 75-octet pieces, continued on lines that start with a space
+ * (RFC 5545 3.1). Multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  const pieces: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+function person(property: string, who: IcsPerson, parameters: string[] = []): string {
+  return `${[property, `CN=${quoteParameter(who.name)}`, ...parameters].join(';')}:mailto:${who.email}`;
+}
+
+/**
+ * A VCALENDAR holding one event. Times are written in UTC, so no VTIMEZONE is needed.
+ */
+export function buildIcsCalendar(event: IcsEvent): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDate(event.stamp ?? new Date())}`,
+    `DTSTART:${formatIcsDate(event.startAt)}`,
+    `DTEND:${formatIcsDate(event.endAt)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    ...(event.organizer ? [person('ORGANIZER', event.organizer)] : []),
+    ...(event.attendee ? [person('ATTENDEE', event.attendee, ['ROLE=REQ-PARTICIPANT', 'PARTSTAT=ACCEPTED', 'RSVP=FALSE'])] : []),
+    `STATUS:${event.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
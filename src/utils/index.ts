@@ -1,2 +1,12 @@
 export * from './dateUtils';
 export * from './errorHandler';
+export * from './contactUtils';
+export * from './apiAuth';
+export * from './cursorUtils';
+export * from './recurrenceUtils';
+export * from './icsUtils';
+export * from './manageLinkUtils';
+export * from './htmlUtils';
+export * from './migrationUtils';
+export * from './calendarUtils';
+export * from './postgrestUtils';
@@ -0,0 +1,74 @@
+/**
+ * Interval arithmetic helpers for availability calculations.
+ * Intervals are half-open: [start, end).
+ */
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Merge overlapping or touching intervals
+ * @param intervals - Intervals in any order
+ * @returns Sorted, non-overlapping intervals
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Remove every part of the source intervals that is covered by the removed intervals
+ * @param source - Intervals to subtract from
+ * @param removed - Intervals to subtract
+ * @returns Sorted remainder of the source intervals
+ */
+export function subtractIntervals(source: TimeInterval[], removed: TimeInterval[]): TimeInterval[] {
+  const blocks = mergeIntervals(removed);
+  const result: TimeInterval[] = [];
+
+  for (const interval of mergeIntervals(source)) {
+    let cursor = interval.start;
+    for (const block of blocks) {
+      if (block.end <= cursor || block.start >= interval.end) {
+        continue;
+      }
+      if (block.start > cursor) {
+        result.push({ start: cursor, end: block.start });
+      }
+      if (block.end > cursor) {
+        cursor = block.end;
+      }
+    }
+    if (cursor < interval.end) {
+      result.push({ start: cursor, end: interval.end });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether an interval overlaps any of the given intervals
+ * @param interval - The interval to test
+ * @param others - Intervals to test against
+ * @returns True if the interval shares any time with another interval
+ */
+export function overlapsAny(interval: TimeInterval, others: TimeInterval[]): boolean {
+  return others.some(other => interval.start < other.end && interval.end > other.start);
+}
@@ -0,0 +1,68 @@
+/**
+ * Signed, expiring links that let a patient manage one appointment without signing in
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ValidationError } from '../types/errors';
+
+export interface ManageLinkConfig {
+  baseUrl: string; // Public URL of this server, e.g. https://scheduling.example.com
+  secret: string; // Signs the tokens; changing it invalidates every link already sent
+  validDays: number; // How long a link works after it was sent
+}
+
+interface ManageTokenPayload {
+  a: string; // Appointment ID
+  x: number; // Expiry, in seconds since the epoch
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function sign(encodedPayload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(encodedPayload).digest();
+}
+
+/**
+ * Create a token for an appointment, valid until `expiresAt`
+ * @returns URL-safe token: the payload and its HMAC-SHA256 signature, joined by a dot
+ */
+export function createManageToken(appointmentId: string, expiresAt: Date, secret: string): string {
+  const payload: ManageTokenPayload = { a: appointmentId, x: Math.floor(expiresAt.getTime() / 1000) };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secret).toString('base64url')}`;
+}
+
+/**
+ * Check a token issued by createManageToken
+ * @returns ID of the appointment the token was issued for
+ * @throws ValidationError if the token was tampered with or has expired
+ */
+export function readManageToken(token: string, secret: string, now: Date = new Date()): string {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  const given = Buffer.from(signature ?? '', 'base64url');
+  const expected = sign(encodedPayload ?? '', secret);
+  if (rest.length > 0 || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new ValidationError('This link is not valid');
+  }
+
+  let payload: ManageTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('This link is not valid');
+  }
+  if (typeof payload?.a !== 'string' || typeof payload.x !== 'number') {
+    throw new ValidationError('This link is not valid');
+  }
+  if (payload.x * 1000 <= now.getTime()) {
+    throw new ValidationError('This link has expired. Please call the clinic to change your appointment');
+  }
+  return payload.a;
+}
+
+/**
+ * Page where the patient can confirm, cancel or reschedule the appointment
+ */
+export function createManageUrl(appointmentId: string, config: ManageLinkConfig, now: Date = new Date()): string {
+  const expiresAt = new Date(now.getTime() + config.validDays * DAY_MS);
+  return `${config.baseUrl}/appointments/manage/${createManageToken(appointmentId, expiresAt, config.secret)}`;
+}
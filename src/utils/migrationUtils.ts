@@ -0,0 +1,59 @@
+/**
+ * Discovery of the versioned SQL migrations in the sql directory
+ */
+import { createHash } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { Migration } from '../types/migration';
+import { MigrationError } from '../types/errors';
+
+// The repository's sql directory, from both src/utils and dist/utils
+export const DEFAULT_MIGRATIONS_DIR = path.resolve(__dirname, '..', '..', 'sql');
+
+const MIGRATION_FILENAME = /^V(\d+)__(\w+)\.sql$/;
+
+/**
+ * Read the version and description from a file name like "V3__create_business_hours.sql"
+ * @returns null if the name doesn't follow the convention
+ */
+export function parseMigrationFilename(filename: string): { version: number; description: string } | null {
+  const match = filename.match(MIGRATION_FILENAME);
+  if (!match) {
+    return null;
+  }
+  return { version: Number(match[1]), description: match[2].replace(/_/g, ' ') };
+}
+
+/**
+ * SHA-256 of a migration's contents. Line endings are normalized so a checkout on Windows doesn't
+ * count as a change.
+ */
+export function migrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Load every migration in a directory, lowest version first
+ * @throws MigrationError for a .sql file that doesn't follow the naming convention (it would never
+ * be applied) or two files with the same version
+ */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+  const filenames = (await readdir(directory)).filter(filename => filename.endsWith('.sql'));
+  const migrations: Migration[] = [];
+
+  for (const filename of filenames) {
+    const parsed = parseMigrationFilename(filename);
+    if (!parsed) {
+      throw new MigrationError(`${filename} is not named V<version>__<description>.sql`);
+    }
+    const duplicate = migrations.find(migration => migration.version === parsed.version);
+    if (duplicate) {
+      throw new MigrationError(`${filename} and ${duplicate.script} have the same version`);
+    }
+
+    const sql = await readFile(path.join(directory, filename), 'utf8');
+    migrations.push({ ...parsed, script: filename, checksum: migrationChecksum(sql), sql });
+  }
+
+  return migrations.sort((a, b) => a.version - b.version);
+}
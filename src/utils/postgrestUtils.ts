@@ -0,0 +1,8 @@
+/**
+ * Helpers for building PostgREST filter strings, as passed to the Supabase client's or()
+ */
+
+// Quote a value inside a PostgREST or() filter so commas, dots and parentheses are not read as syntax
+export function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, match => `\\${match}`)}"`;
+}
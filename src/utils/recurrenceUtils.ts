@@ -0,0 +1,87 @@
+import { RecurrenceFrequency, RecurrenceRule, MAX_SERIES_OCCURRENCES } from '../types/series';
+import { ValidationError } from '../types/errors';
+import { getZonedDateParts, zonedTimeToUtc } from './dateUtils';
+
+/**
+ * Local calendar date of an instant as "YYYY-MM-DD"
+ * @param date - The instant
+ * @param timeZone - IANA time zone name
+ */
+export function toLocalDateString(date: Date, timeZone: string): string {
+  const parts = getZonedDateParts(date, timeZone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/**
+ * Expand a recurrence rule into occurrence start times.
+ * Occurrences keep the first one's wall-clock time in the given time zone, so a 9am weekly
+ * appointment stays at 9am across daylight saving changes. Monthly rules skip months without
+ * the start date's day (e.g. the 31st), as RRULE does.
+ * @param startAt - First occurrence
+ * @param rule - Recurrence rule
+ * @param timeZone - IANA time zone the series is scheduled in
+ * @returns Occurrence start times in order, without exception dates
+ * @throws ValidationError when the rule produces more than MAX_SERIES_OCCURRENCES occurrences
+ */
+export function expandRecurrence(startAt: Date, rule: RecurrenceRule, timeZone: string): Date[] {
+  const first = getZonedDateParts(startAt, timeZone);
+  const exceptions = new Set(rule.exceptions ?? []);
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  for (let step = 0; ; step++) {
+    const candidate = occurrenceAt(first, rule.frequency, step * (rule.interval ?? 1), timeZone);
+    if (!candidate) {
+      continue;
+    }
+    if (rule.until && candidate > rule.until) {
+      break;
+    }
+
+    generated++;
+    if (!exceptions.has(toLocalDateString(candidate, timeZone))) {
+      occurrences.push(candidate);
+      if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+        throw new ValidationError(`A series can have at most ${MAX_SERIES_OCCURRENCES} appointments`);
+      }
+    }
+    if (rule.count && generated >= rule.count) {
+      break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Plain-English description of a recurrence, e.g. "every 2 weeks"
+ */
+export function describeRecurrence(rule: Pick<RecurrenceRule, 'frequency' | 'interval'>): string {
+  const unit = { [RecurrenceFrequency.DAILY]: 'day', [RecurrenceFrequency.WEEKLY]: 'week', [RecurrenceFrequency.MONTHLY]: 'month' }[rule.frequency];
+  const interval = rule.interval ?? 1;
+  return interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`;
+}
+
+function occurrenceAt(
+  first: ReturnType<typeof getZonedDateParts>,
+  frequency: RecurrenceFrequency,
+  offset: number,
+  timeZone: string
+): Date | null {
+  switch (frequency) {
+    case RecurrenceFrequency.DAILY:
+      return zonedTimeToUtc(first.year, first.month, first.day + offset, first.hour, first.minute, timeZone);
+    case RecurrenceFrequency.WEEKLY:
+      return zonedTimeToUtc(first.year, first.month, first.day + offset * 7, first.hour, first.minute, timeZone);
+    case RecurrenceFrequency.MONTHLY: {
+      const monthIndex = first.month - 1 + offset;
+      const year = first.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      if (first.day > daysInMonth) {
+        return null;
+      }
+      return zonedTimeToUtc(year, month, first.day, first.hour, first.minute, timeZone);
+    }
+  }
+}